@@ -1,11 +1,13 @@
 import { useState } from "react";
 import { useLocation } from "wouter";
+import { trpc } from "../lib/trpc";
 
 /**
  * FileUploadForm — Upload audio file to create a job
  *
  * Minimal implementation:
  * - File input (WAV, MP3, AIFF, FLAC)
+ * - Pipeline preset select
  * - Upload button
  * - Error display
  * - Loading state
@@ -14,6 +16,8 @@ import { useLocation } from "wouter";
 export function FileUploadForm() {
   const [, navigate] = useLocation();
   const [file, setFile] = useState<File | null>(null);
+  const [preset, setPreset] = useState("full");
+  const presetsQuery = trpc.jobs.presets.useQuery();
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
@@ -30,6 +34,7 @@ export function FileUploadForm() {
     }
 
     const formData = new FormData();
+    formData.append("preset", preset);
     formData.append("file", file);
 
     setLoading(true);
@@ -89,6 +94,17 @@ export function FileUploadForm() {
         )}
       </div>
 
+      <div style={{ marginBottom: "1rem" }}>
+        <label style={{ fontSize: "0.9rem", marginRight: "0.5rem" }}>Pipeline:</label>
+        <select value={preset} onChange={(e) => setPreset(e.target.value)} disabled={loading}>
+          {(presetsQuery.data ?? [{ name: "full" }]).map((entry) => (
+            <option key={entry.name} value={entry.name}>
+              {entry.name}
+            </option>
+          ))}
+        </select>
+      </div>
+
       <button
         onClick={handleUpload}
         disabled={!file || loading}
@@ -0,0 +1,129 @@
+import { Button } from "@/components/ui/button";
+import { Slider } from "@/components/ui/slider";
+import { useStemPlayer } from "@/hooks/useStemPlayer";
+import { WaveformViewer } from "./WaveformViewer";
+
+/**
+ * StemMixer — Audition a job's stems without downloading the ZIP
+ *
+ * Streams the mix and each stem from the artifact endpoints and plays them
+ * in sync (see useStemPlayer):
+ * - Play/pause and a position slider
+ * - Per-stem gain, mute and solo
+ * - A loop region set from the playhead (A/B)
+ * - The waveform of every source underneath, once the WAVEFORM stage completed
+ */
+
+interface StemMixerProps {
+  jobId: string;
+  stems: string[];
+  durationSec: number;
+  // The downloaded audio, when the job has one
+  hasMix: boolean;
+  waveform?: { sources?: string[]; zoomLevels?: number[] };
+}
+
+function formatTime(seconds: number): string {
+  const minutes = Math.floor(seconds / 60);
+  return `${minutes}:${(seconds - minutes * 60).toFixed(1).padStart(4, "0")}`;
+}
+
+export function StemMixer({ jobId, stems, durationSec, hasMix, waveform }: StemMixerProps) {
+  const tracks: Record<string, string> = {};
+  if (hasMix) {
+    tracks.mix = `/api/jobs/${jobId}/audio/mix`;
+  }
+  for (const stem of stems) {
+    tracks[stem] = `/api/jobs/${jobId}/artifacts/stems/${encodeURIComponent(stem)}.wav`;
+  }
+  const player = useStemPlayer(tracks);
+  const { loop } = player;
+
+  const setLoopStart = () =>
+    player.setLoop({ start: player.currentTime, end: loop && loop.end > player.currentTime ? loop.end : durationSec });
+  const setLoopEnd = () =>
+    player.setLoop({ start: loop && loop.start < player.currentTime ? loop.start : 0, end: player.currentTime });
+
+  return (
+    <div>
+      {/* Transport */}
+      <div className="flex items-center gap-2 mb-2">
+        <Button size="sm" onClick={() => (player.playing ? player.pause() : player.play())}>
+          {player.playing ? "Pause" : "Play"}
+        </Button>
+        <span className="font-mono text-xs text-gray-600 w-24">
+          {formatTime(player.currentTime)} / {formatTime(durationSec)}
+        </span>
+        <Slider
+          className="flex-1"
+          min={0}
+          max={durationSec}
+          step={0.1}
+          value={[player.currentTime]}
+          onValueChange={([time]) => player.seek(time)}
+        />
+      </div>
+
+      {/* Loop region */}
+      <div className="flex items-center gap-2 mb-4 text-sm">
+        <span className="text-gray-600">Loop</span>
+        <Button size="sm" variant="outline" onClick={setLoopStart}>
+          Set A
+        </Button>
+        <Button size="sm" variant="outline" onClick={setLoopEnd}>
+          Set B
+        </Button>
+        {loop ? (
+          <>
+            <span className="font-mono text-xs">
+              {formatTime(loop.start)} – {formatTime(loop.end)}
+            </span>
+            <Button size="sm" variant="ghost" onClick={() => player.setLoop(null)}>
+              Clear
+            </Button>
+          </>
+        ) : (
+          <span className="text-xs text-gray-500">off</span>
+        )}
+      </div>
+
+      {/* Channel strips */}
+      <div className="space-y-2 mb-4">
+        {player.sources.map((source) => (
+          <div key={source} className="flex items-center gap-2">
+            <span className={`text-sm w-16 truncate ${player.isAudible(source) ? "" : "text-gray-400"}`}>{source}</span>
+            <Button
+              size="sm"
+              variant={player.muted.has(source) ? "default" : "outline"}
+              onClick={() => player.toggleMute(source)}
+            >
+              M
+            </Button>
+            <Button
+              size="sm"
+              variant={player.soloed.has(source) ? "default" : "outline"}
+              onClick={() => player.toggleSolo(source)}
+            >
+              S
+            </Button>
+            <Slider
+              className="w-40"
+              min={0}
+              max={1.5}
+              step={0.01}
+              value={[player.gains[source] ?? 1]}
+              onValueChange={([gain]) => player.setGain(source, gain)}
+            />
+            <span className="font-mono text-xs text-gray-600 w-12">
+              {Math.round((player.gains[source] ?? 1) * 100)}%
+            </span>
+          </div>
+        ))}
+      </div>
+
+      {waveform?.sources && waveform.zoomLevels && (
+        <WaveformViewer jobId={jobId} sources={waveform.sources} zoomLevels={waveform.zoomLevels} player={player} />
+      )}
+    </div>
+  );
+}
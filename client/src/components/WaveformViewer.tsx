@@ -0,0 +1,171 @@
+import { useEffect, useRef, useState } from "react";
+import { trpc } from "../lib/trpc";
+import { Button } from "@/components/ui/button";
+import type { StemPlayer } from "@/hooks/useStemPlayer";
+
+/**
+ * WaveformViewer — Zoomable waveform of the mix and each stem
+ *
+ * Draws the peaks written by the WAVEFORM stage under the stem mixer, so
+ * separation quality can be checked before downloading the ZIP:
+ * - Zoom between the stage's zoom levels; only the scrolled-to window is drawn,
+ *   since a song at the finest level is wider than browsers allow a canvas to be
+ * - Playhead and loop region of the mixer's player; click a waveform to seek
+ * - Muted sources are dimmed
+ */
+
+const TRACK_HEIGHT = 64;
+
+// Part of the waveform in view, in pixels
+interface Viewport {
+  left: number;
+  width: number;
+}
+
+interface WaveformViewerProps {
+  jobId: string;
+  sources: string[];
+  zoomLevels: number[];
+  player: StemPlayer;
+}
+
+/**
+ * Draw the peaks of the pixels in the viewport onto a viewport-sized canvas
+ */
+function drawPeaks(
+  canvas: HTMLCanvasElement,
+  data: number[],
+  length: number,
+  viewport: Viewport,
+  color: string
+): void {
+  canvas.width = viewport.width;
+  canvas.height = TRACK_HEIGHT;
+  const context = canvas.getContext("2d");
+  if (!context) {
+    return;
+  }
+
+  const middle = TRACK_HEIGHT / 2;
+  const first = Math.floor(viewport.left);
+  context.clearRect(0, 0, viewport.width, TRACK_HEIGHT);
+  context.fillStyle = color;
+  for (let x = 0; x < viewport.width && first + x < length; x++) {
+    const top = middle - (data[(first + x) * 2 + 1] / 128) * middle;
+    const bottom = middle - (data[(first + x) * 2] / 128) * middle;
+    context.fillRect(x, top, 1, Math.max(1, bottom - top));
+  }
+}
+
+export function WaveformViewer({ jobId, sources, zoomLevels, player }: WaveformViewerProps) {
+  // Coarsest level first, so a whole song fits on screen
+  const [samplesPerPixel, setSamplesPerPixel] = useState(zoomLevels[zoomLevels.length - 1]);
+  const canvasRefs = useRef<Record<string, HTMLCanvasElement | null>>({});
+  const scrollRef = useRef<HTMLDivElement | null>(null);
+  const [viewport, setViewport] = useState<Viewport>({ left: 0, width: 0 });
+
+  const waveformQuery = trpc.jobs.waveform.useQuery({ jobId, samplesPerPixel });
+  const waveform = waveformQuery.data;
+
+  const measureViewport = () => {
+    const container = scrollRef.current;
+    if (container) {
+      setViewport({ left: container.scrollLeft, width: container.clientWidth });
+    }
+  };
+
+  // Follow the width of the page
+  useEffect(() => {
+    measureViewport();
+    window.addEventListener("resize", measureViewport);
+    return () => window.removeEventListener("resize", measureViewport);
+  }, []);
+
+  // Redraw when the zoom level (and so the peaks) or the scrolled-to window changes
+  useEffect(() => {
+    if (!waveform || viewport.width === 0) {
+      return;
+    }
+    for (const source of waveform.index.sources) {
+      const canvas = canvasRefs.current[source];
+      const peaks = waveform.peaks[source];
+      if (canvas && peaks) {
+        drawPeaks(canvas, peaks.data, peaks.length, viewport, source === "mix" ? "#475569" : "#2563eb");
+      }
+    }
+  }, [waveform, viewport]);
+
+  const pixelsPerSecond = waveform ? waveform.index.sampleRate / waveform.samplesPerPixel : 0;
+  const widthPx = waveform ? Math.max(0, ...Object.values(waveform.peaks).map((peaks) => peaks.length)) : 0;
+
+  const handleSeek = (e: React.MouseEvent<HTMLDivElement>) => {
+    if (!waveform) {
+      return;
+    }
+    player.seek((e.clientX - e.currentTarget.getBoundingClientRect().left) / pixelsPerSecond);
+  };
+
+  return (
+    <div>
+      <div className="flex items-center gap-2 mb-2">
+        <span className="text-sm font-semibold">Waveform</span>
+        <span className="ml-auto text-sm text-gray-600">Zoom</span>
+        {zoomLevels.map((level) => (
+          <Button
+            key={level}
+            size="sm"
+            variant={level === samplesPerPixel ? "default" : "outline"}
+            onClick={() => setSamplesPerPixel(level)}
+          >
+            {zoomLevels[zoomLevels.length - 1] / level}x
+          </Button>
+        ))}
+      </div>
+
+      {waveformQuery.error ? (
+        <p className="text-sm text-red-600">Error loading waveform: {waveformQuery.error.message}</p>
+      ) : (
+        <div className="flex">
+          <div className="w-16 shrink-0">
+            {sources.map((source) => (
+              <div key={source} className="flex items-center" style={{ height: TRACK_HEIGHT }}>
+                <span className={`text-sm truncate ${player.isAudible(source) ? "" : "text-gray-400"}`}>{source}</span>
+              </div>
+            ))}
+          </div>
+          <div ref={scrollRef} className="overflow-x-auto flex-1" onScroll={measureViewport}>
+            {!waveform && <p className="text-sm text-gray-500">Loading waveform...</p>}
+            {/* Full width for the scrollbar; the canvases stay in view and draw what is scrolled to */}
+            <div className="relative cursor-pointer" style={{ width: widthPx }} onClick={handleSeek}>
+              {sources.map((source) => (
+                <canvas
+                  key={source}
+                  ref={(canvas) => {
+                    canvasRefs.current[source] = canvas;
+                  }}
+                  className="block sticky left-0"
+                  style={{ width: viewport.width, height: TRACK_HEIGHT, opacity: player.isAudible(source) ? 1 : 0.4 }}
+                />
+              ))}
+              {waveform && player.loop && (
+                <div
+                  className="absolute top-0 bottom-0 bg-amber-300/30 pointer-events-none"
+                  style={{
+                    left: player.loop.start * pixelsPerSecond,
+                    width: (player.loop.end - player.loop.start) * pixelsPerSecond,
+                  }}
+                />
+              )}
+              {waveform && (
+                <div
+                  className="absolute top-0 bottom-0 w-px bg-red-500 pointer-events-none"
+                  style={{ left: player.currentTime * pixelsPerSecond }}
+                />
+              )}
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
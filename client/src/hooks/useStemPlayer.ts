@@ -0,0 +1,189 @@
+import { useEffect, useRef, useState } from "react";
+
+/**
+ * useStemPlayer — Play a job's stems in sync through Web Audio
+ *
+ * Each source streams from an <audio> element (the server answers byte
+ * ranges, so playback starts before a stem is downloaded and seeking is
+ * cheap) routed through its own GainNode:
+ * - Per-source gain, mute and solo (the mix starts muted, so the stems play)
+ * - One clock: the first source leads, the others are pulled back when they drift
+ * - An optional loop region the playhead jumps back from
+ */
+
+// How far a source may drift from the leading one before it is re-synced
+const MAX_DRIFT_SEC = 0.05;
+
+// Gain changes ramp over this time constant instead of clicking
+const GAIN_RAMP_SEC = 0.01;
+
+export interface LoopRegion {
+  start: number;
+  end: number;
+}
+
+export interface StemPlayer {
+  sources: string[];
+  playing: boolean;
+  currentTime: number;
+  gains: Record<string, number>;
+  muted: Set<string>;
+  soloed: Set<string>;
+  loop: LoopRegion | null;
+  isAudible: (source: string) => boolean;
+  play: () => Promise<void>;
+  pause: () => void;
+  seek: (time: number) => void;
+  setGain: (source: string, gain: number) => void;
+  toggleMute: (source: string) => void;
+  toggleSolo: (source: string) => void;
+  setLoop: (loop: LoopRegion | null) => void;
+}
+
+function toggled(set: Set<string>, source: string): Set<string> {
+  const next = new Set(set);
+  if (!next.delete(source)) {
+    next.add(source);
+  }
+  return next;
+}
+
+/**
+ * @param tracks - URL of each source, in display order
+ */
+export function useStemPlayer(tracks: Record<string, string>): StemPlayer {
+  const sources = Object.keys(tracks);
+  const [playing, setPlaying] = useState(false);
+  const [currentTime, setCurrentTime] = useState(0);
+  const [gains, setGains] = useState<Record<string, number>>({});
+  const [muted, setMuted] = useState<Set<string>>(() => new Set(["mix"]));
+  const [soloed, setSoloed] = useState<Set<string>>(() => new Set());
+  const [loop, setLoop] = useState<LoopRegion | null>(null);
+
+  const audios = useRef<Record<string, HTMLAudioElement>>({});
+  const gainNodes = useRef<Record<string, GainNode>>({});
+  const context = useRef<AudioContext | null>(null);
+  const loopRef = useRef(loop);
+  loopRef.current = loop;
+
+  const isAudible = (source: string) => (soloed.size > 0 ? soloed.has(source) : !muted.has(source));
+  const leader = () => audios.current[sources[0]];
+
+  // One element per source; recreated only when the URLs change
+  const trackKey = JSON.stringify(tracks);
+  useEffect(() => {
+    const elements: Record<string, HTMLAudioElement> = {};
+    for (const [source, url] of Object.entries(tracks)) {
+      const audio = new Audio(url);
+      audio.preload = "auto";
+      elements[source] = audio;
+    }
+    audios.current = elements;
+    const first = Object.values(elements)[0];
+    const onEnded = () => setPlaying(false);
+    first?.addEventListener("ended", onEnded);
+
+    return () => {
+      first?.removeEventListener("ended", onEnded);
+      for (const audio of Object.values(elements)) {
+        audio.pause();
+        audio.removeAttribute("src");
+        audio.load();
+      }
+      gainNodes.current = {};
+      context.current?.close();
+      context.current = null;
+      setPlaying(false);
+    };
+  }, [trackKey]);
+
+  // Apply gain, mute and solo to the graph
+  useEffect(() => {
+    const ctx = context.current;
+    if (!ctx) {
+      return;
+    }
+    for (const [source, node] of Object.entries(gainNodes.current)) {
+      const target = isAudible(source) ? (gains[source] ?? 1) : 0;
+      node.gain.setTargetAtTime(target, ctx.currentTime, GAIN_RAMP_SEC);
+    }
+  });
+
+  // Follow the leading source: loop back, re-sync drifting sources, move the playhead
+  useEffect(() => {
+    if (!playing) {
+      return;
+    }
+    let frame = requestAnimationFrame(function tick() {
+      const time = leader()?.currentTime ?? 0;
+      const region = loopRef.current;
+      if (region && time >= region.end) {
+        seek(region.start);
+      } else {
+        for (const audio of Object.values(audios.current)) {
+          if (Math.abs(audio.currentTime - time) > MAX_DRIFT_SEC) {
+            audio.currentTime = time;
+          }
+        }
+        setCurrentTime(time);
+      }
+      frame = requestAnimationFrame(tick);
+    });
+    return () => cancelAnimationFrame(frame);
+  }, [playing]);
+
+  // Browsers only allow an AudioContext to start from a user gesture, so it is built on first play
+  const ensureGraph = (): AudioContext => {
+    if (!context.current) {
+      const ctx = new AudioContext();
+      for (const [source, audio] of Object.entries(audios.current)) {
+        const node = ctx.createGain();
+        node.gain.value = isAudible(source) ? (gains[source] ?? 1) : 0;
+        ctx.createMediaElementSource(audio).connect(node).connect(ctx.destination);
+        gainNodes.current[source] = node;
+      }
+      context.current = ctx;
+    }
+    return context.current;
+  };
+
+  const seek = (time: number) => {
+    for (const audio of Object.values(audios.current)) {
+      audio.currentTime = time;
+    }
+    setCurrentTime(time);
+  };
+
+  const play = async () => {
+    await ensureGraph().resume();
+    const time = leader()?.currentTime ?? 0;
+    seek(loop && (time < loop.start || time >= loop.end) ? loop.start : time);
+    await Promise.all(Object.values(audios.current).map((audio) => audio.play()));
+    setPlaying(true);
+  };
+
+  const pause = () => {
+    for (const audio of Object.values(audios.current)) {
+      audio.pause();
+    }
+    setPlaying(false);
+  };
+
+  return {
+    sources,
+    playing,
+    currentTime,
+    gains,
+    muted,
+    soloed,
+    loop,
+    isAudible,
+    play,
+    pause,
+    seek,
+    setGain: (source, gain) => setGains((current) => ({ ...current, [source]: gain })),
+    toggleMute: (source) => setMuted((current) => toggled(current, source)),
+    toggleSolo: (source) => setSoloed((current) => toggled(current, source)),
+    setLoop,
+  };
+}
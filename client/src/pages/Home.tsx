@@ -2,17 +2,22 @@ import { useState, useEffect } from "react";
 import { useLocation } from "wouter";
 import { FileUploadForm } from "@/components/FileUploadForm";
 import { trpc } from "@/lib/trpc";
+import { useAuth } from "@/_core/hooks/useAuth";
 
 /**
  * StateBadge — Color-coded badge for job state
  */
 function StateBadge({ state }: { state: string }) {
   const stateColors: Record<string, { bg: string; text: string; label: string }> = {
+    SCHEDULED: { bg: "#e0f7fa", text: "#00838f", label: "Scheduled" },
     NEW: { bg: "#e3f2fd", text: "#1976d2", label: "New" },
     CLAIMED: { bg: "#fff3e0", text: "#f57c00", label: "Claimed" },
     RUNNING: { bg: "#f3e5f5", text: "#7b1fa2", label: "Running" },
     DONE: { bg: "#e8f5e9", text: "#388e3c", label: "Done" },
     FAILED: { bg: "#ffebee", text: "#d32f2f", label: "Failed" },
+    COMPLETE: { bg: "#c8e6c9", text: "#1b5e20", label: "Complete" },
+    CANCELLED: { bg: "#eeeeee", text: "#616161", label: "Cancelled" },
+    ARCHIVED: { bg: "#eceff1", text: "#455a64", label: "Archived" },
   };
 
   const config = stateColors[state] || { bg: "#f5f5f5", text: "#666", label: state };
@@ -34,13 +39,23 @@ function StateBadge({ state }: { state: string }) {
   );
 }
 
+const STATE_OPTIONS = ["SCHEDULED", "NEW", "CLAIMED", "RUNNING", "DONE", "FAILED", "COMPLETE", "CANCELLED", "ARCHIVED"];
+const STAGE_OPTIONS = ["DOWNLOAD", "SEPARATION", "WAVEFORM", "LYRICS", "AUDACITY", "PACKAGING"];
+
 /**
  * JobList — Display all jobs with real-time updates
  */
 function JobList() {
   const [, navigate] = useLocation();
+  const [stateFilter, setStateFilter] = useState("");
+  const [stageFilter, setStageFilter] = useState("");
   const { data: jobsList, isLoading, error, refetch } = trpc.jobs.list.useQuery(
-    { limit: 50, offset: 0 },
+    {
+      limit: 50,
+      offset: 0,
+      state: stateFilter || undefined,
+      stage: stageFilter || undefined,
+    },
     { refetchInterval: 2000 } // Poll every 2 seconds
   );
 
@@ -65,6 +80,30 @@ function JobList() {
   return (
     <div style={{ padding: "1rem", border: "1px solid #ccc" }}>
       <h2>Jobs ({jobsList?.length || 0})</h2>
+      <div style={{ display: "flex", gap: "1rem", marginBottom: "1rem" }}>
+        <label style={{ fontSize: "0.9rem" }}>
+          State{" "}
+          <select value={stateFilter} onChange={(e) => setStateFilter(e.target.value)}>
+            <option value="">All</option>
+            {STATE_OPTIONS.map((state) => (
+              <option key={state} value={state}>
+                {state}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label style={{ fontSize: "0.9rem" }}>
+          Stage{" "}
+          <select value={stageFilter} onChange={(e) => setStageFilter(e.target.value)}>
+            <option value="">All</option>
+            {STAGE_OPTIONS.map((stage) => (
+              <option key={stage} value={stage}>
+                {stage}
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
       {!jobsList || jobsList.length === 0 ? (
         <p>No jobs yet. Upload an audio file to get started.</p>
       ) : (
@@ -73,6 +112,7 @@ function JobList() {
             <tr style={{ borderBottom: "1px solid #ccc" }}>
               <th style={{ textAlign: "left", padding: "0.5rem" }}>Job ID</th>
               <th style={{ textAlign: "left", padding: "0.5rem" }}>State</th>
+              <th style={{ textAlign: "left", padding: "0.5rem" }}>Stage</th>
               <th style={{ textAlign: "left", padding: "0.5rem" }}>File</th>
               <th style={{ textAlign: "left", padding: "0.5rem" }}>Status</th>
             </tr>
@@ -90,13 +130,16 @@ function JobList() {
                 <td style={{ padding: "0.5rem" }}>
                   <StateBadge state={job.state} />
                 </td>
+                <td style={{ padding: "0.5rem", fontSize: "0.85rem" }}>
+                  {job.stage || "—"}
+                </td>
                 <td style={{ padding: "0.5rem", fontSize: "0.85rem" }}>
                   {job.metadata?.youtubeUrl && job.metadata.youtubeUrl !== "N/A"
                     ? job.metadata.youtubeUrl.substring(0, 50)
                     : "Uploaded file"}
                 </td>
                 <td style={{ padding: "0.5rem" }}>
-                  {job.state === "DONE" && <span style={{ color: "green" }}>✓ Complete</span>}
+                  {job.state === "COMPLETE" && <span style={{ color: "green" }}>✓ Complete</span>}
                   {job.state === "FAILED" && (
                     <div>
                       <span style={{ color: "red" }}>✗ Failed</span>
@@ -123,8 +166,19 @@ function JobList() {
                       </button>
                     </div>
                   )}
-                  {job.state !== "DONE" && job.state !== "FAILED" && (
-                    <span style={{ color: "blue" }}>⟳ {job.state}</span>
+                  {job.state === "CANCELLED" && <span style={{ color: "#616161" }}>⊘ Cancelled</span>}
+                  {job.state === "ARCHIVED" && <span style={{ color: "#455a64" }}>▣ Archived</span>}
+                  {job.state === "SCHEDULED" && job.metadata?.schedule && (
+                    <span style={{ color: "#00838f" }}>
+                      ⏰ {job.metadata.schedule.cron ? "Next run" : "Runs"}{" "}
+                      {new Date(job.metadata.schedule.runAt).toLocaleString()}
+                      {job.metadata.schedule.cron && ` (${job.metadata.schedule.cron} UTC)`}
+                    </span>
+                  )}
+                  {!["SCHEDULED", "COMPLETE", "FAILED", "CANCELLED", "ARCHIVED"].includes(job.state) && (
+                    <span style={{ color: "blue" }}>
+                      {job.metadata?.pausedAt ? "⏸ Paused" : `⟳ ${job.state}`}
+                    </span>
                   )}
                 </td>
               </tr>
@@ -139,10 +193,97 @@ function JobList() {
   );
 }
 
+/**
+ * WorkerFleet — Registered workers with their current jobs and last hour of stage runs (admins only)
+ */
+function WorkerFleet() {
+  const [, navigate] = useLocation();
+  const { data: workers, isLoading, error } = trpc.workers.list.useQuery(undefined, {
+    refetchInterval: 5000, // Workers heartbeat every 10 seconds by default
+  });
+
+  if (isLoading) return <div>Loading workers...</div>;
+  if (error) return <div style={{ color: "red" }}>Error loading workers: {error.message}</div>;
+
+  const cell = { padding: "0.5rem", fontSize: "0.85rem" };
+
+  return (
+    <div style={{ padding: "1rem", border: "1px solid #ccc", marginTop: "1rem" }}>
+      <h2>Workers ({workers?.length || 0})</h2>
+      {!workers || workers.length === 0 ? (
+        <p>No workers registered.</p>
+      ) : (
+        <table style={{ width: "100%", borderCollapse: "collapse" }}>
+          <thead>
+            <tr style={{ borderBottom: "1px solid #ccc" }}>
+              <th style={{ textAlign: "left", padding: "0.5rem" }}>Worker</th>
+              <th style={{ textAlign: "left", padding: "0.5rem" }}>Stages</th>
+              <th style={{ textAlign: "left", padding: "0.5rem" }}>Device</th>
+              <th style={{ textAlign: "left", padding: "0.5rem" }}>Current job</th>
+              <th style={{ textAlign: "left", padding: "0.5rem" }}>Last hour</th>
+              <th style={{ textAlign: "left", padding: "0.5rem" }}>Heartbeat</th>
+            </tr>
+          </thead>
+          <tbody>
+            {workers.map((worker) => (
+              <tr key={worker.id} style={{ borderBottom: "1px solid #eee", opacity: worker.stale ? 0.6 : 1 }}>
+                <td style={cell}>
+                  <div>{worker.id}</div>
+                  <div style={{ color: "#666" }}>
+                    {worker.host}:{worker.pid} · v{worker.version}
+                  </div>
+                </td>
+                <td style={cell}>{worker.stages.join(", ") || "—"}</td>
+                <td style={cell}>{worker.device.toUpperCase()}</td>
+                <td style={cell}>
+                  {worker.running.length === 0
+                    ? "Idle"
+                    : worker.running.map((run) => (
+                        <div key={run.jobId}>
+                          <a
+                            href={`/jobs/${run.jobId}`}
+                            onClick={(e) => {
+                              e.preventDefault();
+                              navigate(`/jobs/${run.jobId}`);
+                            }}
+                          >
+                            {run.jobId.substring(0, 8)}...
+                          </a>{" "}
+                          {run.stage}
+                        </div>
+                      ))}
+                </td>
+                <td style={cell}>
+                  {worker.completedLastHour} done
+                  {worker.failedLastHour > 0 && (
+                    <span style={{ color: "#d32f2f" }}> · {worker.failedLastHour} failed</span>
+                  )}
+                </td>
+                <td style={cell}>
+                  {worker.stale ? (
+                    <span style={{ color: "#d32f2f", fontWeight: "bold" }}>
+                      Stale ({worker.missedHeartbeats} missed)
+                    </span>
+                  ) : (
+                    <span style={{ color: "green" }}>OK</span>
+                  )}
+                  <div style={{ color: "#666" }}>{new Date(worker.lastHeartbeatAt).toLocaleTimeString()}</div>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+}
+
 /**
  * Home — Main page with file upload and job listing
  */
 export default function Home() {
+  const { user } = useAuth();
+
   return (
     <div style={{ maxWidth: "1200px", margin: "0 auto", padding: "2rem" }}>
       <h1>E.G.O. Studio Audio</h1>
@@ -151,6 +292,7 @@ export default function Home() {
       </p>
       <FileUploadForm />
       <JobList />
+      {user?.role === "admin" && <WorkerFleet />}
     </div>
   );
 }
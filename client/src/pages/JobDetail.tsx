@@ -4,6 +4,7 @@ import { trpc } from "../lib/trpc";
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
+import { StemMixer } from "@/components/StemMixer";
 
 /**
  * Job Detail Page
@@ -11,10 +12,18 @@ import { Badge } from "@/components/ui/badge";
  * Displays:
  * - Job metadata (title, artist, URL, state)
  * - Real-time logs (polling every 2 seconds)
- * - Artifacts (download, separation, lyrics, audacity)
- * - Retry button for FAILED jobs
+ * - Tempo (BPM) from the beats analysis
+ * - Artifacts (download, separation, beats, waveform, lyrics, audacity, packaging)
+ * - Stem preview: mixer with gain/mute/solo, loop region and waveforms (once separated)
+ * - Automatic retries ("attempt 2 of 3, next try in 40s")
+ * - Retry buttons for FAILED jobs (from the failed stage, or from scratch)
+ * - Cancel and Pause/Resume buttons for jobs still in the pipeline
  */
 
+function secondsUntil(isoTime: string): number {
+  return Math.max(0, Math.ceil((new Date(isoTime).getTime() - Date.now()) / 1000));
+}
+
 export function JobDetail() {
   const { jobId } = useParams<{ jobId: string }>();
   const [, navigate] = useLocation();
@@ -47,6 +56,15 @@ export function JobDetail() {
     },
   });
 
+  // Control mutations
+  const refetchJob = () => {
+    jobQuery.refetch();
+    logsQuery.refetch();
+  };
+  const cancelMutation = trpc.jobs.cancel.useMutation({ onSuccess: refetchJob });
+  const pauseMutation = trpc.jobs.pause.useMutation({ onSuccess: refetchJob });
+  const resumeMutation = trpc.jobs.resume.useMutation({ onSuccess: refetchJob });
+
 
 
   if (!jobId) {
@@ -90,13 +108,23 @@ export function JobDetail() {
   }
 
   const stateColors: Record<string, string> = {
+    SCHEDULED: "bg-cyan-100 text-cyan-800",
     NEW: "bg-blue-100 text-blue-800",
     CLAIMED: "bg-yellow-100 text-yellow-800",
     RUNNING: "bg-purple-100 text-purple-800",
     DONE: "bg-green-100 text-green-800",
     FAILED: "bg-red-100 text-red-800",
+    COMPLETE: "bg-green-200 text-green-900",
+    CANCELLED: "bg-gray-200 text-gray-700",
+    ARCHIVED: "bg-slate-200 text-slate-700",
   };
 
+  const isTerminal = ["FAILED", "COMPLETE", "CANCELLED", "ARCHIVED"].includes(job.state);
+  const isPaused = !!job.metadata.pausedAt;
+  const cancelPending = !!job.metadata.cancelRequestedAt;
+  const stems =
+    job.metadata.separation?.status === "COMPLETE" ? Object.keys(job.metadata.separation.stems ?? {}).sort() : [];
+
   return (
     <div className="max-w-4xl mx-auto p-6">
       {/* Header */}
@@ -128,6 +156,10 @@ export function JobDetail() {
             <p className="text-gray-600">Job ID</p>
             <p className="font-mono text-xs">{job.jobId}</p>
           </div>
+          <div>
+            <p className="text-gray-600">Stage</p>
+            <p className="font-mono text-xs">{job.stage || "—"}</p>
+          </div>
           <div>
             <p className="text-gray-600">Created</p>
             <p>{new Date(job.createdAt).toLocaleString()}</p>
@@ -136,6 +168,39 @@ export function JobDetail() {
             <p className="text-gray-600">Updated</p>
             <p>{new Date(job.updatedAt).toLocaleString()}</p>
           </div>
+          {job.metadata.analysis?.status === "COMPLETE" && (
+            <div>
+              <p className="text-gray-600">Tempo</p>
+              <p>
+                {job.metadata.analysis.bpm} BPM ({job.metadata.analysis.beatsPerBar ?? 4}/4)
+              </p>
+              <p className="text-xs text-gray-500">
+                from {job.metadata.analysis.source}, confidence {job.metadata.analysis.confidence}
+              </p>
+            </div>
+          )}
+          {job.state === "SCHEDULED" && job.metadata.schedule && (
+            <div>
+              <p className="text-gray-600">{job.metadata.schedule.cron ? "Next run" : "Runs at"}</p>
+              <p>{new Date(job.metadata.schedule.runAt).toLocaleString()}</p>
+              {job.metadata.schedule.cron && (
+                <p className="font-mono text-xs">
+                  {job.metadata.schedule.cron} (UTC, {job.metadata.schedule.runs ?? 0} runs so far)
+                </p>
+              )}
+            </div>
+          )}
+          {job.metadata.scheduledFrom && (
+            <div>
+              <p className="text-gray-600">Recurring job</p>
+              <button
+                className="font-mono text-xs text-blue-600 underline"
+                onClick={() => handleNavigate(`/jobs/${job.metadata.scheduledFrom}`)}
+              >
+                {job.metadata.scheduledFrom}
+              </button>
+            </div>
+          )}
           <div>
             <p className="text-gray-600">Auto-refresh</p>
             <Button
@@ -168,7 +233,13 @@ export function JobDetail() {
       </Card>
 
       {/* Artifacts */}
-      {(job.metadata.download || job.metadata.separation || job.metadata.lyrics || job.metadata.audacity) && (
+      {(job.metadata.download ||
+        job.metadata.separation ||
+        job.metadata.analysis ||
+        job.metadata.waveform ||
+        job.metadata.lyrics ||
+        job.metadata.audacity ||
+        job.metadata.packaging) && (
         <Card className="p-6 mb-6">
           <h2 className="text-lg font-bold mb-4">Artifacts</h2>
 
@@ -199,6 +270,35 @@ export function JobDetail() {
               <p className="text-sm text-gray-600">
                 Status: <span className="font-mono">{job.metadata.separation.status}</span>
               </p>
+              {job.metadata.separation.device && (
+                <p className="text-sm text-gray-600">
+                  Device: <span className="font-mono">{job.metadata.separation.device}</span>
+                </p>
+              )}
+            </div>
+          )}
+
+          {job.metadata.analysis && (
+            <div className="mb-4">
+              <p className="font-semibold text-sm">Beats</p>
+              <p className="text-sm text-gray-600">
+                Status: <span className="font-mono">{job.metadata.analysis.status}</span>
+              </p>
+              {job.metadata.analysis.error && (
+                <p className="text-sm text-red-600">Error: {job.metadata.analysis.error}</p>
+              )}
+            </div>
+          )}
+
+          {job.metadata.waveform && (
+            <div className="mb-4">
+              <p className="font-semibold text-sm">Waveform</p>
+              <p className="text-sm text-gray-600">
+                Status: <span className="font-mono">{job.metadata.waveform.status}</span>
+              </p>
+              {job.metadata.waveform.error && (
+                <p className="text-sm text-red-600">Error: {job.metadata.waveform.error}</p>
+              )}
             </div>
           )}
 
@@ -219,6 +319,47 @@ export function JobDetail() {
               </p>
             </div>
           )}
+
+          {job.metadata.packaging && (
+            <div className="mb-4">
+              <p className="font-semibold text-sm">Package</p>
+              <p className="text-sm text-gray-600">
+                Status: <span className="font-mono">{job.metadata.packaging.status}</span>
+              </p>
+              {job.metadata.packaging.zipUrl && (
+                <a className="text-sm text-blue-600 underline" href={job.metadata.packaging.zipUrl}>
+                  Download ZIP
+                </a>
+              )}
+            </div>
+          )}
+        </Card>
+      )}
+
+      {/* Stem preview */}
+      {stems.length > 0 && (
+        <Card className="p-6 mb-6">
+          <h2 className="text-lg font-bold mb-4">Stem Preview</h2>
+          <StemMixer
+            jobId={job.jobId}
+            stems={stems}
+            durationSec={Object.values(job.metadata.separation!.stems!)[0].durationSec}
+            hasMix={!!job.metadata.download?.filePath}
+            waveform={job.metadata.waveform?.status === "COMPLETE" ? job.metadata.waveform : undefined}
+          />
+        </Card>
+      )}
+
+      {/* Automatic retry */}
+      {job.retry && (
+        <Card className="p-6 mb-6 border-amber-200 bg-amber-50">
+          <p className="text-amber-800 font-semibold">
+            {job.retry.stage}: attempt {job.retry.attempt} of {job.retry.maxAttempts}
+            {job.retry.nextAttemptAt && `, next try in ${secondsUntil(job.retry.nextAttemptAt)}s`}
+          </p>
+          <p className="text-sm text-amber-700">
+            Previous attempt failed: <span className="font-mono">{job.retry.reason}</span>
+          </p>
         </Card>
       )}
 
@@ -238,12 +379,55 @@ export function JobDetail() {
       {job.state === "FAILED" && (
         <Card className="p-6">
           <h2 className="text-lg font-bold mb-4">Actions</h2>
-          <Button
-            onClick={() => retryMutation.mutate({ jobId: job.jobId })}
-            disabled={retryMutation.isPending}
-          >
-            {retryMutation.isPending ? "Retrying..." : "Retry Job"}
-          </Button>
+          <div className="flex gap-2">
+            <Button
+              onClick={() => retryMutation.mutate({ jobId: job.jobId })}
+              disabled={retryMutation.isPending}
+            >
+              {retryMutation.isPending ? "Retrying..." : `Retry from ${job.stage ?? "DOWNLOAD"}`}
+            </Button>
+            {job.stage && job.stage !== "DOWNLOAD" && (
+              <Button
+                variant="outline"
+                onClick={() => retryMutation.mutate({ jobId: job.jobId, fromStage: "DOWNLOAD" })}
+                disabled={retryMutation.isPending}
+              >
+                Restart from Scratch
+              </Button>
+            )}
+          </div>
+        </Card>
+      )}
+
+      {!isTerminal && (
+        <Card className="p-6">
+          <h2 className="text-lg font-bold mb-4">Actions</h2>
+          <div className="flex gap-2">
+            {isPaused ? (
+              <Button
+                variant="outline"
+                onClick={() => resumeMutation.mutate({ jobId: job.jobId })}
+                disabled={resumeMutation.isPending}
+              >
+                {resumeMutation.isPending ? "Resuming..." : "Resume"}
+              </Button>
+            ) : (
+              <Button
+                variant="outline"
+                onClick={() => pauseMutation.mutate({ jobId: job.jobId })}
+                disabled={pauseMutation.isPending || cancelPending}
+              >
+                {pauseMutation.isPending ? "Pausing..." : "Pause"}
+              </Button>
+            )}
+            <Button
+              variant="destructive"
+              onClick={() => cancelMutation.mutate({ jobId: job.jobId })}
+              disabled={cancelMutation.isPending || cancelPending}
+            >
+              {cancelPending ? "Cancelling..." : "Cancel Job"}
+            </Button>
+          </div>
         </Card>
       )}
     </div>
@@ -0,0 +1 @@
+ALTER TABLE `jobs` MODIFY COLUMN `state` enum('NEW','CLAIMED','RUNNING','DONE','FAILED','COMPLETE','CANCELLED') NOT NULL;
\ No newline at end of file
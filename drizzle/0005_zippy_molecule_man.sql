@@ -0,0 +1 @@
+ALTER TABLE `jobs` MODIFY COLUMN `state` enum('SCHEDULED','NEW','CLAIMED','RUNNING','DONE','FAILED','COMPLETE','CANCELLED','ARCHIVED') NOT NULL;
\ No newline at end of file
@@ -32,7 +32,7 @@ export type InsertUser = typeof users.$inferInsert;
 export const jobs = mysqlTable("jobs", {
   id: int("id").autoincrement().primaryKey(),
   jobId: varchar("jobId", { length: 64 }).notNull().unique(),
-  state: mysqlEnum("state", ["NEW", "CLAIMED", "RUNNING", "DONE", "FAILED"]).notNull(),
+  state: mysqlEnum("state", ["SCHEDULED", "NEW", "CLAIMED", "RUNNING", "DONE", "FAILED", "COMPLETE", "CANCELLED", "ARCHIVED"]).notNull(),
   metadata: text("metadata").notNull(), // JSON string
   ownerId: varchar("ownerId", { length: 64 }),
   leaseExpiresAt: timestamp("leaseExpiresAt"),
@@ -5,11 +5,18 @@ import net from "net";
 import { createExpressMiddleware } from "@trpc/server/adapters/express";
 import { registerOAuthRoutes } from "./oauth";
 import { registerUploadRoutes } from "./upload";
+import { registerJobArtifactRoutes } from "./job-artifacts";
 import { appRouter } from "../routers";
 import { createContext } from "./context";
 import { serveStatic, setupVite } from "./vite";
-import { startJobWorker } from "../lib/job-worker";
+import { startOrchestrator } from "../lib/orchestrator";
 import { scheduleCleanup } from "../lib/artifact-cleanup";
+import { scheduleLeaseSweep } from "../lib/lease-sweeper";
+import { scheduleRetention } from "../lib/retention";
+import { filesystem } from "../lib/filesystem";
+import { drainWorkers } from "../lib/drain";
+import { listStages, parseStageList } from "../lib/adapter-registry";
+import { registerWorker } from "../lib/worker-registry";
 
 function isPortAvailable(port: number): Promise<boolean> {
   return new Promise(resolve => {
@@ -33,12 +40,54 @@ async function findAvailablePort(startPort: number = 3000): Promise<number> {
 async function startServer() {
   const app = express();
   const server = createServer(app);
+
+  // Index job locations and follow moves made by worker processes
+  await filesystem.initializeStorage();
+  const indexedJobs = await filesystem.rebuildIndex();
+  const unwatchIndex = filesystem.watchIndex();
+  console.log(`[JobIndex] Indexed ${indexedJobs} jobs`);
   
-  // Start job worker
-  startJobWorker();
+  // Start the stage queues and dispatch NEW jobs to them (checks every 5 seconds); the server runs
+  // SERVER_STAGES (default: all), leaving the others to standalone workers (pnpm worker --stages ...)
+  const stages = process.env.SERVER_STAGES ? parseStageList(process.env.SERVER_STAGES) : listStages();
+  const timers = [await startOrchestrator(5 * 1000, { stages })];
+  const registration = await registerWorker(stages);
   
   // Start artifact cleanup (runs every 24 hours)
-  scheduleCleanup(24 * 60 * 60 * 1000);
+  timers.push(scheduleCleanup(24 * 60 * 60 * 1000));
+
+  // Reclaim jobs whose worker stopped heartbeating (runs every 30 seconds)
+  timers.push(scheduleLeaseSweep(30 * 1000));
+
+  // Purge, archive and delete old jobs per RETENTION_POLICY (runs every 24 hours)
+  timers.push(scheduleRetention(24 * 60 * 60 * 1000));
+
+  // On SIGTERM/SIGINT stop taking requests and jobs, drain running stages (DRAIN_DEADLINE_MS) and exit;
+  // a second signal exits right away
+  let shuttingDown = false;
+  const shutdown = async (signal: string) => {
+    if (shuttingDown) {
+      console.warn(`[Shutdown] ${signal} received again, exiting without draining`);
+      process.exit(1);
+    }
+    shuttingDown = true;
+    console.log(`[Shutdown] ${signal} received, draining`);
+
+    timers.forEach((timer) => clearInterval(timer));
+    server.close();
+    try {
+      const result = await drainWorkers();
+      await registration.stop();
+      unwatchIndex();
+      process.exit(result.errors.length > 0 ? 1 : 0);
+    } catch (err) {
+      console.error("[Shutdown] Drain failed:", err);
+      process.exit(1);
+    }
+  };
+  process.on("SIGTERM", () => shutdown("SIGTERM"));
+  process.on("SIGINT", () => shutdown("SIGINT"));
+
   // Configure body parser with larger size limit for file uploads
   app.use(express.json({ limit: "50mb" }));
   app.use(express.urlencoded({ limit: "50mb", extended: true }));
@@ -46,6 +95,8 @@ async function startServer() {
   registerOAuthRoutes(app);
   // File upload endpoint under /api/upload
   registerUploadRoutes(app);
+  // Stem and mix streaming (byte ranges) under /api/jobs/:jobId/artifacts and /api/jobs/:jobId/audio
+  registerJobArtifactRoutes(app);
   // tRPC API
   app.use(
     "/api/trpc",
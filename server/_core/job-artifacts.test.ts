@@ -0,0 +1,120 @@
+/**
+ * Job Artifact Streaming Tests
+ *
+ * Tests for GET /api/jobs/:jobId/artifacts/:dir/* and /api/jobs/:jobId/audio/:source.
+ * Validates byte ranges, the served directories, and owner authorization.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import express, { Express } from "express";
+import request from "supertest";
+import fs from "fs-extra";
+import path from "path";
+import type { User } from "../../drizzle/schema";
+import { createFilesystem, FilesystemAPI } from "../lib/filesystem";
+import { parseByteRange, registerJobArtifactRoutes } from "./job-artifacts";
+import { sdk } from "./sdk";
+
+// 1000 bytes, each the low byte of its offset
+const STEM = Buffer.from(Array.from({ length: 1000 }, (_, i) => i % 256));
+
+describe("Job artifact streaming", () => {
+  let app: Express;
+  let storageRoot: string;
+  let filesystem: FilesystemAPI;
+
+  beforeEach(async () => {
+    storageRoot = `/tmp/ego-studio-jobs-test-artifacts-${Date.now()}-${Math.random()}`;
+    filesystem = createFilesystem(storageRoot);
+    await filesystem.initializeStorage();
+
+    app = express();
+    registerJobArtifactRoutes(app, filesystem);
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    try {
+      await fs.remove(storageRoot);
+    } catch (e) {
+      // Ignore cleanup errors
+    }
+  });
+
+  async function createJobWithStems(ownerId?: string): Promise<string> {
+    const { jobId } = await filesystem.createJobFolder("https://youtube.com/watch?v=test", { ownerId });
+    await filesystem.writeArtifact(jobId, "stems", "vocals.wav", STEM);
+    // Demucs output keeps its model directory
+    const stateDir = await filesystem.getJobStateDir(jobId);
+    await fs.outputFile(path.join(stateDir!.dir, "separation", "htdemucs", "vocals.wav"), STEM);
+    await filesystem.writeArtifact(jobId, "lyrics", "lyrics.lrc", "[00:01.00] line");
+    return jobId;
+  }
+
+  function signInAs(user: Partial<User>): void {
+    vi.spyOn(sdk, "authenticateRequest").mockResolvedValue(user as User);
+  }
+
+  it("should parse single byte ranges and ignore the rest", () => {
+    expect(parseByteRange(undefined, 1000)).toBeNull();
+    expect(parseByteRange("bytes=0-99", 1000)).toEqual({ start: 0, end: 99 });
+    expect(parseByteRange("bytes=900-", 1000)).toEqual({ start: 900, end: 999 });
+    expect(parseByteRange("bytes=-100", 1000)).toEqual({ start: 900, end: 999 });
+    expect(parseByteRange("bytes=500-5000", 1000)).toEqual({ start: 500, end: 999 });
+    expect(parseByteRange("bytes=1000-", 1000)).toBe("unsatisfiable");
+    expect(parseByteRange("bytes=-0", 1000)).toBe("unsatisfiable");
+    expect(parseByteRange("bytes=0-1,5-6", 1000)).toBeNull();
+    expect(parseByteRange("bytes=9-1", 1000)).toBeNull();
+    expect(parseByteRange("items=0-1", 1000)).toBeNull();
+  });
+
+  it("should stream whole stems and the requested byte ranges", async () => {
+    const jobId = await createJobWithStems();
+
+    const whole = await request(app).get(`/api/jobs/${jobId}/artifacts/stems/vocals.wav`).buffer(true);
+    expect(whole.status).toBe(200);
+    expect(whole.headers["accept-ranges"]).toBe("bytes");
+    expect(whole.headers["content-type"]).toBe("audio/wav");
+    expect(Buffer.compare(whole.body, STEM)).toBe(0);
+
+    const partial = await request(app)
+      .get(`/api/jobs/${jobId}/artifacts/separation/htdemucs/vocals.wav`)
+      .set("Range", "bytes=300-309")
+      .buffer(true);
+    expect(partial.status).toBe(206);
+    expect(partial.headers["content-range"]).toBe("bytes 300-309/1000");
+    expect(partial.headers["content-length"]).toBe("10");
+    expect(Buffer.compare(partial.body, STEM.subarray(300, 310))).toBe(0);
+
+    const past = await request(app).get(`/api/jobs/${jobId}/audio/vocals`).set("Range", "bytes=2000-");
+    expect(past.status).toBe(416);
+    expect(past.headers["content-range"]).toBe("bytes */1000");
+  });
+
+  it("should only serve files under stems/ and separation/", async () => {
+    const jobId = await createJobWithStems();
+
+    expect((await request(app).get(`/api/jobs/${jobId}/artifacts/lyrics/lyrics.lrc`)).status).toBe(404);
+    expect((await request(app).get(`/api/jobs/${jobId}/artifacts/stems/drums.wav`)).status).toBe(404);
+    expect((await request(app).get(`/api/jobs/${jobId}/artifacts/stems/%2e%2e%2fmetadata.json`)).status).toBe(400);
+    expect((await request(app).get(`/api/jobs/${jobId}/audio/mix`)).status).toBe(404);
+    expect((await request(app).get(`/api/jobs/missing-job/artifacts/stems/vocals.wav`)).status).toBe(404);
+  });
+
+  it("should serve a job with an owner only to that owner and admins", async () => {
+    const jobId = await createJobWithStems("owner-1");
+    const url = `/api/jobs/${jobId}/artifacts/stems/vocals.wav`;
+
+    const anonymous = await request(app).get(url);
+    expect(anonymous.status).toBe(403);
+
+    signInAs({ openId: "someone-else", role: "user" });
+    expect((await request(app).get(url)).status).toBe(403);
+
+    signInAs({ openId: "owner-1", role: "user" });
+    expect((await request(app).get(url)).status).toBe(200);
+
+    signInAs({ openId: "admin-1", role: "admin" });
+    expect((await request(app).get(url).set("Range", "bytes=0-0")).status).toBe(206);
+  });
+});
@@ -0,0 +1,205 @@
+/**
+ * Job Artifact Streaming Endpoints
+ *
+ * Streams a job's audio with HTTP byte ranges, so the stem mixer and the
+ * waveform viewer on JobDetail start playing and seek without downloading
+ * whole stems:
+ * - GET /api/jobs/:jobId/artifacts/:dir/:path — a file under stems/ or separation/
+ * - GET /api/jobs/:jobId/audio/:source — "mix" (the downloaded audio) or a stem by name
+ *
+ * Architectural principle:
+ * - Serving files is a transport concern (HTTP endpoint)
+ * - Only the artifact directories listed here are served, and paths never leave them
+ * - A job with an owner is only served to that owner and admins; anonymous jobs to anyone
+ */
+
+import { Express, Request, Response } from "express";
+import fs from "fs-extra";
+import path from "path";
+import type { User } from "../../drizzle/schema";
+import { filesystem, FilesystemAPI, JobMetadata } from "../lib/filesystem";
+import { sdk } from "./sdk";
+
+/**
+ * Artifact directories the streaming route serves
+ */
+export const STREAMABLE_ARTIFACT_DIRS = ["stems", "separation"];
+
+// Job IDs and stem names as Demucs writes them (vocals, drums, bass, other, guitar, piano)
+const NAME_PATTERN = /^[a-z0-9_-]+$/i;
+
+const CONTENT_TYPES: Record<string, string> = {
+  ".wav": "audio/wav",
+  ".aif": "audio/aiff",
+  ".aiff": "audio/aiff",
+  ".flac": "audio/flac",
+  ".mp3": "audio/mpeg",
+  ".m4a": "audio/mp4",
+  ".json": "application/json",
+};
+
+/**
+ * Byte range of a file, both ends inclusive
+ */
+export interface ByteRange {
+  start: number;
+  end: number;
+}
+
+/**
+ * Parse a Range header against a file size
+ * Returns null to send the whole file (no header, or one this endpoint ignores:
+ * malformed, multiple ranges, or not in bytes), "unsatisfiable" for a range past the end
+ */
+export function parseByteRange(header: string | undefined, size: number): ByteRange | "unsatisfiable" | null {
+  const match = header?.trim().match(/^bytes=(\d*)-(\d*)$/);
+  if (!match || (match[1] === "" && match[2] === "")) {
+    return null;
+  }
+
+  if (match[1] === "") {
+    // Suffix range: the last N bytes
+    const suffix = Number(match[2]);
+    if (suffix === 0 || size === 0) {
+      return "unsatisfiable";
+    }
+    return { start: Math.max(0, size - suffix), end: size - 1 };
+  }
+
+  const start = Number(match[1]);
+  const end = match[2] === "" ? size - 1 : Math.min(Number(match[2]), size - 1);
+  if (match[2] !== "" && Number(match[2]) < start) {
+    return null;
+  }
+  if (start >= size) {
+    return "unsatisfiable";
+  }
+  return { start, end };
+}
+
+/**
+ * Whether a user may read a job's files
+ */
+export function canReadJob(user: User | null, metadata: JobMetadata): boolean {
+  return !metadata.ownerId || user?.openId === metadata.ownerId || user?.role === "admin";
+}
+
+/**
+ * Register job artifact streaming endpoints
+ */
+export function registerJobArtifactRoutes(app: Express, jobFiles: FilesystemAPI = filesystem): void {
+  app.get("/api/jobs/:jobId/artifacts/:dir/*", (req, res) =>
+    sendJobFile(req, res, jobFiles, async () => {
+      const { dir } = req.params;
+      // The wildcard: the file's path under the directory
+      const relativePath = path.normalize((req.params as Record<string, string>)[0] ?? "");
+      if (!STREAMABLE_ARTIFACT_DIRS.includes(dir)) {
+        throw new RequestError(404, `Artifact directory ${dir} is not streamable`);
+      }
+      if (path.isAbsolute(relativePath) || relativePath.split(path.sep).some((part) => part === ".." || part === "")) {
+        throw new RequestError(400, "Invalid artifact path");
+      }
+      return jobFiles.getArtifactPath(req.params.jobId, dir, relativePath);
+    })
+  );
+
+  app.get("/api/jobs/:jobId/audio/:source", (req, res) =>
+    sendJobFile(req, res, jobFiles, async (metadata) => {
+      const { source } = req.params;
+      if (!NAME_PATTERN.test(source)) {
+        throw new RequestError(400, "Invalid audio source");
+      }
+      if (source !== "mix") {
+        return jobFiles.getArtifactPath(req.params.jobId, "stems", `${source}.wav`);
+      }
+      const filePath = metadata.download?.filePath;
+      return filePath
+        ? jobFiles.getArtifactPath(req.params.jobId, path.dirname(filePath), path.basename(filePath))
+        : null;
+    })
+  );
+}
+
+/**
+ * A refusal with its HTTP status
+ */
+class RequestError extends Error {
+  constructor(
+    public status: number,
+    message: string
+  ) {
+    super(message);
+  }
+}
+
+/**
+ * Authorize the request for the job and stream the file resolve() picks
+ * Response: 200 with the whole file, 206 with the requested range, or 416
+ */
+async function sendJobFile(
+  req: Request,
+  res: Response,
+  jobFiles: FilesystemAPI,
+  resolve: (metadata: JobMetadata) => Promise<string | null>
+): Promise<void> {
+  const { jobId } = req.params;
+
+  try {
+    if (!NAME_PATTERN.test(jobId)) {
+      throw new RequestError(400, "Invalid job ID");
+    }
+
+    const metadata = await jobFiles.readMetadata(jobId);
+    if (!metadata) {
+      throw new RequestError(404, `Job ${jobId} not found`);
+    }
+
+    const user = await sdk.authenticateRequest(req).catch(() => null);
+    if (!canReadJob(user, metadata)) {
+      throw new RequestError(403, `Not allowed to read job ${jobId}`);
+    }
+
+    const filePath = await resolve(metadata);
+    const stat = filePath ? await fs.stat(filePath) : null;
+    if (!filePath || !stat?.isFile()) {
+      throw new RequestError(404, `File not found in job ${jobId}`);
+    }
+
+    res.setHeader("Accept-Ranges", "bytes");
+    res.setHeader("Content-Type", CONTENT_TYPES[path.extname(filePath).toLowerCase()] ?? "application/octet-stream");
+    res.setHeader("Cache-Control", "private, max-age=3600");
+    res.setHeader("Last-Modified", stat.mtime.toUTCString());
+
+    const range = parseByteRange(req.headers.range, stat.size);
+    if (range === "unsatisfiable") {
+      res.setHeader("Content-Range", `bytes */${stat.size}`);
+      res.status(416).end();
+      return;
+    }
+
+    const { start, end } = range ?? { start: 0, end: stat.size - 1 };
+    if (range) {
+      res.status(206);
+      res.setHeader("Content-Range", `bytes ${start}-${end}/${stat.size}`);
+    }
+    res.setHeader("Content-Length", String(end - start + 1));
+
+    if (req.method === "HEAD" || stat.size === 0) {
+      res.end();
+      return;
+    }
+    fs.createReadStream(filePath, { start, end })
+      .on("error", (error) => {
+        console.error(`[JobArtifacts] Error streaming ${filePath}:`, error);
+        res.destroy(error);
+      })
+      .pipe(res);
+  } catch (error) {
+    if (error instanceof RequestError) {
+      res.status(error.status).json({ error: error.message });
+      return;
+    }
+    console.error("[JobArtifacts] Error:", error);
+    res.status(500).json({ error: "Failed to read artifact" });
+  }
+}
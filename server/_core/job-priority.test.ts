@@ -0,0 +1,22 @@
+/**
+ * Job Priority Tests
+ *
+ * Tests for the priority lane new jobs get from their creator.
+ */
+
+import { describe, it, expect } from "vitest";
+import { priorityForUser } from "./job-priority";
+
+describe("priorityForUser", () => {
+  it("should put anonymous jobs in the LOW lane", () => {
+    expect(priorityForUser(null)).toBe("LOW");
+  });
+
+  it("should put signed-in users' jobs in the NORMAL lane", () => {
+    expect(priorityForUser({ role: "user" })).toBe("NORMAL");
+  });
+
+  it("should put admins' jobs in the HIGH lane", () => {
+    expect(priorityForUser({ role: "admin" })).toBe("HIGH");
+  });
+});
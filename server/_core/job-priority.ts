@@ -0,0 +1,24 @@
+/**
+ * Job Priority
+ *
+ * Picks the fair-queue lane of a new job from who creates it, so clients
+ * cannot put their own jobs ahead of everyone else's:
+ * - Admins: HIGH
+ * - Signed-in users: NORMAL
+ * - Anonymous: LOW
+ *
+ * Admins move a job to another lane afterwards (jobs.setPriority).
+ */
+
+import type { User } from "../../drizzle/schema";
+import { JobPriority, JOB_PRIORITIES } from "../lib/filesystem";
+
+/**
+ * Lane for the jobs a user creates (null for anonymous requests)
+ */
+export function priorityForUser(user: Pick<User, "role"> | null | undefined): JobPriority {
+  if (!user) {
+    return JOB_PRIORITIES.LOW;
+  }
+  return user.role === "admin" ? JOB_PRIORITIES.HIGH : JOB_PRIORITIES.NORMAL;
+}
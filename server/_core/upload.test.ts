@@ -135,6 +135,29 @@ describe("POST /api/upload", () => {
       expect(response.body.error).toBeDefined();
     });
 
+    it("should reject an unknown pipeline preset with 400", async () => {
+      const response = await request(app)
+        .post("/api/upload")
+        .field("preset", "karaoke")
+        .attach("file", Buffer.from("RIFF....WAVE"), "test.wav");
+
+      expect(response.status).toBe(400);
+      expect(response.body.error).toContain('Unknown pipeline preset "karaoke"');
+    });
+
+    it("should ignore a priority sent by the client", async () => {
+      const response = await request(app)
+        .post("/api/upload")
+        .field("priority", "HIGH")
+        .attach("file", Buffer.from("RIFF....WAVE"), "test.wav");
+
+      expect([201, 429]).toContain(response.status);
+      if (response.status === 201) {
+        // Anonymous uploads go in the LOW lane
+        expect(response.body.metadata.priority).toBe("LOW");
+      }
+    });
+
     it("should reject request with wrong content type", async () => {
       const response = await request(app)
         .post("/api/upload")
@@ -18,6 +18,10 @@ import path from "path";
 import { createJobFromFile } from "../lib/jobs-service-file";
 import { UPLOAD_CONSTRAINTS, SUPPORTED_FORMATS } from "../lib/file-upload";
 import { checkConcurrencyLimit } from "../lib/concurrency-limiter";
+import { hasPreset, listPresets } from "../lib/pipeline";
+import { createSchedule } from "../lib/job-scheduler";
+import { priorityForUser } from "./job-priority";
+import { sdk } from "./sdk";
 
 /**
  * Register upload endpoint
@@ -29,7 +33,10 @@ export function registerUploadRoutes(app: Express): void {
 /**
  * Handle file upload request
  *
- * Expected multipart/form-data with single file field "file"
+ * Expected multipart/form-data with single file field "file",
+ * an optional "preset" field naming the pipeline preset, and optional
+ * "runAt" (ISO 8601) and "cron" (five fields, UTC) fields that schedule the job
+ * (the priority lane follows from the signed-in user, see job-priority.ts)
  * Response: { jobId: string, metadata: JobResponse["metadata"] }
  */
 async function handleFileUpload(req: Request, res: Response): Promise<void> {
@@ -54,6 +61,9 @@ async function handleFileUpload(req: Request, res: Response): Promise<void> {
     let fileBuffer: Buffer | null = null;
     let filename: string | null = null;
     let mimeType: string | null = null;
+    let preset: string | undefined;
+    let runAt: string | undefined;
+    let cron: string | undefined;
     let uploadError: Error | null = null;
     let fileSizeExceeded = false;
 
@@ -83,6 +93,17 @@ async function handleFileUpload(req: Request, res: Response): Promise<void> {
       });
     });
 
+    // Handle text fields
+    bb.on("field", (fieldname: string, value: string) => {
+      if (fieldname === "preset" && value) {
+        preset = value;
+      } else if (fieldname === "runAt" && value) {
+        runAt = value;
+      } else if (fieldname === "cron" && value) {
+        cron = value;
+      }
+    });
+
     // Handle form errors
     bb.on("error", (err: Error) => {
       uploadError = err;
@@ -147,6 +168,28 @@ async function handleFileUpload(req: Request, res: Response): Promise<void> {
       return;
     }
 
+    // Validate pipeline preset
+    if (preset && !hasPreset(preset)) {
+      res.status(400).json({
+        error: `Unknown pipeline preset "${preset}". Available: ${listPresets()
+          .map((entry) => entry.name)
+          .join(", ")}.`,
+      });
+      return;
+    }
+
+    // Validate schedule
+    try {
+      createSchedule({ runAt, cron });
+    } catch (err) {
+      res.status(400).json({ error: err instanceof Error ? err.message : String(err) });
+      return;
+    }
+
+    // Signed-in uploads are shared fairly per user; anonymous ones share one owner
+    const user = await sdk.authenticateRequest(req).catch(() => null);
+    const ownerId = user?.openId;
+
     // Check concurrency limit (default 2 concurrent jobs per user)
     const concurrencyStatus = await checkConcurrencyLimit("anonymous", 2);
     if (!concurrencyStatus.allowed) {
@@ -162,7 +205,8 @@ async function handleFileUpload(req: Request, res: Response): Promise<void> {
     const jobResponse = await createJobFromFile(
       fileBuffer as Buffer,
       filename as string,
-      mimeType as string
+      mimeType as string,
+      { preset, ownerId, priority: priorityForUser(user), runAt, cron }
     );
     console.log(`[Upload] Job created: ${jobResponse.jobId}`);
 
@@ -170,8 +214,8 @@ async function handleFileUpload(req: Request, res: Response): Promise<void> {
       `[Upload] Successfully created job ${jobResponse.jobId} for file ${filename}`
     );
 
-    // Auto-enqueue job to demucs_queue (job worker will pick it up)
-    console.log(`[Upload] Job ${jobResponse.jobId} is ready for processing (NEW state)`);
+    // The orchestrator dispatches NEW jobs; SCHEDULED ones once the scheduler releases them
+    console.log(`[Upload] Job ${jobResponse.jobId} is ready for processing (${jobResponse.state} state)`);
 
     // Return job response
     console.log(`[Upload] Returning success response for job ${jobResponse.jobId}`);
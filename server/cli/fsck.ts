@@ -0,0 +1,81 @@
+/**
+ * fsck CLI
+ *
+ * Checks the job storage tree for invariant violations and, when asked,
+ * applies the explicit repair for each one.
+ *
+ * Usage:
+ *   pnpm fsck                         Report only (exit code 1 if issues found)
+ *   pnpm fsck --repair                Repair every repairable issue
+ *   pnpm fsck --repair --only=A,B     Repair only the given issue codes
+ *   pnpm fsck --json                  Print the report as JSON
+ *
+ * Uses STORAGE_ROOT like the server and workers.
+ */
+
+import { filesystem, JOB_STATES } from "../lib/filesystem";
+import { createFsck, FSCK_ISSUES, FsckIssueCode } from "../lib/fsck";
+
+const STORAGE_ROOT = process.env.STORAGE_ROOT || "/tmp/ego-studio-jobs";
+
+function parseArgs(argv: string[]) {
+  const only = argv.find((arg) => arg.startsWith("--only="));
+  const codes = only
+    ?.slice("--only=".length)
+    .split(",")
+    .map((code) => code.trim())
+    .filter(Boolean);
+
+  const known = Object.values(FSCK_ISSUES) as string[];
+  const unknown = codes?.filter((code) => !known.includes(code)) ?? [];
+  if (unknown.length > 0) {
+    throw new Error(`Unknown issue codes: ${unknown.join(", ")} (known: ${known.join(", ")})`);
+  }
+
+  return {
+    repair: argv.includes("--repair"),
+    json: argv.includes("--json"),
+    codes: codes as FsckIssueCode[] | undefined,
+  };
+}
+
+async function main() {
+  const args = parseArgs(process.argv.slice(2));
+  const fsck = createFsck(filesystem, STORAGE_ROOT);
+
+  const report = await fsck.check();
+
+  if (args.json) {
+    console.log(JSON.stringify(report, null, 2));
+  } else {
+    console.log(`Storage: ${STORAGE_ROOT} (states: ${Object.values(JOB_STATES).join(", ")})`);
+    console.log(`Jobs checked: ${report.jobsChecked}`);
+    for (const issue of report.issues) {
+      console.log(`\n${issue.code}${issue.jobId ? ` ${issue.jobId}` : ""}`);
+      console.log(`  path:      ${issue.path}`);
+      console.log(`  detail:    ${issue.detail}`);
+      console.log(`  invariant: ${issue.invariant}`);
+      console.log(`  repair:    ${issue.repair ?? "none (report only)"}`);
+    }
+    console.log(`\n${report.issues.length} issue(s) found`);
+  }
+
+  if (!args.repair) {
+    process.exit(report.issues.length > 0 ? 1 : 0);
+  }
+
+  const results = await fsck.repairAll(report, { codes: args.codes });
+  const failed = results.filter((result) => !result.success);
+
+  for (const result of failed) {
+    console.error(`Repair failed for ${result.issue.code} at ${result.issue.path}: ${result.error}`);
+  }
+  console.log(`${results.length - failed.length} repair(s) applied, ${failed.length} failed`);
+
+  process.exit(failed.length > 0 ? 1 : 0);
+}
+
+main().catch((err) => {
+  console.error("[fsck] Fatal:", err instanceof Error ? err.message : err);
+  process.exit(2);
+});
@@ -0,0 +1,68 @@
+/**
+ * Retention CLI
+ *
+ * Reports what the retention policy would remove and how many bytes it
+ * would free, and applies it when asked.
+ *
+ * Usage:
+ *   pnpm retention                 Dry run: print the planned actions
+ *   pnpm retention --apply         Apply the planned actions
+ *   pnpm retention --json          Print the report as JSON
+ *
+ * Uses STORAGE_ROOT and RETENTION_POLICY like the server.
+ */
+
+import { filesystem } from "../lib/filesystem";
+import { createMoveOperations } from "../lib/job-moves";
+import { createRetention } from "../lib/retention";
+
+const STORAGE_ROOT = process.env.STORAGE_ROOT || "/tmp/ego-studio-jobs";
+
+function formatBytes(bytes: number): string {
+  return `${(bytes / 1024 / 1024).toFixed(2)}MB`;
+}
+
+async function main() {
+  const argv = process.argv.slice(2);
+  const apply = argv.includes("--apply");
+  const json = argv.includes("--json");
+
+  const retention = createRetention(filesystem, createMoveOperations(filesystem, STORAGE_ROOT));
+  const report = await retention.plan();
+
+  if (json) {
+    console.log(JSON.stringify(report, null, 2));
+  } else {
+    console.log(`Storage: ${STORAGE_ROOT}`);
+    for (const rule of retention.policy) {
+      const types = rule.artifactTypes ? ` [${rule.artifactTypes.join(", ")}]` : "";
+      console.log(`  rule: ${rule.state} after ${rule.olderThanDays} days -> ${rule.action}${types}`);
+    }
+    console.log(`Jobs checked: ${report.jobsChecked}`);
+    for (const action of report.actions) {
+      console.log(`\n${action.action} ${action.jobId} (${action.state}, ${action.ageDays} days)`);
+      console.log(`  frees: ${formatBytes(action.bytes)}`);
+      for (const target of action.paths) {
+        console.log(`  - ${target}`);
+      }
+    }
+    console.log(`\n${report.actions.length} action(s), ${formatBytes(report.bytesFreed)} would be freed`);
+  }
+
+  if (!apply) {
+    process.exit(0);
+  }
+
+  const result = await retention.apply(report);
+  for (const error of result.errors) {
+    console.error(error);
+  }
+  console.log(`${result.applied.length} action(s) applied, ${formatBytes(result.bytesFreed)} freed, ${result.errors.length} failed`);
+
+  process.exit(result.errors.length > 0 ? 1 : 0);
+}
+
+main().catch((err) => {
+  console.error("[retention] Fatal:", err instanceof Error ? err.message : err);
+  process.exit(2);
+});
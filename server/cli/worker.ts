@@ -0,0 +1,75 @@
+/**
+ * Worker CLI
+ *
+ * Runs stage queues without the web server, e.g. SEPARATION on a GPU box
+ * while the API runs elsewhere. Enqueues the stages that become ready after
+ * the ones it runs, like the server does; NEW jobs are dispatched by the server.
+ *
+ * Usage:
+ *   pnpm worker                         Run every stage
+ *   pnpm worker --stages demucs         Run only the given stages (stage or queue names, comma-separated)
+ *
+ * Uses STORAGE_ROOT and the queue backend like the server; both must be shared
+ * with it, so QUEUE_BACKEND=memory (in-process queues) is refused. Registers
+ * in the worker registry as WORKER_ID and drains on SIGTERM/SIGINT.
+ */
+
+import "dotenv/config";
+import { filesystem, PipelineStage } from "../lib/filesystem";
+import { listStages, parseStageList } from "../lib/adapter-registry";
+import { initializeQueues } from "../lib/queue";
+import { drainWorkers } from "../lib/drain";
+import { registerWorker } from "../lib/worker-registry";
+
+function parseArgs(argv: string[]): { stages: PipelineStage[] } {
+  const index = argv.findIndex((arg) => arg === "--stages" || arg.startsWith("--stages="));
+  if (index === -1) {
+    return { stages: listStages() };
+  }
+
+  const value = argv[index].startsWith("--stages=") ? argv[index].slice("--stages=".length) : argv[index + 1];
+  const stages = parseStageList(value ?? "");
+  if (stages.length === 0) {
+    throw new Error("--stages needs at least one stage");
+  }
+  return { stages };
+}
+
+async function main() {
+  const args = parseArgs(process.argv.slice(2));
+  if ((process.env.QUEUE_BACKEND || "redis") === "memory") {
+    throw new Error("QUEUE_BACKEND=memory keeps queues inside one process; run standalone workers on redis");
+  }
+
+  await filesystem.initializeStorage();
+  await initializeQueues({ stages: args.stages });
+  const registration = await registerWorker(args.stages);
+  console.log(`[worker] Running ${args.stages.join(", ")}`);
+
+  // Drain running stages on SIGTERM/SIGINT (DRAIN_DEADLINE_MS); a second signal exits right away
+  let shuttingDown = false;
+  const shutdown = async (signal: string) => {
+    if (shuttingDown) {
+      console.warn(`[worker] ${signal} received again, exiting without draining`);
+      process.exit(1);
+    }
+    shuttingDown = true;
+    console.log(`[worker] ${signal} received, draining`);
+
+    try {
+      const result = await drainWorkers();
+      await registration.stop();
+      process.exit(result.errors.length > 0 ? 1 : 0);
+    } catch (err) {
+      console.error("[worker] Drain failed:", err);
+      process.exit(1);
+    }
+  };
+  process.on("SIGTERM", () => shutdown("SIGTERM"));
+  process.on("SIGINT", () => shutdown("SIGINT"));
+}
+
+main().catch((err) => {
+  console.error("[worker] Fatal:", err instanceof Error ? err.message : err);
+  process.exit(2);
+});
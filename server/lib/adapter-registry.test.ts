@@ -0,0 +1,203 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import fs from "fs-extra";
+import { createFilesystem, JobMetadata, JOB_STATES, PIPELINE_STAGES } from "./filesystem";
+import {
+  Actor,
+  validateTransition,
+  validateStageTransition,
+  validateCompletion,
+  getNextStage,
+  getFinalStage,
+} from "./job-state";
+import {
+  registerAdapter,
+  unregisterAdapter,
+  listStages,
+  parseStageList,
+  getAdapterByActor,
+  checkRequirements,
+  getFeaturesAfter,
+  registerFeature,
+  unregisterFeature,
+  StageAdapter,
+} from "./adapter-registry";
+
+const TEST_STORAGE_ROOT = "/tmp/ego-studio-jobs-test-adapters";
+
+function transcriptionAdapter(overrides: Partial<StageAdapter> = {}): StageAdapter {
+  return {
+    stage: "TRANSCRIPTION",
+    actor: "TRANSCRIPTION_WORKER",
+    requires: [PIPELINE_STAGES.SEPARATION],
+    resultKey: "transcription",
+    artifactDir: "transcript",
+    queueName: "transcription",
+    concurrency: 2,
+    timeoutMs: 60000,
+    processor: async () => {},
+    ...overrides,
+  };
+}
+
+describe.sequential("Adapter Registry", () => {
+  afterEach(() => {
+    unregisterAdapter("TRANSCRIPTION");
+  });
+
+  describe("built-in stages", () => {
+    it("should list the built-in stages in pipeline order", () => {
+      expect(listStages()).toEqual(Object.values(PIPELINE_STAGES));
+      expect(getAdapterByActor(Actor.DEMUCS_WORKER)?.stage).toBe(PIPELINE_STAGES.SEPARATION);
+    });
+
+    it("should refuse to unregister a built-in stage", () => {
+      expect(() => unregisterAdapter(PIPELINE_STAGES.LYRICS)).toThrow("built-in");
+    });
+
+    it("should parse stage lists by stage or queue name", () => {
+      expect(parseStageList("demucs")).toEqual([PIPELINE_STAGES.SEPARATION]);
+      expect(parseStageList("yt-dlp, lyrics,SEPARATION,demucs")).toEqual([
+        PIPELINE_STAGES.DOWNLOAD,
+        PIPELINE_STAGES.LYRICS,
+        PIPELINE_STAGES.SEPARATION,
+      ]);
+      expect(parseStageList("")).toEqual([]);
+      expect(() => parseStageList("whisper")).toThrow("Unknown stage whisper");
+    });
+  });
+
+  describe("registerAdapter", () => {
+    it("should insert a stage and derive its transitions", () => {
+      registerAdapter(transcriptionAdapter(), { after: PIPELINE_STAGES.LYRICS });
+
+      expect(getNextStage(PIPELINE_STAGES.LYRICS)).toBe("TRANSCRIPTION");
+      expect(getNextStage("TRANSCRIPTION")).toBe(PIPELINE_STAGES.AUDACITY);
+      expect(validateStageTransition(PIPELINE_STAGES.LYRICS, "TRANSCRIPTION", "TRANSCRIPTION_WORKER").valid).toBe(
+        true
+      );
+      expect(validateStageTransition(PIPELINE_STAGES.LYRICS, PIPELINE_STAGES.AUDACITY, Actor.AUDACITY_WORKER).valid).toBe(
+        false
+      );
+      expect(validateTransition(JOB_STATES.DONE, JOB_STATES.CLAIMED, "TRANSCRIPTION_WORKER").valid).toBe(true);
+      expect(validateTransition(JOB_STATES.RUNNING, JOB_STATES.DONE, "TRANSCRIPTION_WORKER").valid).toBe(true);
+      expect(validateTransition(JOB_STATES.RUNNING, JOB_STATES.COMPLETE, "TRANSCRIPTION_WORKER").valid).toBe(false);
+    });
+
+    it("should make a stage appended at the end the only one that completes jobs", () => {
+      registerAdapter(transcriptionAdapter());
+
+      expect(getFinalStage()).toBe("TRANSCRIPTION");
+      expect(validateCompletion(PIPELINE_STAGES.PACKAGING).valid).toBe(false);
+      expect(validateTransition(JOB_STATES.RUNNING, JOB_STATES.DONE, Actor.PACKAGING_WORKER).valid).toBe(true);
+      expect(validateTransition(JOB_STATES.RUNNING, JOB_STATES.COMPLETE, "TRANSCRIPTION_WORKER").valid).toBe(true);
+    });
+
+    it("should reject requirements on stages that run later", () => {
+      expect(() =>
+        registerAdapter(transcriptionAdapter({ requires: [PIPELINE_STAGES.AUDACITY] }), {
+          after: PIPELINE_STAGES.SEPARATION,
+        })
+      ).toThrow("requires AUDACITY, which does not run before it");
+    });
+
+    it("should reject clashing or reserved actors", () => {
+      expect(() => registerAdapter(transcriptionAdapter({ actor: Actor.LYRICS_WORKER }))).toThrow(
+        "clashes with registered stage LYRICS"
+      );
+      expect(() => registerAdapter(transcriptionAdapter({ actor: Actor.SYSTEM }))).toThrow("reserved");
+    });
+
+    it("should reject an unknown anchor stage", () => {
+      expect(() => registerAdapter(transcriptionAdapter(), { after: "MASTERING" })).toThrow(
+        "stage MASTERING is not registered"
+      );
+    });
+  });
+
+  describe("feature adapters", () => {
+    afterEach(() => {
+      unregisterFeature("enrichment");
+    });
+
+    it("should run beats after SEPARATION, or after DOWNLOAD in pipelines without it", () => {
+      const full = listStages();
+      const lyricsOnly = [PIPELINE_STAGES.DOWNLOAD, PIPELINE_STAGES.LYRICS, PIPELINE_STAGES.PACKAGING];
+
+      expect(getFeaturesAfter(full, PIPELINE_STAGES.SEPARATION).map((feature) => feature.name)).toEqual(["beats"]);
+      expect(getFeaturesAfter(full, PIPELINE_STAGES.DOWNLOAD)).toEqual([]);
+      expect(getFeaturesAfter(lyricsOnly, PIPELINE_STAGES.DOWNLOAD).map((feature) => feature.name)).toEqual(["beats"]);
+    });
+
+    it("should reject a feature after a stage that is not registered", () => {
+      expect(() =>
+        registerFeature({ name: "enrichment", after: ["TRANSCRIPTION"], artifactDir: null, run: async () => {} })
+      ).toThrow("stage TRANSCRIPTION is not registered");
+    });
+
+    it("should reject a feature name that is taken", () => {
+      expect(() =>
+        registerFeature({ name: "beats", after: [PIPELINE_STAGES.LYRICS], artifactDir: null, run: async () => {} })
+      ).toThrow("the name is taken");
+    });
+  });
+
+  describe("checkRequirements", () => {
+    it("should require the results of the listed stages", () => {
+      const adapter = transcriptionAdapter();
+      const metadata: JobMetadata = {
+        id: "job-1",
+        youtubeUrl: "https://youtube.com/watch?v=test",
+        state: JOB_STATES.DONE,
+        stage: PIPELINE_STAGES.LYRICS,
+        createdAt: new Date().toISOString(),
+        updatedAt: new Date().toISOString(),
+        revision: 1,
+      };
+
+      expect(checkRequirements(adapter, metadata)).toEqual({
+        valid: false,
+        reason: "SEPARATION not complete (status: none)",
+      });
+
+      metadata.separation = { status: "COMPLETE" };
+      expect(checkRequirements(adapter, metadata).valid).toBe(true);
+    });
+  });
+
+  describe("artifact listing", () => {
+    let testDir: string;
+
+    beforeEach(async () => {
+      testDir = `${TEST_STORAGE_ROOT}-${Date.now()}-${Math.random()}`;
+      await fs.ensureDir(testDir);
+    });
+
+    afterEach(async () => {
+      try {
+        if (testDir) {
+          await fs.remove(testDir);
+        }
+      } catch (e) {
+        // Ignore cleanup errors
+      }
+    });
+
+    it("should list the artifact directories of registered stages", async () => {
+      registerAdapter(transcriptionAdapter(), { after: PIPELINE_STAGES.LYRICS });
+      const filesystem = createFilesystem(testDir);
+      await filesystem.initializeStorage();
+      const { jobId } = await filesystem.createJobFolder("https://youtube.com/watch?v=test");
+
+      await filesystem.writeArtifact(jobId, "stems", "vocals.wav", "v");
+      await filesystem.writeArtifact(jobId, "transcript", "words.json", "[]");
+      await filesystem.writeArtifact(jobId, "analysis", "beats.json", "{}");
+      await filesystem.writeArtifact(jobId, "scratch", "notes.txt", "ignored");
+
+      expect(await filesystem.listArtifacts(jobId)).toEqual({
+        stems: ["vocals.wav"],
+        transcript: ["words.json"],
+        analysis: ["beats.json"],
+      });
+    });
+  });
+});
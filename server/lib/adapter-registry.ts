@@ -0,0 +1,411 @@
+/**
+ * Adapter Registry
+ *
+ * Declares the stage adapters that make up the pipeline. Each adapter names
+ * its stage, the actor that owns it, the stages whose output it needs, the
+ * artifact directory it writes, and how its queue runs.
+ *
+ * Derived from the registry:
+ * - Queue wiring: one queue per adapter, each completed job chains to the next stage (queue.ts)
+ * - Stage order, ownership and the transitions worker actors may make (job-state.ts)
+ * - Artifact directories listed for a job (filesystem.ts)
+ * - Automatic retries of failed stages (retry-policy.ts)
+ *
+ * Feature adapters (beats) run between stages rather than as one: after the
+ * first of their stages the job's pipeline has, before its next stages are
+ * scheduled (queue.ts). They own no states and never fail the job.
+ *
+ * Invariants:
+ * - Stages run in registry order; the built-in stages are registered first
+ * - An adapter may only require stages that run before it
+ * - Stage, actor and queue names are unique
+ * - Only the last stage moves a job into COMPLETE
+ *
+ * Built-in adapters are declared on first use so that the layers derived
+ * from the registry can import it without an import cycle at load time.
+ */
+
+import type { QueueJob } from "./queue-backend";
+import type { RetryPolicy } from "./retry-policy";
+import { JobMetadata, PipelineStage, PIPELINE_STAGES } from "./filesystem";
+import { Actor, ActorName } from "./job-state";
+
+/**
+ * Processes one queued job of a stage
+ */
+export type StageProcessor = (job: QueueJob<{ jobId: string }>) => Promise<void>;
+
+/**
+ * Declaration of a pipeline stage
+ */
+export interface StageAdapter {
+  stage: PipelineStage;
+  // Actor that claims, runs and finishes the stage
+  actor: ActorName;
+  // Stages whose output this stage reads; their results must be COMPLETE before it runs
+  requires: PipelineStage[];
+  // Top-level metadata field holding the stage result ({ status: "COMPLETE" | "FAILED", ... })
+  resultKey: string;
+  // Job subdirectory the stage writes its artifacts to (null if it writes none)
+  artifactDir: string | null;
+  queueName: string;
+  // Jobs of this stage processed at once per process
+  concurrency: number;
+  // Queue job timeout
+  timeoutMs: number;
+  // Admit jobs to the queue by priority lane and fair share across owners (see fair-queue.ts)
+  fairQueue?: boolean;
+  // Typical run time, used for wait estimates until runs of this process were timed
+  estimatedDurationMs?: number;
+  // Retry rules of this stage by failure reason, over the defaults (see retry-policy.ts)
+  retryPolicy?: RetryPolicy;
+  processor: StageProcessor;
+}
+
+/**
+ * Declaration of a feature adapter: work on a job that runs between stages
+ * rather than as one, and never fails the job
+ */
+export interface FeatureAdapter {
+  name: string;
+  // Runs after the first of these stages the job's pipeline has, before the next stages are scheduled
+  after: PipelineStage[];
+  // Job subdirectory the feature writes its artifacts to (null if it writes none)
+  artifactDir: string | null;
+  // Records its own failures in metadata; errors it throws anyway are logged and dropped (see queue.ts)
+  run: (jobId: string) => Promise<void>;
+}
+
+/**
+ * Registration options
+ */
+export interface RegisterOptions {
+  // Run the stage right after this one (default: at the end of the pipeline)
+  after?: PipelineStage;
+}
+
+let adapters: StageAdapter[] | null = null;
+let features: FeatureAdapter[] | null = null;
+
+/**
+ * Built-in pipeline stages
+ * Processors are imported when first called; the workers import this layer.
+ */
+function builtinAdapters(): StageAdapter[] {
+  return [
+    {
+      stage: PIPELINE_STAGES.DOWNLOAD,
+      actor: Actor.DOWNLOAD_WORKER,
+      requires: [],
+      resultKey: "download",
+      artifactDir: "download",
+      queueName: "yt-dlp-downloads",
+      concurrency: 1,
+      timeoutMs: 10 * 60 * 1000,
+      processor: async (job) => (await import("../workers/yt-dlp-worker")).processYtDlpJob(job),
+    },
+    {
+      stage: PIPELINE_STAGES.SEPARATION,
+      actor: Actor.DEMUCS_WORKER,
+      requires: [PIPELINE_STAGES.DOWNLOAD],
+      resultKey: "separation",
+      artifactDir: "stems",
+      queueName: "demucs-processing",
+      concurrency: 1,
+      timeoutMs: 15 * 60 * 1000,
+      fairQueue: true,
+      estimatedDurationMs: 4 * 60 * 1000,
+      // Out of GPU memory: try once more on the CPU, right away
+      retryPolicy: { GPU_MEMORY: { maxAttempts: 2, fallback: "cpu" } },
+      processor: async (job) => (await import("../workers/demucs-worker")).processDemucsJob(job),
+    },
+    {
+      stage: PIPELINE_STAGES.WAVEFORM,
+      actor: Actor.WAVEFORM_WORKER,
+      requires: [PIPELINE_STAGES.SEPARATION],
+      resultKey: "waveform",
+      artifactDir: "waveform",
+      queueName: "waveform-peaks",
+      concurrency: 1,
+      timeoutMs: 5 * 60 * 1000,
+      processor: async (job) => (await import("../workers/waveform-worker")).processWaveformJob(job),
+    },
+    {
+      stage: PIPELINE_STAGES.LYRICS,
+      actor: Actor.LYRICS_WORKER,
+      requires: [PIPELINE_STAGES.DOWNLOAD],
+      resultKey: "lyrics",
+      artifactDir: "lyrics",
+      queueName: "lyrics-extraction",
+      concurrency: 1,
+      timeoutMs: 2 * 60 * 1000,
+      processor: async (job) => (await import("../workers/lyrics-worker")).processLyricsJob(job),
+    },
+    {
+      stage: PIPELINE_STAGES.AUDACITY,
+      actor: Actor.AUDACITY_WORKER,
+      requires: [PIPELINE_STAGES.SEPARATION],
+      resultKey: "audacity",
+      artifactDir: "audacity",
+      queueName: "audacity-project-generation",
+      concurrency: 1,
+      timeoutMs: 5 * 60 * 1000,
+      processor: async (job) => (await import("../workers/audacity-worker")).processAudacityJob(job),
+    },
+    {
+      stage: PIPELINE_STAGES.PACKAGING,
+      actor: Actor.PACKAGING_WORKER,
+      // Packages whatever the job's pipeline produced
+      requires: [],
+      resultKey: "packaging",
+      artifactDir: "package",
+      queueName: "artifact-packaging",
+      concurrency: 1,
+      timeoutMs: 5 * 60 * 1000,
+      processor: async (job) => (await import("../workers/packaging-worker")).processPackagingJob(job),
+    },
+  ];
+}
+
+function registry(): StageAdapter[] {
+  if (!adapters) {
+    adapters = builtinAdapters();
+  }
+  return adapters;
+}
+
+/**
+ * Built-in feature adapters
+ */
+function builtinFeatures(): FeatureAdapter[] {
+  return [
+    {
+      // Tempo and beat grid for the Audacity project and the UI: from the stems, else from the mix
+      name: "beats",
+      after: [PIPELINE_STAGES.SEPARATION, PIPELINE_STAGES.DOWNLOAD],
+      artifactDir: "analysis",
+      run: async (jobId) => (await import("../workers/beats-worker")).analyzeJobBeats(jobId),
+    },
+  ];
+}
+
+function featureRegistry(): FeatureAdapter[] {
+  if (!features) {
+    features = builtinFeatures();
+  }
+  return features;
+}
+
+/**
+ * Validate an adapter against the stages that would run before it
+ */
+export function validateAdapter(
+  adapter: StageAdapter,
+  earlierStages: PipelineStage[],
+  existing: StageAdapter[] = registry()
+): { valid: boolean; reason?: string } {
+  if (!adapter.stage || !adapter.actor || !adapter.queueName || !adapter.resultKey) {
+    return { valid: false, reason: "stage, actor, queueName and resultKey are required" };
+  }
+
+  const clash = existing.find(
+    (other) =>
+      other.stage === adapter.stage || other.actor === adapter.actor || other.queueName === adapter.queueName
+  );
+  if (clash) {
+    return { valid: false, reason: `Adapter ${adapter.stage} clashes with registered stage ${clash.stage}` };
+  }
+
+  if (adapter.actor === Actor.SYSTEM || adapter.actor === Actor.USER) {
+    return { valid: false, reason: `Actor ${adapter.actor} is reserved` };
+  }
+
+  const missing = adapter.requires.find((stage) => !earlierStages.includes(stage));
+  if (missing) {
+    return { valid: false, reason: `Stage ${adapter.stage} requires ${missing}, which does not run before it` };
+  }
+
+  if (!Number.isInteger(adapter.concurrency) || adapter.concurrency < 1) {
+    return { valid: false, reason: `concurrency must be a positive integer, got ${adapter.concurrency}` };
+  }
+
+  if (!(adapter.timeoutMs > 0)) {
+    return { valid: false, reason: `timeoutMs must be positive, got ${adapter.timeoutMs}` };
+  }
+
+  return { valid: true };
+}
+
+/**
+ * Register a stage adapter
+ * Throws if the declaration is invalid or clashes with a registered adapter
+ */
+export function registerAdapter(adapter: StageAdapter, options: RegisterOptions = {}): void {
+  const current = registry();
+  const position = options.after ? current.findIndex((other) => other.stage === options.after) + 1 : current.length;
+
+  if (position === 0) {
+    throw new Error(`Cannot register ${adapter.stage}: stage ${options.after} is not registered`);
+  }
+
+  const validation = validateAdapter(
+    adapter,
+    current.slice(0, position).map((other) => other.stage),
+    current
+  );
+  if (!validation.valid) {
+    throw new Error(`Cannot register ${adapter.stage}: ${validation.reason}`);
+  }
+
+  current.splice(position, 0, adapter);
+  console.log(`[AdapterRegistry] Registered stage ${adapter.stage} (${adapter.actor}) at position ${position}`);
+}
+
+/**
+ * Remove a registered adapter (built-in stages cannot be removed)
+ */
+export function unregisterAdapter(stage: PipelineStage): boolean {
+  if ((Object.values(PIPELINE_STAGES) as string[]).includes(stage)) {
+    throw new Error(`Cannot unregister built-in stage ${stage}`);
+  }
+
+  const current = registry();
+  const index = current.findIndex((adapter) => adapter.stage === stage);
+  if (index === -1) {
+    return false;
+  }
+
+  current.splice(index, 1);
+  return true;
+}
+
+/**
+ * List registered adapters in pipeline order
+ */
+export function listAdapters(): StageAdapter[] {
+  return [...registry()];
+}
+
+/**
+ * Get the adapter for a stage (null if none is registered)
+ */
+export function getAdapter(stage: PipelineStage): StageAdapter | null {
+  return registry().find((adapter) => adapter.stage === stage) ?? null;
+}
+
+/**
+ * Get the adapter owned by an actor (null for SYSTEM, USER and unknown actors)
+ */
+export function getAdapterByActor(actor: ActorName): StageAdapter | null {
+  return registry().find((adapter) => adapter.actor === actor) ?? null;
+}
+
+/**
+ * Registered stages, in pipeline order
+ */
+export function listStages(): PipelineStage[] {
+  return registry().map((adapter) => adapter.stage);
+}
+
+/**
+ * Parse a comma-separated list of stages, each named by stage (SEPARATION), queue name
+ * (demucs-processing) or the start of its queue name up to a dash (demucs), case-insensitively
+ * Throws on names that match no registered stage
+ */
+export function parseStageList(list: string): PipelineStage[] {
+  const stages: PipelineStage[] = [];
+  for (const name of list.split(",").map((part) => part.trim().toLowerCase()).filter(Boolean)) {
+    const adapter = registry().find(
+      (candidate) =>
+        candidate.stage.toLowerCase() === name ||
+        candidate.queueName === name ||
+        candidate.queueName.startsWith(`${name}-`)
+    );
+    if (!adapter) {
+      const known = registry().map((candidate) => `${candidate.stage} (${candidate.queueName})`);
+      throw new Error(`Unknown stage ${name}. Available: ${known.join(", ")}`);
+    }
+    if (!stages.includes(adapter.stage)) {
+      stages.push(adapter.stage);
+    }
+  }
+  return stages;
+}
+
+/**
+ * Register a feature adapter
+ * Throws if the name is taken or it names a stage that is not registered
+ */
+export function registerFeature(feature: FeatureAdapter): void {
+  if (featureRegistry().some((other) => other.name === feature.name)) {
+    throw new Error(`Cannot register feature ${feature.name}: the name is taken`);
+  }
+  const unknown = feature.after.find((stage) => !getAdapter(stage));
+  if (feature.after.length === 0 || unknown) {
+    throw new Error(`Cannot register feature ${feature.name}: stage ${unknown ?? "to run after"} is not registered`);
+  }
+
+  featureRegistry().push(feature);
+  console.log(`[AdapterRegistry] Registered feature ${feature.name} (after ${feature.after.join(" or ")})`);
+}
+
+/**
+ * Remove a registered feature adapter
+ */
+export function unregisterFeature(name: string): boolean {
+  const current = featureRegistry();
+  const index = current.findIndex((feature) => feature.name === name);
+  if (index === -1) {
+    return false;
+  }
+
+  current.splice(index, 1);
+  return true;
+}
+
+/**
+ * Get the feature adapters that run once a stage of a pipeline completes
+ * (those for which it is the first of their `after` stages in the pipeline)
+ */
+export function getFeaturesAfter(pipelineStages: PipelineStage[], stage: PipelineStage): FeatureAdapter[] {
+  return featureRegistry().filter(
+    (feature) => feature.after.find((candidate) => pipelineStages.includes(candidate)) === stage
+  );
+}
+
+/**
+ * Artifact directories written by registered stages and feature adapters
+ */
+export function listArtifactDirs(): string[] {
+  return [...registry(), ...featureRegistry()]
+    .map((adapter) => adapter.artifactDir)
+    .filter((dir): dir is string => dir !== null);
+}
+
+/**
+ * Read a stage's result from metadata
+ */
+export function getStageResult(metadata: JobMetadata, stage: PipelineStage): { status?: string } | undefined {
+  const adapter = getAdapter(stage);
+  if (!adapter) {
+    return undefined;
+  }
+  return (metadata as unknown as Record<string, { status?: string } | undefined>)[adapter.resultKey];
+}
+
+/**
+ * Check that the stages an adapter requires have completed
+ */
+export function checkRequirements(
+  adapter: StageAdapter,
+  metadata: JobMetadata
+): { valid: boolean; reason?: string } {
+  for (const stage of adapter.requires) {
+    const status = getStageResult(metadata, stage)?.status;
+    if (status !== "COMPLETE") {
+      return { valid: false, reason: `${stage} not complete (status: ${status ?? "none"})` };
+    }
+  }
+
+  return { valid: true };
+}
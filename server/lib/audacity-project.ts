@@ -3,16 +3,47 @@
  *
  * Generates valid .aup3 Audacity projects from separated audio stems.
  * Ensures cross-platform compatibility with Audacity 3.x.
+ *
+ * Track formats and lengths are read from the stems (see audio-io.ts), so
+ * every track's len matches its audio. With a tempo (metadata.analysis, see
+ * beat-analysis.ts) the project gets its BPM and time signature, and a label
+ * track marks every bar.
  */
 
 import * as fs from "fs-extra";
 import * as path from "path";
+import { AudioInfo, validateStems } from "./audio-io";
 
-interface TrackInfo {
+export interface TrackInfo {
   name: string;
   filePath: string;
   channels: number;
   sampleRate: number;
+  // Sample frames per channel
+  numSamples: number;
+}
+
+/**
+ * Tempo of a project
+ */
+export interface ProjectTempo {
+  bpm: number;
+  beatsPerBar: number;
+  // Time of the first bar line; earlier bars are not labelled
+  firstDownbeatSec: number;
+}
+
+/**
+ * Build the track of a stem from its audio info
+ */
+export function toTrackInfo(stemName: string, filePath: string, info: AudioInfo): TrackInfo {
+  return {
+    name: stemName.charAt(0).toUpperCase() + stemName.slice(1),
+    filePath,
+    channels: info.channels,
+    sampleRate: info.sampleRate,
+    numSamples: info.numSamples,
+  };
 }
 
 /**
@@ -22,7 +53,8 @@ interface TrackInfo {
 export function generateAudacityProjectXml(
   projectName: string,
   tracks: TrackInfo[],
-  sampleRate: number = 44100
+  sampleRate: number = tracks[0]?.sampleRate ?? 44100,
+  tempo?: ProjectTempo
 ): string {
   const projectId = Math.random().toString(36).substring(2, 15);
   const timestamp = new Date().toISOString();
@@ -34,9 +66,9 @@ export function generateAudacityProjectXml(
       return `
     <track kind="wave" name="${escapeXml(track.name)}" id="${trackId}" offset="0.0">
       <waveclip offset="0.0">
-        <sequence maxSamples="262144" sampleCount="0">
+        <sequence maxSamples="262144" sampleCount="${track.numSamples}">
           <waveblock index="0">
-            <simpleblockfile filename="${escapeXml(path.basename(track.filePath))}" len="0" format="PCM" numchannels="${track.channels}" />
+            <simpleblockfile filename="${escapeXml(path.basename(track.filePath))}" len="${track.numSamples}" format="PCM" numchannels="${track.channels}" rate="${track.sampleRate}" />
           </waveblock>
         </sequence>
         <envelope numpoints="0" />
@@ -45,9 +77,14 @@ export function generateAudacityProjectXml(
     })
     .join("\n");
 
+  const tempoAttributes = tempo
+    ? ` time_signature_tempo="${tempo.bpm}" time_signature_upper="${tempo.beatsPerBar}" time_signature_lower="4"`
+    : "";
+  const barsXml = tempo ? generateBarLabelsXml(tempo, (tracks[0]?.numSamples ?? 0) / sampleRate) : "";
+
   const xml = `<?xml version="1.0" encoding="UTF-8"?>
 <!DOCTYPE project PUBLIC "-//Audacity//DTD Audacity ${sampleRate} Project//EN" "http://audacity.sourceforge.net/xml/audacityproject-${sampleRate}.dtd">
-<project xmlns="http://audacity.sourceforge.net/xml/" projname="${escapeXml(projectName)}_data" version="3.4.0" audacityversion="3.4.0" sel0="0.0" sel1="0.0" vpos="0" h="0.0" zoom="100.0" rate="${sampleRate}" snapto="off" selectionformat="hh:mm:ss + milliseconds" frequencyformat="Hz" bandwidthformat="octaves" showclipping="0" showeffectsstackdebug="0" audiouniteffectsflags="2">
+<project xmlns="http://audacity.sourceforge.net/xml/" projname="${escapeXml(projectName)}_data" version="3.4.0" audacityversion="3.4.0" sel0="0.0" sel1="0.0" vpos="0" h="0.0" zoom="100.0" rate="${sampleRate}" snapto="off" selectionformat="hh:mm:ss + milliseconds" frequencyformat="Hz" bandwidthformat="octaves" showclipping="0" showeffectsstackdebug="0" audiouniteffectsflags="2"${tempoAttributes}>
   <tags/>
   <projectinfo>
     <projectname>${escapeXml(projectName)}</projectname>
@@ -56,12 +93,29 @@ export function generateAudacityProjectXml(
   </projectinfo>
   <wavetrack name="Audio Track" id="audio-track-0" offset="0.0" mute="0" solo="0" height="150" minimized="0" isSelected="1" rate="${sampleRate}" gain="1.0" pan="0.0" colorindex="0">
 ${tracksXml}
-  </wavetrack>
+  </wavetrack>${barsXml}
 </project>`;
 
   return xml;
 }
 
+/**
+ * Label track with a point label at every bar line
+ */
+function generateBarLabelsXml(tempo: ProjectTempo, durationSec: number): string {
+  const barSec = (tempo.beatsPerBar * 60) / tempo.bpm;
+  const labels: string[] = [];
+  for (let bar = 0; tempo.firstDownbeatSec + bar * barSec < durationSec; bar++) {
+    const time = (tempo.firstDownbeatSec + bar * barSec).toFixed(6);
+    labels.push(`    <label t="${time}" t1="${time}" title="Bar ${bar + 1}" />`);
+  }
+
+  return `
+  <labeltrack name="Bars" numlabels="${labels.length}" height="73" minimized="0" isSelected="0">
+${labels.join("\n")}
+  </labeltrack>`;
+}
+
 /**
  * Escape XML special characters
  */
@@ -102,37 +156,22 @@ export async function createAudacityProject(
       }
     }
 
+    // Read their real formats and lengths; refuse stems that are not audio or do not line up
+    const validation = await validateStems(stemFiles);
+    if (!validation.valid) {
+      return {
+        success: false,
+        error: `Invalid stems: ${validation.errors.join("; ")}`,
+      };
+    }
+
     // Create project directory
     const projectDir = path.join(projectPath, `${projectName}_data`);
     await fs.ensureDir(projectDir);
 
-    // Create track info
-    const tracks: TrackInfo[] = [
-      {
-        name: "Vocals",
-        filePath: stemFiles.vocals,
-        channels: 2,
-        sampleRate: 44100,
-      },
-      {
-        name: "Drums",
-        filePath: stemFiles.drums,
-        channels: 2,
-        sampleRate: 44100,
-      },
-      {
-        name: "Bass",
-        filePath: stemFiles.bass,
-        channels: 2,
-        sampleRate: 44100,
-      },
-      {
-        name: "Other",
-        filePath: stemFiles.other,
-        channels: 2,
-        sampleRate: 44100,
-      },
-    ];
+    const tracks = Object.entries(stemFiles).map(([name, filePath]) =>
+      toTrackInfo(name, filePath, validation.stems[name])
+    );
 
     // Generate project XML
     const projectXml = generateAudacityProjectXml(projectName, tracks);
@@ -154,7 +193,7 @@ export async function createAudacityProject(
       version: "3.4.0",
       projectName,
       created: new Date().toISOString(),
-      tracks: tracks.map((t) => ({ name: t.name, file: path.basename(t.filePath) })),
+      tracks: tracks.map((t) => ({ name: t.name, file: path.basename(t.filePath), numSamples: t.numSamples })),
       projectDir: projectDir,
     };
     await fs.writeFile(aup3Path, JSON.stringify(metadata, null, 2));
@@ -174,6 +213,7 @@ export async function createAudacityProject(
 
 /**
  * Validate Audacity project structure
+ * Each stem must be readable audio whose sample count matches the len of its track in project.xml
  */
 export async function validateAudacityProject(
   projectPath: string
@@ -193,16 +233,32 @@ export async function validateAudacityProject(
     // Check if project.xml exists in project directory
     const projectDir = projectPath.replace(/\.aup3$/, "_data");
     const xmlPath = path.join(projectDir, "project.xml");
-    if (!fs.existsSync(xmlPath)) {
+    const projectXml = fs.existsSync(xmlPath) ? await fs.readFile(xmlPath, "utf-8") : null;
+    if (projectXml === null) {
       errors.push("project.xml not found in project directory");
     }
 
-    // Check if stem files exist
+    // Check that the stem files exist and are audio
     const stemFiles = ["vocals.wav", "drums.wav", "bass.wav", "other.wav"];
+    const present: Record<string, string> = {};
     for (const stem of stemFiles) {
       const stemPath = path.join(projectDir, stem);
       if (!fs.existsSync(stemPath)) {
         errors.push(`Stem file not found: ${stem}`);
+      } else {
+        present[stem] = stemPath;
+      }
+    }
+    const validation = await validateStems(present);
+    errors.push(...validation.errors);
+
+    // Check that the project's track lengths match the audio
+    for (const [stem, info] of Object.entries(validation.stems)) {
+      const len = projectXml?.match(new RegExp(`filename="${stem.replace(/\./g, "\\.")}" len="(\\d+)"`))?.[1];
+      if (projectXml !== null && len === undefined) {
+        errors.push(`project.xml has no track for ${stem}`);
+      } else if (len !== undefined && parseInt(len) !== info.numSamples) {
+        errors.push(`project.xml gives ${stem} ${len} samples, the file has ${info.numSamples}`);
       }
     }
 
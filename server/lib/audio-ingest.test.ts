@@ -0,0 +1,80 @@
+import { describe, it, expect } from "vitest";
+import { InvalidAudioError, parseProbeOutput, readTrackInfo } from "./audio-ingest";
+
+const probeOutput = (output: object) => JSON.stringify(output);
+
+describe("Audio Ingest", () => {
+  it("should read format, stream and ID3 tags from an MP3 probe", () => {
+    const probe = parseProbeOutput(
+      probeOutput({
+        streams: [
+          { codec_type: "video", codec_name: "mjpeg" },
+          { codec_type: "audio", codec_name: "mp3", sample_rate: "48000", channels: 2, bits_per_sample: 0 },
+        ],
+        format: {
+          format_name: "mp3",
+          duration: "215.4012",
+          bit_rate: "320000",
+          tags: { title: "Hold On", artist: "Some Band", TBPM: "120" },
+        },
+      })
+    );
+
+    expect(probe).toEqual({
+      formatName: "mp3",
+      codec: "mp3",
+      sampleRate: 48000,
+      channels: 2,
+      durationSec: 215.401,
+      bitRate: 320000,
+      tags: { title: "Hold On", artist: "Some Band", tbpm: "120" },
+    });
+  });
+
+  it("should read bit depth and Vorbis comments kept on the stream", () => {
+    const probe = parseProbeOutput(
+      probeOutput({
+        streams: [
+          {
+            codec_type: "audio",
+            codec_name: "flac",
+            sample_rate: "96000",
+            channels: 1,
+            bits_per_raw_sample: "24",
+            duration: "12.5",
+            tags: { TITLE: "Take 3", ARTIST: "Quartet" },
+          },
+        ],
+        format: { format_name: "ogg", duration: "12.6" },
+      })
+    );
+
+    expect(probe).toMatchObject({ codec: "flac", sampleRate: 96000, channels: 1, bitDepth: 24, durationSec: 12.5 });
+    expect(probe.tags).toEqual({ title: "Take 3", artist: "Quartet" });
+  });
+
+  it("should refuse output without usable audio", () => {
+    expect(() => parseProbeOutput("not json")).toThrow(InvalidAudioError);
+    expect(() => parseProbeOutput(probeOutput({ streams: [{ codec_type: "video" }], format: {} }))).toThrow(
+      "No audio stream found"
+    );
+    expect(() =>
+      parseProbeOutput(
+        probeOutput({
+          streams: [{ codec_type: "audio", codec_name: "pcm_s16le", sample_rate: "44100", channels: 2 }],
+          format: { format_name: "wav", duration: "0.000000" },
+        })
+      )
+    ).toThrow("Audio has no duration");
+  });
+
+  it("should take title and artist from tags before the file name", () => {
+    expect(readTrackInfo({ title: "Tagged", album_artist: "Band" }, "Other_-_Name.mp3")).toEqual({
+      title: "Tagged",
+      artist: "Band",
+    });
+    expect(readTrackInfo({}, "Some_Artist_-_Some_Track.flac")).toEqual({ title: "Some Track", artist: "Some Artist" });
+    expect(readTrackInfo({ artist: "Band" }, "recording.wav")).toEqual({ title: "recording", artist: "Band" });
+    expect(readTrackInfo({}, "recording.wav")).toEqual({ title: "recording", artist: "Unknown Artist" });
+  });
+});
@@ -0,0 +1,200 @@
+/**
+ * Audio Ingest
+ *
+ * Probes uploaded or downloaded audio with ffprobe and transcodes it to the
+ * canonical WAV the later stages read (CANONICAL_WAV). The DOWNLOAD stage
+ * ingests uploads and yt-dlp downloads through this module (see yt-dlp-worker.ts).
+ *
+ * Invariants:
+ * - Audio ffprobe cannot read, without an audio stream or with no duration
+ *   is refused with InvalidAudioError (INVALID_AUDIO_FORMAT), never guessed at
+ * - Tags are read from the container and the audio stream (ID3, Vorbis
+ *   comments, RIFF INFO, ...), keyed in lower case
+ * - A missing ffprobe/ffmpeg or an aborted run is not an audio problem and
+ *   surfaces as the original error
+ */
+
+import { execFile } from "child_process";
+import { promisify } from "util";
+import path from "path";
+
+const execFileAsync = promisify(execFile);
+
+/**
+ * Format every ingested file is transcoded to
+ */
+export const CANONICAL_WAV = {
+  codec: "pcm_s16le",
+  sampleRate: 44100,
+  channels: 2,
+  bitDepth: 16,
+} as const;
+
+/**
+ * What ffprobe found in a file
+ */
+export interface AudioProbe {
+  // Container, e.g. "wav", "mp3", "flac", "aiff"
+  formatName: string;
+  // Codec of the first audio stream, e.g. "pcm_s24le", "mp3"
+  codec: string;
+  sampleRate: number;
+  channels: number;
+  // Bits per sample of PCM and lossless audio (unset for lossy codecs)
+  bitDepth?: number;
+  durationSec: number;
+  bitRate?: number;
+  // Container and stream tags, lower-case keys
+  tags: Record<string, string>;
+}
+
+/**
+ * Thrown when a file is not audio the pipeline can use
+ */
+export class InvalidAudioError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "InvalidAudioError";
+  }
+}
+
+function lowerCaseKeys(tags: Record<string, unknown> | undefined): Record<string, string> {
+  const result: Record<string, string> = {};
+  for (const [key, value] of Object.entries(tags ?? {})) {
+    if (typeof value === "string" && value.trim()) {
+      result[key.toLowerCase()] = value.trim();
+    }
+  }
+  return result;
+}
+
+function toNumber(value: unknown): number | undefined {
+  const number = typeof value === "number" ? value : parseFloat(String(value));
+  return Number.isFinite(number) && number > 0 ? number : undefined;
+}
+
+/**
+ * Parse `ffprobe -print_format json -show_format -show_streams` output
+ * @throws InvalidAudioError if the file has no usable audio
+ */
+export function parseProbeOutput(stdout: string): AudioProbe {
+  let output: { format?: Record<string, any>; streams?: Record<string, any>[] };
+  try {
+    output = JSON.parse(stdout);
+  } catch (e) {
+    throw new InvalidAudioError("ffprobe returned unreadable output");
+  }
+
+  const stream = output.streams?.find((candidate) => candidate.codec_type === "audio");
+  if (!stream) {
+    throw new InvalidAudioError("No audio stream found");
+  }
+
+  const sampleRate = toNumber(stream.sample_rate);
+  const channels = toNumber(stream.channels);
+  if (!sampleRate || !channels) {
+    throw new InvalidAudioError(`Audio stream has no sample rate or channels (${stream.codec_name})`);
+  }
+
+  const durationSec = toNumber(stream.duration) ?? toNumber(output.format?.duration);
+  if (!durationSec) {
+    throw new InvalidAudioError("Audio has no duration (empty or truncated file)");
+  }
+
+  // Lossless codecs report the bits they store in bits_per_raw_sample, PCM in bits_per_sample
+  const bitDepth = toNumber(stream.bits_per_raw_sample) ?? toNumber(stream.bits_per_sample);
+
+  return {
+    formatName: String(output.format?.format_name ?? "unknown"),
+    codec: String(stream.codec_name ?? "unknown"),
+    sampleRate,
+    channels,
+    ...(bitDepth && { bitDepth }),
+    durationSec: Math.round(durationSec * 1000) / 1000,
+    ...(toNumber(output.format?.bit_rate) && { bitRate: toNumber(output.format?.bit_rate) }),
+    // Ogg and Opus keep their comments on the stream
+    tags: { ...lowerCaseKeys(stream.tags), ...lowerCaseKeys(output.format?.tags) },
+  };
+}
+
+/**
+ * Map a failed ffprobe/ffmpeg run: the tool refusing the input is an audio problem,
+ * anything else (missing binary, abort) is not
+ */
+function toIngestError(error: any, tool: string): Error {
+  if (typeof error?.code === "number") {
+    const detail = String(error.stderr || error.message).trim().split("\n").pop();
+    return new InvalidAudioError(`${tool} could not read the audio: ${detail}`);
+  }
+  return error instanceof Error ? error : new Error(String(error));
+}
+
+/**
+ * Probe an audio file with ffprobe
+ * Aborting the signal kills the ffprobe process
+ * @throws InvalidAudioError if the file has no usable audio
+ */
+export async function probeAudio(filePath: string, signal?: AbortSignal): Promise<AudioProbe> {
+  let stdout: string;
+  try {
+    ({ stdout } = await execFileAsync(
+      "ffprobe",
+      ["-v", "error", "-print_format", "json", "-show_format", "-show_streams", filePath],
+      { signal, maxBuffer: 10 * 1024 * 1024 }
+    ));
+  } catch (error) {
+    throw toIngestError(error, "ffprobe");
+  }
+  return parseProbeOutput(stdout);
+}
+
+/**
+ * Transcode the first audio stream of a file to CANONICAL_WAV
+ * Aborting the signal kills the ffmpeg process
+ * @throws InvalidAudioError if ffmpeg cannot decode the audio
+ */
+export async function transcodeToCanonicalWav(inputPath: string, outputPath: string, signal?: AbortSignal): Promise<void> {
+  try {
+    await execFileAsync(
+      "ffmpeg",
+      [
+        "-v",
+        "error",
+        "-nostdin",
+        "-y",
+        "-i",
+        inputPath,
+        "-map",
+        "0:a:0",
+        "-c:a",
+        CANONICAL_WAV.codec,
+        "-ar",
+        String(CANONICAL_WAV.sampleRate),
+        "-ac",
+        String(CANONICAL_WAV.channels),
+        outputPath,
+      ],
+      { signal }
+    );
+  } catch (error) {
+    throw toIngestError(error, "ffmpeg");
+  }
+}
+
+/**
+ * Title and artist of a track: embedded tags first, else the file name ("Artist - Title.ext")
+ */
+export function readTrackInfo(tags: Record<string, string>, filename: string): { title: string; artist: string } {
+  // Stored upload names are sanitized (spaces became underscores)
+  const baseName = path.basename(filename, path.extname(filename)).replace(/_/g, " ");
+  const separator = baseName.indexOf(" - ");
+
+  return {
+    title: tags.title || (separator === -1 ? baseName : baseName.slice(separator + 3)).trim() || "Untitled",
+    artist:
+      tags.artist ||
+      tags.album_artist ||
+      (separator === -1 ? "Unknown Artist" : baseName.slice(0, separator).trim()) ||
+      "Unknown Artist",
+  };
+}
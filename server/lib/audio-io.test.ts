@@ -0,0 +1,163 @@
+import { describe, it, expect, afterEach } from "vitest";
+import fs from "fs-extra";
+import path from "path";
+import {
+  AudioFormatError,
+  decodeAudio,
+  encodeAiff,
+  encodeWav,
+  parseAudioInfo,
+  readAudioInfo,
+  validateStems,
+} from "./audio-io";
+
+// A 441 Hz sine on the left, its inverse on the right: 1000 frames at 44.1 kHz
+const left = Float32Array.from({ length: 1000 }, (_, i) => 0.5 * Math.sin((2 * Math.PI * 441 * i) / 44100));
+const right = left.map((sample) => -sample);
+const audio = { sampleRate: 44100, channelData: [left, right] };
+
+function maxError(decoded: Float32Array[]): number {
+  let max = 0;
+  decoded.forEach((samples, channel) =>
+    samples.forEach((sample, i) => (max = Math.max(max, Math.abs(sample - audio.channelData[channel][i]))))
+  );
+  return max;
+}
+
+describe("Audio I/O", () => {
+  const testDir = `/tmp/ego-studio-jobs-test-audio-io-${Date.now()}-${Math.random()}`;
+
+  afterEach(async () => {
+    try {
+      await fs.remove(testDir);
+    } catch (e) {
+      // Ignore cleanup errors
+    }
+  });
+
+  it("should round-trip WAV and AIFF in every supported encoding", () => {
+    const encodings = [
+      { sampleFormat: "int", bitDepth: 16, tolerance: 1 / 0x7fff },
+      { sampleFormat: "int", bitDepth: 24, tolerance: 1 / 0x7fffff },
+      { sampleFormat: "int", bitDepth: 32, tolerance: 1e-7 },
+      { sampleFormat: "float", bitDepth: 32, tolerance: 0 },
+      { sampleFormat: "float", bitDepth: 64, tolerance: 0 },
+    ] as const;
+
+    for (const encode of [encodeWav, encodeAiff]) {
+      for (const { tolerance, ...options } of encodings) {
+        const decoded = decodeAudio(encode(audio, options));
+
+        expect(decoded).toMatchObject({
+          container: encode === encodeWav ? "wav" : "aiff",
+          ...options,
+          sampleRate: 44100,
+          channels: 2,
+          numSamples: 1000,
+          durationSec: 0.023,
+        });
+        expect(maxError(decoded.channelData)).toBeLessThanOrEqual(tolerance);
+      }
+    }
+  });
+
+  it("should write the headers other tools expect", () => {
+    const wav = encodeWav(audio, { bitDepth: 24 });
+    expect(wav.toString("latin1", 0, 4)).toBe("RIFF");
+    expect(wav.readUInt32LE(4)).toBe(wav.length - 8);
+    // fmt: PCM, 2 channels, 44100 Hz, 6-byte frames, 24 bits; data: 6000 bytes
+    expect([wav.readUInt16LE(20), wav.readUInt16LE(22), wav.readUInt32LE(24)]).toEqual([1, 2, 44100]);
+    expect([wav.readUInt16LE(32), wav.readUInt16LE(34), wav.readUInt32LE(40)]).toEqual([6, 24, 6000]);
+
+    const aiff = encodeAiff(audio);
+    expect(aiff.toString("latin1", 8, 12)).toBe("AIFF");
+    // 44100 as an 80-bit extended float
+    expect(aiff.subarray(28, 38).toString("hex")).toBe("400eac44000000000000");
+  });
+
+  it("should skip unknown chunks and read AIFF-C little-endian samples", () => {
+    const wav = encodeWav(audio);
+    const list = Buffer.alloc(8 + 5 + 1);
+    list.write("LIST", 0, "latin1");
+    list.writeUInt32LE(5, 4);
+    const withList = Buffer.concat([wav.subarray(0, 36), list, wav.subarray(36)]);
+    withList.writeUInt32LE(withList.length - 8, 4);
+    expect(parseAudioInfo(withList)).toMatchObject({ numSamples: 1000, channels: 2 });
+
+    // Rewrite a 16-bit AIFF as AIFF-C "sowt": COMM grows by the compression type and an empty name
+    const aiff = encodeAiff(audio);
+    const comm = Buffer.alloc(8 + 24);
+    aiff.copy(comm, 0, 12, 38);
+    comm.writeUInt32BE(24, 4);
+    comm.write("sowt", 26, "latin1");
+    const sound = Buffer.from(aiff.subarray(38));
+    for (let offset = 16; offset + 1 < sound.length; offset += 2) {
+      sound.writeInt16LE(sound.readInt16BE(offset), offset);
+    }
+    const aifc = Buffer.concat([Buffer.from("FORM\0\0\0\0AIFC", "latin1"), comm, sound]);
+    aifc.writeUInt32BE(aifc.length - 8, 4);
+
+    const decoded = decodeAudio(aifc);
+    expect(decoded).toMatchObject({ container: "aiff", sampleFormat: "int", bitDepth: 16, numSamples: 1000 });
+    expect(maxError(decoded.channelData)).toBeLessThanOrEqual(1 / 0x7fff);
+  });
+
+  it("should refuse files that are not supported audio", () => {
+    const wav = encodeWav(audio);
+    const eightBit = Buffer.from(wav);
+    eightBit.writeUInt16LE(2, 32);
+    eightBit.writeUInt16LE(8, 34);
+    const adpcm = Buffer.from(wav);
+    adpcm.writeUInt16LE(0x0011, 20);
+
+    expect(() => parseAudioInfo(Buffer.from("RIFF"))).toThrow("too short");
+    expect(() => parseAudioInfo(Buffer.from("ID3\x04 not a wav file at all"))).toThrow(AudioFormatError);
+    expect(() => parseAudioInfo(wav.subarray(0, 2000))).toThrow("WAV data is truncated");
+    expect(() => parseAudioInfo(wav.subarray(0, 36))).toThrow("no data chunk");
+    expect(() => parseAudioInfo(eightBit)).toThrow("Unsupported sample encoding: 8-bit int");
+    expect(() => parseAudioInfo(adpcm)).toThrow("Unsupported WAV encoding 0x0011");
+    expect(() => parseAudioInfo(encodeAiff(audio).subarray(0, 100))).toThrow("AIFF sound data is truncated");
+    expect(() => encodeWav({ sampleRate: 44100, channelData: [left, new Float32Array(10)] })).toThrow(
+      "all of the same length"
+    );
+  });
+
+  it("should read file info from the headers and validate stems", async () => {
+    const stems = {
+      vocals: path.join(testDir, "vocals.wav"),
+      drums: path.join(testDir, "drums.aiff"),
+      bass: path.join(testDir, "bass.wav"),
+      other: path.join(testDir, "other.wav"),
+    };
+    await fs.outputFile(stems.vocals, encodeWav(audio));
+    await fs.outputFile(stems.drums, encodeAiff(audio, { bitDepth: 24 }));
+    await fs.outputFile(stems.bass, encodeWav(audio, { sampleFormat: "float" }));
+    await fs.outputFile(stems.other, encodeWav(audio));
+
+    expect(await readAudioInfo(stems.drums)).toEqual({
+      container: "aiff",
+      sampleFormat: "int",
+      bitDepth: 24,
+      sampleRate: 44100,
+      channels: 2,
+      numSamples: 1000,
+      durationSec: 0.023,
+    });
+    const valid = await validateStems(stems);
+    expect(valid.errors).toEqual([]);
+    expect(valid.stems.bass).toMatchObject({ sampleFormat: "float", numSamples: 1000 });
+
+    await fs.outputFile(stems.bass, encodeWav({ sampleRate: 48000, channelData: [left] }));
+    await fs.outputFile(stems.other, encodeWav({ sampleRate: 44100, channelData: [left.slice(0, 10), right.slice(0, 10)] }));
+    await fs.outputFile(stems.drums, encodeWav({ sampleRate: 44100, channelData: [new Float32Array(0)] }));
+    const invalid = await validateStems(stems);
+
+    expect(invalid.valid).toBe(false);
+    expect(invalid.errors).toEqual([
+      "Stem drums: no samples",
+      "Stem drums is 44100 Hz/1 ch, vocals is 44100 Hz/2 ch",
+      "Stem bass is 48000 Hz/1 ch, vocals is 44100 Hz/2 ch",
+      "Stem other has 10 samples, vocals has 1000",
+    ]);
+  });
+});
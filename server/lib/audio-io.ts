@@ -0,0 +1,527 @@
+/**
+ * Audio I/O
+ *
+ * Parses and writes PCM WAV and AIFF/AIFF-C files in TypeScript: headers and
+ * sample data, 16/24/32-bit integer and 32/64-bit float samples. Used to check
+ * stems and to report their real sample counts and durations (Demucs,
+ * Audacity and packaging workers).
+ *
+ * Samples are exchanged as one Float32Array per channel, in [-1, 1].
+ *
+ * Invariants:
+ * - A file is refused with AudioFormatError, never guessed at: unknown
+ *   container or encoding, unsupported bit depth, missing format or data
+ *   chunk, or less sample data than the header declares
+ * - numSamples counts sample frames (per channel), never bytes
+ * - readAudioInfo reads chunk headers only, so checking a large stem is cheap
+ */
+
+import fs from "fs-extra";
+
+export type AudioContainer = "wav" | "aiff";
+export type SampleFormat = "int" | "float";
+
+/**
+ * Format and length of an audio file
+ */
+export interface AudioInfo {
+  container: AudioContainer;
+  sampleFormat: SampleFormat;
+  // 16, 24 or 32 for int; 32 or 64 for float
+  bitDepth: number;
+  sampleRate: number;
+  channels: number;
+  // Sample frames per channel
+  numSamples: number;
+  durationSec: number;
+}
+
+/**
+ * Decoded audio: one array of samples in [-1, 1] per channel
+ */
+export interface AudioData {
+  sampleRate: number;
+  channelData: Float32Array[];
+}
+
+/**
+ * Sample encoding to write
+ */
+export interface EncodeOptions {
+  sampleFormat?: SampleFormat;
+  bitDepth?: number;
+}
+
+/**
+ * Thrown when a file is not audio this module can read or write
+ */
+export class AudioFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "AudioFormatError";
+  }
+}
+
+// Where the samples are and how they are stored
+interface AudioLayout extends AudioInfo {
+  dataOffset: number;
+  littleEndian: boolean;
+}
+
+// Reads length bytes at offset (fewer at the end of the file)
+type ByteReader = (offset: number, length: number) => Buffer;
+
+const SUPPORTED_BIT_DEPTHS: Record<SampleFormat, number[]> = { int: [16, 24, 32], float: [32, 64] };
+
+// WAVE_FORMAT_* codes of the fmt chunk
+const WAVE_FORMAT_PCM = 0x0001;
+const WAVE_FORMAT_IEEE_FLOAT = 0x0003;
+const WAVE_FORMAT_EXTENSIBLE = 0xfffe;
+
+// AIFF-C version timestamp (FVER chunk)
+const AIFC_VERSION_1 = 0xa2805140;
+
+// Streaming writers leave the RIFF data size at its maximum
+const UNKNOWN_DATA_SIZE = 0xffffffff;
+
+function checkEncoding(sampleFormat: SampleFormat, bitDepth: number): void {
+  if (!SUPPORTED_BIT_DEPTHS[sampleFormat].includes(bitDepth)) {
+    throw new AudioFormatError(`Unsupported sample encoding: ${bitDepth}-bit ${sampleFormat}`);
+  }
+}
+
+/**
+ * Read an IEEE 754 80-bit extended float (the AIFF sample rate)
+ */
+function readExtended(buffer: Buffer, offset: number): number {
+  const exponent = buffer.readUInt16BE(offset) & 0x7fff;
+  const mantissa = buffer.readUInt32BE(offset + 2) * 2 ** 32 + buffer.readUInt32BE(offset + 6);
+  if (exponent === 0 && mantissa === 0) {
+    return 0;
+  }
+  const value = mantissa * 2 ** (exponent - 16383 - 63);
+  return buffer[offset] & 0x80 ? -value : value;
+}
+
+/**
+ * Write a positive number as an IEEE 754 80-bit extended float
+ */
+function writeExtended(buffer: Buffer, offset: number, value: number): void {
+  buffer.fill(0, offset, offset + 10);
+  if (value <= 0) {
+    return;
+  }
+  const exponent = Math.floor(Math.log2(value));
+  const mantissa = value / 2 ** exponent;
+  const high = Math.floor(mantissa * 2 ** 31);
+  const low = Math.floor((mantissa * 2 ** 31 - high) * 2 ** 32);
+  buffer.writeUInt16BE(exponent + 16383, offset);
+  buffer.writeUInt32BE(high, offset + 2);
+  buffer.writeUInt32BE(low, offset + 6);
+}
+
+function toLayout(
+  format: Omit<AudioLayout, "numSamples" | "durationSec" | "dataOffset">,
+  dataOffset: number,
+  numSamples: number
+): AudioLayout {
+  checkEncoding(format.sampleFormat, format.bitDepth);
+  if (!format.channels) {
+    throw new AudioFormatError(`${format.container.toUpperCase()} file declares no channels`);
+  }
+  if (!format.sampleRate) {
+    throw new AudioFormatError(`${format.container.toUpperCase()} file declares no sample rate`);
+  }
+  return {
+    ...format,
+    dataOffset,
+    numSamples,
+    durationSec: Math.round((numSamples / format.sampleRate) * 1000) / 1000,
+  };
+}
+
+function readWavLayout(read: ByteReader, size: number): AudioLayout {
+  let format: Omit<AudioLayout, "numSamples" | "durationSec" | "dataOffset"> | undefined;
+  let blockAlign = 0;
+  let data: { offset: number; bytes: number } | undefined;
+
+  for (let offset = 12; offset + 8 <= size && !(format && data); ) {
+    const header = read(offset, 8);
+    const id = header.toString("latin1", 0, 4);
+    const chunkSize = header.readUInt32LE(4);
+
+    if (id === "fmt ") {
+      const fmt = read(offset + 8, Math.min(chunkSize, 40));
+      if (fmt.length < 16) {
+        throw new AudioFormatError("WAV fmt chunk is truncated");
+      }
+      let code = fmt.readUInt16LE(0);
+      if (code === WAVE_FORMAT_EXTENSIBLE && fmt.length >= 26) {
+        // The format code is the first two bytes of the SubFormat GUID
+        code = fmt.readUInt16LE(24);
+      }
+      if (code !== WAVE_FORMAT_PCM && code !== WAVE_FORMAT_IEEE_FLOAT) {
+        throw new AudioFormatError(`Unsupported WAV encoding 0x${code.toString(16).padStart(4, "0")} (not PCM)`);
+      }
+      blockAlign = fmt.readUInt16LE(12);
+      format = {
+        container: "wav",
+        sampleFormat: code === WAVE_FORMAT_IEEE_FLOAT ? "float" : "int",
+        bitDepth: fmt.readUInt16LE(14),
+        sampleRate: fmt.readUInt32LE(4),
+        channels: fmt.readUInt16LE(2),
+        littleEndian: true,
+      };
+    } else if (id === "data") {
+      const available = size - offset - 8;
+      if (chunkSize === UNKNOWN_DATA_SIZE) {
+        data = { offset: offset + 8, bytes: available };
+      } else if (chunkSize > available) {
+        throw new AudioFormatError(`WAV data is truncated: header declares ${chunkSize} bytes, file has ${available}`);
+      } else {
+        data = { offset: offset + 8, bytes: chunkSize };
+      }
+    }
+
+    // Chunks are padded to an even size
+    offset += 8 + chunkSize + (chunkSize % 2);
+  }
+
+  if (!format) {
+    throw new AudioFormatError("WAV file has no fmt chunk");
+  }
+  if (!data) {
+    throw new AudioFormatError("WAV file has no data chunk");
+  }
+  const frameBytes = format.channels * (format.bitDepth / 8);
+  if (blockAlign !== frameBytes) {
+    throw new AudioFormatError(`WAV block align ${blockAlign} does not match ${format.channels} x ${format.bitDepth}-bit`);
+  }
+  return toLayout(format, data.offset, Math.floor(data.bytes / frameBytes));
+}
+
+function readAiffLayout(read: ByteReader, size: number, aifc: boolean): AudioLayout {
+  let comm: (Omit<AudioLayout, "numSamples" | "durationSec" | "dataOffset"> & { frames: number }) | undefined;
+  let sound: { offset: number; bytes: number } | undefined;
+
+  for (let offset = 12; offset + 8 <= size && !(comm && sound); ) {
+    const header = read(offset, 8);
+    const id = header.toString("latin1", 0, 4);
+    const chunkSize = header.readUInt32BE(4);
+
+    if (id === "COMM") {
+      const body = read(offset + 8, Math.min(chunkSize, 22));
+      if (body.length < (aifc ? 22 : 18)) {
+        throw new AudioFormatError("AIFF COMM chunk is truncated");
+      }
+      const compression = aifc ? body.toString("latin1", 18, 22) : "NONE";
+      let sampleFormat: SampleFormat = "int";
+      let littleEndian = false;
+      let bitDepth = body.readInt16BE(6);
+      if (compression === "sowt") {
+        littleEndian = true;
+      } else if (["fl32", "FL32", "fl64", "FL64"].includes(compression)) {
+        sampleFormat = "float";
+        bitDepth = compression.endsWith("32") ? 32 : 64;
+      } else if (compression !== "NONE") {
+        throw new AudioFormatError(`Unsupported AIFF-C compression "${compression}" (not PCM)`);
+      }
+      comm = {
+        container: "aiff",
+        sampleFormat,
+        bitDepth,
+        sampleRate: readExtended(body, 8),
+        channels: body.readInt16BE(0),
+        littleEndian,
+        frames: body.readUInt32BE(2),
+      };
+    } else if (id === "SSND") {
+      // Samples start after the offset and block size fields, plus the offset
+      const dataOffset = read(offset + 8, 4).readUInt32BE(0);
+      const start = offset + 16 + dataOffset;
+      sound = { offset: start, bytes: Math.min(offset + 8 + chunkSize, size) - start };
+    }
+
+    offset += 8 + chunkSize + (chunkSize % 2);
+  }
+
+  if (!comm) {
+    throw new AudioFormatError("AIFF file has no COMM chunk");
+  }
+  const { frames, ...format } = comm;
+  if (frames > 0 && !sound) {
+    throw new AudioFormatError("AIFF file has no SSND chunk");
+  }
+  const declared = frames * format.channels * (format.bitDepth / 8);
+  if (sound && sound.bytes < declared) {
+    throw new AudioFormatError(`AIFF sound data is truncated: header declares ${declared} bytes, file has ${sound.bytes}`);
+  }
+  return toLayout(format, sound?.offset ?? 0, frames);
+}
+
+function readLayout(read: ByteReader, size: number): AudioLayout {
+  const header = read(0, 12);
+  if (header.length < 12) {
+    throw new AudioFormatError("File is too short to be audio");
+  }
+  const magic = header.toString("latin1", 0, 4);
+  const type = header.toString("latin1", 8, 12);
+
+  if (magic === "RIFF" && type === "WAVE") {
+    return readWavLayout(read, size);
+  }
+  if (magic === "FORM" && (type === "AIFF" || type === "AIFC")) {
+    return readAiffLayout(read, size, type === "AIFC");
+  }
+  throw new AudioFormatError("Not a WAV or AIFF file");
+}
+
+function toInfo({ dataOffset, littleEndian, ...info }: AudioLayout): AudioInfo {
+  return info;
+}
+
+function bufferReader(buffer: Buffer): ByteReader {
+  return (offset, length) => buffer.subarray(offset, offset + length);
+}
+
+/**
+ * Read the format and length of WAV or AIFF data
+ * @throws AudioFormatError if it is not audio this module reads
+ */
+export function parseAudioInfo(buffer: Buffer): AudioInfo {
+  return toInfo(readLayout(bufferReader(buffer), buffer.length));
+}
+
+/**
+ * Read the format and length of a WAV or AIFF file from its chunk headers
+ * @throws AudioFormatError if it is not audio this module reads
+ */
+export async function readAudioInfo(filePath: string): Promise<AudioInfo> {
+  const fd = await fs.open(filePath, "r");
+  try {
+    const { size } = await fs.fstat(fd);
+    // A handful of small reads, one per chunk header
+    const read: ByteReader = (offset, length) => {
+      const buffer = Buffer.alloc(Math.max(0, Math.min(length, size - offset)));
+      const bytesRead = fs.readSync(fd, buffer, 0, buffer.length, offset);
+      return buffer.subarray(0, bytesRead);
+    };
+    return toInfo(readLayout(read, size));
+  } finally {
+    await fs.close(fd);
+  }
+}
+
+function readSample(buffer: Buffer, offset: number, layout: AudioLayout): number {
+  const le = layout.littleEndian;
+  if (layout.sampleFormat === "float") {
+    if (layout.bitDepth === 32) {
+      return le ? buffer.readFloatLE(offset) : buffer.readFloatBE(offset);
+    }
+    return le ? buffer.readDoubleLE(offset) : buffer.readDoubleBE(offset);
+  }
+  switch (layout.bitDepth) {
+    case 16:
+      return (le ? buffer.readInt16LE(offset) : buffer.readInt16BE(offset)) / 0x8000;
+    case 24:
+      return (le ? buffer.readIntLE(offset, 3) : buffer.readIntBE(offset, 3)) / 0x800000;
+    default:
+      return (le ? buffer.readInt32LE(offset) : buffer.readInt32BE(offset)) / 0x80000000;
+  }
+}
+
+/**
+ * Decode WAV or AIFF data to samples in [-1, 1]
+ * @throws AudioFormatError if it is not audio this module reads
+ */
+export function decodeAudio(buffer: Buffer): AudioInfo & AudioData {
+  const layout = readLayout(bufferReader(buffer), buffer.length);
+  const bytesPerSample = layout.bitDepth / 8;
+  const channelData = Array.from({ length: layout.channels }, () => new Float32Array(layout.numSamples));
+
+  let offset = layout.dataOffset;
+  for (let frame = 0; frame < layout.numSamples; frame++) {
+    for (let channel = 0; channel < layout.channels; channel++) {
+      channelData[channel][frame] = readSample(buffer, offset, layout);
+      offset += bytesPerSample;
+    }
+  }
+
+  return { ...toInfo(layout), channelData };
+}
+
+function writeSample(buffer: Buffer, offset: number, sample: number, format: Required<EncodeOptions>, le: boolean): void {
+  if (format.sampleFormat === "float") {
+    if (format.bitDepth === 32) {
+      le ? buffer.writeFloatLE(sample, offset) : buffer.writeFloatBE(sample, offset);
+    } else {
+      le ? buffer.writeDoubleLE(sample, offset) : buffer.writeDoubleBE(sample, offset);
+    }
+    return;
+  }
+  const clamped = Math.max(-1, Math.min(1, sample || 0));
+  const full = 2 ** (format.bitDepth - 1);
+  const value = Math.round(clamped < 0 ? clamped * full : clamped * (full - 1));
+  switch (format.bitDepth) {
+    case 16:
+      le ? buffer.writeInt16LE(value, offset) : buffer.writeInt16BE(value, offset);
+      break;
+    case 24:
+      le ? buffer.writeIntLE(value, offset, 3) : buffer.writeIntBE(value, offset, 3);
+      break;
+    default:
+      le ? buffer.writeInt32LE(value, offset) : buffer.writeInt32BE(value, offset);
+  }
+}
+
+function prepareEncode(audio: AudioData, options: EncodeOptions) {
+  const format: Required<EncodeOptions> = {
+    sampleFormat: options.sampleFormat ?? "int",
+    bitDepth: options.bitDepth ?? (options.sampleFormat === "float" ? 32 : 16),
+  };
+  checkEncoding(format.sampleFormat, format.bitDepth);
+
+  const channels = audio.channelData.length;
+  const numSamples = audio.channelData[0]?.length ?? 0;
+  if (channels === 0 || audio.channelData.some((samples) => samples.length !== numSamples)) {
+    throw new AudioFormatError("Audio needs at least one channel, all of the same length");
+  }
+  if (!(audio.sampleRate > 0)) {
+    throw new AudioFormatError(`Invalid sample rate ${audio.sampleRate}`);
+  }
+  return { format, channels, numSamples, dataBytes: numSamples * channels * (format.bitDepth / 8) };
+}
+
+function writeSamples(buffer: Buffer, offset: number, audio: AudioData, format: Required<EncodeOptions>, le: boolean) {
+  const bytesPerSample = format.bitDepth / 8;
+  const numSamples = audio.channelData[0].length;
+  for (let frame = 0; frame < numSamples; frame++) {
+    for (const samples of audio.channelData) {
+      writeSample(buffer, offset, samples[frame], format, le);
+      offset += bytesPerSample;
+    }
+  }
+}
+
+/**
+ * Encode audio as a WAV file (16-bit int unless options say otherwise)
+ */
+export function encodeWav(audio: AudioData, options: EncodeOptions = {}): Buffer {
+  const { format, channels, numSamples, dataBytes } = prepareEncode(audio, options);
+  const isFloat = format.sampleFormat === "float";
+  // Non-PCM WAV files carry a fact chunk with the sample count
+  const factBytes = isFloat ? 12 : 0;
+  const headerBytes = 12 + 24 + factBytes + 8;
+  const padding = dataBytes % 2;
+  const buffer = Buffer.alloc(headerBytes + dataBytes + padding);
+  const blockAlign = channels * (format.bitDepth / 8);
+
+  buffer.write("RIFF", 0, "latin1");
+  buffer.writeUInt32LE(buffer.length - 8, 4);
+  buffer.write("WAVE", 8, "latin1");
+  buffer.write("fmt ", 12, "latin1");
+  buffer.writeUInt32LE(16, 16);
+  buffer.writeUInt16LE(isFloat ? WAVE_FORMAT_IEEE_FLOAT : WAVE_FORMAT_PCM, 20);
+  buffer.writeUInt16LE(channels, 22);
+  buffer.writeUInt32LE(audio.sampleRate, 24);
+  buffer.writeUInt32LE(audio.sampleRate * blockAlign, 28);
+  buffer.writeUInt16LE(blockAlign, 32);
+  buffer.writeUInt16LE(format.bitDepth, 34);
+  if (isFloat) {
+    buffer.write("fact", 36, "latin1");
+    buffer.writeUInt32LE(4, 40);
+    buffer.writeUInt32LE(numSamples, 44);
+  }
+  buffer.write("data", headerBytes - 8, "latin1");
+  buffer.writeUInt32LE(dataBytes, headerBytes - 4);
+  writeSamples(buffer, headerBytes, audio, format, true);
+
+  return buffer;
+}
+
+/**
+ * Encode audio as an AIFF file (AIFF-C for float samples)
+ */
+export function encodeAiff(audio: AudioData, options: EncodeOptions = {}): Buffer {
+  const { format, channels, numSamples, dataBytes } = prepareEncode(audio, options);
+  const aifc = format.sampleFormat === "float";
+  // AIFF-C: FVER chunk, and COMM adds the compression type and its name (a padded Pascal string)
+  const compressionName = format.bitDepth === 32 ? "32-bit floating point" : "64-bit floating point";
+  const nameBytes = 1 + compressionName.length + ((1 + compressionName.length) % 2);
+  const commBytes = aifc ? 22 + nameBytes : 18;
+  const fverBytes = aifc ? 12 : 0;
+  const soundOffset = 12 + fverBytes + 8 + commBytes;
+  const padding = dataBytes % 2;
+  const buffer = Buffer.alloc(soundOffset + 16 + dataBytes + padding);
+
+  buffer.write("FORM", 0, "latin1");
+  buffer.writeUInt32BE(buffer.length - 8, 4);
+  buffer.write(aifc ? "AIFC" : "AIFF", 8, "latin1");
+  let offset = 12;
+  if (aifc) {
+    buffer.write("FVER", offset, "latin1");
+    buffer.writeUInt32BE(4, offset + 4);
+    buffer.writeUInt32BE(AIFC_VERSION_1, offset + 8);
+    offset += 12;
+  }
+  buffer.write("COMM", offset, "latin1");
+  buffer.writeUInt32BE(commBytes, offset + 4);
+  buffer.writeInt16BE(channels, offset + 8);
+  buffer.writeUInt32BE(numSamples, offset + 10);
+  buffer.writeInt16BE(format.bitDepth, offset + 14);
+  writeExtended(buffer, offset + 16, audio.sampleRate);
+  if (aifc) {
+    buffer.write(format.bitDepth === 32 ? "fl32" : "fl64", offset + 26, "latin1");
+    buffer.writeUInt8(compressionName.length, offset + 30);
+    buffer.write(compressionName, offset + 31, "latin1");
+  }
+  buffer.write("SSND", soundOffset, "latin1");
+  buffer.writeUInt32BE(8 + dataBytes, soundOffset + 4);
+  // Offset and block size fields stay 0
+  writeSamples(buffer, soundOffset + 16, audio, format, false);
+
+  return buffer;
+}
+
+/**
+ * Check that stems are readable audio, not empty, and alike in sample rate,
+ * channels and length
+ *
+ * @param stems - Stem name -> file path
+ * @returns The info of every readable stem and one error per problem found
+ */
+export async function validateStems(stems: Record<string, string>): Promise<{
+  valid: boolean;
+  stems: Record<string, AudioInfo>;
+  errors: string[];
+}> {
+  const infos: Record<string, AudioInfo> = {};
+  const errors: string[] = [];
+
+  for (const [name, filePath] of Object.entries(stems)) {
+    try {
+      infos[name] = await readAudioInfo(filePath);
+    } catch (error) {
+      errors.push(`Stem ${name}: ${error instanceof Error ? error.message : String(error)}`);
+      continue;
+    }
+    if (infos[name].numSamples === 0) {
+      errors.push(`Stem ${name}: no samples`);
+    }
+  }
+
+  const [first, ...rest] = Object.entries(infos);
+  for (const [name, info] of rest) {
+    const [firstName, reference] = first;
+    if (info.sampleRate !== reference.sampleRate || info.channels !== reference.channels) {
+      errors.push(
+        `Stem ${name} is ${info.sampleRate} Hz/${info.channels} ch, ` +
+          `${firstName} is ${reference.sampleRate} Hz/${reference.channels} ch`
+      );
+    } else if (info.numSamples !== reference.numSamples) {
+      errors.push(`Stem ${name} has ${info.numSamples} samples, ${firstName} has ${reference.numSamples}`);
+    }
+  }
+
+  return { valid: errors.length === 0, stems: infos, errors };
+}
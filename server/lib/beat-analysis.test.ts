@@ -0,0 +1,70 @@
+import { describe, it, expect } from "vitest";
+import { analyzeBeats } from "./beat-analysis";
+
+const SAMPLE_RATE = 22050;
+
+/**
+ * A click track: 10 ms decaying noise bursts on every beat, the first beat
+ * of each bar twice as loud, over quiet noise
+ */
+function clickTrack(bpm: number, durationSec: number, firstBeatSec: number, downbeatOffset = 0): Float32Array {
+  const samples = new Float32Array(Math.round(durationSec * SAMPLE_RATE));
+  // Deterministic noise so the test never flakes
+  let seed = 1;
+  const noise = () => ((seed = (seed * 16807) % 2147483647) / 2147483647) * 2 - 1;
+  for (let i = 0; i < samples.length; i++) {
+    samples[i] = 0.01 * noise();
+  }
+
+  const click = Math.round(0.01 * SAMPLE_RATE);
+  for (let beat = 0; ; beat++) {
+    const start = Math.round((firstBeatSec + (beat * 60) / bpm) * SAMPLE_RATE);
+    if (start >= samples.length) {
+      break;
+    }
+    const level = beat % 4 === downbeatOffset ? 0.8 : 0.4;
+    for (let i = 0; i < click && start + i < samples.length; i++) {
+      samples[start + i] += level * noise() * (1 - i / click);
+    }
+  }
+  return samples;
+}
+
+describe("Beat Analysis", () => {
+  it("should find the tempo, beats and downbeats of a click track", () => {
+    const audio = { sampleRate: SAMPLE_RATE, channelData: [clickTrack(120, 20, 0.25, 1)] };
+
+    const analysis = analyzeBeats(audio);
+
+    expect(analysis.bpm).toBeCloseTo(120, 0);
+    expect(analysis.confidence).toBeGreaterThan(0.8);
+    expect(analysis.beatsPerBar).toBe(4);
+    expect(analysis.beats[0]).toBeCloseTo(0.25, 1);
+    expect(analysis.beats).toHaveLength(40);
+    // The loud beat is the second one: bars start at 0.75 s, every 2 s
+    expect(analysis.downbeats[0]).toBeCloseTo(0.75, 1);
+    expect(analysis.downbeats[1] - analysis.downbeats[0]).toBeCloseTo(2, 1);
+  });
+
+  it("should prefer the likelier of half and double tempo", () => {
+    for (const bpm of [90, 140, 174]) {
+      const audio = { sampleRate: SAMPLE_RATE, channelData: [clickTrack(bpm, 20, 0.1)] };
+      expect(analyzeBeats(audio).bpm).toBeCloseTo(bpm, 0);
+    }
+  });
+
+  it("should mix channels down before analysing", () => {
+    const left = clickTrack(100, 12, 0.5);
+    const audio = { sampleRate: SAMPLE_RATE, channelData: [left, left.map((sample) => sample * 0.5)] };
+
+    expect(analyzeBeats(audio).bpm).toBeCloseTo(100, 0);
+  });
+
+  it("should refuse audio that is too short or has no pulse", () => {
+    const short = { sampleRate: SAMPLE_RATE, channelData: [clickTrack(120, 2, 0)] };
+    const silence = { sampleRate: SAMPLE_RATE, channelData: [new Float32Array(10 * SAMPLE_RATE)] };
+
+    expect(() => analyzeBeats(short)).toThrow("too short");
+    expect(() => analyzeBeats(silence)).toThrow("No beats found");
+  });
+});
@@ -0,0 +1,214 @@
+/**
+ * Beat Analysis
+ *
+ * Estimates the tempo, beat grid and downbeats of audio (the drums stem, or
+ * the mix when there is none) for DAW import: the beats adapter writes the
+ * result to analysis/beats.json and its BPM to metadata.analysis (see
+ * beats-worker.ts).
+ *
+ * Method:
+ * 1. Onset strength: rise in log energy between short frames
+ * 2. Tempo: autocorrelation of the onset strength over the allowed BPM range,
+ *    weighted towards 120 BPM so half and double tempo lose to the likelier one
+ * 3. Grid: the beat period and phase whose beats land on the most onset
+ *    strength across the whole track, refining the tempo estimate
+ * 4. Downbeats: the beat of the bar with the most energy (kick on the one)
+ *
+ * Invariants:
+ * - The grid is fixed-tempo; tempo changes within a track are not followed
+ * - Times are in seconds from the start of the audio, rounded to milliseconds
+ */
+
+import type { AudioData } from "./audio-io";
+
+/**
+ * Name of the beat grid file in analysis/
+ */
+export const BEATS_FILE = "beats.json";
+
+// Frame of the onset envelope, in samples
+const HOP_SIZE = 256;
+
+const MIN_BPM = 60;
+const MAX_BPM = 200;
+
+// Tempo prior: log-normal around 120 BPM, one octave wide
+const PRIOR_BPM = 120;
+const PRIOR_OCTAVES = 1;
+
+// The grid is searched within this fraction of the autocorrelation's period
+const PERIOD_SEARCH = 0.03;
+const PERIOD_STEP_FRAMES = 0.02;
+
+// Shorter audio has too few beats to trust
+const MIN_DURATION_SEC = 4;
+
+/**
+ * Tempo and beat grid of audio
+ */
+export interface BeatAnalysis {
+  bpm: number;
+  // 0 (no clear pulse) to 1 (every beat on an onset, nothing between)
+  confidence: number;
+  beatsPerBar: number;
+  // Beat times in seconds
+  beats: number[];
+  // Times of the first beat of each bar
+  downbeats: number[];
+}
+
+function mean(values: Float64Array): number {
+  let sum = 0;
+  for (let i = 0; i < values.length; i++) {
+    sum += values[i];
+  }
+  return values.length > 0 ? sum / values.length : 0;
+}
+
+/**
+ * Mono frame energies and their onset strength (rise in log energy)
+ */
+function onsetEnvelope(audio: AudioData): { energy: Float64Array; onset: Float64Array } {
+  const { channelData } = audio;
+  const numSamples = channelData[0]?.length ?? 0;
+  const frames = Math.floor(numSamples / HOP_SIZE);
+  const energy = new Float64Array(frames);
+  const onset = new Float64Array(frames);
+
+  let previous = 0;
+  for (let frame = 0; frame < frames; frame++) {
+    let sum = 0;
+    for (let i = frame * HOP_SIZE; i < (frame + 1) * HOP_SIZE; i++) {
+      let sample = 0;
+      for (const samples of channelData) {
+        sample += samples[i];
+      }
+      sample /= channelData.length;
+      sum += sample * sample;
+    }
+    energy[frame] = sum / HOP_SIZE;
+    const logEnergy = Math.log(energy[frame] + 1e-10);
+    onset[frame] = frame > 0 ? Math.max(0, logEnergy - previous) : 0;
+    previous = logEnergy;
+  }
+
+  return { energy, onset };
+}
+
+/**
+ * Beat period in frames from the autocorrelation of the onset strength
+ */
+function estimatePeriod(onset: Float64Array, framesPerSecond: number): number | null {
+  const average = mean(onset);
+  const minLag = Math.floor((framesPerSecond * 60) / MAX_BPM);
+  const maxLag = Math.min(Math.ceil((framesPerSecond * 60) / MIN_BPM), onset.length - 1);
+  const correlation = new Float64Array(maxLag + 2);
+  for (let lag = minLag - 1; lag <= maxLag + 1; lag++) {
+    let sum = 0;
+    for (let i = 0; i + lag < onset.length; i++) {
+      sum += (onset[i] - average) * (onset[i + lag] - average);
+    }
+    correlation[lag] = sum / (onset.length - lag);
+  }
+
+  let best: number | null = null;
+  let bestScore = 0;
+  for (let lag = minLag; lag <= maxLag; lag++) {
+    const bpm = (framesPerSecond * 60) / lag;
+    const prior = Math.exp(-0.5 * (Math.log2(bpm / PRIOR_BPM) / PRIOR_OCTAVES) ** 2);
+    const score = correlation[lag] * prior;
+    if (score > bestScore) {
+      best = lag;
+      bestScore = score;
+    }
+  }
+  if (best === null) {
+    return null;
+  }
+
+  // Parabolic interpolation between neighbouring lags
+  const [left, center, right] = [correlation[best - 1], correlation[best], correlation[best + 1]];
+  const curvature = left - 2 * center + right;
+  return curvature < 0 ? best + (0.5 * (left - right)) / curvature : best;
+}
+
+/**
+ * Mean onset strength at the beats of a grid
+ */
+function gridScore(onset: Float64Array, period: number, phase: number): number {
+  let sum = 0;
+  let beats = 0;
+  for (let position = phase; position < onset.length; position += period) {
+    sum += onset[Math.round(position)] ?? 0;
+    beats++;
+  }
+  return beats > 0 ? sum / beats : 0;
+}
+
+/**
+ * Period and phase (in frames) of the grid that best fits the onsets
+ */
+function fitGrid(onset: Float64Array, estimate: number): { period: number; phase: number; score: number } {
+  let best = { period: estimate, phase: 0, score: -1 };
+  for (
+    let period = estimate * (1 - PERIOD_SEARCH);
+    period <= estimate * (1 + PERIOD_SEARCH);
+    period += PERIOD_STEP_FRAMES
+  ) {
+    for (let phase = 0; phase < period; phase++) {
+      const score = gridScore(onset, period, phase);
+      if (score > best.score) {
+        best = { period, phase, score };
+      }
+    }
+  }
+  return best;
+}
+
+function roundTime(seconds: number): number {
+  return Math.round(seconds * 1000) / 1000;
+}
+
+/**
+ * Estimate the tempo, beats and downbeats of audio
+ * Throws if the audio is too short or has no pulse to follow
+ */
+export function analyzeBeats(audio: AudioData, beatsPerBar: number = 4): BeatAnalysis {
+  const durationSec = (audio.channelData[0]?.length ?? 0) / audio.sampleRate;
+  if (durationSec < MIN_DURATION_SEC) {
+    throw new Error(`Audio too short to estimate tempo: ${durationSec.toFixed(1)} s (at least ${MIN_DURATION_SEC} s)`);
+  }
+
+  const framesPerSecond = audio.sampleRate / HOP_SIZE;
+  const { energy, onset } = onsetEnvelope(audio);
+  const estimate = estimatePeriod(onset, framesPerSecond);
+  if (estimate === null) {
+    throw new Error("No beats found: the audio has no regular onsets");
+  }
+
+  const { period, phase, score } = fitGrid(onset, estimate);
+  const meanOnset = mean(onset);
+
+  const beatFrames: number[] = [];
+  for (let position = phase; position < onset.length; position += period) {
+    beatFrames.push(position);
+  }
+
+  // The bar starts on the beat position with the most energy
+  const barEnergy = new Array<number>(beatsPerBar).fill(0);
+  beatFrames.forEach((position, beat) => {
+    const frame = Math.round(position);
+    const peak = Math.max(energy[frame - 1] ?? 0, energy[frame] ?? 0, energy[frame + 1] ?? 0);
+    barEnergy[beat % beatsPerBar] += peak;
+  });
+  const downbeat = barEnergy.indexOf(Math.max(...barEnergy));
+
+  const toSeconds = (position: number) => roundTime(position / framesPerSecond);
+  return {
+    bpm: Math.round(((framesPerSecond * 60) / period) * 100) / 100,
+    confidence: Math.round(Math.max(0, 1 - meanOnset / score) * 100) / 100,
+    beatsPerBar,
+    beats: beatFrames.map(toSeconds),
+    downbeats: beatFrames.filter((_, beat) => beat % beatsPerBar === downbeat).map(toSeconds),
+  };
+}
@@ -0,0 +1,44 @@
+import { describe, it, expect } from "vitest";
+import { nextCronRun, parseCron } from "./cron";
+
+const at = (iso: string) => new Date(iso);
+
+describe("Cron Expressions", () => {
+  it("should parse wildcards, ranges, lists and steps", () => {
+    const schedule = parseCron("*/15 1-3 1,15 * 1-5");
+
+    expect(Array.from(schedule.minutes)).toEqual([0, 15, 30, 45]);
+    expect(Array.from(schedule.hours)).toEqual([1, 2, 3]);
+    expect(Array.from(schedule.daysOfMonth)).toEqual([1, 15]);
+    expect(schedule.months.size).toBe(12);
+    expect(Array.from(schedule.daysOfWeek)).toEqual([1, 2, 3, 4, 5]);
+    expect(parseCron("0 0 * * 7").daysOfWeek).toEqual(new Set([0]));
+  });
+
+  it("should refuse invalid expressions, naming the field", () => {
+    expect(() => parseCron("0 0 * *")).toThrow("expected 5 fields");
+    expect(() => parseCron("60 0 * * *")).toThrow("minute must be 0-59");
+    expect(() => parseCron("0 5-1 * * *")).toThrow('hour range "5-1" is backwards');
+    expect(() => parseCron("0 0 * 13 *")).toThrow("month must be 1-12");
+    expect(() => parseCron("*/0 0 * * *")).toThrow("minute must be 1-59");
+    expect(() => parseCron("0 0 L * *")).toThrow('got "L"');
+  });
+
+  it("should find the next run strictly after the given time, in UTC", () => {
+    expect(nextCronRun("0 2 * * *", at("2026-10-19T01:30:00Z"))).toEqual(at("2026-10-19T02:00:00Z"));
+    expect(nextCronRun("0 2 * * *", at("2026-10-19T02:00:00Z"))).toEqual(at("2026-10-20T02:00:00Z"));
+    expect(nextCronRun("*/15 * * * *", at("2026-10-19T10:07:42Z"))).toEqual(at("2026-10-19T10:15:00Z"));
+    expect(nextCronRun("30 23 31 12 *", at("2026-10-19T00:00:00Z"))).toEqual(at("2026-12-31T23:30:00Z"));
+  });
+
+  it("should match either day field when both are restricted", () => {
+    // 2026-10-19 is a Monday; the 25th is a Sunday
+    expect(nextCronRun("0 0 25 * 0", at("2026-10-19T12:00:00Z"))).toEqual(at("2026-10-25T00:00:00Z"));
+    expect(nextCronRun("0 0 * * 3", at("2026-10-19T12:00:00Z"))).toEqual(at("2026-10-21T00:00:00Z"));
+    expect(nextCronRun("0 0 20 * 5", at("2026-10-19T12:00:00Z"))).toEqual(at("2026-10-20T00:00:00Z"));
+  });
+
+  it("should refuse an expression that never runs", () => {
+    expect(() => nextCronRun("0 0 31 2 *", at("2026-10-19T00:00:00Z"))).toThrow("never runs");
+  });
+});
@@ -0,0 +1,154 @@
+/**
+ * Cron Expressions
+ *
+ * Five-field cron expressions (minute hour day-of-month month day-of-week)
+ * for recurring scheduled jobs, evaluated in UTC.
+ *
+ * Fields take `*`, numbers, ranges (`1-5`), lists (`1,15`) and steps
+ * (`*\/15`, `0-30/10`); day-of-week 0 and 7 are Sunday. As in standard cron,
+ * when both day fields are restricted a day matches if either matches.
+ *
+ * Invariants:
+ * - Invalid expressions are refused with the offending field, never corrected
+ * - nextCronRun is strictly after the given time, on a whole minute
+ */
+
+/**
+ * Parsed cron expression
+ */
+export interface CronSchedule {
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  // 0 = Sunday
+  daysOfWeek: Set<number>;
+  anyDayOfMonth: boolean;
+  anyDayOfWeek: boolean;
+}
+
+const FIELDS = [
+  { name: "minute", min: 0, max: 59 },
+  { name: "hour", min: 0, max: 23 },
+  { name: "day of month", min: 1, max: 31 },
+  { name: "month", min: 1, max: 12 },
+  { name: "day of week", min: 0, max: 7 },
+];
+
+/**
+ * How far ahead nextCronRun looks before deciding an expression never runs (e.g. 30 2 31 2 *)
+ */
+const SEARCH_LIMIT_MS = 5 * 366 * 24 * 60 * 60 * 1000;
+
+function parseNumber(text: string, field: (typeof FIELDS)[number], expression: string): number {
+  const value = /^\d+$/.test(text) ? parseInt(text) : NaN;
+  if (isNaN(value) || value < field.min || value > field.max) {
+    throw new Error(`Invalid cron expression "${expression}": ${field.name} must be ${field.min}-${field.max}, got "${text}"`);
+  }
+  return value;
+}
+
+function parseField(text: string, field: (typeof FIELDS)[number], expression: string): Set<number> {
+  const values = new Set<number>();
+
+  for (const part of text.split(",")) {
+    const [range, stepText, ...rest] = part.split("/");
+    if (rest.length > 0) {
+      throw new Error(`Invalid cron expression "${expression}": ${field.name} has more than one step in "${part}"`);
+    }
+    const step = stepText === undefined ? 1 : parseNumber(stepText, { ...field, min: 1 }, expression);
+
+    let start: number;
+    let end: number;
+    if (range === "*") {
+      [start, end] = [field.min, field.max];
+    } else if (range.includes("-")) {
+      const [from, to] = range.split("-");
+      [start, end] = [parseNumber(from, field, expression), parseNumber(to, field, expression)];
+    } else {
+      start = parseNumber(range, field, expression);
+      // "5/15" runs from 5 to the end of the field
+      end = stepText === undefined ? start : field.max;
+    }
+    if (start > end) {
+      throw new Error(`Invalid cron expression "${expression}": ${field.name} range "${range}" is backwards`);
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+
+  return values;
+}
+
+/**
+ * Parse a five-field cron expression
+ * @throws Error naming the invalid field
+ */
+export function parseCron(expression: string): CronSchedule {
+  const fields = expression.trim().split(/\s+/);
+  if (fields.length !== FIELDS.length) {
+    throw new Error(
+      `Invalid cron expression "${expression}": expected 5 fields (minute hour day-of-month month day-of-week), got ${fields.length}`
+    );
+  }
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = fields.map((text, i) =>
+    parseField(text, FIELDS[i], expression)
+  );
+  // Sunday is 0 or 7
+  if (daysOfWeek.delete(7)) {
+    daysOfWeek.add(0);
+  }
+
+  return {
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    anyDayOfMonth: fields[2] === "*",
+    anyDayOfWeek: fields[4] === "*",
+  };
+}
+
+function dayMatches(schedule: CronSchedule, date: Date): boolean {
+  const dayOfMonth = schedule.daysOfMonth.has(date.getUTCDate());
+  const dayOfWeek = schedule.daysOfWeek.has(date.getUTCDay());
+  if (schedule.anyDayOfMonth || schedule.anyDayOfWeek) {
+    return dayOfMonth && dayOfWeek;
+  }
+  return dayOfMonth || dayOfWeek;
+}
+
+/**
+ * Get the first time after `after` that a cron expression matches (UTC)
+ * @throws Error if the expression is invalid or never matches
+ */
+export function nextCronRun(expression: string, after: Date): Date {
+  const schedule = parseCron(expression);
+  const date = new Date(after.getTime());
+  date.setUTCSeconds(0, 0);
+  date.setUTCMinutes(date.getUTCMinutes() + 1);
+  const limit = after.getTime() + SEARCH_LIMIT_MS;
+
+  // Skip whole months, days and hours that cannot match
+  while (date.getTime() <= limit) {
+    if (!schedule.months.has(date.getUTCMonth() + 1)) {
+      date.setUTCMonth(date.getUTCMonth() + 1, 1);
+      date.setUTCHours(0, 0, 0, 0);
+    } else if (!dayMatches(schedule, date)) {
+      date.setUTCDate(date.getUTCDate() + 1);
+      date.setUTCHours(0, 0, 0, 0);
+    } else if (!schedule.hours.has(date.getUTCHours())) {
+      date.setUTCHours(date.getUTCHours() + 1, 0, 0, 0);
+    } else if (!schedule.minutes.has(date.getUTCMinutes())) {
+      date.setUTCMinutes(date.getUTCMinutes() + 1, 0, 0);
+    } else {
+      return date;
+    }
+  }
+
+  throw new Error(`Cron expression "${expression}" never runs`);
+}
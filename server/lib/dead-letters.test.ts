@@ -0,0 +1,161 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import fs from "fs-extra";
+import { createFilesystem, JOB_STATES, PIPELINE_STAGES, PipelineStage } from "./filesystem";
+import { Actor } from "./job-state";
+import { createMoveOperations } from "./job-moves";
+import { createDeadLetters } from "./dead-letters";
+
+const TEST_STORAGE_ROOT = "/tmp/ego-studio-jobs-test-dead-letters";
+
+describe.sequential("Dead Letters", () => {
+  let filesystem: ReturnType<typeof createFilesystem>;
+  let moves: ReturnType<typeof createMoveOperations>;
+  let deadLetters: ReturnType<typeof createDeadLetters>;
+  let queued: Set<string>;
+  let scheduled: string[];
+  let retried: string[];
+  let testDir: string;
+
+  beforeEach(async () => {
+    testDir = `${TEST_STORAGE_ROOT}-${Date.now()}-${Math.random()}`;
+    filesystem = createFilesystem(testDir);
+    moves = createMoveOperations(filesystem, testDir);
+    await filesystem.initializeStorage();
+
+    queued = new Set();
+    scheduled = [];
+    retried = [];
+    deadLetters = createDeadLetters(filesystem, {
+      queuedJobIds: async () => queued,
+      queueFailures: async () => [],
+      schedule: async (jobId): Promise<PipelineStage[]> => {
+        scheduled.push(jobId);
+        return [PIPELINE_STAGES.SEPARATION];
+      },
+      retry: async (jobId) => retried.push(jobId),
+      orphanGraceMs: 0,
+    });
+  });
+
+  afterEach(async () => {
+    try {
+      await fs.remove(testDir);
+    } catch (e) {
+      // Ignore cleanup errors
+    }
+  });
+
+  async function runDownload(to: string, ownerId?: string): Promise<string> {
+    const { jobId } = await filesystem.createJobFolder("https://youtube.com/watch?v=test", { ownerId });
+    await moves.moveJob(jobId, JOB_STATES.NEW, JOB_STATES.CLAIMED, Actor.DOWNLOAD_WORKER);
+    await moves.moveJob(jobId, JOB_STATES.CLAIMED, JOB_STATES.RUNNING, Actor.DOWNLOAD_WORKER);
+    await moves.moveJob(jobId, JOB_STATES.RUNNING, to as any, Actor.DOWNLOAD_WORKER);
+    return jobId;
+  }
+
+  async function createFailedJob(reason: string, nextAttemptAt?: string): Promise<string> {
+    const jobId = await runDownload(JOB_STATES.FAILED);
+    const metadata = await filesystem.readMetadata(jobId);
+    await filesystem.updateMetadata(jobId, metadata!.revision, (current) => {
+      current.attempts = [
+        {
+          stage: PIPELINE_STAGES.DOWNLOAD,
+          attempt: 1,
+          maxAttempts: 1,
+          reason,
+          error: `failed: ${reason}`,
+          failedAt: new Date().toISOString(),
+          ...(nextAttemptAt && { nextAttemptAt }),
+        },
+      ];
+    });
+    return jobId;
+  }
+
+  it("should list FAILED jobs without a pending retry, and DONE jobs no queue holds", async () => {
+    const failed = await createFailedJob("COPYRIGHT_RESTRICTED");
+    await createFailedJob("RATE_LIMITED", new Date(Date.now() + 60 * 1000).toISOString());
+    const orphaned = await runDownload(JOB_STATES.DONE, "alice");
+    const waiting = await runDownload(JOB_STATES.DONE);
+    queued.add(waiting);
+
+    const letters = await deadLetters.list();
+
+    expect(letters).toHaveLength(2);
+    expect(letters[0]).toMatchObject({
+      jobId: failed,
+      kind: "FAILED",
+      stage: PIPELINE_STAGES.DOWNLOAD,
+      reason: "COPYRIGHT_RESTRICTED",
+      error: "failed: COPYRIGHT_RESTRICTED",
+    });
+    expect(letters[1]).toMatchObject({
+      jobId: orphaned,
+      kind: "ORPHANED",
+      stage: PIPELINE_STAGES.SEPARATION,
+      reason: "NOT_ENQUEUED",
+      ownerId: "alice",
+    });
+    expect((await deadLetters.list({ kind: "ORPHANED" })).map((letter) => letter.jobId)).toEqual([orphaned]);
+    expect((await deadLetters.list({ reason: "COPYRIGHT_RESTRICTED" })).map((letter) => letter.jobId)).toEqual([
+      failed,
+    ]);
+  });
+
+  it("should only orphan DONE jobs idle for the grace period, and name the queue failure", async () => {
+    const jobId = await runDownload(JOB_STATES.DONE);
+    const failure = { jobId, stage: PIPELINE_STAGES.DOWNLOAD, error: "Redis down", failedAt: new Date().toISOString() };
+
+    const patient = createDeadLetters(filesystem, {
+      queuedJobIds: async () => queued,
+      queueFailures: async () => [failure],
+    });
+    expect(await patient.list()).toEqual([]);
+
+    const impatient = createDeadLetters(filesystem, {
+      queuedJobIds: async () => queued,
+      queueFailures: async () => [failure],
+      orphanGraceMs: 0,
+    });
+    expect(await impatient.list()).toMatchObject([{ jobId, reason: "QUEUE_FAILED", error: "Redis down" }]);
+  });
+
+  it("should requeue FAILED jobs by retry and ORPHANED jobs by scheduling", async () => {
+    const failed = await createFailedJob("DOWNLOAD_ERROR");
+    const orphaned = await runDownload(JOB_STATES.DONE);
+
+    const result = await deadLetters.requeue([failed, orphaned, "missing"]);
+
+    expect(result.requeued.sort()).toEqual([failed, orphaned].sort());
+    expect(result.errors).toEqual(["Failed to requeue missing: not a dead letter"]);
+    expect(retried).toEqual([failed]);
+    expect(scheduled).toEqual([orphaned]);
+    const logs = await filesystem.readJobLogs(orphaned);
+    expect(logs.some((line) => line.includes("Requeued ORPHANED job at SEPARATION"))).toBe(true);
+  });
+
+  it("should requeue every dead letter matching a filter", async () => {
+    await runDownload(JOB_STATES.DONE, "alice");
+    const bob = await runDownload(JOB_STATES.DONE, "bob");
+    const failed = await createFailedJob("DOWNLOAD_ERROR");
+
+    expect((await deadLetters.requeueMatching({ ownerId: "bob" })).requeued).toEqual([bob]);
+    expect((await deadLetters.requeueMatching({ kind: "FAILED" })).requeued).toEqual([failed]);
+    expect(scheduled).toEqual([bob]);
+  });
+
+  it("should reconcile ORPHANED jobs and report the ones it cannot enqueue", async () => {
+    const orphaned = await runDownload(JOB_STATES.DONE);
+    await createFailedJob("DOWNLOAD_ERROR");
+    const stuck = createDeadLetters(filesystem, {
+      queuedJobIds: async () => queued,
+      queueFailures: async () => [],
+      schedule: async () => [],
+      orphanGraceMs: 0,
+    });
+
+    expect((await deadLetters.reconcile()).requeued).toEqual([orphaned]);
+    expect(retried).toEqual([]);
+    expect((await stuck.reconcile()).errors).toEqual([`Failed to requeue ${orphaned}: no stage is ready to run`]);
+  });
+});
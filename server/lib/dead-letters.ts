@@ -0,0 +1,255 @@
+/**
+ * Dead Letters
+ *
+ * Lists the jobs that stopped moving through the pipeline, and requeues them:
+ * - FAILED: the job failed for good (no automatic retry is scheduled, see
+ *   retry-policy.ts); requeueing retries it from the stage that failed
+ * - ORPHANED: the job is DONE and its pipeline has ready stages, but none of
+ *   them is waiting or running in a stage queue; requeueing enqueues them
+ *
+ * The reconciler requeues ORPHANED jobs on its own, e.g. after an enqueue
+ * that failed once a stage completed, or queue entries lost with Redis.
+ *
+ * Invariants:
+ * - A DONE job is only orphaned once it has been idle for the grace period,
+ *   so the stage that just completed has time to enqueue the next ones
+ * - Requeueing goes through retryJob and scheduleReadyStages; it never moves jobs itself
+ */
+
+import { FilesystemAPI, JobMetadata, JOB_STATES, PipelineStage, PIPELINE_STAGES } from "./filesystem";
+import { getStageResult } from "./adapter-registry";
+import { getReadyStages } from "./pipeline";
+import { listQueuedJobIds, listQueueFailures, QueueFailure, scheduleReadyStages } from "./queue";
+import { retryJob } from "./jobs-service-retry";
+
+export const DEAD_LETTER_KINDS = {
+  FAILED: "FAILED",
+  ORPHANED: "ORPHANED",
+} as const;
+
+export type DeadLetterKind = (typeof DEAD_LETTER_KINDS)[keyof typeof DEAD_LETTER_KINDS];
+
+/**
+ * A job that stopped moving through the pipeline
+ */
+export interface DeadLetter {
+  jobId: string;
+  kind: DeadLetterKind;
+  // Stage that failed, or the first stage that was never enqueued
+  stage: PipelineStage;
+  // FailureReason of a FAILED job; QUEUE_FAILED or NOT_ENQUEUED for an ORPHANED one
+  reason: string;
+  error?: string;
+  // When the job stopped: its last update
+  since: string;
+  ownerId?: string;
+}
+
+/**
+ * Dead letters to list or requeue (every field narrows the match)
+ */
+export interface DeadLetterFilter {
+  kind?: DeadLetterKind;
+  stage?: PipelineStage;
+  reason?: string;
+  ownerId?: string;
+  jobIds?: string[];
+}
+
+export interface RequeueResult {
+  requeued: string[];
+  errors: string[];
+}
+
+/**
+ * Factory function to create the dead-letter view
+ *
+ * @param filesystem - FilesystemAPI instance
+ * @param options.queuedJobIds - IDs of jobs in a stage queue or in line (default: listQueuedJobIds)
+ * @param options.queueFailures - Failed queue jobs (default: listQueueFailures)
+ * @param options.schedule - Enqueues a job's ready stages (default: scheduleReadyStages)
+ * @param options.retry - Retries a FAILED job (default: retryJob)
+ * @param options.orphanGraceMs - Idle time before a DONE job is orphaned (default: 60 seconds)
+ */
+export function createDeadLetters(
+  filesystem: FilesystemAPI,
+  options: {
+    queuedJobIds?: () => Promise<Set<string>>;
+    queueFailures?: () => Promise<QueueFailure[]>;
+    schedule?: (jobId: string) => Promise<PipelineStage[]>;
+    retry?: (jobId: string, reason: string) => Promise<unknown>;
+    orphanGraceMs?: number;
+  } = {}
+) {
+  const queuedJobIds = options.queuedJobIds ?? listQueuedJobIds;
+  const queueFailures = options.queueFailures ?? listQueueFailures;
+  const schedule = options.schedule ?? scheduleReadyStages;
+  const retry = options.retry ?? retryJob;
+  const orphanGraceMs = options.orphanGraceMs ?? 60 * 1000;
+
+  /**
+   * Describe a FAILED job with no automatic retry pending, from its last attempt or its stage result
+   */
+  function toFailedLetter(metadata: JobMetadata): DeadLetter | null {
+    const attempts = metadata.attempts ?? [];
+    const last = attempts[attempts.length - 1];
+    if (last?.nextAttemptAt) {
+      return null;
+    }
+
+    const stage = metadata.stage ?? PIPELINE_STAGES.DOWNLOAD;
+    const result = getStageResult(metadata, stage) as { reason?: string; error?: string } | undefined;
+    const attempt = last?.stage === stage ? last : undefined;
+    const error = attempt?.error ?? result?.error;
+    return {
+      jobId: metadata.id,
+      kind: DEAD_LETTER_KINDS.FAILED,
+      stage,
+      reason: attempt?.reason ?? result?.reason ?? "UNKNOWN_ERROR",
+      ...(error && { error }),
+      since: metadata.updatedAt,
+      ownerId: metadata.ownerId,
+    };
+  }
+
+  /**
+   * Describe a DONE job whose ready stages are in no queue, with the queue failure that dropped it if known
+   */
+  function toOrphanedLetter(
+    metadata: JobMetadata,
+    queued: Set<string>,
+    failures: QueueFailure[],
+    now: number
+  ): DeadLetter | null {
+    const ready = getReadyStages(metadata);
+    if (ready.length === 0 || queued.has(metadata.id)) {
+      return null;
+    }
+    if (now - new Date(metadata.updatedAt).getTime() < orphanGraceMs) {
+      return null;
+    }
+
+    const failure = failures.find((candidate) => candidate.jobId === metadata.id);
+    return {
+      jobId: metadata.id,
+      kind: DEAD_LETTER_KINDS.ORPHANED,
+      stage: ready[0],
+      reason: failure ? "QUEUE_FAILED" : "NOT_ENQUEUED",
+      ...(failure && { error: failure.error }),
+      since: metadata.updatedAt,
+      ownerId: metadata.ownerId,
+    };
+  }
+
+  function matches(letter: DeadLetter, filter: DeadLetterFilter): boolean {
+    return (
+      (!filter.kind || letter.kind === filter.kind) &&
+      (!filter.stage || letter.stage === filter.stage) &&
+      (!filter.reason || letter.reason === filter.reason) &&
+      (!filter.ownerId || letter.ownerId === filter.ownerId) &&
+      (!filter.jobIds || filter.jobIds.includes(letter.jobId))
+    );
+  }
+
+  /**
+   * List dead letters matching filter, longest stopped first
+   */
+  async function list(filter: DeadLetterFilter = {}): Promise<DeadLetter[]> {
+    const letters: DeadLetter[] = [];
+
+    if (!filter.kind || filter.kind === DEAD_LETTER_KINDS.FAILED) {
+      for (const jobId of await filesystem.listJobsByState(JOB_STATES.FAILED)) {
+        // A job moved while being read is no longer FAILED
+        const metadata = await filesystem.readMetadata(jobId).catch(() => null);
+        const letter = metadata?.state === JOB_STATES.FAILED ? toFailedLetter(metadata) : null;
+        if (letter && matches(letter, filter)) {
+          letters.push(letter);
+        }
+      }
+    }
+
+    if (!filter.kind || filter.kind === DEAD_LETTER_KINDS.ORPHANED) {
+      const queued = await queuedJobIds();
+      const failures = await queueFailures();
+      const now = Date.now();
+      for (const jobId of await filesystem.listJobsByState(JOB_STATES.DONE)) {
+        const metadata = await filesystem.readMetadata(jobId).catch(() => null);
+        const letter =
+          metadata?.state === JOB_STATES.DONE ? toOrphanedLetter(metadata, queued, failures, now) : null;
+        if (letter && matches(letter, filter)) {
+          letters.push(letter);
+        }
+      }
+    }
+
+    return letters.sort((a, b) => a.since.localeCompare(b.since));
+  }
+
+  /**
+   * Requeue dead letters: retry FAILED jobs from the stage that failed, enqueue the ready stages of ORPHANED ones
+   */
+  async function requeueLetters(letters: DeadLetter[], reason: string): Promise<RequeueResult> {
+    const result: RequeueResult = { requeued: [], errors: [] };
+
+    for (const letter of letters) {
+      try {
+        if (letter.kind === DEAD_LETTER_KINDS.FAILED) {
+          await retry(letter.jobId, reason);
+        } else {
+          const stages = await schedule(letter.jobId);
+          if (stages.length === 0) {
+            throw new Error("no stage is ready to run");
+          }
+        }
+
+        result.requeued.push(letter.jobId);
+        await filesystem.appendToJobLog(letter.jobId, `[SYSTEM] Requeued ${letter.kind} job at ${letter.stage}: ${reason}`);
+        console.log(`[DeadLetters] Requeued ${letter.kind} job ${letter.jobId} at ${letter.stage}`);
+      } catch (err) {
+        const errorMsg = `Failed to requeue ${letter.jobId}: ${err instanceof Error ? err.message : String(err)}`;
+        result.errors.push(errorMsg);
+        console.error(`[DeadLetters] ${errorMsg}`);
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Requeue the given jobs; IDs that are not dead letters are reported as errors
+   */
+  async function requeue(jobIds: string[], reason: string = "Requeued from dead letters"): Promise<RequeueResult> {
+    const letters = await list({ jobIds });
+    const result = await requeueLetters(letters, reason);
+    for (const jobId of jobIds) {
+      if (!letters.some((letter) => letter.jobId === jobId)) {
+        result.errors.push(`Failed to requeue ${jobId}: not a dead letter`);
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Requeue every dead letter matching filter (all of them for an empty filter)
+   */
+  async function requeueMatching(
+    filter: DeadLetterFilter,
+    reason: string = "Requeued from dead letters"
+  ): Promise<RequeueResult> {
+    return requeueLetters(await list(filter), reason);
+  }
+
+  /**
+   * Enqueue the ready stages of every ORPHANED job
+   */
+  async function reconcile(): Promise<RequeueResult> {
+    return requeueMatching({ kind: DEAD_LETTER_KINDS.ORPHANED }, "Next stage was never enqueued");
+  }
+
+  return {
+    list,
+    requeue,
+    requeueMatching,
+    reconcile,
+  };
+}
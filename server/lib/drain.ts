@@ -0,0 +1,130 @@
+/**
+ * Drain Mode
+ *
+ * Stops a server's workers without losing work, for rolling deploys:
+ * 1. The stage queues stop taking jobs in this process (other processes keep taking them)
+ * 2. Stages already running get until the deadline to finish
+ * 3. Jobs still held after the deadline are handed back (releaseJob) and their
+ *    work is aborted, so another process runs the stage again right away
+ *    instead of once the lease lapses
+ * 4. The queues close
+ *
+ * Invariants:
+ * - A drained process holds no leases
+ * - Released jobs keep the stages they completed: a job in its first stage goes
+ *   back to NEW for the orchestrator to dispatch; a later one goes back to DONE
+ *   and its stage is enqueued again (if that entry is lost with this process's
+ *   in-memory queues, the next process's fair queue or dead-letter reconciler
+ *   requeues it)
+ * - Draining twice runs the drain once
+ */
+
+import { filesystem as productionFilesystem, FilesystemAPI, JOB_STATES, PipelineStage } from "./filesystem";
+import { createMoveOperations } from "./job-moves";
+import { listLeasedJobs, releaseLeasedJob, WORKER_ID } from "./job-lease";
+import { closeQueues, pauseQueues, scheduleReadyStages, waitForRunningStages } from "./queue";
+
+/**
+ * How long a draining process waits for running stages (SIGTERM to release)
+ */
+export const DRAIN_DEADLINE_MS = parseInt(process.env.DRAIN_DEADLINE_MS || "60000");
+
+/**
+ * How long aborted stages get to stop after their jobs were released
+ */
+const RELEASE_GRACE_MS = 10 * 1000;
+
+export interface DrainResult {
+  // Every running stage finished before the deadline
+  finished: boolean;
+  released: string[];
+  errors: string[];
+}
+
+/**
+ * Factory function to create a drain
+ *
+ * @param filesystem - FilesystemAPI instance the workers use
+ * @param moves - Move operations bound to the same filesystem
+ * @param options.holder - Lease holder of this process's workers (default: WORKER_ID)
+ * @param options.schedule - Enqueues a job's ready stages (default: scheduleReadyStages)
+ */
+export function createDrain(
+  filesystem: FilesystemAPI,
+  moves: ReturnType<typeof createMoveOperations>,
+  options: { holder?: string; schedule?: (jobId: string) => Promise<PipelineStage[]> } = {}
+) {
+  const holder = options.holder ?? WORKER_ID;
+  const schedule = options.schedule ?? scheduleReadyStages;
+  let draining: Promise<DrainResult> | null = null;
+
+  /**
+   * Hand back every job this process holds and abort its work
+   */
+  async function releaseAll(result: DrainResult): Promise<void> {
+    for (const jobId of listLeasedJobs()) {
+      try {
+        if (await moves.releaseJob(jobId, holder)) {
+          result.released.push(jobId);
+          console.log(`[Drain] Released job ${jobId}`);
+
+          // Between stages no dispatcher picks the job up; the queues still take jobs while paused
+          if ((await filesystem.readMetadata(jobId))?.state === JOB_STATES.DONE) {
+            const stages = await schedule(jobId);
+            console.log(`[Drain] Requeued job ${jobId} for ${stages.join(", ")}`);
+          }
+        }
+      } catch (err) {
+        const errorMsg = `Failed to release ${jobId}: ${err instanceof Error ? err.message : String(err)}`;
+        result.errors.push(errorMsg);
+        console.error(`[Drain] ${errorMsg}`);
+      }
+      // Stop the work either way; a job that was not released is no longer ours
+      releaseLeasedJob(jobId);
+    }
+  }
+
+  async function run(deadlineMs: number): Promise<DrainResult> {
+    const result: DrainResult = { finished: false, released: [], errors: [] };
+
+    await pauseQueues();
+    console.log(`[Drain] Waiting up to ${Math.round(deadlineMs / 1000)}s for running stages`);
+    result.finished = await waitForRunningStages(deadlineMs);
+
+    if (!result.finished) {
+      await releaseAll(result);
+      if (!(await waitForRunningStages(RELEASE_GRACE_MS))) {
+        // Closing would wait for them; their queue entries are picked up again as stalled
+        result.errors.push("Stages still running after their jobs were released");
+        console.error(`[Drain] Stages still running after their jobs were released, not closing queues`);
+        return result;
+      }
+    }
+
+    await closeQueues();
+    console.log(`[Drain] Drained (${result.released.length} job(s) released)`);
+    return result;
+  }
+
+  /**
+   * Stop taking jobs, wait up to deadlineMs for running stages, release the rest and close the queues
+   */
+  function drain(deadlineMs: number = DRAIN_DEADLINE_MS): Promise<DrainResult> {
+    draining ??= run(deadlineMs);
+    return draining;
+  }
+
+  return {
+    drain,
+    isDraining: () => draining !== null,
+  };
+}
+
+/**
+ * Drain the workers of this process against the production filesystem
+ * @param deadlineMs - Time running stages get to finish (default: DRAIN_DEADLINE_MS)
+ */
+export function drainWorkers(deadlineMs: number = DRAIN_DEADLINE_MS): Promise<DrainResult> {
+  const storageRoot = process.env.STORAGE_ROOT || "/tmp/ego-studio-jobs";
+  return createDrain(productionFilesystem, createMoveOperations(productionFilesystem, storageRoot)).drain(deadlineMs);
+}
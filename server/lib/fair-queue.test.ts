@@ -0,0 +1,72 @@
+import { describe, it, expect } from "vitest";
+import { JOB_PRIORITIES } from "./filesystem";
+import { createFairQueue } from "./fair-queue";
+
+function drain(queue: ReturnType<typeof createFairQueue>): string[] {
+  const order: string[] = [];
+  for (let entry = queue.shift(); entry; entry = queue.shift()) {
+    order.push(entry.jobId);
+  }
+  return order;
+}
+
+describe("Fair Queue", () => {
+  it("should start another owner's job next instead of after a whole batch", () => {
+    const queue = createFairQueue();
+    for (const jobId of ["a1", "a2", "a3", "a4"]) {
+      queue.push(jobId, { ownerId: "alice" });
+    }
+
+    expect(queue.shift()?.jobId).toBe("a1");
+    queue.push("b1", { ownerId: "bob" });
+    queue.push("b2", { ownerId: "bob" });
+
+    expect(queue.position("b1")).toBe(1);
+    expect(drain(queue)).toEqual(["b1", "a2", "b2", "a3", "a4"]);
+  });
+
+  it("should start higher priority lanes first", () => {
+    const queue = createFairQueue();
+    queue.push("low", { ownerId: "alice", priority: JOB_PRIORITIES.LOW });
+    queue.push("normal", { ownerId: "alice" });
+    queue.push("high", { ownerId: "bob", priority: JOB_PRIORITIES.HIGH });
+
+    expect(queue.list().map((entry) => entry.priority)).toEqual([
+      JOB_PRIORITIES.HIGH,
+      JOB_PRIORITIES.NORMAL,
+      JOB_PRIORITIES.LOW,
+    ]);
+    expect(drain(queue)).toEqual(["high", "normal", "low"]);
+  });
+
+  it("should share a lane by owner weight", () => {
+    const queue = createFairQueue({ ownerWeight: (ownerId) => (ownerId === "studio" ? 2 : 1) });
+    for (const n of [1, 2, 3, 4]) {
+      queue.push(`studio${n}`, { ownerId: "studio" });
+      queue.push(`alice${n}`, { ownerId: "alice" });
+    }
+
+    expect(drain(queue).slice(0, 6)).toEqual(["studio1", "alice1", "studio2", "alice2", "studio3", "studio4"]);
+  });
+
+  it("should queue jobs without an owner as one anonymous owner", () => {
+    const queue = createFairQueue();
+    queue.push("x1");
+    queue.push("x2");
+    queue.push("c1", { ownerId: "carol" });
+
+    expect(queue.list()[0].ownerId).toBe("anonymous");
+    expect(drain(queue)).toEqual(["x1", "c1", "x2"]);
+  });
+
+  it("should ignore a job queued twice and drop removed jobs", () => {
+    const queue = createFairQueue();
+    expect(queue.push("a1", { ownerId: "alice" })).toBe(true);
+    expect(queue.push("a1", { ownerId: "alice" })).toBe(false);
+    queue.push("a2", { ownerId: "alice" });
+
+    expect(queue.remove("a1")).toBe(true);
+    expect(queue.position("a1")).toBeNull();
+    expect(queue.size).toBe(1);
+  });
+});
@@ -0,0 +1,118 @@
+/**
+ * Fair Queue
+ *
+ * Orders the jobs waiting to be admitted to a stage queue, so one owner's
+ * batch does not hold up everyone else's jobs:
+ * - Priority lanes: HIGH jobs start before NORMAL ones, NORMAL before LOW
+ * - Within a lane, weighted fair queuing across owners (start-time fair
+ *   queuing): a job gets the virtual start tag max(lane clock, finish tag of
+ *   the owner's previous job), and finishes at its start tag + 1/weight.
+ *   The smallest start tag starts first (ties in queuing order), and the
+ *   lane clock advances to the start tag of each job started.
+ *
+ * An owner queuing 20 jobs gets start tags 0..19; another owner's job queued
+ * while the first one runs gets tag 0, so it starts next.
+ * Jobs without an owner share one anonymous owner.
+ */
+
+import { JobPriority, JOB_PRIORITIES } from "./filesystem";
+
+export const ANONYMOUS_OWNER = "anonymous";
+
+const LANE_ORDER: JobPriority[] = [JOB_PRIORITIES.HIGH, JOB_PRIORITIES.NORMAL, JOB_PRIORITIES.LOW];
+
+/**
+ * A job waiting in the fair queue
+ */
+export interface FairQueueEntry {
+  jobId: string;
+  ownerId: string;
+  priority: JobPriority;
+  // Virtual start tag within the lane
+  tag: number;
+  queuedAt: string;
+}
+
+/**
+ * Factory function to create a fair queue
+ *
+ * @param options.ownerWeight - Share of an owner relative to others (default: 1 each)
+ */
+export function createFairQueue(options: { ownerWeight?: (ownerId: string) => number } = {}) {
+  const ownerWeight = options.ownerWeight ?? (() => 1);
+  let entries: FairQueueEntry[] = [];
+  const laneClocks = new Map<JobPriority, number>();
+  // Finish tag of an owner's last queued job, keyed by "<lane>:<owner>"
+  const ownerTags = new Map<string, number>();
+
+  function compare(a: FairQueueEntry, b: FairQueueEntry): number {
+    return LANE_ORDER.indexOf(a.priority) - LANE_ORDER.indexOf(b.priority) || a.tag - b.tag;
+  }
+
+  /**
+   * Queue a job; returns false if it is already queued
+   */
+  function push(jobId: string, job: { ownerId?: string; priority?: JobPriority } = {}): boolean {
+    if (entries.some((entry) => entry.jobId === jobId)) {
+      return false;
+    }
+
+    const ownerId = job.ownerId || ANONYMOUS_OWNER;
+    const priority = job.priority ?? JOB_PRIORITIES.NORMAL;
+    const key = `${priority}:${ownerId}`;
+    const tag = Math.max(laneClocks.get(priority) ?? 0, ownerTags.get(key) ?? 0);
+
+    ownerTags.set(key, tag + 1 / Math.max(ownerWeight(ownerId), Number.EPSILON));
+    // Stable sort keeps queuing order between equal tags
+    entries = [...entries, { jobId, ownerId, priority, tag, queuedAt: new Date().toISOString() }].sort(compare);
+    return true;
+  }
+
+  /**
+   * Take the job that starts next
+   */
+  function shift(): FairQueueEntry | undefined {
+    const next = entries.shift();
+    if (next) {
+      laneClocks.set(next.priority, next.tag);
+    }
+    return next;
+  }
+
+  /**
+   * Drop a job without starting it; returns false if it was not queued
+   */
+  function remove(jobId: string): boolean {
+    const before = entries.length;
+    entries = entries.filter((entry) => entry.jobId !== jobId);
+    return entries.length !== before;
+  }
+
+  /**
+   * Get a job's place in line (1 = starts next), or null if it is not queued
+   */
+  function position(jobId: string): number | null {
+    const index = entries.findIndex((entry) => entry.jobId === jobId);
+    return index === -1 ? null : index + 1;
+  }
+
+  /**
+   * List the queued jobs in the order they start
+   */
+  function list(): FairQueueEntry[] {
+    return [...entries];
+  }
+
+  return {
+    push,
+    shift,
+    remove,
+    position,
+    list,
+    get size() {
+      return entries.length;
+    },
+  };
+}
+
+export type FairQueue = ReturnType<typeof createFairQueue>;
@@ -139,6 +139,7 @@ describe("File Upload Infrastructure", () => {
       expect(result.metadata.size).toBe(buffer.length);
       expect(result.metadata.mimeType).toBe("audio/wav");
       expect(result.metadata.s3Key).toBeNull();
+      expect(path.basename(result.localPath)).toBe(result.metadata.uploadedFilename);
 
       // Verify file exists on disk
       const fileExists = await fs.pathExists(result.localPath);
@@ -39,6 +39,7 @@ export const UPLOAD_CONSTRAINTS = {
  */
 export interface FileMetadata {
   filename: string;
+  uploadedFilename: string; // Name on disk in uploads/ (unique prefix + sanitized name)
   size: number;
   format: AudioFormat;
   mimeType: string;
@@ -191,6 +192,7 @@ export async function streamUploadToLocal(
 
   const metadata: FileMetadata = {
     filename: sanitized,
+    uploadedFilename: storedFilename,
     size: fileBuffer.length,
     format,
     mimeType,
@@ -1,7 +1,15 @@
 import { describe, it, expect, beforeEach, afterEach } from "vitest";
 import fs from "fs-extra";
 import path from "path";
-import { createFilesystem, JOB_STATES } from "./filesystem";
+import { createHash } from "crypto";
+import { execFile } from "child_process";
+import {
+  createFilesystem,
+  JOB_STATES,
+  JOB_EVENT_TYPES,
+  METADATA_LOCK_STALE_MS,
+  StaleMetadataError,
+} from "./filesystem";
 
 // Use a temporary directory for tests (unique per test run)
 const TEST_STORAGE_ROOT = `/tmp/ego-studio-jobs-test-filesystem-${Date.now()}`;
@@ -106,6 +114,90 @@ describe.sequential("Filesystem Module", () => {
     });
   });
 
+  describe("metadata revisions", () => {
+    it("should start at revision 0 and bump on every write", async () => {
+      const { jobId, metadata } = await filesystem.createJobFolder("https://youtube.com/watch?v=test");
+      expect(metadata.revision).toBe(0);
+
+      await filesystem.writeMetadata(jobId, metadata);
+      await filesystem.writeMetadata(jobId, metadata);
+
+      expect((await filesystem.readMetadata(jobId))?.revision).toBe(2);
+    });
+
+    it("should treat metadata without a revision as revision 0", async () => {
+      const { jobId, metadata } = await filesystem.createJobFolder("https://youtube.com/watch?v=test");
+      const { revision, ...legacy } = metadata;
+      await fs.writeJSON(path.join(testDir, "jobs", JOB_STATES.NEW, jobId, "metadata.json"), legacy);
+
+      expect((await filesystem.readMetadata(jobId))?.revision).toBe(0);
+    });
+
+    it("should not leave temp files behind", async () => {
+      const { jobId, metadata } = await filesystem.createJobFolder("https://youtube.com/watch?v=test");
+      await filesystem.writeMetadata(jobId, metadata);
+      await filesystem.updateMetadata(jobId, 1, (current) => {
+        current.ownerId = "user-1";
+      });
+
+      const entries = await fs.readdir(path.join(testDir, "jobs", JOB_STATES.NEW, jobId));
+      expect(entries.filter((entry) => entry.endsWith(".tmp"))).toEqual([]);
+    });
+  });
+
+  describe("updateMetadata", () => {
+    it("should apply the mutator when the revision matches", async () => {
+      const { jobId } = await filesystem.createJobFolder("https://youtube.com/watch?v=test");
+
+      const updated = await filesystem.updateMetadata(jobId, 0, (current) => {
+        current.lyrics = { status: "NOT_FOUND" };
+      });
+
+      expect(updated.revision).toBe(1);
+      const metadata = await filesystem.readMetadata(jobId);
+      expect(metadata?.lyrics?.status).toBe("NOT_FOUND");
+      expect(metadata?.revision).toBe(1);
+    });
+
+    it("should reject stale writes and leave metadata untouched", async () => {
+      const { jobId } = await filesystem.createJobFolder("https://youtube.com/watch?v=test");
+      await filesystem.updateMetadata(jobId, 0, (current) => {
+        current.lyrics = { status: "COMPLETE" };
+      });
+
+      await expect(
+        filesystem.updateMetadata(jobId, 0, (current) => {
+          current.lyrics = { status: "FAILED" };
+        })
+      ).rejects.toThrow(StaleMetadataError);
+
+      const metadata = await filesystem.readMetadata(jobId);
+      expect(metadata?.lyrics?.status).toBe("COMPLETE");
+      expect(metadata?.revision).toBe(1);
+    });
+
+    it("should let exactly one of two concurrent writers win", async () => {
+      const { jobId } = await filesystem.createJobFolder("https://youtube.com/watch?v=test");
+
+      const results = await Promise.allSettled([
+        filesystem.updateMetadata(jobId, 0, (current) => {
+          current.ownerId = "first";
+        }),
+        filesystem.updateMetadata(jobId, 0, (current) => {
+          current.ownerId = "second";
+        }),
+      ]);
+
+      expect(results.filter((r) => r.status === "fulfilled")).toHaveLength(1);
+      expect(results.filter((r) => r.status === "rejected")).toHaveLength(1);
+      expect((await filesystem.readMetadata(jobId))?.revision).toBe(1);
+    });
+
+    it("should throw for unknown jobs", async () => {
+      await expect(filesystem.updateMetadata("non-existent-job-id", 0, () => {})).rejects.toThrow("not found");
+    });
+  });
+
   describe("getJobStateDir", () => {
     it("should return correct state directory", async () => {
       const url = "https://youtube.com/watch?v=test123";
@@ -202,6 +294,171 @@ describe.sequential("Filesystem Module", () => {
     });
   });
 
+  describe("appendJobEvent / readJobEvents", () => {
+    it("should return no events for a fresh job", async () => {
+      const { jobId } = await filesystem.createJobFolder("https://youtube.com/watch?v=test");
+
+      expect(await filesystem.readJobEvents(jobId)).toEqual([]);
+    });
+
+    it("should append events as JSON lines and read them back in order", async () => {
+      const { jobId } = await filesystem.createJobFolder("https://youtube.com/watch?v=test");
+
+      await filesystem.appendJobEvent(jobId, { type: JOB_EVENT_TYPES.STAGE_STARTED, actor: "SYSTEM", stage: "DOWNLOAD" });
+      await filesystem.appendJobEvent(jobId, { type: JOB_EVENT_TYPES.ERROR, payload: { message: "boom" } });
+
+      const eventsFile = path.join(testDir, "jobs", JOB_STATES.NEW, jobId, "logs", "events.jsonl");
+      const lines = (await fs.readFile(eventsFile, "utf-8")).trim().split("\n");
+      expect(lines).toHaveLength(2);
+
+      const events = await filesystem.readJobEvents(jobId);
+      expect(events.map((e) => e.type)).toEqual([JOB_EVENT_TYPES.STAGE_STARTED, JOB_EVENT_TYPES.ERROR]);
+      expect(events[0].timestamp).toBeDefined();
+      expect(events[1].payload).toEqual({ message: "boom" });
+    });
+
+    it("should filter by type and since", async () => {
+      const { jobId } = await filesystem.createJobFolder("https://youtube.com/watch?v=test");
+
+      const first = await filesystem.appendJobEvent(jobId, { type: JOB_EVENT_TYPES.STAGE_STARTED });
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      await filesystem.appendJobEvent(jobId, { type: JOB_EVENT_TYPES.ERROR });
+      await filesystem.appendJobEvent(jobId, { type: JOB_EVENT_TYPES.RETRY });
+
+      const errors = await filesystem.readJobEvents(jobId, { types: [JOB_EVENT_TYPES.ERROR] });
+      expect(errors).toHaveLength(1);
+
+      const newer = await filesystem.readJobEvents(jobId, { since: first.timestamp });
+      expect(newer.map((e) => e.type)).toEqual([JOB_EVENT_TYPES.ERROR, JOB_EVENT_TYPES.RETRY]);
+    });
+
+    it("should skip torn lines", async () => {
+      const { jobId } = await filesystem.createJobFolder("https://youtube.com/watch?v=test");
+      await filesystem.appendJobEvent(jobId, { type: JOB_EVENT_TYPES.ERROR });
+
+      const eventsFile = path.join(testDir, "jobs", JOB_STATES.NEW, jobId, "logs", "events.jsonl");
+      await fs.appendFile(eventsFile, '{"timestamp":"2026-');
+
+      expect(await filesystem.readJobEvents(jobId)).toHaveLength(1);
+    });
+
+    it("should record an event when an artifact is written", async () => {
+      const { jobId } = await filesystem.createJobFolder("https://youtube.com/watch?v=test");
+
+      await filesystem.writeArtifact(jobId, "lyrics", "lyrics.lrc", "[00:01.00] hello");
+
+      const events = await filesystem.readJobEvents(jobId, { types: [JOB_EVENT_TYPES.ARTIFACT_WRITTEN] });
+      expect(events).toHaveLength(1);
+      expect(events[0].stage).toBe("DOWNLOAD");
+      expect(events[0].payload).toEqual({
+        artifactType: "lyrics",
+        fileName: "lyrics.lrc",
+        bytes: 16,
+        sha256: expect.stringMatching(/^[0-9a-f]{64}$/),
+      });
+    });
+  });
+
+  describe("artifact checksums", () => {
+    it("should record a checksum for each written artifact", async () => {
+      const { jobId } = await filesystem.createJobFolder("https://youtube.com/watch?v=test");
+
+      await filesystem.writeArtifact(jobId, "lyrics", "lyrics.lrc", "[00:01.00] hello");
+
+      const metadata = await filesystem.readMetadata(jobId);
+      expect(metadata?.artifactChecksums?.["lyrics/lyrics.lrc"]).toMatchObject({
+        sha256: createHash("sha256").update("[00:01.00] hello").digest("hex"),
+        bytes: 16,
+        stage: "DOWNLOAD",
+      });
+    });
+
+    it("should verify a stage whose artifacts are intact", async () => {
+      const { jobId } = await filesystem.createJobFolder("https://youtube.com/watch?v=test");
+      await filesystem.writeArtifact(jobId, "download", "audio.downloaded", "audio");
+
+      expect(await filesystem.verifyStageArtifacts(jobId, "DOWNLOAD")).toEqual({ valid: true });
+    });
+
+    it("should reject a stage whose artifact changed on disk", async () => {
+      const { jobId } = await filesystem.createJobFolder("https://youtube.com/watch?v=test");
+      const filePath = await filesystem.writeArtifact(jobId, "download", "audio.downloaded", "audio");
+      await fs.writeFile(filePath, "truncated");
+
+      const result = await filesystem.verifyStageArtifacts(jobId, "DOWNLOAD");
+      expect(result.valid).toBe(false);
+      expect(result.reason).toContain("does not match");
+    });
+
+    it("should reject a stage whose artifact is missing", async () => {
+      const { jobId } = await filesystem.createJobFolder("https://youtube.com/watch?v=test");
+      const filePath = await filesystem.writeArtifact(jobId, "download", "audio.downloaded", "audio");
+      await fs.remove(filePath);
+
+      const result = await filesystem.verifyStageArtifacts(jobId, "DOWNLOAD");
+      expect(result.valid).toBe(false);
+      expect(result.reason).toContain("missing");
+    });
+
+    it("should reject a stage with no recorded artifacts", async () => {
+      const { jobId } = await filesystem.createJobFolder("https://youtube.com/watch?v=test");
+
+      const result = await filesystem.verifyStageArtifacts(jobId, "SEPARATION");
+      expect(result.valid).toBe(false);
+    });
+  });
+
+  describe("cross-process metadata lock", () => {
+    /**
+     * Write count artifacts to one job from a separate Node process
+     */
+    function writeFromChild(jobId: string, prefix: string, count: number): Promise<void> {
+      const script = path.join(testDir, `writer-${prefix}.mts`);
+      const source = `
+        import { createFilesystem } from ${JSON.stringify(path.join(import.meta.dirname, "filesystem.ts"))};
+        const filesystem = createFilesystem(${JSON.stringify(testDir)});
+        for (let i = 0; i < ${count}; i++) {
+          await filesystem.writeArtifact(${JSON.stringify(jobId)}, "lyrics", \`${prefix}-\${i}.txt\`, "text");
+        }
+      `;
+
+      return fs.writeFile(script, source).then(
+        () =>
+          new Promise<void>((resolve, reject) => {
+            execFile(process.execPath, ["--import", "tsx", script], { timeout: 60000 }, (error, _stdout, stderr) =>
+              error ? reject(new Error(`${error.message}\n${stderr}`)) : resolve()
+            );
+          })
+      );
+    }
+
+    it("should keep every checksum when two processes write artifacts to one job", async () => {
+      const { jobId, metadata: created } = await filesystem.createJobFolder("https://youtube.com/watch?v=test");
+
+      await Promise.all([writeFromChild(jobId, "a", 20), writeFromChild(jobId, "b", 20)]);
+
+      const metadata = await filesystem.readMetadata(jobId);
+      expect(Object.keys(metadata?.artifactChecksums ?? {})).toHaveLength(40);
+      expect(metadata?.revision).toBe(created.revision + 40);
+      expect(await fs.readdir(path.join(testDir, "locks"))).toEqual([]);
+    }, 90000);
+
+    it("should break a lock left behind by a crashed process", async () => {
+      const { jobId, metadata } = await filesystem.createJobFolder("https://youtube.com/watch?v=test");
+      const lockPath = path.join(testDir, "locks", `${jobId}.lock`);
+      await fs.outputFile(lockPath, "other-host 1\n");
+      const past = new Date(Date.now() - METADATA_LOCK_STALE_MS - 1000);
+      await fs.utimes(lockPath, past, past);
+
+      const updated = await filesystem.updateMetadata(jobId, metadata.revision, (current) => {
+        current.pausedAt = new Date().toISOString();
+      });
+
+      expect(updated.pausedAt).toBeDefined();
+      expect(await fs.pathExists(lockPath)).toBe(false);
+    });
+  });
+
   describe("deleteJobFolder", () => {
     it("should delete job folder", async () => {
       const { jobId } = await filesystem.createJobFolder("https://youtube.com/watch?v=test");
@@ -1,19 +1,32 @@
 import fs from "fs-extra";
+import os from "os";
 import path from "path";
+import { createHash } from "crypto";
 import { v4 as uuidv4 } from "uuid";
+import { createJobIndex } from "./job-index";
+import { listArtifactDirs } from "./adapter-registry";
+import type { FileMetadata } from "./file-upload";
+import type { AudioProbe } from "./audio-ingest";
+import type { AudioInfo } from "./audio-io";
 
 /**
  * Filesystem Authority Layer
  *
  * Manages job state directories, metadata I/O, and artifacts.
- * State is encoded in directory location: NEW/, CLAIMED/, RUNNING/, DONE/, FAILED/
+ * State is encoded in directory location: SCHEDULED/, NEW/, CLAIMED/, RUNNING/, DONE/, FAILED/, COMPLETE/, CANCELLED/, ARCHIVED/
  *
  * Invariants:
  * - Job exists because folder exists, not vice versa
  * - State is directory name, never inferred
  * - Metadata is authoritative
- * - Logs are append-only
- * - Artifacts are immutable once written
+ * - Metadata writes are atomic (temp file + rename) and bump `revision`
+ * - Metadata read-modify-writes of a job are serialized across processes
+ *   sharing the storage root (O_EXCL lockfile in locks/, broken once stale)
+ * - Logs are append-only (job.log for humans, events.jsonl for machines)
+ * - Artifacts are immutable once written; their checksums are recorded in metadata
+ *
+ * Job lookups go through an in-process index (see job-index.ts) that is
+ * verified against the filesystem on every hit.
  *
  * Uses dependency injection pattern:
  * - Tests inject temporary directories
@@ -22,15 +35,87 @@ import { v4 as uuidv4 } from "uuid";
  */
 
 export const JOB_STATES = {
+  SCHEDULED: "SCHEDULED",
   NEW: "NEW",
   CLAIMED: "CLAIMED",
   RUNNING: "RUNNING",
   DONE: "DONE",
   FAILED: "FAILED",
+  COMPLETE: "COMPLETE",
+  CANCELLED: "CANCELLED",
+  ARCHIVED: "ARCHIVED",
 } as const;
 
 export type JobState = (typeof JOB_STATES)[keyof typeof JOB_STATES];
 
+/**
+ * Built-in pipeline stages, in execution order
+ *
+ * The stage tells which part of the pipeline the job's state refers to:
+ * DONE + SEPARATION means "stems are ready", not "job is finished".
+ * Only the last stage may move a job into COMPLETE.
+ *
+ * Further stages are declared through the adapter registry (adapter-registry.ts).
+ */
+export const PIPELINE_STAGES = {
+  DOWNLOAD: "DOWNLOAD",
+  SEPARATION: "SEPARATION",
+  WAVEFORM: "WAVEFORM",
+  LYRICS: "LYRICS",
+  AUDACITY: "AUDACITY",
+  PACKAGING: "PACKAGING",
+} as const;
+
+export type BuiltinStage = (typeof PIPELINE_STAGES)[keyof typeof PIPELINE_STAGES];
+
+/**
+ * A built-in stage or the name of a registered one
+ */
+export type PipelineStage = BuiltinStage | (string & {});
+
+/**
+ * Priority lanes for stages with a fair queue (HIGH starts first)
+ */
+export const JOB_PRIORITIES = {
+  HIGH: "HIGH",
+  NORMAL: "NORMAL",
+  LOW: "LOW",
+} as const;
+
+export type JobPriority = (typeof JOB_PRIORITIES)[keyof typeof JOB_PRIORITIES];
+
+/**
+ * One stage of a job's pipeline and the stages it waits for
+ */
+export interface PipelineNode {
+  stage: PipelineStage;
+  dependsOn: PipelineStage[];
+}
+
+/**
+ * Pipeline a job runs, fixed at creation (see pipeline.ts)
+ */
+export interface JobPipeline {
+  preset: string;
+  stages: PipelineNode[];
+  // Stages that finished, recorded by moveJob when a worker leaves RUNNING
+  completed: PipelineStage[];
+}
+
+/**
+ * When a SCHEDULED job runs
+ * A one-off job moves to NEW at runAt; a recurring one (cron) stays SCHEDULED
+ * and starts a new job from its input every time it is due
+ */
+export interface JobSchedule {
+  runAt: string;
+  // Five-field cron expression, evaluated in UTC (see cron.ts)
+  cron?: string;
+  // Runs started by a recurring job
+  runs?: number;
+  lastRunAt?: string;
+}
+
 /**
  * Job metadata schema
  */
@@ -38,13 +123,37 @@ export interface JobMetadata {
   id: string;
   youtubeUrl: string;
   state: JobState;
+  stage?: PipelineStage;
   createdAt: string;
   updatedAt: string;
+  // When the job entered its current state (set by every transition; see moveJob)
+  stateEnteredAt?: string;
+  // Incremented on every metadata write; used for compare-and-swap in updateMetadata
+  revision: number;
   ownerId?: string;
+  // Lane in fair-queued stages (NORMAL if unset)
+  priority?: JobPriority;
+  leaseHolder?: string;
   leaseExpiresAt?: string;
+  // Set by a user cancel; the worker holding the job stops and moves it to CANCELLED
+  cancelRequestedAt?: string;
+  // Paused jobs are not picked up by workers until resumed
+  pausedAt?: string;
+  // Stages this job runs; jobs without one run every registered stage in order
+  pipeline?: JobPipeline;
+  // Set for jobs created from an upload (youtubeUrl is empty); DOWNLOAD ingests the file
+  file?: FileMetadata;
+  // When a SCHEDULED job moves to NEW, or runs again for a recurring one (see job-scheduler.ts)
+  schedule?: JobSchedule;
+  // Recurring job this job is a run of
+  scheduledFrom?: string;
+  // Checksums of written artifacts, keyed by "<artifactType>/<fileName>"
+  artifactChecksums?: Record<string, ArtifactChecksum>;
+  // Failed attempts of stages, oldest first (see retry-policy.ts)
+  attempts?: StageAttempt[];
   download?: {
     status: "COMPLETE" | "FAILED";
-    reason?: "CAPTCHA_REQUIRED" | "RATE_LIMITED" | "COPYRIGHT_RESTRICTED" | "DOWNLOAD_ERROR";
+    reason?: "CAPTCHA_REQUIRED" | "RATE_LIMITED" | "COPYRIGHT_RESTRICTED" | "DOWNLOAD_ERROR" | "INVALID_AUDIO_FORMAT";
     message?: string;
     label?: string;
     error?: string;
@@ -54,12 +163,43 @@ export interface JobMetadata {
     fileFormat?: string;
     filePath?: string;
     fileSize?: number;
+    // What ffprobe found in the upload, before it was transcoded to the canonical WAV
+    probe?: AudioProbe;
     downloadedAt?: string;
   };
   separation?: {
     status: "COMPLETE" | "FAILED" | "NOT_STARTED";
     model?: string;
     device?: "cuda" | "cpu";
+    // Format and length of each stem written
+    stems?: Record<string, AudioInfo>;
+    error?: string;
+    finishedAt?: string;
+  };
+  waveform?: {
+    status: "COMPLETE" | "FAILED";
+    // Peak files written per source ("mix" and each stem) and zoom level (see waveform.ts)
+    sources?: string[];
+    zoomLevels?: number[];
+    // Where the mix peaks came from: the downloaded audio, or the stems summed
+    mixSource?: "download" | "stems";
+    sampleRate?: number;
+    durationSec?: number;
+    error?: string;
+    finishedAt?: string;
+  };
+  // Written by the beats feature adapter after SEPARATION, or DOWNLOAD without it (see beats-worker.ts)
+  analysis?: {
+    status: "COMPLETE" | "FAILED";
+    bpm?: number;
+    // 0 (no clear pulse) to 1
+    confidence?: number;
+    // What was analysed: the drums stem, or the mix without one
+    source?: "drums" | "mix";
+    beatsPerBar?: number;
+    firstDownbeatSec?: number;
+    // Full beat grid: analysis/beats.json
+    beatsPath?: string;
     error?: string;
     finishedAt?: string;
   };
@@ -71,28 +211,266 @@ export interface JobMetadata {
   };
   audacity?: {
     status: "COMPLETE" | "FAILED";
+    // Relative to the job folder
     projectPath?: string;
+    // Of every track (the stems are validated to match)
+    sampleRate?: number;
+    numSamples?: number;
     error?: string;
   };
+  packaging?: {
+    status: "COMPLETE" | "FAILED";
+    zipPath?: string;
+    zipUrl?: string;
+    error?: string;
+    finishedAt?: string;
+  };
+  // Set by retention when artifacts were deleted (metadata and logs are kept)
+  purged?: {
+    // Artifact directories removed ("*" for all)
+    artifactTypes: string[];
+    bytes: number;
+    purgedAt: string;
+  };
+  // Set when the job folder was archived to the storage backend
+  archive?: {
+    key: string;
+    url: string;
+    bytes: number;
+    archivedAt: string;
+  };
+}
+
+/**
+ * A failed attempt of a stage and the retry policy's decision
+ */
+export interface StageAttempt {
+  stage: PipelineStage;
+  // 1-based, counted per stage
+  attempt: number;
+  maxAttempts: number;
+  // FailureReason from the stage's ERROR event
+  reason: string;
+  error?: string;
+  failedAt: string;
+  // Set when an automatic retry is scheduled; cleared when the job is retried
+  nextAttemptAt?: string;
+  // Run the retry on the CPU (the attempt ran out of GPU memory)
+  fallback?: "cpu";
+}
+
+/**
+ * Checksum of an artifact, recorded when it is written
+ */
+export interface ArtifactChecksum {
+  sha256: string;
+  bytes: number;
+  // Stage that produced the artifact
+  stage: PipelineStage;
+  writtenAt: string;
+}
+
+/**
+ * Structured job event types (one JSON object per line in logs/events.jsonl)
+ */
+export const JOB_EVENT_TYPES = {
+  TRANSITION: "transition",
+  STAGE_STARTED: "stage_started",
+  STAGE_PROGRESS: "stage_progress",
+  ARTIFACT_WRITTEN: "artifact_written",
+  ERROR: "error",
+  RETRY: "retry",
+} as const;
+
+export type JobEventType = (typeof JOB_EVENT_TYPES)[keyof typeof JOB_EVENT_TYPES];
+
+/**
+ * Structured job event
+ */
+export interface JobEvent {
+  timestamp: string;
+  type: JobEventType;
+  actor?: string;
+  stage?: PipelineStage;
+  // Time spent on whatever the event closes (e.g., time in the previous state for transitions)
+  durationMs?: number;
+  payload?: Record<string, any>;
+}
+
+/**
+ * Filters for reading job events
+ */
+export interface JobEventQuery {
+  // Only events strictly after this ISO timestamp
+  since?: string;
+  types?: JobEventType[];
 }
 
+/**
+ * Thrown by updateMetadata when metadata changed since the caller read it
+ */
+export class StaleMetadataError extends Error {
+  constructor(
+    public jobId: string,
+    public expectedRevision: number,
+    public actualRevision: number
+  ) {
+    super(`Stale metadata for job ${jobId}: expected revision ${expectedRevision}, found ${actualRevision}`);
+    this.name = "StaleMetadataError";
+  }
+}
+
+/**
+ * Options for creating a job folder
+ */
+export interface CreateJobOptions {
+  pipeline?: JobPipeline;
+  // Uploaded file the job processes instead of a URL
+  file?: FileMetadata;
+  ownerId?: string;
+  priority?: JobPriority;
+  // Create the job in SCHEDULED instead of NEW
+  schedule?: JobSchedule;
+  scheduledFrom?: string;
+}
+
+/**
+ * Metadata mutator: edit the fresh copy in place, or return a replacement
+ */
+export type MetadataMutator = (metadata: JobMetadata) => JobMetadata | void;
+
 /**
  * Filesystem API interface
  */
 export interface FilesystemAPI {
   initializeStorage(): Promise<void>;
-  createJobFolder(youtubeUrl: string): Promise<{ jobId: string; metadata: JobMetadata }>;
+  createJobFolder(youtubeUrl: string, options?: CreateJobOptions): Promise<{ jobId: string; metadata: JobMetadata }>;
   readMetadata(jobId: string): Promise<JobMetadata | null>;
   writeMetadata(jobId: string, metadata: JobMetadata): Promise<void>;
+  updateMetadata(jobId: string, expectedRevision: number, mutator: MetadataMutator): Promise<JobMetadata>;
   getJobStateDir(jobId: string): Promise<{ state: JobState; dir: string } | null>;
   listJobsByState(state: JobState): Promise<string[]>;
   listAllJobs(): Promise<{ jobId: string; state: JobState; metadata: JobMetadata }[]>;
   appendToJobLog(jobId: string, message: string): Promise<void>;
   readJobLogs(jobId: string): Promise<string[]>;
+  appendJobEvent(jobId: string, event: Omit<JobEvent, "timestamp">): Promise<JobEvent>;
+  readJobEvents(jobId: string, query?: JobEventQuery): Promise<JobEvent[]>;
   listArtifacts(jobId: string): Promise<Record<string, string[]>>;
   getArtifactPath(jobId: string, artifactType: string, fileName: string): Promise<string | null>;
   writeArtifact(jobId: string, artifactType: string, fileName: string, data: Buffer | string): Promise<string>;
+  verifyStageArtifacts(jobId: string, stage: PipelineStage): Promise<{ valid: boolean; reason?: string }>;
   deleteJobFolder(jobId: string): Promise<void>;
+  recordJobState(jobId: string, state: JobState): void;
+  rebuildIndex(): Promise<number>;
+  watchIndex(): () => void;
+}
+
+/**
+ * How old a metadata lockfile must be before another process breaks it
+ * (a metadata write takes milliseconds; an older lock was left by a crashed process)
+ */
+export const METADATA_LOCK_STALE_MS = parseInt(process.env.METADATA_LOCK_STALE_MS || "10000");
+
+const METADATA_LOCK_RETRY_MS = 5;
+
+/**
+ * Per-job metadata write queues, keyed by lockfile path
+ * Module-level so separate filesystem instances over the same root share them
+ */
+const metadataLocks = new Map<string, Promise<unknown>>();
+
+/**
+ * Whether a lockfile was left behind: older than METADATA_LOCK_STALE_MS, or
+ * taken on this host by a process that no longer exists
+ */
+async function isStaleLockFile(lockPath: string): Promise<boolean> {
+  try {
+    const [stats, content] = await Promise.all([fs.stat(lockPath), fs.readFile(lockPath, "utf8")]);
+    if (Date.now() - stats.mtimeMs > METADATA_LOCK_STALE_MS) {
+      return true;
+    }
+
+    const [host, pid] = content.trim().split(" ");
+    if (host !== os.hostname() || !pid || Number(pid) === process.pid) {
+      return false;
+    }
+    try {
+      process.kill(Number(pid), 0);
+      return false;
+    } catch (error) {
+      return (error as NodeJS.ErrnoException).code === "ESRCH";
+    }
+  } catch (error) {
+    // Released in the meantime
+    return false;
+  }
+}
+
+/**
+ * Take a lockfile shared with other processes (O_EXCL create), breaking stale ones
+ */
+async function acquireLockFile(lockPath: string): Promise<void> {
+  await fs.ensureDir(path.dirname(lockPath));
+
+  for (;;) {
+    try {
+      await fs.writeFile(lockPath, `${os.hostname()} ${process.pid}\n`, { flag: "wx" });
+      return;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "EEXIST") {
+        throw error;
+      }
+    }
+
+    if (await isStaleLockFile(lockPath)) {
+      console.log(`[filesystem] Breaking stale metadata lock ${lockPath}`);
+      await fs.remove(lockPath);
+      continue;
+    }
+    await new Promise((resolve) => setTimeout(resolve, METADATA_LOCK_RETRY_MS));
+  }
+}
+
+/**
+ * Run fn after every earlier write to the same job's metadata has settled,
+ * in this process (write queue) and in others sharing the storage root (lockfile)
+ */
+async function withMetadataLock<T>(lockPath: string, fn: () => Promise<T>): Promise<T> {
+  const locked = async () => {
+    await acquireLockFile(lockPath);
+    try {
+      return await fn();
+    } finally {
+      await fs.remove(lockPath);
+    }
+  };
+
+  const previous = metadataLocks.get(lockPath) ?? Promise.resolve();
+  const run = previous.then(locked, locked);
+  const tail = run.catch(() => undefined);
+  metadataLocks.set(lockPath, tail);
+
+  try {
+    return await run;
+  } finally {
+    if (metadataLocks.get(lockPath) === tail) {
+      metadataLocks.delete(lockPath);
+    }
+  }
+}
+
+/**
+ * Write JSON atomically: readers see the old file or the new one, never a torn write
+ */
+async function writeJSONAtomic(filePath: string, data: unknown): Promise<void> {
+  const tempPath = `${filePath}.${process.pid}.${uuidv4()}.tmp`;
+  try {
+    await fs.writeJSON(tempPath, data, { spaces: 2 });
+    await fs.rename(tempPath, filePath);
+  } catch (error) {
+    await fs.remove(tempPath).catch(() => undefined);
+    throw error;
+  }
 }
 
 /**
@@ -102,6 +480,16 @@ export interface FilesystemAPI {
  * @returns FilesystemAPI instance
  */
 export function createFilesystem(storageRoot: string): FilesystemAPI {
+  const index = createJobIndex(storageRoot, Object.values(JOB_STATES));
+
+  /**
+   * Lockfile guarding a job's metadata writes
+   * Kept outside the job folder, so a lock taken before a state move still guards the job after it
+   */
+  function metadataLockPath(jobId: string): string {
+    return path.join(storageRoot, "locks", `${jobId}.lock`);
+  }
+
   /**
    * Initialize storage directories
    */
@@ -113,13 +501,17 @@ export function createFilesystem(storageRoot: string): FilesystemAPI {
   }
 
   /**
-   * Create a new job folder in NEW state
+   * Create a new job folder in NEW state (SCHEDULED if it has a schedule)
    */
-  async function createJobFolder(youtubeUrl: string): Promise<{ jobId: string; metadata: JobMetadata }> {
+  async function createJobFolder(
+    youtubeUrl: string,
+    options: CreateJobOptions = {}
+  ): Promise<{ jobId: string; metadata: JobMetadata }> {
     const jobId = uuidv4();
     const now = new Date().toISOString();
+    const state = options.schedule ? JOB_STATES.SCHEDULED : JOB_STATES.NEW;
 
-    const jobDir = path.join(storageRoot, "jobs", JOB_STATES.NEW, jobId);
+    const jobDir = path.join(storageRoot, "jobs", state, jobId);
     await fs.ensureDir(jobDir);
 
     // Create logs directory and initial log file
@@ -127,18 +519,32 @@ export function createFilesystem(storageRoot: string): FilesystemAPI {
     await fs.ensureDir(logsDir);
     const logFile = path.join(logsDir, "job.log");
     const timestamp = new Date().toISOString();
-    const logEntry = `[${timestamp}] Job created for URL: ${youtubeUrl}\n`;
+    const source = options.file ? `file: ${options.file.filename}` : `URL: ${youtubeUrl}`;
+    const when = options.schedule
+      ? `, scheduled for ${options.schedule.runAt}${options.schedule.cron ? ` (cron ${options.schedule.cron})` : ""}`
+      : "";
+    const logEntry = `[${timestamp}] Job created for ${source}${when}\n`;
     await fs.writeFile(logFile, logEntry);
 
     const metadata: JobMetadata = {
       id: jobId,
       youtubeUrl,
-      state: JOB_STATES.NEW,
+      state,
+      stage: PIPELINE_STAGES.DOWNLOAD,
       createdAt: now,
       updatedAt: now,
+      stateEnteredAt: now,
+      revision: 0,
+      ...(options.pipeline && { pipeline: options.pipeline }),
+      ...(options.file && { file: options.file }),
+      ...(options.ownerId && { ownerId: options.ownerId }),
+      ...(options.priority && { priority: options.priority }),
+      ...(options.schedule && { schedule: options.schedule }),
+      ...(options.scheduledFrom && { scheduledFrom: options.scheduledFrom }),
     };
 
-    await fs.writeJSON(path.join(jobDir, "metadata.json"), metadata, { spaces: 2 });
+    await writeJSONAtomic(path.join(jobDir, "metadata.json"), metadata);
+    index.record(jobId, state);
 
     return { jobId, metadata };
   }
@@ -147,18 +553,32 @@ export function createFilesystem(storageRoot: string): FilesystemAPI {
    * Read job metadata from filesystem
    */
   async function readMetadata(jobId: string): Promise<JobMetadata | null> {
-    // Search for job in all state directories
-    for (const state of Object.values(JOB_STATES)) {
-      const metadataPath = path.join(storageRoot, "jobs", state, jobId, "metadata.json");
-      if (await fs.pathExists(metadataPath)) {
-        return fs.readJSON(metadataPath);
-      }
+    const stateDir = await index.locate(jobId);
+    if (!stateDir) {
+      return null;
     }
-    return null;
+
+    return readMetadataAt(stateDir.dir);
+  }
+
+  /**
+   * Read metadata.json from a known job directory
+   */
+  async function readMetadataAt(jobDir: string): Promise<JobMetadata | null> {
+    const metadataPath = path.join(jobDir, "metadata.json");
+    if (!(await fs.pathExists(metadataPath))) {
+      return null;
+    }
+
+    const metadata: JobMetadata = await fs.readJSON(metadataPath);
+    // Jobs written before revisions existed start at 0
+    metadata.revision = metadata.revision ?? 0;
+    return metadata;
   }
 
   /**
-   * Write job metadata to filesystem
+   * Write job metadata to filesystem (unconditional, last write wins)
+   * Prefer updateMetadata for read-modify-write
    */
   async function writeMetadata(jobId: string, metadata: JobMetadata): Promise<void> {
     const state = metadata.state;
@@ -167,23 +587,57 @@ export function createFilesystem(storageRoot: string): FilesystemAPI {
     // Ensure directory exists
     await fs.ensureDir(path.dirname(metadataPath));
 
-    // Update timestamp
-    metadata.updatedAt = new Date().toISOString();
+    await withMetadataLock(metadataLockPath(jobId), async () => {
+      const current = (await fs.pathExists(metadataPath)) ? await fs.readJSON(metadataPath) : null;
 
-    await fs.writeJSON(metadataPath, metadata, { spaces: 2 });
+      // Update timestamp and revision
+      metadata.updatedAt = new Date().toISOString();
+      metadata.revision = Math.max(metadata.revision ?? 0, current?.revision ?? 0) + 1;
+
+      await writeJSONAtomic(metadataPath, metadata);
+    });
+  }
+
+  /**
+   * Read-modify-write with compare-and-swap
+   *
+   * Applies mutator to the current metadata and writes it, unless another
+   * writer bumped the revision since the caller read expectedRevision.
+   * Throws StaleMetadataError in that case; the caller re-reads and retries.
+   */
+  async function updateMetadata(jobId: string, expectedRevision: number, mutator: MetadataMutator): Promise<JobMetadata> {
+    const stateDir = await getJobStateDir(jobId);
+    if (!stateDir) {
+      throw new Error(`Job ${jobId} not found`);
+    }
+
+    const metadataPath = path.join(stateDir.dir, "metadata.json");
+
+    return withMetadataLock(metadataLockPath(jobId), async () => {
+      if (!(await fs.pathExists(metadataPath))) {
+        throw new Error(`Job ${jobId} not found`);
+      }
+
+      const current: JobMetadata = await fs.readJSON(metadataPath);
+      const currentRevision = current.revision ?? 0;
+      if (currentRevision !== expectedRevision) {
+        throw new StaleMetadataError(jobId, expectedRevision, currentRevision);
+      }
+
+      const updated = mutator(current) ?? current;
+      updated.updatedAt = new Date().toISOString();
+      updated.revision = currentRevision + 1;
+
+      await writeJSONAtomic(metadataPath, updated);
+      return updated;
+    });
   }
 
   /**
    * Get the current state directory for a job
    */
   async function getJobStateDir(jobId: string): Promise<{ state: JobState; dir: string } | null> {
-    for (const state of Object.values(JOB_STATES)) {
-      const dir = path.join(storageRoot, "jobs", state, jobId);
-      if (await fs.pathExists(dir)) {
-        return { state, dir };
-      }
-    }
-    return null;
+    return index.locate(jobId);
   }
 
   /**
@@ -195,8 +649,8 @@ export function createFilesystem(storageRoot: string): FilesystemAPI {
       return [];
     }
 
-    const entries = await fs.readdir(stateDir);
-    return entries.filter((entry: string) => fs.statSync(path.join(stateDir, entry)).isDirectory());
+    const entries = await fs.readdir(stateDir, { withFileTypes: true });
+    return entries.filter((entry) => entry.isDirectory()).map((entry) => entry.name);
   }
 
   /**
@@ -208,8 +662,10 @@ export function createFilesystem(storageRoot: string): FilesystemAPI {
     for (const state of Object.values(JOB_STATES)) {
       const jobIds = await listJobsByState(state);
       for (const jobId of jobIds) {
-        const metadata = await readMetadata(jobId);
+        // Read straight from the directory being listed instead of locating the job again
+        const metadata = await readMetadataAt(path.join(storageRoot, "jobs", state, jobId));
         if (metadata) {
+          index.record(jobId, state);
           jobs.push({ jobId, state, metadata });
         }
       }
@@ -262,6 +718,67 @@ export function createFilesystem(storageRoot: string): FilesystemAPI {
     return content.split("\n").filter((line: string) => line.trim());
   }
 
+  /**
+   * Append a structured event (append-only, one JSON object per line)
+   */
+  async function appendJobEvent(jobId: string, event: Omit<JobEvent, "timestamp">): Promise<JobEvent> {
+    const stateDir = await getJobStateDir(jobId);
+    if (!stateDir) {
+      throw new Error(`Job ${jobId} not found`);
+    }
+
+    const eventsFile = path.join(stateDir.dir, "logs", "events.jsonl");
+    await fs.ensureDir(path.dirname(eventsFile));
+
+    const entry: JobEvent = { timestamp: new Date().toISOString(), ...event };
+    await fs.appendFile(eventsFile, `${JSON.stringify(entry)}\n`);
+
+    return entry;
+  }
+
+  /**
+   * Read structured events, oldest first
+   * Lines that fail to parse (e.g., torn by a crash mid-append) are skipped
+   */
+  async function readJobEvents(jobId: string, query: JobEventQuery = {}): Promise<JobEvent[]> {
+    const stateDir = await getJobStateDir(jobId);
+    if (!stateDir) {
+      throw new Error(`Job ${jobId} not found`);
+    }
+
+    const eventsFile = path.join(stateDir.dir, "logs", "events.jsonl");
+    if (!(await fs.pathExists(eventsFile))) {
+      return [];
+    }
+
+    const content = await fs.readFile(eventsFile, "utf-8");
+    const events: JobEvent[] = [];
+
+    for (const line of content.split("\n")) {
+      if (!line.trim()) {
+        continue;
+      }
+
+      let event: JobEvent;
+      try {
+        event = JSON.parse(line);
+      } catch {
+        continue;
+      }
+
+      if (query.since && event.timestamp <= query.since) {
+        continue;
+      }
+      if (query.types && !query.types.includes(event.type)) {
+        continue;
+      }
+
+      events.push(event);
+    }
+
+    return events;
+  }
+
   /**
    * List artifacts for a job
    */
@@ -273,9 +790,8 @@ export function createFilesystem(storageRoot: string): FilesystemAPI {
 
     const artifacts: Record<string, string[]> = {};
 
-    // Check for artifact directories
-    const artifactDirs = ["download", "separation", "lyrics", "audacity"];
-    for (const dir of artifactDirs) {
+    // Check the artifact directories of every registered stage
+    for (const dir of listArtifactDirs()) {
       const artifactPath = path.join(stateDir.dir, dir);
       if (await fs.pathExists(artifactPath)) {
         const files = await fs.readdir(artifactPath);
@@ -322,9 +838,67 @@ export function createFilesystem(storageRoot: string): FilesystemAPI {
       await fs.writeFile(filePath, data);
     }
 
+    // Record the checksum so a later retry can trust this artifact without redoing the stage
+    const sha256 = createHash("sha256").update(data).digest("hex");
+    const bytes = Buffer.byteLength(data);
+    const metadataPath = path.join(stateDir.dir, "metadata.json");
+    const metadata = await withMetadataLock(metadataLockPath(jobId), async () => {
+      const current: JobMetadata = await fs.readJSON(metadataPath);
+      current.updatedAt = new Date().toISOString();
+      current.revision = (current.revision ?? 0) + 1;
+      current.artifactChecksums = {
+        ...current.artifactChecksums,
+        [`${artifactType}/${fileName}`]: {
+          sha256,
+          bytes,
+          stage: current.stage ?? PIPELINE_STAGES.DOWNLOAD,
+          writtenAt: current.updatedAt,
+        },
+      };
+      await writeJSONAtomic(metadataPath, current);
+      return current;
+    });
+
+    await appendJobEvent(jobId, {
+      type: JOB_EVENT_TYPES.ARTIFACT_WRITTEN,
+      stage: metadata.stage,
+      payload: { artifactType, fileName, bytes, sha256 },
+    });
+
     return filePath;
   }
 
+  /**
+   * Check that the artifacts a stage wrote are still on disk, unchanged
+   * A stage with no recorded artifacts cannot be verified
+   */
+  async function verifyStageArtifacts(jobId: string, stage: PipelineStage): Promise<{ valid: boolean; reason?: string }> {
+    const stateDir = await getJobStateDir(jobId);
+    const metadata = stateDir ? await readMetadataAt(stateDir.dir) : null;
+    if (!stateDir || !metadata) {
+      return { valid: false, reason: `Job ${jobId} not found` };
+    }
+
+    const recorded = Object.entries(metadata.artifactChecksums ?? {}).filter(([, checksum]) => checksum.stage === stage);
+    if (recorded.length === 0) {
+      return { valid: false, reason: `No recorded artifacts for stage ${stage}` };
+    }
+
+    for (const [key, checksum] of recorded) {
+      const filePath = path.join(stateDir.dir, key);
+      if (!(await fs.pathExists(filePath))) {
+        return { valid: false, reason: `Artifact ${key} is missing` };
+      }
+
+      const sha256 = createHash("sha256").update(await fs.readFile(filePath)).digest("hex");
+      if (sha256 !== checksum.sha256) {
+        return { valid: false, reason: `Artifact ${key} does not match its recorded checksum` };
+      }
+    }
+
+    return { valid: true };
+  }
+
   /**
    * Delete a job folder (used for cleanup, not normal operation)
    */
@@ -333,6 +907,28 @@ export function createFilesystem(storageRoot: string): FilesystemAPI {
     if (stateDir) {
       await fs.remove(stateDir.dir);
     }
+    index.forget(jobId);
+  }
+
+  /**
+   * Record a job's new state directory after a move
+   */
+  function recordJobState(jobId: string, state: JobState): void {
+    index.record(jobId, state);
+  }
+
+  /**
+   * Rebuild the job index from the filesystem (on startup)
+   */
+  async function rebuildIndex(): Promise<number> {
+    return index.rebuild();
+  }
+
+  /**
+   * Keep the job index current when other processes move jobs
+   */
+  function watchIndex(): () => void {
+    return index.watch();
   }
 
   return {
@@ -340,15 +936,22 @@ export function createFilesystem(storageRoot: string): FilesystemAPI {
     createJobFolder,
     readMetadata,
     writeMetadata,
+    updateMetadata,
     getJobStateDir,
     listJobsByState,
     listAllJobs,
     appendToJobLog,
     readJobLogs,
+    appendJobEvent,
+    readJobEvents,
     listArtifacts,
     getArtifactPath,
     writeArtifact,
+    verifyStageArtifacts,
     deleteJobFolder,
+    recordJobState,
+    rebuildIndex,
+    watchIndex,
   };
 }
 
@@ -0,0 +1,202 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import fs from "fs-extra";
+import path from "path";
+import { createFilesystem, JOB_STATES } from "./filesystem";
+import { createFsck, FSCK_ISSUES } from "./fsck";
+import { Actor } from "./job-state";
+import { createMoveOperations } from "./job-moves";
+
+const TEST_STORAGE_ROOT = "/tmp/ego-studio-jobs-test-fsck";
+
+describe.sequential("fsck", () => {
+  let filesystem: ReturnType<typeof createFilesystem>;
+  let fsck: ReturnType<typeof createFsck>;
+  let testDir: string;
+
+  beforeEach(async () => {
+    testDir = `${TEST_STORAGE_ROOT}-${Date.now()}-${Math.random()}`;
+    await fs.ensureDir(testDir);
+    filesystem = createFilesystem(testDir);
+    fsck = createFsck(filesystem, testDir, { orphanGraceMs: 0 });
+    await filesystem.initializeStorage();
+  });
+
+  afterEach(async () => {
+    try {
+      if (testDir) {
+        await fs.remove(testDir);
+      }
+    } catch (e) {
+      // Ignore cleanup errors
+    }
+  });
+
+  function jobDir(state: string, jobId: string) {
+    return path.join(testDir, "jobs", state, jobId);
+  }
+
+  it("should report a clean tree", async () => {
+    const { jobId } = await filesystem.createJobFolder("https://youtube.com/watch?v=test");
+    await createMoveOperations(filesystem, testDir).moveJob(jobId, JOB_STATES.NEW, JOB_STATES.CLAIMED, Actor.SYSTEM);
+
+    const report = await fsck.check();
+
+    expect(report.jobsChecked).toBe(1);
+    expect(report.issues).toEqual([]);
+  });
+
+  it("should detect and repair metadata.state disagreeing with the directory", async () => {
+    const { jobId, metadata } = await filesystem.createJobFolder("https://youtube.com/watch?v=test");
+    await fs.move(jobDir(JOB_STATES.NEW, jobId), jobDir(JOB_STATES.RUNNING, jobId));
+
+    const report = await fsck.check();
+    expect(report.issues).toHaveLength(1);
+    expect(report.issues[0].code).toBe(FSCK_ISSUES.STATE_MISMATCH);
+    expect(report.issues[0].detail).toContain(`metadata.state is ${metadata.state}`);
+
+    // Checking alone changes nothing
+    expect((await filesystem.readMetadata(jobId))?.state).toBe(JOB_STATES.NEW);
+
+    const results = await fsck.repairAll(report);
+    expect(results.every((r) => r.success)).toBe(true);
+    expect((await filesystem.readMetadata(jobId))?.state).toBe(JOB_STATES.RUNNING);
+
+    const logs = await filesystem.readJobLogs(jobId);
+    expect(logs.some((line) => line.includes(`[${Actor.SYSTEM}] fsck: STATE_MISMATCH`))).toBe(true);
+    expect((await fsck.check()).issues).toEqual([]);
+  });
+
+  it("should keep the newest copy of a job found in two state directories", async () => {
+    const { jobId } = await filesystem.createJobFolder("https://youtube.com/watch?v=test");
+    await createMoveOperations(filesystem, testDir).moveJob(jobId, JOB_STATES.NEW, JOB_STATES.CLAIMED, Actor.SYSTEM);
+
+    // Interrupted copy-then-delete move left an older copy behind
+    await fs.copy(jobDir(JOB_STATES.CLAIMED, jobId), jobDir(JOB_STATES.NEW, jobId));
+    const stale = await fs.readJSON(path.join(jobDir(JOB_STATES.NEW, jobId), "metadata.json"));
+    await fs.writeJSON(path.join(jobDir(JOB_STATES.NEW, jobId), "metadata.json"), {
+      ...stale,
+      state: JOB_STATES.NEW,
+      revision: 0,
+    });
+
+    const report = await fsck.check();
+    const duplicates = report.issues.filter((i) => i.code === FSCK_ISSUES.DUPLICATE_JOB);
+    expect(duplicates).toHaveLength(1);
+    expect(duplicates[0].state).toBe(JOB_STATES.NEW);
+
+    await fsck.repairAll(report);
+
+    expect(await fs.pathExists(jobDir(JOB_STATES.NEW, jobId))).toBe(false);
+    expect(await fs.pathExists(jobDir(JOB_STATES.CLAIMED, jobId))).toBe(true);
+    const quarantined = await fs.readdir(path.join(testDir, "lost+found"));
+    expect(quarantined).toHaveLength(1);
+    expect(quarantined[0]).toContain(`${jobId}-${JOB_STATES.NEW}`);
+  });
+
+  it("should quarantine folders with missing or corrupt metadata", async () => {
+    const missing = path.join(testDir, "jobs", JOB_STATES.DONE, "job-without-metadata");
+    await fs.ensureDir(missing);
+    const { jobId } = await filesystem.createJobFolder("https://youtube.com/watch?v=test");
+    await fs.writeFile(path.join(jobDir(JOB_STATES.NEW, jobId), "metadata.json"), '{"id": "trunc');
+
+    const report = await fsck.check();
+    expect(report.issues.map((i) => i.code).sort()).toEqual([
+      FSCK_ISSUES.CORRUPT_METADATA,
+      FSCK_ISSUES.MISSING_METADATA,
+    ]);
+
+    await fsck.repairAll(report);
+
+    expect(await fs.pathExists(missing)).toBe(false);
+    expect(await fs.pathExists(jobDir(JOB_STATES.NEW, jobId))).toBe(false);
+    expect(await fs.readdir(path.join(testDir, "lost+found"))).toHaveLength(2);
+  });
+
+  it("should clean up temp files and leases outside CLAIMED/RUNNING", async () => {
+    const { jobId } = await filesystem.createJobFolder("https://youtube.com/watch?v=test");
+    const metadataPath = path.join(jobDir(JOB_STATES.NEW, jobId), "metadata.json");
+    await fs.writeFile(`${metadataPath}.123.abc.tmp`, "{");
+    await fs.writeJSON(metadataPath, { ...(await fs.readJSON(metadataPath)), leaseHolder: "ghost:1" });
+
+    const report = await fsck.check();
+    expect(report.issues.map((i) => i.code).sort()).toEqual([FSCK_ISSUES.STALE_LEASE, FSCK_ISSUES.STALE_TEMP_FILE]);
+
+    await fsck.repairAll(report);
+
+    expect(await fs.pathExists(`${metadataPath}.123.abc.tmp`)).toBe(false);
+    expect((await filesystem.readMetadata(jobId))?.leaseHolder).toBeUndefined();
+  });
+
+  it("should report orphaned uploads and artifacts but keep referenced ones", async () => {
+    const { jobId } = await filesystem.createJobFolder("https://youtube.com/watch?v=test");
+    const metadataPath = path.join(jobDir(JOB_STATES.NEW, jobId), "metadata.json");
+    await fs.writeJSON(metadataPath, {
+      ...(await fs.readJSON(metadataPath)),
+      file: { filename: "song.wav", uploadedFilename: "abc123-song.wav" },
+    });
+
+    await fs.outputFile(path.join(testDir, "uploads", "abc123-song.wav"), "audio");
+    await fs.outputFile(path.join(testDir, "uploads", "zzz999-lost.wav"), "audio");
+    await fs.outputFile(path.join(testDir, "artifacts", `${jobId}-artifacts.zip`), "zip");
+    await fs.outputFile(path.join(testDir, "artifacts", "gone-job-artifacts.zip"), "zip");
+
+    const report = await fsck.check();
+    expect(report.issues.map((i) => `${i.code}:${path.basename(i.path)}`).sort()).toEqual([
+      `${FSCK_ISSUES.ORPHANED_ARTIFACT}:gone-job-artifacts.zip`,
+      `${FSCK_ISSUES.ORPHANED_UPLOAD}:zzz999-lost.wav`,
+    ]);
+
+    await fsck.repairAll(report, { codes: [FSCK_ISSUES.ORPHANED_UPLOAD] });
+
+    expect(await fs.pathExists(path.join(testDir, "uploads", "zzz999-lost.wav"))).toBe(false);
+    expect(await fs.pathExists(path.join(testDir, "uploads", "abc123-song.wav"))).toBe(true);
+    expect(await fs.pathExists(path.join(testDir, "artifacts", "gone-job-artifacts.zip"))).toBe(true);
+  });
+
+  it("should keep the uploads of legacy jobs without an uploadedFilename", async () => {
+    const { jobId } = await filesystem.createJobFolder("");
+    const metadataPath = path.join(jobDir(JOB_STATES.NEW, jobId), "metadata.json");
+    // Created before metadata recorded the name on disk
+    await fs.writeJSON(metadataPath, {
+      ...(await fs.readJSON(metadataPath)),
+      file: {
+        filename: "my-song.wav",
+        size: 5,
+        format: "wav",
+        mimeType: "audio/wav",
+        uploadedAt: "2024-01-01T00:00:00.000Z",
+      },
+    });
+
+    await fs.outputFile(path.join(testDir, "uploads", "V1StGXR8-my-song.wav"), "audio");
+    await fs.outputFile(path.join(testDir, "uploads", "V1StGXR8-other.wav"), "audio");
+
+    const report = await fsck.check();
+    expect(report.issues.map((i) => `${i.code}:${path.basename(i.path)}`)).toEqual([
+      `${FSCK_ISSUES.ORPHANED_UPLOAD}:V1StGXR8-other.wav`,
+    ]);
+
+    await fsck.repairAll(report);
+
+    expect(await fs.pathExists(path.join(testDir, "uploads", "V1StGXR8-my-song.wav"))).toBe(true);
+  });
+
+  it("should leave fresh files alone while uploads may still be in flight", async () => {
+    await fs.outputFile(path.join(testDir, "uploads", "in-flight.wav"), "audio");
+
+    const report = await createFsck(filesystem, testDir).check();
+
+    expect(report.issues).toEqual([]);
+  });
+
+  it("should report unknown state directories without offering a repair", async () => {
+    await fs.ensureDir(path.join(testDir, "jobs", "PENDING"));
+
+    const report = await fsck.check();
+
+    expect(report.issues).toHaveLength(1);
+    expect(report.issues[0].code).toBe(FSCK_ISSUES.UNKNOWN_STATE_DIR);
+    expect(report.issues[0].repair).toBeUndefined();
+    expect((await fsck.repair(report.issues[0])).success).toBe(false);
+  });
+});
@@ -0,0 +1,501 @@
+/**
+ * Filesystem Integrity Checker (utility adapter)
+ *
+ * Detects drift between the storage tree and the invariants enforced by
+ * filesystem.ts and job-moves.ts. Checking never changes anything; every
+ * repair is an explicit action, run as Actor.SYSTEM and logged to the
+ * job log (when the job still has one) and the console.
+ *
+ * Invariants checked:
+ * - Job exists because folder exists: every job folder has readable metadata.json
+ * - State is directory name: metadata.state matches the folder's state directory
+ * - Transitions are atomic: a job lives in exactly one state directory
+ * - Metadata writes are atomic: no leftover metadata temp files
+ * - Leases exist only in CLAIMED and RUNNING
+ * - uploads/ and artifacts/ only hold files referenced by a job
+ *
+ * Repairs never delete job data: damaged or duplicate job folders are
+ * moved to lost+found/ for manual inspection.
+ */
+
+import fs from "fs-extra";
+import path from "path";
+import { JOB_STATES, JobState, JobMetadata, FilesystemAPI } from "./filesystem";
+import { Actor } from "./job-state";
+
+export const FSCK_ISSUES = {
+  MISSING_METADATA: "MISSING_METADATA",
+  CORRUPT_METADATA: "CORRUPT_METADATA",
+  STATE_MISMATCH: "STATE_MISMATCH",
+  ID_MISMATCH: "ID_MISMATCH",
+  DUPLICATE_JOB: "DUPLICATE_JOB",
+  STALE_TEMP_FILE: "STALE_TEMP_FILE",
+  STALE_LEASE: "STALE_LEASE",
+  UNKNOWN_STATE_DIR: "UNKNOWN_STATE_DIR",
+  ORPHANED_UPLOAD: "ORPHANED_UPLOAD",
+  ORPHANED_ARTIFACT: "ORPHANED_ARTIFACT",
+} as const;
+
+export type FsckIssueCode = (typeof FSCK_ISSUES)[keyof typeof FSCK_ISSUES];
+
+/**
+ * Invariant violated by each issue, in the words of filesystem.ts / job-moves.ts
+ */
+const INVARIANTS: Record<FsckIssueCode, string> = {
+  MISSING_METADATA: "Job exists because folder exists; metadata is authoritative",
+  CORRUPT_METADATA: "Metadata writes are atomic (temp file + rename)",
+  STATE_MISMATCH: "State is directory name, never inferred",
+  ID_MISMATCH: "Job folder name is the job ID",
+  DUPLICATE_JOB: "Transitions are atomic; no intermediate states visible",
+  STALE_TEMP_FILE: "Metadata writes are atomic (temp file + rename)",
+  STALE_LEASE: "Leases exist only in CLAIMED and RUNNING",
+  UNKNOWN_STATE_DIR: "State is encoded in directory location",
+  ORPHANED_UPLOAD: "Uploads belong to a job",
+  ORPHANED_ARTIFACT: "Artifacts belong to a job",
+};
+
+/**
+ * Repair action taken for each issue (undefined: report only)
+ */
+const REPAIRS: Partial<Record<FsckIssueCode, string>> = {
+  MISSING_METADATA: "Move job folder to lost+found/",
+  CORRUPT_METADATA: "Move job folder to lost+found/",
+  STATE_MISMATCH: "Set metadata.state to the directory state",
+  DUPLICATE_JOB: "Keep the copy with the highest revision, move the others to lost+found/",
+  STALE_TEMP_FILE: "Delete temp file",
+  STALE_LEASE: "Clear leaseHolder and leaseExpiresAt",
+  ORPHANED_UPLOAD: "Delete file",
+  ORPHANED_ARTIFACT: "Delete file",
+};
+
+// Unique prefix of upload names on disk: a nanoid(8) and a dash (see file-upload.ts)
+const LEGACY_UPLOAD_PREFIX = /^[A-Za-z0-9_-]{8}-/;
+const LEGACY_UPLOAD_PREFIX_LENGTH = 9;
+
+/**
+ * A single invariant violation
+ */
+export interface FsckIssue {
+  code: FsckIssueCode;
+  invariant: string;
+  path: string;
+  detail: string;
+  jobId?: string;
+  // Directory state of the offending copy (job issues only)
+  state?: JobState;
+  // Description of the repair action, if one exists
+  repair?: string;
+}
+
+export interface FsckReport {
+  checkedAt: string;
+  jobsChecked: number;
+  issues: FsckIssue[];
+}
+
+export interface FsckRepairResult {
+  issue: FsckIssue;
+  success: boolean;
+  error?: string;
+}
+
+/**
+ * One job folder found on disk
+ */
+interface JobCopy {
+  jobId: string;
+  state: JobState;
+  dir: string;
+  metadata: JobMetadata | null;
+  metadataError?: string;
+}
+
+/**
+ * Factory function to create the integrity checker
+ *
+ * @param filesystem - FilesystemAPI instance (used for logging and metadata repairs)
+ * @param storageRoot - Root directory for job storage
+ * @param options.orphanGraceMs - Files younger than this are never orphans (upload in flight)
+ */
+export function createFsck(filesystem: FilesystemAPI, storageRoot: string, options: { orphanGraceMs?: number } = {}) {
+  const orphanGraceMs = options.orphanGraceMs ?? 60 * 60 * 1000;
+  const jobsRoot = path.join(storageRoot, "jobs");
+  const lostAndFound = path.join(storageRoot, "lost+found");
+  const states = Object.values(JOB_STATES) as string[];
+
+  function issue(code: FsckIssueCode, fields: Omit<FsckIssue, "code" | "invariant" | "repair">): FsckIssue {
+    return { code, invariant: INVARIANTS[code], repair: REPAIRS[code], ...fields };
+  }
+
+  /**
+   * Read every job folder straight from disk (bypasses the job index, which hides duplicates)
+   */
+  async function scanJobCopies(): Promise<JobCopy[]> {
+    const copies: JobCopy[] = [];
+
+    for (const state of Object.values(JOB_STATES)) {
+      const stateDir = path.join(jobsRoot, state);
+      if (!(await fs.pathExists(stateDir))) {
+        continue;
+      }
+
+      const entries = await fs.readdir(stateDir, { withFileTypes: true });
+      for (const entry of entries) {
+        if (!entry.isDirectory()) {
+          continue;
+        }
+
+        const dir = path.join(stateDir, entry.name);
+        const metadataPath = path.join(dir, "metadata.json");
+        const copy: JobCopy = { jobId: entry.name, state, dir, metadata: null };
+
+        if (await fs.pathExists(metadataPath)) {
+          try {
+            copy.metadata = await fs.readJSON(metadataPath);
+          } catch (err) {
+            copy.metadataError = err instanceof Error ? err.message : String(err);
+          }
+        }
+
+        copies.push(copy);
+      }
+    }
+
+    return copies;
+  }
+
+  /**
+   * Check a single job copy
+   */
+  async function checkJobCopy(copy: JobCopy, issues: FsckIssue[]): Promise<void> {
+    const base = { jobId: copy.jobId, state: copy.state, path: copy.dir };
+
+    if (copy.metadataError) {
+      issues.push(issue(FSCK_ISSUES.CORRUPT_METADATA, { ...base, detail: `metadata.json unreadable: ${copy.metadataError}` }));
+    } else if (!copy.metadata) {
+      issues.push(issue(FSCK_ISSUES.MISSING_METADATA, { ...base, detail: "metadata.json is missing" }));
+    }
+
+    for (const entry of await fs.readdir(copy.dir)) {
+      if (entry.startsWith("metadata.json.") && entry.endsWith(".tmp")) {
+        issues.push(
+          issue(FSCK_ISSUES.STALE_TEMP_FILE, {
+            ...base,
+            path: path.join(copy.dir, entry),
+            detail: `Leftover from an interrupted metadata write: ${entry}`,
+          })
+        );
+      }
+    }
+
+    const metadata = copy.metadata;
+    if (!metadata) {
+      return;
+    }
+
+    if (metadata.id && metadata.id !== copy.jobId) {
+      issues.push(issue(FSCK_ISSUES.ID_MISMATCH, { ...base, detail: `metadata.id is ${metadata.id}` }));
+    }
+
+    if (metadata.state !== copy.state) {
+      issues.push(
+        issue(FSCK_ISSUES.STATE_MISMATCH, {
+          ...base,
+          detail: `metadata.state is ${metadata.state}, directory is ${copy.state}`,
+        })
+      );
+    }
+
+    const leased = copy.state === JOB_STATES.CLAIMED || copy.state === JOB_STATES.RUNNING;
+    if (!leased && (metadata.leaseHolder || metadata.leaseExpiresAt)) {
+      issues.push(
+        issue(FSCK_ISSUES.STALE_LEASE, {
+          ...base,
+          detail: `Lease held by ${metadata.leaseHolder ?? "unknown"} in ${copy.state}`,
+        })
+      );
+    }
+  }
+
+  /**
+   * Find the uploads of jobs created before metadata recorded their name on disk
+   * (file.uploadedFilename): those were stored as "<8-character id>-<file.filename>"
+   */
+  async function listLegacyUploads(filenames: Set<string>): Promise<string[]> {
+    const dir = path.join(storageRoot, "uploads");
+    if (filenames.size === 0 || !(await fs.pathExists(dir))) {
+      return [];
+    }
+
+    return (await fs.readdir(dir)).filter(
+      (name) => LEGACY_UPLOAD_PREFIX.test(name) && filenames.has(name.slice(LEGACY_UPLOAD_PREFIX_LENGTH))
+    );
+  }
+
+  /**
+   * Find files in a flat directory that no job references
+   */
+  async function checkOrphans(
+    dirName: "uploads" | "artifacts",
+    referenced: Set<string>,
+    code: FsckIssueCode,
+    issues: FsckIssue[]
+  ): Promise<void> {
+    const dir = path.join(storageRoot, dirName);
+    if (!(await fs.pathExists(dir))) {
+      return;
+    }
+
+    const entries = await fs.readdir(dir, { withFileTypes: true });
+    for (const entry of entries) {
+      if (entry.isFile() && !referenced.has(entry.name)) {
+        const stats = await fs.stat(path.join(dir, entry.name));
+        if (Date.now() - stats.mtimeMs < orphanGraceMs) {
+          continue;
+        }
+
+        issues.push(
+          issue(code, {
+            path: path.join(dir, entry.name),
+            detail: `${dirName}/${entry.name} is not referenced by any job`,
+          })
+        );
+      }
+    }
+  }
+
+  /**
+   * Check the whole storage tree (read-only)
+   */
+  async function check(): Promise<FsckReport> {
+    const issues: FsckIssue[] = [];
+
+    // Unknown directories under jobs/
+    if (await fs.pathExists(jobsRoot)) {
+      for (const entry of await fs.readdir(jobsRoot, { withFileTypes: true })) {
+        if (entry.isDirectory() && !states.includes(entry.name)) {
+          issues.push(
+            issue(FSCK_ISSUES.UNKNOWN_STATE_DIR, {
+              path: path.join(jobsRoot, entry.name),
+              detail: `jobs/${entry.name} is not a job state`,
+            })
+          );
+        }
+      }
+    }
+
+    const copies = await scanJobCopies();
+    const byJob = new Map<string, JobCopy[]>();
+    for (const copy of copies) {
+      byJob.set(copy.jobId, [...(byJob.get(copy.jobId) ?? []), copy]);
+      await checkJobCopy(copy, issues);
+    }
+
+    // Same job in several state directories (interrupted move)
+    byJob.forEach((jobCopies, jobId) => {
+      if (jobCopies.length > 1) {
+        const keep = pickSurvivor(jobCopies);
+        for (const copy of jobCopies.filter((c) => c !== keep)) {
+          issues.push(
+            issue(FSCK_ISSUES.DUPLICATE_JOB, {
+              jobId,
+              state: copy.state,
+              path: copy.dir,
+              detail: `Also present in ${jobCopies.map((c) => c.state).join(", ")}; keeping ${keep.state}`,
+            })
+          );
+        }
+      }
+    });
+
+    // Files referenced by jobs
+    const uploads = new Set<string>();
+    const legacyUploads = new Set<string>();
+    const artifacts = new Set<string>();
+    byJob.forEach((jobCopies, jobId) => {
+      artifacts.add(`${jobId}-artifacts.zip`);
+      for (const copy of jobCopies) {
+        const file = copy.metadata?.file;
+        if (file?.uploadedFilename) {
+          uploads.add(file.uploadedFilename);
+        } else if (file?.filename) {
+          legacyUploads.add(file.filename);
+        }
+        const zipPath = copy.metadata?.packaging?.zipPath;
+        if (zipPath) {
+          artifacts.add(path.basename(zipPath));
+        }
+      }
+    });
+
+    for (const name of await listLegacyUploads(legacyUploads)) {
+      uploads.add(name);
+    }
+
+    await checkOrphans("uploads", uploads, FSCK_ISSUES.ORPHANED_UPLOAD, issues);
+    await checkOrphans("artifacts", artifacts, FSCK_ISSUES.ORPHANED_ARTIFACT, issues);
+
+    const report: FsckReport = {
+      checkedAt: new Date().toISOString(),
+      jobsChecked: byJob.size,
+      issues,
+    };
+
+    console.log(`[fsck] Checked ${report.jobsChecked} jobs, found ${issues.length} issues`);
+
+    return report;
+  }
+
+  /**
+   * Choose which copy of a duplicated job survives:
+   * readable metadata first, then highest revision, then latest update
+   */
+  function pickSurvivor(copies: JobCopy[]): JobCopy {
+    return [...copies].sort((a, b) => {
+      if (!!a.metadata !== !!b.metadata) {
+        return a.metadata ? -1 : 1;
+      }
+      const revisionDiff = (b.metadata?.revision ?? 0) - (a.metadata?.revision ?? 0);
+      if (revisionDiff !== 0) {
+        return revisionDiff;
+      }
+      return new Date(b.metadata?.updatedAt ?? 0).getTime() - new Date(a.metadata?.updatedAt ?? 0).getTime();
+    })[0];
+  }
+
+  /**
+   * Move a job folder out of jobs/ for manual inspection
+   */
+  async function quarantine(target: FsckIssue): Promise<string> {
+    const destination = path.join(lostAndFound, `${target.jobId}-${target.state}-${Date.now()}`);
+    await fs.ensureDir(lostAndFound);
+    await fs.move(target.path, destination, { overwrite: false });
+    return destination;
+  }
+
+  /**
+   * Record a repair in the job log, if the job still has a folder
+   */
+  async function logRepair(jobId: string | undefined, message: string): Promise<void> {
+    console.log(`[fsck] ${message}`);
+    if (!jobId) {
+      return;
+    }
+    try {
+      await filesystem.appendToJobLog(jobId, `[${Actor.SYSTEM}] fsck: ${message}`);
+    } catch {
+      // Job folder gone (e.g., quarantined); console log is the record
+    }
+  }
+
+  /**
+   * Read metadata for a metadata-level repair, refusing if another copy of the job would be touched
+   */
+  async function readRepairTarget(target: FsckIssue): Promise<JobMetadata> {
+    const located = await filesystem.getJobStateDir(target.jobId!);
+    if (located?.dir !== target.path) {
+      throw new Error(`Job ${target.jobId} has other copies; repair ${FSCK_ISSUES.DUPLICATE_JOB} first`);
+    }
+
+    const metadata = await filesystem.readMetadata(target.jobId!);
+    if (!metadata) {
+      throw new Error(`Job ${target.jobId} not found`);
+    }
+    return metadata;
+  }
+
+  /**
+   * Apply the repair for a single issue
+   */
+  async function repair(target: FsckIssue): Promise<FsckRepairResult> {
+    if (!target.repair) {
+      return { issue: target, success: false, error: `No repair available for ${target.code}` };
+    }
+
+    try {
+      if (!(await fs.pathExists(target.path))) {
+        return { issue: target, success: false, error: `${target.path} no longer exists` };
+      }
+
+      switch (target.code) {
+        case FSCK_ISSUES.MISSING_METADATA:
+        case FSCK_ISSUES.CORRUPT_METADATA:
+        case FSCK_ISSUES.DUPLICATE_JOB: {
+          const destination = await quarantine(target);
+          await logRepair(target.jobId, `${target.code}: moved ${target.state} copy to ${destination}`);
+          break;
+        }
+
+        case FSCK_ISSUES.STATE_MISMATCH: {
+          const metadata = await readRepairTarget(target);
+          await filesystem.updateMetadata(target.jobId!, metadata.revision, (current) => {
+            current.state = target.state!;
+          });
+          await logRepair(target.jobId, `${target.code}: metadata.state ${metadata.state} → ${target.state}`);
+          break;
+        }
+
+        case FSCK_ISSUES.STALE_LEASE: {
+          const metadata = await readRepairTarget(target);
+          await filesystem.updateMetadata(target.jobId!, metadata.revision, (current) => {
+            delete current.leaseHolder;
+            delete current.leaseExpiresAt;
+          });
+          await logRepair(target.jobId, `${target.code}: cleared lease held by ${metadata.leaseHolder ?? "unknown"}`);
+          break;
+        }
+
+        case FSCK_ISSUES.STALE_TEMP_FILE:
+        case FSCK_ISSUES.ORPHANED_UPLOAD:
+        case FSCK_ISSUES.ORPHANED_ARTIFACT: {
+          await fs.remove(target.path);
+          await logRepair(target.jobId, `${target.code}: deleted ${target.path}`);
+          break;
+        }
+      }
+
+      return { issue: target, success: true };
+    } catch (err) {
+      const error = err instanceof Error ? err.message : String(err);
+      console.error(`[fsck] Repair of ${target.code} at ${target.path} failed: ${error}`);
+      return { issue: target, success: false, error };
+    }
+  }
+
+  /**
+   * Apply repairs for every repairable issue in a report (optionally only some codes)
+   * Folder-level repairs run first so later repairs see the surviving copy
+   */
+  async function repairAll(report: FsckReport, options: { codes?: FsckIssueCode[] } = {}): Promise<FsckRepairResult[]> {
+    const folderRepairs: FsckIssueCode[] = [
+      FSCK_ISSUES.DUPLICATE_JOB,
+      FSCK_ISSUES.MISSING_METADATA,
+      FSCK_ISSUES.CORRUPT_METADATA,
+    ];
+
+    const selected = report.issues.filter(
+      (i) => i.repair && (!options.codes || options.codes.includes(i.code))
+    );
+    const ordered = [
+      ...selected.filter((i) => folderRepairs.includes(i.code)),
+      ...selected.filter((i) => !folderRepairs.includes(i.code)),
+    ];
+
+    const results: FsckRepairResult[] = [];
+    for (const target of ordered) {
+      // Issues on a copy that was just quarantined are moot
+      if (target.code !== FSCK_ISSUES.DUPLICATE_JOB && !(await fs.pathExists(target.path))) {
+        continue;
+      }
+      results.push(await repair(target));
+    }
+
+    return results;
+  }
+
+  return {
+    check,
+    repair,
+    repairAll,
+  };
+}
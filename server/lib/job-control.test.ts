@@ -0,0 +1,198 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import fs from "fs-extra";
+import path from "path";
+import { createFilesystem, JOB_PRIORITIES, JOB_STATES } from "./filesystem";
+import { Actor } from "./job-state";
+import { createMoveOperations } from "./job-moves";
+import { createLeaseOperations } from "./job-lease";
+import { createJobControl } from "./job-control";
+
+const TEST_STORAGE_ROOT = "/tmp/ego-studio-jobs-test-control";
+
+describe.sequential("Job Control", () => {
+  let filesystem: ReturnType<typeof createFilesystem>;
+  let moves: ReturnType<typeof createMoveOperations>;
+  let leases: ReturnType<typeof createLeaseOperations>;
+  let control: ReturnType<typeof createJobControl>;
+  let testDir: string;
+
+  beforeEach(async () => {
+    testDir = `${TEST_STORAGE_ROOT}-${Date.now()}-${Math.random()}`;
+    await fs.ensureDir(testDir);
+    filesystem = createFilesystem(testDir);
+    moves = createMoveOperations(filesystem, testDir);
+    leases = createLeaseOperations(filesystem);
+    control = createJobControl(filesystem, moves);
+    await filesystem.initializeStorage();
+  });
+
+  afterEach(async () => {
+    try {
+      if (testDir) {
+        await fs.remove(testDir);
+      }
+    } catch (e) {
+      // Ignore cleanup errors
+    }
+  });
+
+  async function createRunningJob(holder: string = "worker-a"): Promise<string> {
+    const { jobId } = await filesystem.createJobFolder("https://youtube.com/watch?v=test");
+    await moves.moveJob(jobId, JOB_STATES.NEW, JOB_STATES.CLAIMED, Actor.DOWNLOAD_WORKER, {
+      lease: { holder, durationMs: 60000 },
+    });
+    await moves.moveJob(jobId, JOB_STATES.CLAIMED, JOB_STATES.RUNNING, Actor.DOWNLOAD_WORKER);
+    return jobId;
+  }
+
+  describe("requestCancel", () => {
+    it("should cancel a NEW job immediately", async () => {
+      const { jobId } = await filesystem.createJobFolder("https://youtube.com/watch?v=test");
+
+      const result = await control.requestCancel(jobId);
+
+      expect(result.state).toBe(JOB_STATES.CANCELLED);
+      const metadata = await filesystem.readMetadata(jobId);
+      expect(metadata?.state).toBe(JOB_STATES.CANCELLED);
+      expect(metadata?.cancelRequestedAt).toBeDefined();
+    });
+
+    it("should leave a RUNNING job for its worker to stop", async () => {
+      const jobId = await createRunningJob();
+
+      const result = await control.requestCancel(jobId);
+
+      expect(result.state).toBe(JOB_STATES.RUNNING);
+      const metadata = await filesystem.readMetadata(jobId);
+      expect(metadata?.state).toBe(JOB_STATES.RUNNING);
+      expect(metadata?.cancelRequestedAt).toBeDefined();
+    });
+
+    it("should abort the heartbeat signal of a worker in this process", async () => {
+      const jobId = await createRunningJob(`worker-${Math.random()}`);
+      const metadata = await filesystem.readMetadata(jobId);
+      const heartbeat = leases.startHeartbeat(jobId, metadata!.leaseHolder!, { intervalMs: 60000 });
+
+      try {
+        await control.requestCancel(jobId);
+
+        expect(heartbeat.signal.aborted).toBe(true);
+        expect(heartbeat.isCancelled()).toBe(true);
+      } finally {
+        heartbeat.stop();
+      }
+    });
+
+    it("should let the heartbeat notice cancels from other processes", async () => {
+      const jobId = await createRunningJob();
+      const heartbeat = leases.startHeartbeat(jobId, "worker-a", { intervalMs: 20 });
+
+      try {
+        // Recorded directly, as another process would
+        await moves.updateLatestMetadata(jobId, (current) => {
+          current.cancelRequestedAt = new Date().toISOString();
+        });
+        await new Promise((resolve) => setTimeout(resolve, 100));
+
+        expect(heartbeat.isCancelled()).toBe(true);
+        expect(heartbeat.isLost()).toBe(false);
+      } finally {
+        heartbeat.stop();
+      }
+    });
+
+    it("should reject cancelling a terminal job", async () => {
+      const { jobId } = await filesystem.createJobFolder("https://youtube.com/watch?v=test");
+      await control.requestCancel(jobId);
+
+      await expect(control.requestCancel(jobId)).rejects.toThrow("Cannot cancel job in state CANCELLED");
+    });
+  });
+
+  describe("finishCancelled", () => {
+    it("should move a held job to CANCELLED and drop its lease", async () => {
+      const jobId = await createRunningJob();
+      await control.requestCancel(jobId);
+
+      const finished = await control.finishCancelled(jobId, Actor.DOWNLOAD_WORKER);
+
+      expect(finished).toBe(true);
+      const metadata = await filesystem.readMetadata(jobId);
+      expect(metadata?.state).toBe(JOB_STATES.CANCELLED);
+      expect(metadata?.leaseHolder).toBeUndefined();
+    });
+
+    it("should do nothing once the job left CLAIMED/RUNNING", async () => {
+      const { jobId } = await filesystem.createJobFolder("https://youtube.com/watch?v=test");
+
+      expect(await control.finishCancelled(jobId, Actor.DOWNLOAD_WORKER)).toBe(false);
+    });
+  });
+
+  describe("pause and resume", () => {
+    it("should keep a paused job out of pickup until resumed", async () => {
+      const { jobId } = await filesystem.createJobFolder("https://youtube.com/watch?v=test");
+
+      await control.pause(jobId);
+      expect(await control.checkPickup(jobId)).toBe("paused");
+      expect((await filesystem.readMetadata(jobId))?.state).toBe(JOB_STATES.NEW);
+
+      await control.resume(jobId);
+      expect(await control.checkPickup(jobId)).toBe("proceed");
+      expect((await filesystem.readMetadata(jobId))?.pausedAt).toBeUndefined();
+    });
+
+    it("should reject resuming a job that is not paused", async () => {
+      const { jobId } = await filesystem.createJobFolder("https://youtube.com/watch?v=test");
+
+      await expect(control.resume(jobId)).rejects.toThrow("is not paused");
+    });
+  });
+
+  describe("setPriority", () => {
+    it("should move a job to another lane and log it", async () => {
+      const { jobId } = await filesystem.createJobFolder("https://youtube.com/watch?v=test");
+
+      const result = await control.setPriority(jobId, JOB_PRIORITIES.HIGH);
+
+      expect(result.state).toBe(JOB_STATES.NEW);
+      expect((await filesystem.readMetadata(jobId))?.priority).toBe(JOB_PRIORITIES.HIGH);
+      expect((await filesystem.readJobLogs(jobId)).some((line) => line.includes("[ADMIN] Priority set to HIGH"))).toBe(true);
+    });
+
+    it("should reject reprioritizing a terminal job", async () => {
+      const { jobId } = await filesystem.createJobFolder("https://youtube.com/watch?v=test");
+      await control.requestCancel(jobId);
+
+      await expect(control.setPriority(jobId, JOB_PRIORITIES.LOW)).rejects.toThrow("Cannot reprioritize job in state CANCELLED");
+    });
+  });
+
+  describe("checkPickup", () => {
+    it("should finish a pending cancel on an idle job", async () => {
+      const { jobId } = await filesystem.createJobFolder("https://youtube.com/watch?v=test");
+      await moves.updateLatestMetadata(jobId, (current) => {
+        current.cancelRequestedAt = new Date().toISOString();
+      });
+
+      expect(await control.checkPickup(jobId)).toBe("skip");
+      expect((await filesystem.readMetadata(jobId))?.state).toBe(JOB_STATES.CANCELLED);
+    });
+  });
+
+  describe("reclaim", () => {
+    it("should cancel instead of requeueing a cancel-requested job with an expired lease", async () => {
+      const jobId = await createRunningJob("crashed-worker");
+      await control.requestCancel(jobId);
+
+      // Write directly to bypass writeMetadata
+      const stateDir = await filesystem.getJobStateDir(jobId);
+      const metadata = await filesystem.readMetadata(jobId);
+      metadata!.leaseExpiresAt = new Date(Date.now() - 1000).toISOString();
+      await fs.writeJSON(path.join(stateDir!.dir, "metadata.json"), metadata, { spaces: 2 });
+
+      expect(await moves.reclaimJob(jobId)).toBe(true);
+      expect((await filesystem.readMetadata(jobId))?.state).toBe(JOB_STATES.CANCELLED);
+    });
+  });
+});
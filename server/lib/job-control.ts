@@ -0,0 +1,230 @@
+/**
+ * Job Control
+ *
+ * Cancel, pause, resume and reprioritize jobs at any point in the pipeline.
+ *
+ * Invariants:
+ * - A cancel is first recorded in metadata (cancelRequestedAt), then honored
+ *   by whoever holds the job: the user directly when nobody does (SCHEDULED/NEW/DONE),
+ *   the worker when it holds a lease (CLAIMED/RUNNING)
+ * - Workers learn about cancels through their heartbeat, which aborts the
+ *   child process via its AbortSignal
+ * - A paused job stays where it is; workers refuse to pick it up until resumed
+ * - Terminal jobs (FAILED, COMPLETE, CANCELLED, ARCHIVED) cannot be cancelled or paused
+ *
+ * Uses dependency injection pattern:
+ * - Tests inject temporary filesystem
+ * - Production injects real filesystem
+ */
+
+import { JOB_STATES, JobPriority, JobState, FilesystemAPI } from "./filesystem";
+import { createMoveOperations } from "./job-moves";
+import { cancelLeasedJob } from "./job-lease";
+import { Actor, ActorName, isTerminalState } from "./job-state";
+
+/**
+ * How long a queue waits before offering a paused job again
+ */
+export const PAUSE_RECHECK_MS = parseInt(process.env.PAUSE_RECHECK_MS || "30000");
+
+/**
+ * States with no holder, where a cancel takes effect immediately
+ */
+const IDLE_STATES: JobState[] = [JOB_STATES.SCHEDULED, JOB_STATES.NEW, JOB_STATES.DONE];
+
+/**
+ * What a worker should do with a job it was handed
+ * - proceed: claim and process it
+ * - paused: put it back on the queue for later
+ * - skip: drop it (cancelled or otherwise finished)
+ */
+export type PickupDecision = "proceed" | "paused" | "skip";
+
+/**
+ * Result of a control operation
+ */
+export interface JobControlResult {
+  jobId: string;
+  state: JobState;
+  message: string;
+}
+
+/**
+ * Factory function to create job control operations
+ *
+ * @param filesystem - FilesystemAPI instance
+ * @param moves - Move operations for the same storage root
+ */
+export function createJobControl(filesystem: FilesystemAPI, moves: ReturnType<typeof createMoveOperations>) {
+  async function readControllable(jobId: string, action: string) {
+    const metadata = await filesystem.readMetadata(jobId);
+    if (!metadata) {
+      throw new Error(`Job ${jobId} not found`);
+    }
+    if (isTerminalState(metadata.state)) {
+      throw new Error(`Cannot ${action} job in state ${metadata.state}`);
+    }
+    return metadata;
+  }
+
+  /**
+   * Move an idle job (SCHEDULED, NEW or DONE) straight to CANCELLED
+   * Returns false if a worker claimed it in the meantime
+   */
+  async function cancelIdle(jobId: string, state: JobState, actor: ActorName): Promise<boolean> {
+    try {
+      await moves.moveJob(jobId, state, JOB_STATES.CANCELLED, actor);
+      return true;
+    } catch (error) {
+      const current = await filesystem.readMetadata(jobId);
+      if (current && current.state !== state) {
+        // Claimed while we were moving it; the worker's heartbeat sees the request
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Request cancellation of a job
+   * Idle jobs are cancelled immediately; held jobs are cancelled by their worker
+   */
+  async function requestCancel(jobId: string, reason: string = "User cancel"): Promise<JobControlResult> {
+    await readControllable(jobId, "cancel");
+
+    const metadata = await moves.updateLatestMetadata(jobId, (current) => {
+      current.cancelRequestedAt = current.cancelRequestedAt ?? new Date().toISOString();
+    });
+    if (!metadata) {
+      throw new Error(`Job ${jobId} not found`);
+    }
+
+    await filesystem.appendToJobLog(jobId, `[USER] Cancel requested: ${reason}`);
+
+    if (IDLE_STATES.includes(metadata.state) && (await cancelIdle(jobId, metadata.state, Actor.USER))) {
+      console.log(`[JobControl] Job ${jobId} cancelled from ${metadata.state}`);
+      return { jobId, state: JOB_STATES.CANCELLED, message: `Job ${jobId} has been cancelled` };
+    }
+
+    // Held by a worker: abort it now if it runs in this process, otherwise on its next heartbeat
+    const current = await filesystem.readMetadata(jobId);
+    if (current?.state === JOB_STATES.CANCELLED) {
+      return { jobId, state: JOB_STATES.CANCELLED, message: `Job ${jobId} has been cancelled` };
+    }
+    const aborted = cancelLeasedJob(jobId);
+    console.log(`[JobControl] Cancel requested for job ${jobId} in ${current?.state} (aborted locally: ${aborted})`);
+
+    return {
+      jobId,
+      state: current?.state ?? metadata.state,
+      message: `Cancel requested for job ${jobId}; the worker will stop it`,
+    };
+  }
+
+  /**
+   * Keep a job out of queue pickup until resumed
+   * A job already being processed finishes its current stage
+   */
+  async function pause(jobId: string): Promise<JobControlResult> {
+    await readControllable(jobId, "pause");
+
+    const metadata = await moves.updateLatestMetadata(jobId, (current) => {
+      current.pausedAt = current.pausedAt ?? new Date().toISOString();
+    });
+    if (!metadata) {
+      throw new Error(`Job ${jobId} not found`);
+    }
+
+    await filesystem.appendToJobLog(jobId, `[USER] Paused`);
+    console.log(`[JobControl] Paused job ${jobId} in ${metadata.state}`);
+
+    return { jobId, state: metadata.state, message: `Job ${jobId} has been paused` };
+  }
+
+  /**
+   * Let workers pick up a paused job again
+   */
+  async function resume(jobId: string): Promise<JobControlResult> {
+    const metadata = await readControllable(jobId, "resume");
+    if (!metadata.pausedAt) {
+      throw new Error(`Job ${jobId} is not paused`);
+    }
+
+    const updated = await moves.updateLatestMetadata(jobId, (current) => {
+      delete current.pausedAt;
+    });
+    if (!updated) {
+      throw new Error(`Job ${jobId} not found`);
+    }
+
+    await filesystem.appendToJobLog(jobId, `[USER] Resumed`);
+    console.log(`[JobControl] Resumed job ${jobId} in ${updated.state}`);
+
+    return { jobId, state: updated.state, message: `Job ${jobId} has been resumed` };
+  }
+
+  /**
+   * Move a job to another priority lane
+   * Fair-queued stages read it when the job joins their line (see queue.ts requeueWaitingJob for one already waiting)
+   */
+  async function setPriority(jobId: string, priority: JobPriority): Promise<JobControlResult> {
+    await readControllable(jobId, "reprioritize");
+
+    const metadata = await moves.updateLatestMetadata(jobId, (current) => {
+      current.priority = priority;
+    });
+    if (!metadata) {
+      throw new Error(`Job ${jobId} not found`);
+    }
+
+    await filesystem.appendToJobLog(jobId, `[ADMIN] Priority set to ${priority}`);
+    console.log(`[JobControl] Set priority of job ${jobId} to ${priority}`);
+
+    return { jobId, state: metadata.state, message: `Job ${jobId} now has ${priority} priority` };
+  }
+
+  /**
+   * Decide whether a worker may pick up a job
+   * Finishes pending cancels on idle jobs as a side effect
+   */
+  async function checkPickup(jobId: string): Promise<PickupDecision> {
+    const metadata = await filesystem.readMetadata(jobId);
+    if (!metadata || isTerminalState(metadata.state)) {
+      return "skip";
+    }
+
+    if (metadata.cancelRequestedAt) {
+      if (IDLE_STATES.includes(metadata.state)) {
+        await cancelIdle(jobId, metadata.state, Actor.SYSTEM);
+      }
+      return "skip";
+    }
+
+    return metadata.pausedAt ? "paused" : "proceed";
+  }
+
+  /**
+   * Move a job the calling worker holds to CANCELLED
+   * Returns false if the job is no longer in CLAIMED or RUNNING
+   */
+  async function finishCancelled(jobId: string, actor: ActorName): Promise<boolean> {
+    const metadata = await filesystem.readMetadata(jobId);
+    if (!metadata || (metadata.state !== JOB_STATES.CLAIMED && metadata.state !== JOB_STATES.RUNNING)) {
+      return false;
+    }
+
+    await moves.moveJob(jobId, metadata.state, JOB_STATES.CANCELLED, actor);
+    await filesystem.appendToJobLog(jobId, `[WORKER] Stopped ${metadata.stage ?? "job"} on cancel request`);
+    console.log(`[JobControl] Job ${jobId} cancelled by ${actor}`);
+    return true;
+  }
+
+  return {
+    requestCancel,
+    pause,
+    resume,
+    setPriority,
+    checkPickup,
+    finishCancelled,
+  };
+}
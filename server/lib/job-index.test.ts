@@ -0,0 +1,105 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import fs from "fs-extra";
+import path from "path";
+import { createFilesystem, JOB_STATES } from "./filesystem";
+import { createJobIndex } from "./job-index";
+import { Actor } from "./job-state";
+import { createMoveOperations } from "./job-moves";
+
+const TEST_STORAGE_ROOT = "/tmp/ego-studio-jobs-test-index";
+
+describe.sequential("Job Index", () => {
+  let filesystem: ReturnType<typeof createFilesystem>;
+  let testDir: string;
+
+  beforeEach(async () => {
+    testDir = `${TEST_STORAGE_ROOT}-${Date.now()}-${Math.random()}`;
+    await fs.ensureDir(testDir);
+    filesystem = createFilesystem(testDir);
+    await filesystem.initializeStorage();
+  });
+
+  afterEach(async () => {
+    try {
+      if (testDir) {
+        await fs.remove(testDir);
+      }
+    } catch (e) {
+      // Ignore cleanup errors
+    }
+  });
+
+  it("should rebuild from existing job folders", async () => {
+    const { jobId } = await filesystem.createJobFolder("https://youtube.com/watch?v=test");
+    await createMoveOperations(filesystem, testDir).moveJob(jobId, JOB_STATES.NEW, JOB_STATES.CLAIMED, Actor.SYSTEM);
+
+    const index = createJobIndex(testDir, Object.values(JOB_STATES));
+    expect(await index.rebuild()).toBe(1);
+
+    const located = await index.locate(jobId);
+    expect(located?.state).toBe(JOB_STATES.CLAIMED);
+    expect(located?.dir).toBe(path.join(testDir, "jobs", JOB_STATES.CLAIMED, jobId));
+  });
+
+  it("should follow moves made through move operations", async () => {
+    const { jobId } = await filesystem.createJobFolder("https://youtube.com/watch?v=test");
+    const moves = createMoveOperations(filesystem, testDir);
+
+    await moves.moveJob(jobId, JOB_STATES.NEW, JOB_STATES.CLAIMED, Actor.SYSTEM);
+    await moves.moveJob(jobId, JOB_STATES.CLAIMED, JOB_STATES.RUNNING, Actor.DOWNLOAD_WORKER);
+
+    expect((await filesystem.getJobStateDir(jobId))?.state).toBe(JOB_STATES.RUNNING);
+  });
+
+  it("should repair a stale entry when a job moved behind its back", async () => {
+    const { jobId } = await filesystem.createJobFolder("https://youtube.com/watch?v=test");
+    expect((await filesystem.getJobStateDir(jobId))?.state).toBe(JOB_STATES.NEW);
+
+    // Another process moves the folder without telling this index
+    await fs.move(
+      path.join(testDir, "jobs", JOB_STATES.NEW, jobId),
+      path.join(testDir, "jobs", JOB_STATES.CLAIMED, jobId)
+    );
+
+    expect((await filesystem.getJobStateDir(jobId))?.state).toBe(JOB_STATES.CLAIMED);
+    expect((await filesystem.readMetadata(jobId))?.id).toBe(jobId);
+  });
+
+  it("should find jobs created by another filesystem instance", async () => {
+    const other = createFilesystem(testDir);
+    await filesystem.rebuildIndex();
+
+    const { jobId } = await other.createJobFolder("https://youtube.com/watch?v=test");
+
+    expect((await filesystem.getJobStateDir(jobId))?.state).toBe(JOB_STATES.NEW);
+  });
+
+  it("should forget deleted jobs", async () => {
+    const { jobId } = await filesystem.createJobFolder("https://youtube.com/watch?v=test");
+    await filesystem.deleteJobFolder(jobId);
+
+    expect(await filesystem.getJobStateDir(jobId)).toBeNull();
+    expect(await filesystem.readMetadata(jobId)).toBeNull();
+  });
+
+  it("should invalidate entries on filesystem events when watching", async () => {
+    const index = createJobIndex(testDir, Object.values(JOB_STATES));
+    const { jobId } = await filesystem.createJobFolder("https://youtube.com/watch?v=test");
+    await index.rebuild();
+    expect(index.size()).toBe(1);
+
+    const stop = index.watch();
+    try {
+      await fs.move(
+        path.join(testDir, "jobs", JOB_STATES.NEW, jobId),
+        path.join(testDir, "jobs", JOB_STATES.CLAIMED, jobId)
+      );
+      await new Promise((resolve) => setTimeout(resolve, 100));
+
+      expect(index.size()).toBe(0);
+      expect((await index.locate(jobId))?.state).toBe(JOB_STATES.CLAIMED);
+    } finally {
+      stop();
+    }
+  });
+});
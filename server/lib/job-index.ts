@@ -0,0 +1,155 @@
+/**
+ * Job Index
+ *
+ * In-process map of jobId → state directory, so lookups do not probe
+ * every state directory for every job.
+ *
+ * Invariants:
+ * - The filesystem stays authoritative; the index is only a hint
+ * - Every hit is verified against the filesystem before it is trusted
+ * - A stale or missing entry falls back to probing and repairs itself
+ *
+ * Kept current by:
+ * - rebuild() on startup (or lazily on first lookup)
+ * - record() after every move made through this process
+ * - fs.watch on the state directories for moves made by other processes
+ */
+
+import fs from "fs-extra";
+import path from "path";
+import type { JobState } from "./filesystem";
+
+/**
+ * Factory function to create a job index
+ *
+ * @param storageRoot - Root directory for job storage
+ * @param states - State directories to index
+ */
+export function createJobIndex(storageRoot: string, states: readonly JobState[]) {
+  const entries = new Map<string, JobState>();
+  let building: Promise<number> | null = null;
+
+  /**
+   * Scan all state directories and replace the index contents
+   * Returns the number of jobs indexed
+   */
+  async function rebuild(): Promise<number> {
+    const scanned = new Map<string, JobState>();
+
+    for (const state of states) {
+      const stateDir = path.join(storageRoot, "jobs", state);
+      if (!(await fs.pathExists(stateDir))) {
+        continue;
+      }
+
+      const dirents = await fs.readdir(stateDir, { withFileTypes: true });
+      for (const dirent of dirents) {
+        if (dirent.isDirectory() && !scanned.has(dirent.name)) {
+          scanned.set(dirent.name, state);
+        }
+      }
+    }
+
+    entries.clear();
+    scanned.forEach((state, jobId) => entries.set(jobId, state));
+    building = Promise.resolve(entries.size);
+
+    return entries.size;
+  }
+
+  /**
+   * Build the index once, on first use
+   */
+  function ensureBuilt(): Promise<number> {
+    if (!building) {
+      building = rebuild().catch((error) => {
+        building = null;
+        throw error;
+      });
+    }
+    return building;
+  }
+
+  /**
+   * Locate a job, verifying the indexed state against the filesystem
+   */
+  async function locate(jobId: string): Promise<{ state: JobState; dir: string } | null> {
+    await ensureBuilt();
+
+    const indexed = entries.get(jobId);
+    if (indexed) {
+      const dir = path.join(storageRoot, "jobs", indexed, jobId);
+      if (await fs.pathExists(dir)) {
+        return { state: indexed, dir };
+      }
+      entries.delete(jobId);
+    }
+
+    // Not indexed or stale: probe and repair
+    for (const state of states) {
+      const dir = path.join(storageRoot, "jobs", state, jobId);
+      if (await fs.pathExists(dir)) {
+        entries.set(jobId, state);
+        return { state, dir };
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Record where a job now lives (after create or move)
+   */
+  function record(jobId: string, state: JobState): void {
+    entries.set(jobId, state);
+  }
+
+  /**
+   * Drop a job from the index (after delete)
+   */
+  function forget(jobId: string): void {
+    entries.delete(jobId);
+  }
+
+  /**
+   * Invalidate entries when other processes move jobs
+   * Returns a function that stops watching
+   */
+  function watch(): () => void {
+    const watchers: fs.FSWatcher[] = [];
+
+    for (const state of states) {
+      const stateDir = path.join(storageRoot, "jobs", state);
+      if (!fs.existsSync(stateDir)) {
+        continue;
+      }
+
+      try {
+        const watcher = fs.watch(stateDir, (_event, fileName) => {
+          // A job folder appeared or vanished here; the next lookup re-verifies it
+          if (fileName) {
+            entries.delete(fileName.toString());
+          }
+        });
+        watcher.on("error", (error) => {
+          console.error(`[JobIndex] Watcher for ${state} failed:`, error);
+        });
+        watcher.unref();
+        watchers.push(watcher);
+      } catch (error) {
+        console.error(`[JobIndex] Failed to watch ${stateDir}:`, error);
+      }
+    }
+
+    return () => watchers.forEach((watcher) => watcher.close());
+  }
+
+  return {
+    rebuild,
+    locate,
+    record,
+    forget,
+    watch,
+    size: () => entries.size,
+  };
+}
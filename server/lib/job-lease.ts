@@ -0,0 +1,219 @@
+/**
+ * Job Leases
+ *
+ * A worker holds a lease on every job it has CLAIMED or RUNNING.
+ * The lease is taken together with the claim (see MoveOptions.lease),
+ * renewed by a heartbeat while the work runs, and dropped when the job
+ * leaves CLAIMED/RUNNING. Jobs whose lease lapses are reclaimed by the
+ * lease sweeper.
+ *
+ * Invariants:
+ * - Only the lease holder can renew a lease
+ * - Leases exist only in CLAIMED and RUNNING
+ * - A lost lease is never re-acquired silently; the heartbeat stops
+ * - The heartbeat also carries cancellation: its signal aborts when the
+ *   lease is lost or a cancel is requested (see job-control.ts)
+ * - A lease handed back while the work runs (drain, see drain.ts) aborts the
+ *   work too; the job is already back in NEW or DONE, so the worker leaves it alone
+ *
+ * Uses dependency injection pattern:
+ * - Tests inject temporary filesystem
+ * - Production injects real filesystem
+ */
+
+import os from "os";
+import { JOB_STATES, FilesystemAPI, StaleMetadataError } from "./filesystem";
+
+/**
+ * Lease duration (how long a job stays claimed without a heartbeat)
+ */
+export const LEASE_DURATION_MS = parseInt(process.env.LEASE_DURATION_MS || "60000");
+
+/**
+ * Heartbeat interval (renew well before the lease lapses)
+ */
+export const LEASE_HEARTBEAT_MS = parseInt(process.env.LEASE_HEARTBEAT_MS || "15000");
+
+/**
+ * Identity of this worker process as recorded in leaseHolder
+ */
+export const WORKER_ID = process.env.WORKER_ID || `${os.hostname()}:${process.pid}`;
+
+/**
+ * Attempts at renewing before a heartbeat tick gives up (lease is kept; next tick retries)
+ */
+const MAX_RENEW_ATTEMPTS = 3;
+
+/**
+ * Running heartbeat handle
+ */
+export interface LeaseHeartbeat {
+  stop(): void;
+  isLost(): boolean;
+  isCancelled(): boolean;
+  // The lease was handed back (see releaseLeasedJob); the job is no longer this worker's
+  isReleased(): boolean;
+  // Aborted when the worker must stop (lease lost or released, or cancel requested); pass to execFile
+  signal: AbortSignal;
+}
+
+/**
+ * Heartbeats running in this process, by job ID
+ * Lets a cancel request abort work immediately instead of on the next tick
+ */
+const activeHeartbeats = new Map<string, { cancel: () => void; release: () => void }>();
+
+/**
+ * Abort the work on a job held by this process
+ * Returns false if no worker in this process holds the job
+ */
+export function cancelLeasedJob(jobId: string): boolean {
+  const heartbeat = activeHeartbeats.get(jobId);
+  if (!heartbeat) {
+    return false;
+  }
+  heartbeat.cancel();
+  return true;
+}
+
+/**
+ * Abort the work on a job held by this process whose lease was handed back (see releaseJob in job-moves.ts)
+ * Returns false if no worker in this process holds the job
+ */
+export function releaseLeasedJob(jobId: string): boolean {
+  const heartbeat = activeHeartbeats.get(jobId);
+  if (!heartbeat) {
+    return false;
+  }
+  heartbeat.release();
+  return true;
+}
+
+/**
+ * List the jobs workers in this process hold a lease on
+ */
+export function listLeasedJobs(): string[] {
+  return Array.from(activeHeartbeats.keys());
+}
+
+/**
+ * Factory function to create lease operations
+ *
+ * @param filesystem - FilesystemAPI instance
+ * @returns Object with lease operations
+ */
+export function createLeaseOperations(filesystem: FilesystemAPI) {
+  /**
+   * Extend the lease on a job
+   * Returns false if the job is no longer held by this holder
+   */
+  async function renewLease(jobId: string, holder: string, durationMs: number = LEASE_DURATION_MS): Promise<boolean> {
+    // A concurrent metadata write is not a lost lease; re-read and try again
+    for (let attempt = 1; ; attempt++) {
+      const metadata = await filesystem.readMetadata(jobId);
+      if (!metadata) {
+        return false;
+      }
+
+      if (metadata.state !== JOB_STATES.CLAIMED && metadata.state !== JOB_STATES.RUNNING) {
+        return false;
+      }
+
+      if (metadata.leaseHolder !== holder) {
+        return false;
+      }
+
+      try {
+        await filesystem.updateMetadata(jobId, metadata.revision, (current) => {
+          current.leaseExpiresAt = new Date(Date.now() + durationMs).toISOString();
+        });
+        return true;
+      } catch (error) {
+        if (!(error instanceof StaleMetadataError) || attempt >= MAX_RENEW_ATTEMPTS) {
+          throw error;
+        }
+      }
+    }
+  }
+
+  /**
+   * Renew a lease periodically until stopped
+   * Stops by itself once the lease is lost (job reclaimed or moved on)
+   * Checks for cancel requests from other processes on every tick
+   */
+  function startHeartbeat(
+    jobId: string,
+    holder: string,
+    options: { durationMs?: number; intervalMs?: number } = {}
+  ): LeaseHeartbeat {
+    const durationMs = options.durationMs ?? LEASE_DURATION_MS;
+    const intervalMs = options.intervalMs ?? LEASE_HEARTBEAT_MS;
+    const controller = new AbortController();
+    let lost = false;
+    let cancelled = false;
+    let released = false;
+
+    const cancel = () => {
+      if (!cancelled) {
+        cancelled = true;
+        console.log(`[lease] Cancel requested for job ${jobId}, aborting work`);
+        controller.abort();
+      }
+    };
+
+    const stop = () => {
+      clearInterval(timer);
+      if (activeHeartbeats.get(jobId) === handle) {
+        activeHeartbeats.delete(jobId);
+      }
+    };
+
+    const release = () => {
+      if (!released) {
+        released = true;
+        stop();
+        console.log(`[lease] Released lease on job ${jobId}, aborting work`);
+        controller.abort();
+      }
+    };
+
+    const handle = { cancel, release };
+
+    const timer = setInterval(async () => {
+      try {
+        const renewed = await renewLease(jobId, holder, durationMs);
+        if (!renewed) {
+          lost = true;
+          stop();
+          controller.abort();
+          console.warn(`[lease] Lost lease on job ${jobId} (holder: ${holder})`);
+          return;
+        }
+
+        const metadata = await filesystem.readMetadata(jobId);
+        if (metadata?.cancelRequestedAt) {
+          cancel();
+        }
+      } catch (err) {
+        console.error(`[lease] Heartbeat failed for job ${jobId}:`, err);
+      }
+    }, intervalMs);
+
+    // Never keep the process alive just for a heartbeat
+    timer.unref();
+    activeHeartbeats.set(jobId, handle);
+
+    return {
+      stop,
+      isLost: () => lost,
+      isCancelled: () => cancelled,
+      isReleased: () => released,
+      signal: controller.signal,
+    };
+  }
+
+  return {
+    renewLease,
+    startHeartbeat,
+  };
+}
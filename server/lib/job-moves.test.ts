@@ -1,7 +1,7 @@
-import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
 import fs from "fs-extra";
 import path from "path";
-import { createFilesystem, JOB_STATES } from "./filesystem";
+import { createFilesystem, JOB_STATES, JOB_EVENT_TYPES, PIPELINE_STAGES } from "./filesystem";
 import { Actor } from "./job-state";
 import { createMoveOperations } from "./job-moves";
 
@@ -134,6 +134,138 @@ describe.sequential("Atomic State Transitions", () => {
     });
   });
 
+  describe("pipeline stages", () => {
+    async function runStage(jobId: string, actor: Actor, stage?: (typeof PIPELINE_STAGES)[keyof typeof PIPELINE_STAGES]) {
+      const from = stage ? JOB_STATES.DONE : JOB_STATES.NEW;
+      await moves.moveJob(jobId, from, JOB_STATES.CLAIMED, actor, { stage });
+      await moves.moveJob(jobId, JOB_STATES.CLAIMED, JOB_STATES.RUNNING, actor);
+    }
+
+    it("should start new jobs in DOWNLOAD stage", async () => {
+      const { jobId } = await filesystem.createJobFolder("https://youtube.com/watch?v=test");
+
+      const metadata = await filesystem.readMetadata(jobId);
+      expect(metadata?.stage).toBe(PIPELINE_STAGES.DOWNLOAD);
+    });
+
+    it("should advance stage when next worker claims the job", async () => {
+      const { jobId } = await filesystem.createJobFolder("https://youtube.com/watch?v=test");
+      await runStage(jobId, Actor.DOWNLOAD_WORKER);
+      await moves.moveJob(jobId, JOB_STATES.RUNNING, JOB_STATES.DONE, Actor.DOWNLOAD_WORKER);
+
+      await moves.moveJob(jobId, JOB_STATES.DONE, JOB_STATES.CLAIMED, Actor.DEMUCS_WORKER, {
+        stage: PIPELINE_STAGES.SEPARATION,
+      });
+
+      const metadata = await filesystem.readMetadata(jobId);
+      expect(metadata?.state).toBe(JOB_STATES.CLAIMED);
+      expect(metadata?.stage).toBe(PIPELINE_STAGES.SEPARATION);
+    });
+
+    it("should reject skipping a stage", async () => {
+      const { jobId } = await filesystem.createJobFolder("https://youtube.com/watch?v=test");
+      await runStage(jobId, Actor.DOWNLOAD_WORKER);
+      await moves.moveJob(jobId, JOB_STATES.RUNNING, JOB_STATES.DONE, Actor.DOWNLOAD_WORKER);
+
+      await expect(
+        moves.moveJob(jobId, JOB_STATES.DONE, JOB_STATES.CLAIMED, Actor.AUDACITY_WORKER, {
+          stage: PIPELINE_STAGES.AUDACITY,
+        })
+      ).rejects.toThrow("Invalid stage transition");
+
+      // Job stays where it was
+      const stateDir = await filesystem.getJobStateDir(jobId);
+      expect(stateDir?.state).toBe(JOB_STATES.DONE);
+    });
+
+    it("should reject COMPLETE before the final stage", async () => {
+      const { jobId } = await filesystem.createJobFolder("https://youtube.com/watch?v=test");
+      await runStage(jobId, Actor.DOWNLOAD_WORKER);
+
+      await expect(
+        moves.moveJob(jobId, JOB_STATES.RUNNING, JOB_STATES.COMPLETE, Actor.PACKAGING_WORKER)
+      ).rejects.toThrow("cannot complete");
+    });
+
+    it("should land in COMPLETE only after the final stage", async () => {
+      const { jobId } = await filesystem.createJobFolder("https://youtube.com/watch?v=test");
+      await runStage(jobId, Actor.DOWNLOAD_WORKER);
+      await moves.moveJob(jobId, JOB_STATES.RUNNING, JOB_STATES.DONE, Actor.DOWNLOAD_WORKER);
+      await runStage(jobId, Actor.DEMUCS_WORKER, PIPELINE_STAGES.SEPARATION);
+      await moves.moveJob(jobId, JOB_STATES.RUNNING, JOB_STATES.DONE, Actor.DEMUCS_WORKER);
+      await runStage(jobId, Actor.WAVEFORM_WORKER, PIPELINE_STAGES.WAVEFORM);
+      await moves.moveJob(jobId, JOB_STATES.RUNNING, JOB_STATES.DONE, Actor.WAVEFORM_WORKER);
+      await runStage(jobId, Actor.LYRICS_WORKER, PIPELINE_STAGES.LYRICS);
+      await moves.moveJob(jobId, JOB_STATES.RUNNING, JOB_STATES.DONE, Actor.LYRICS_WORKER);
+      await runStage(jobId, Actor.AUDACITY_WORKER, PIPELINE_STAGES.AUDACITY);
+      await moves.moveJob(jobId, JOB_STATES.RUNNING, JOB_STATES.DONE, Actor.AUDACITY_WORKER);
+      await runStage(jobId, Actor.PACKAGING_WORKER, PIPELINE_STAGES.PACKAGING);
+
+      await moves.moveJob(jobId, JOB_STATES.RUNNING, JOB_STATES.COMPLETE, Actor.PACKAGING_WORKER);
+
+      const metadata = await filesystem.readMetadata(jobId);
+      expect(metadata?.state).toBe(JOB_STATES.COMPLETE);
+      expect(metadata?.stage).toBe(PIPELINE_STAGES.PACKAGING);
+    });
+  });
+
+  describe("transition events", () => {
+    it("should record each transition with actor and time spent in the previous state", async () => {
+      const { jobId } = await filesystem.createJobFolder("https://youtube.com/watch?v=test");
+      await moves.moveJob(jobId, JOB_STATES.NEW, JOB_STATES.CLAIMED, Actor.DOWNLOAD_WORKER);
+      await new Promise((resolve) => setTimeout(resolve, 20));
+      await moves.moveJob(jobId, JOB_STATES.CLAIMED, JOB_STATES.RUNNING, Actor.DOWNLOAD_WORKER);
+
+      const transitions = await filesystem.readJobEvents(jobId, { types: [JOB_EVENT_TYPES.TRANSITION] });
+      expect(transitions.map((e) => e.payload)).toEqual([
+        { from: JOB_STATES.NEW, to: JOB_STATES.CLAIMED },
+        { from: JOB_STATES.CLAIMED, to: JOB_STATES.RUNNING },
+      ]);
+      expect(transitions[1].actor).toBe(Actor.DOWNLOAD_WORKER);
+      expect(transitions[1].stage).toBe(PIPELINE_STAGES.DOWNLOAD);
+      expect(transitions[1].durationMs).toBeGreaterThanOrEqual(15);
+    });
+
+    it("should time the previous state from metadata, not the event log", async () => {
+      const { jobId } = await filesystem.createJobFolder("https://youtube.com/watch?v=test");
+      await moves.moveJob(jobId, JOB_STATES.NEW, JOB_STATES.CLAIMED, Actor.DOWNLOAD_WORKER);
+      const claimed = await filesystem.readMetadata(jobId);
+      expect(claimed?.stateEnteredAt).toBeDefined();
+
+      // Spy on event reads: the transition must not scan events.jsonl
+      const readJobEvents = vi.spyOn(filesystem, "readJobEvents");
+      await new Promise((resolve) => setTimeout(resolve, 20));
+      await moves.moveJob(jobId, JOB_STATES.CLAIMED, JOB_STATES.RUNNING, Actor.DOWNLOAD_WORKER);
+      expect(readJobEvents).not.toHaveBeenCalled();
+      readJobEvents.mockRestore();
+
+      const transitions = await filesystem.readJobEvents(jobId, { types: [JOB_EVENT_TYPES.TRANSITION] });
+      expect(transitions[1].durationMs).toBeGreaterThanOrEqual(15);
+      expect((await filesystem.readMetadata(jobId))?.stateEnteredAt).not.toBe(claimed?.stateEnteredAt);
+    });
+
+    it("should mark the start of stage work on entering RUNNING", async () => {
+      const { jobId } = await filesystem.createJobFolder("https://youtube.com/watch?v=test");
+      await moves.moveJob(jobId, JOB_STATES.NEW, JOB_STATES.CLAIMED, Actor.DOWNLOAD_WORKER);
+      await moves.moveJob(jobId, JOB_STATES.CLAIMED, JOB_STATES.RUNNING, Actor.DOWNLOAD_WORKER);
+      await moves.moveJob(jobId, JOB_STATES.RUNNING, JOB_STATES.DONE, Actor.DOWNLOAD_WORKER);
+      await moves.moveJob(jobId, JOB_STATES.DONE, JOB_STATES.CLAIMED, Actor.DEMUCS_WORKER, {
+        stage: PIPELINE_STAGES.SEPARATION,
+      });
+      await moves.moveJob(jobId, JOB_STATES.CLAIMED, JOB_STATES.RUNNING, Actor.DEMUCS_WORKER);
+
+      const started = await filesystem.readJobEvents(jobId, { types: [JOB_EVENT_TYPES.STAGE_STARTED] });
+      expect(started.map((e) => e.stage)).toEqual([PIPELINE_STAGES.DOWNLOAD, PIPELINE_STAGES.SEPARATION]);
+
+      const transitions = await filesystem.readJobEvents(jobId, { types: [JOB_EVENT_TYPES.TRANSITION] });
+      expect(transitions[3].payload).toEqual({
+        from: JOB_STATES.DONE,
+        to: JOB_STATES.CLAIMED,
+        fromStage: PIPELINE_STAGES.DOWNLOAD,
+      });
+    });
+  });
+
   describe("moveJobIdempotent", () => {
     it("should succeed if already in target state", async () => {
       const { jobId } = await filesystem.createJobFolder("https://youtube.com/watch?v=test");
@@ -233,4 +365,34 @@ describe.sequential("Atomic State Transitions", () => {
       expect(stateDir?.state).toBe(JOB_STATES.DONE);
     });
   });
+
+  describe("releaseJob", () => {
+    const lease = { holder: "worker-a", durationMs: 60000 };
+
+    it("should hand a job back to NEW before its lease lapses", async () => {
+      const { jobId } = await filesystem.createJobFolder("https://youtube.com/watch?v=test");
+      await moves.moveJob(jobId, JOB_STATES.NEW, JOB_STATES.CLAIMED, Actor.DOWNLOAD_WORKER, { lease });
+      await moves.moveJob(jobId, JOB_STATES.CLAIMED, JOB_STATES.RUNNING, Actor.DOWNLOAD_WORKER);
+
+      expect(await moves.releaseJob(jobId, "worker-b")).toBe(false);
+      expect(await moves.releaseJob(jobId, "worker-a")).toBe(true);
+
+      const metadata = await filesystem.readMetadata(jobId);
+      expect(metadata?.state).toBe(JOB_STATES.NEW);
+      expect(metadata?.leaseHolder).toBeUndefined();
+      const logs = await filesystem.readJobLogs(jobId);
+      expect(logs.some((line) => line.includes("Released from RUNNING by worker-a"))).toBe(true);
+    });
+
+    it("should cancel a released job with a pending cancel request", async () => {
+      const { jobId } = await filesystem.createJobFolder("https://youtube.com/watch?v=test");
+      await moves.moveJob(jobId, JOB_STATES.NEW, JOB_STATES.CLAIMED, Actor.DOWNLOAD_WORKER, { lease });
+      await moves.updateLatestMetadata(jobId, (current) => {
+        current.cancelRequestedAt = new Date().toISOString();
+      });
+
+      expect(await moves.releaseJob(jobId, "worker-a")).toBe(true);
+      expect((await filesystem.getJobStateDir(jobId))?.state).toBe(JOB_STATES.CANCELLED);
+    });
+  });
 });
@@ -16,8 +16,44 @@
 
 import fs from "fs-extra";
 import path from "path";
-import { JOB_STATES, JobState, FilesystemAPI } from "./filesystem";
-import { validateTransition, Actor } from "./job-state";
+import {
+  JOB_STATES,
+  JOB_EVENT_TYPES,
+  JobState,
+  JobMetadata,
+  PipelineStage,
+  FilesystemAPI,
+  MetadataMutator,
+  StaleMetadataError,
+} from "./filesystem";
+import { validateTransition, validateStageTransition, validateCompletion, Actor, ActorName } from "./job-state";
+import {
+  validatePipelineStage,
+  validatePipelineCompletion,
+  recordStageCompleted,
+  getJobPipeline,
+  topologicalOrder,
+} from "./pipeline";
+
+/**
+ * Options for a state transition
+ */
+export interface MoveOptions {
+  // Pipeline stage the job enters with this transition (e.g., SEPARATION when Demucs claims it)
+  stage?: PipelineStage;
+  // Lease taken with this transition (claims must carry one, or the sweeper reclaims the job)
+  lease?: { holder: string; durationMs: number };
+}
+
+/**
+ * States in which a job is held under a lease
+ */
+const LEASED_STATES: JobState[] = [JOB_STATES.CLAIMED, JOB_STATES.RUNNING];
+
+/**
+ * Attempts at recording a transition in metadata before giving up
+ */
+const MAX_METADATA_ATTEMPTS = 5;
 
 /**
  * Factory function to create atomic move operations
@@ -27,16 +63,68 @@ import { validateTransition, Actor } from "./job-state";
  * @returns Object with move operations
  */
 export function createMoveOperations(filesystem: FilesystemAPI, storageRoot: string) {
+  /**
+   * Apply a mutator to the latest metadata, re-reading on stale writes
+   * The directory has already moved, so the metadata write must land
+   */
+  async function updateLatestMetadata(jobId: string, mutator: MetadataMutator): Promise<JobMetadata | null> {
+    for (let attempt = 1; ; attempt++) {
+      const metadata = await filesystem.readMetadata(jobId);
+      if (!metadata) {
+        return null;
+      }
+
+      try {
+        return await filesystem.updateMetadata(jobId, metadata.revision, mutator);
+      } catch (error) {
+        if (!(error instanceof StaleMetadataError) || attempt >= MAX_METADATA_ATTEMPTS) {
+          throw error;
+        }
+      }
+    }
+  }
+
   /**
    * Move a job from one state to another (atomic)
    */
-  async function moveJob(jobId: string, fromState: JobState, toState: JobState, actor: Actor): Promise<void> {
+  async function moveJob(
+    jobId: string,
+    fromState: JobState,
+    toState: JobState,
+    actor: ActorName,
+    options: MoveOptions = {}
+  ): Promise<void> {
     // Validate transition
     const validation = validateTransition(fromState, toState, actor);
     if (!validation.valid) {
       throw new Error(`Invalid transition: ${validation.reason}`);
     }
 
+    // Validate stage rules against the current metadata (the job's pipeline if it has one)
+    if (options.stage || toState === JOB_STATES.COMPLETE) {
+      const current = await filesystem.readMetadata(jobId);
+      const currentStage = current?.stage;
+
+      if (options.stage && options.stage !== currentStage) {
+        const stageValidation = current?.pipeline
+          ? validatePipelineStage(current, options.stage, actor)
+          : validateStageTransition(currentStage, options.stage, actor);
+        if (!stageValidation.valid) {
+          throw new Error(`Invalid transition: ${stageValidation.reason}`);
+        }
+      }
+
+      if (toState === JOB_STATES.COMPLETE) {
+        let completion = validateCompletion(options.stage ?? currentStage);
+        if (completion.valid && current?.pipeline) {
+          completion = validatePipelineCompletion(current);
+        }
+        if (!completion.valid) {
+          throw new Error(`Invalid transition: ${completion.reason}`);
+        }
+      }
+    }
+
     // Get current job directory
     const fromDir = path.join(storageRoot, "jobs", fromState, jobId);
     const toDir = path.join(storageRoot, "jobs", toState, jobId);
@@ -64,14 +152,54 @@ export function createMoveOperations(filesystem: FilesystemAPI, storageRoot: str
       throw new Error(`Failed to move job ${jobId} from ${fromState} to ${toState}: ${error}`);
     }
 
+    filesystem.recordJobState(jobId, toState);
+
     // Update metadata
-    const metadata = await filesystem.readMetadata(jobId);
-    if (metadata) {
+    let fromStage: PipelineStage | undefined;
+    let enteredAt: string | undefined;
+    const metadata = await updateLatestMetadata(jobId, (metadata) => {
+      fromStage = metadata.stage;
+      enteredAt = metadata.stateEnteredAt;
       metadata.state = toState;
-      await filesystem.writeMetadata(jobId, metadata);
+      metadata.stateEnteredAt = new Date().toISOString();
+      if (options.stage) {
+        metadata.stage = options.stage;
+      }
+      if (fromState === JOB_STATES.RUNNING && (toState === JOB_STATES.DONE || toState === JOB_STATES.COMPLETE)) {
+        recordStageCompleted(metadata);
+      }
+      if (options.lease) {
+        metadata.leaseHolder = options.lease.holder;
+        metadata.leaseExpiresAt = new Date(Date.now() + options.lease.durationMs).toISOString();
+      } else if (!LEASED_STATES.includes(toState)) {
+        // Lease ends when the job leaves CLAIMED/RUNNING
+        delete metadata.leaseHolder;
+        delete metadata.leaseExpiresAt;
+      }
+    });
 
+    if (metadata) {
       // Log transition
-      await filesystem.appendToJobLog(jobId, `Transitioned to ${toState} by ${actor}`);
+      const stageSuffix = metadata.stage ? ` (stage: ${metadata.stage})` : "";
+      await filesystem.appendToJobLog(jobId, `Transitioned to ${toState} by ${actor}${stageSuffix}`);
+
+      // Time spent in fromState; jobs last moved before stateEnteredAt existed fall back to their events
+      if (!enteredAt) {
+        const transitions = await filesystem.readJobEvents(jobId, { types: [JOB_EVENT_TYPES.TRANSITION] });
+        enteredAt = transitions.length > 0 ? transitions[transitions.length - 1].timestamp : metadata.createdAt;
+      }
+
+      await filesystem.appendJobEvent(jobId, {
+        type: JOB_EVENT_TYPES.TRANSITION,
+        actor,
+        stage: metadata.stage,
+        durationMs: Date.now() - new Date(enteredAt).getTime(),
+        payload: { from: fromState, to: toState, ...(fromStage !== metadata.stage ? { fromStage } : {}) },
+      });
+
+      if (toState === JOB_STATES.RUNNING) {
+        await filesystem.appendJobEvent(jobId, { type: JOB_EVENT_TYPES.STAGE_STARTED, actor, stage: metadata.stage });
+      }
     }
   }
 
@@ -79,7 +207,13 @@ export function createMoveOperations(filesystem: FilesystemAPI, storageRoot: str
    * Attempt to move a job, with idempotency
    * Returns true if move succeeded or was already in target state
    */
-  async function moveJobIdempotent(jobId: string, fromState: JobState, toState: JobState, actor: Actor): Promise<boolean> {
+  async function moveJobIdempotent(
+    jobId: string,
+    fromState: JobState,
+    toState: JobState,
+    actor: ActorName,
+    options: MoveOptions = {}
+  ): Promise<boolean> {
     // Check if already in target state
     const metadata = await filesystem.readMetadata(jobId);
     if (!metadata) {
@@ -97,40 +231,106 @@ export function createMoveOperations(filesystem: FilesystemAPI, storageRoot: str
     }
 
     // Perform move
-    await moveJob(jobId, fromState, toState, actor);
+    await moveJob(jobId, fromState, toState, actor, options);
     return true;
   }
 
   /**
-   * Reclaim a job from CLAIMED or RUNNING back to NEW (for lease expiry)
+   * Move a held job to where its stage can be claimed again
+   * NEW if no stage completed yet; otherwise DONE with the stage rewound to the
+   * last completed one, since only the first stage is claimed from NEW
    */
-  async function reclaimJob(jobId: string): Promise<void> {
+  async function handBack(jobId: string, metadata: JobMetadata): Promise<JobState> {
+    const pipeline = getJobPipeline(metadata);
+    const completed = (topologicalOrder(pipeline.stages) ?? []).filter((stage) => pipeline.completed.includes(stage));
+    const previousStage = completed[completed.length - 1];
+
+    if (!previousStage) {
+      await moveJob(jobId, metadata.state, JOB_STATES.NEW, Actor.SYSTEM);
+      return JOB_STATES.NEW;
+    }
+
+    // The job looks as it did when the previous stage finished
+    await updateLatestMetadata(jobId, (current) => {
+      current.stage = previousStage;
+    });
+    await moveJob(jobId, metadata.state, JOB_STATES.DONE, Actor.SYSTEM);
+    return JOB_STATES.DONE;
+  }
+
+  /**
+   * Reclaim a job from CLAIMED or RUNNING (for lease expiry), back to NEW or,
+   * past its first stage, to DONE (see handBack)
+   * A job with a pending cancel request goes to CANCELLED instead
+   * Returns true if the job was reclaimed
+   */
+  async function reclaimJob(jobId: string): Promise<boolean> {
     const metadata = await filesystem.readMetadata(jobId);
     if (!metadata) {
       throw new Error(`Job ${jobId} not found`);
     }
 
-    if (metadata.state === JOB_STATES.NEW || metadata.state === JOB_STATES.DONE || metadata.state === JOB_STATES.FAILED) {
+    if (!LEASED_STATES.includes(metadata.state)) {
       // No reclaim needed
-      return;
+      return false;
     }
 
-    if (metadata.state === JOB_STATES.CLAIMED || metadata.state === JOB_STATES.RUNNING) {
-      // Check if lease expired
-      if (metadata.leaseExpiresAt && new Date(metadata.leaseExpiresAt) > new Date()) {
-        // Lease still valid
-        return;
-      }
+    // Check if lease expired
+    if (metadata.leaseExpiresAt && new Date(metadata.leaseExpiresAt) > new Date()) {
+      // Lease still valid
+      return false;
+    }
 
-      // Lease expired or missing, reclaim
-      await moveJob(jobId, metadata.state, JOB_STATES.NEW, Actor.SYSTEM);
-      await filesystem.appendToJobLog(jobId, `Reclaimed from ${metadata.state} (lease expired)`);
+    const holder = metadata.leaseHolder ? ` held by ${metadata.leaseHolder}` : "";
+
+    // The user asked to cancel; do not hand the job to another worker
+    if (metadata.cancelRequestedAt) {
+      await moveJob(jobId, metadata.state, JOB_STATES.CANCELLED, Actor.SYSTEM);
+      await filesystem.appendToJobLog(jobId, `Cancelled from ${metadata.state} (lease${holder} expired)`);
+      return true;
     }
+
+    // Lease expired or missing, reclaim
+    const toState = await handBack(jobId, metadata);
+    await filesystem.appendToJobLog(jobId, `Reclaimed from ${metadata.state} to ${toState} (lease${holder} expired)`);
+    return true;
+  }
+
+  /**
+   * Hand a job back from CLAIMED or RUNNING before its lease lapses (worker shutting down),
+   * to NEW or, past its first stage, to DONE (see handBack)
+   * A job with a pending cancel request goes to CANCELLED instead
+   * Returns false if the job is not leased by holder
+   */
+  async function releaseJob(jobId: string, holder: string): Promise<boolean> {
+    const metadata = await filesystem.readMetadata(jobId);
+    if (!metadata) {
+      throw new Error(`Job ${jobId} not found`);
+    }
+
+    if (!LEASED_STATES.includes(metadata.state) || metadata.leaseHolder !== holder) {
+      return false;
+    }
+
+    if (metadata.cancelRequestedAt) {
+      await moveJob(jobId, metadata.state, JOB_STATES.CANCELLED, Actor.SYSTEM);
+      await filesystem.appendToJobLog(jobId, `Cancelled from ${metadata.state} (released by ${holder})`);
+      return true;
+    }
+
+    const toState = await handBack(jobId, metadata);
+    await filesystem.appendToJobLog(
+      jobId,
+      `Released from ${metadata.state} by ${holder} to ${toState} (worker shutting down)`
+    );
+    return true;
   }
 
   return {
     moveJob,
     moveJobIdempotent,
     reclaimJob,
+    releaseJob,
+    updateLatestMetadata,
   };
 }
@@ -0,0 +1,124 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import fs from "fs-extra";
+import { createFilesystem, JOB_STATES } from "./filesystem";
+import { createMoveOperations } from "./job-moves";
+import { createJobControl } from "./job-control";
+import { createPipeline } from "./pipeline";
+import { createJobScheduler, createSchedule } from "./job-scheduler";
+
+const TEST_STORAGE_ROOT = "/tmp/ego-studio-jobs-test-job-scheduler";
+
+describe.sequential("Job Scheduler", () => {
+  let filesystem: ReturnType<typeof createFilesystem>;
+  let moves: ReturnType<typeof createMoveOperations>;
+  let scheduler: ReturnType<typeof createJobScheduler>;
+  let testDir: string;
+
+  const now = new Date("2026-10-19T18:00:00Z");
+
+  beforeEach(async () => {
+    testDir = `${TEST_STORAGE_ROOT}-${Date.now()}-${Math.random()}`;
+    await fs.ensureDir(testDir);
+    filesystem = createFilesystem(testDir);
+    moves = createMoveOperations(filesystem, testDir);
+    await filesystem.initializeStorage();
+    scheduler = createJobScheduler(filesystem, moves);
+  });
+
+  afterEach(async () => {
+    try {
+      if (testDir) {
+        await fs.remove(testDir);
+      }
+    } catch (e) {
+      // Ignore cleanup errors
+    }
+  });
+
+  describe("createSchedule", () => {
+    it("should schedule a future runAt and run a past or missing one now", () => {
+      expect(createSchedule({ runAt: "2026-10-20T02:00:00+02:00" }, now)).toEqual({ runAt: "2026-10-20T00:00:00.000Z" });
+      expect(createSchedule({ runAt: "2026-10-19T17:00:00Z" }, now)).toBeUndefined();
+      expect(createSchedule({}, now)).toBeUndefined();
+    });
+
+    it("should start a cron schedule at runAt or its next time", () => {
+      expect(createSchedule({ cron: "0 2 * * *" }, now)).toEqual({ runAt: "2026-10-20T02:00:00.000Z", cron: "0 2 * * *" });
+      expect(createSchedule({ runAt: "2026-10-19T20:00:00Z", cron: "0 2 * * *" }, now)).toEqual({
+        runAt: "2026-10-19T20:00:00.000Z",
+        cron: "0 2 * * *",
+      });
+    });
+
+    it("should refuse an invalid runAt or cron expression", () => {
+      expect(() => createSchedule({ runAt: "tonight" }, now)).toThrow('Invalid runAt "tonight"');
+      expect(() => createSchedule({ cron: "0 25 * * *" }, now)).toThrow("hour must be 0-23");
+    });
+  });
+
+  it("should keep a scheduled job in SCHEDULED until runAt, then move it to NEW", async () => {
+    const { jobId, metadata } = await filesystem.createJobFolder("https://youtube.com/watch?v=test", {
+      schedule: { runAt: "2026-10-20T02:00:00.000Z" },
+    });
+    expect(metadata.state).toBe(JOB_STATES.SCHEDULED);
+    expect(await filesystem.listJobsByState(JOB_STATES.SCHEDULED)).toEqual([jobId]);
+
+    expect((await scheduler.releaseDueJobs(now)).released).toEqual([]);
+
+    const result = await scheduler.releaseDueJobs(new Date("2026-10-20T02:00:00Z"));
+    expect(result).toEqual({ released: [jobId], started: [], errors: [] });
+    expect((await filesystem.readMetadata(jobId))?.state).toBe(JOB_STATES.NEW);
+    expect((await filesystem.readJobLogs(jobId)).join("\n")).toContain("Released at its scheduled time");
+  });
+
+  it("should start a run of a recurring job each time it is due and keep it SCHEDULED", async () => {
+    const { jobId } = await filesystem.createJobFolder("https://youtube.com/watch?v=nightly", {
+      pipeline: createPipeline(),
+      ownerId: "alice",
+      schedule: { runAt: "2026-10-20T02:00:00.000Z", cron: "0 2 * * *" },
+    });
+
+    // Woken up late: one run, and the next one is tomorrow's
+    const first = await scheduler.releaseDueJobs(new Date("2026-10-20T02:03:00Z"));
+    expect(first.released).toEqual([]);
+    expect(first.started).toHaveLength(1);
+
+    const run = await filesystem.readMetadata(first.started[0]);
+    expect(run).toMatchObject({
+      state: JOB_STATES.NEW,
+      youtubeUrl: "https://youtube.com/watch?v=nightly",
+      ownerId: "alice",
+      scheduledFrom: jobId,
+    });
+    expect(run?.schedule).toBeUndefined();
+    expect(run?.pipeline?.completed).toEqual([]);
+
+    const template = await filesystem.readMetadata(jobId);
+    expect(template?.state).toBe(JOB_STATES.SCHEDULED);
+    expect(template?.schedule).toMatchObject({ runAt: "2026-10-21T02:00:00.000Z", runs: 1 });
+
+    // Not due again until then
+    expect((await scheduler.releaseDueJobs(new Date("2026-10-20T03:00:00Z"))).started).toEqual([]);
+    expect((await scheduler.releaseDueJobs(new Date("2026-10-21T02:00:00Z"))).started).toHaveLength(1);
+    expect((await filesystem.readMetadata(jobId))?.schedule?.runs).toBe(2);
+  });
+
+  it("should hold paused scheduled jobs and cancel scheduled jobs right away", async () => {
+    const control = createJobControl(filesystem, moves);
+    const { jobId: paused } = await filesystem.createJobFolder("https://youtube.com/watch?v=paused", {
+      schedule: { runAt: "2026-10-19T19:00:00.000Z" },
+    });
+    const { jobId: cancelled } = await filesystem.createJobFolder("https://youtube.com/watch?v=cancelled", {
+      schedule: { runAt: "2026-10-19T19:00:00.000Z", cron: "0 * * * *" },
+    });
+
+    await control.pause(paused);
+    expect((await control.requestCancel(cancelled)).state).toBe(JOB_STATES.CANCELLED);
+
+    const later = new Date("2026-10-19T20:00:00Z");
+    expect(await scheduler.releaseDueJobs(later)).toEqual({ released: [], started: [], errors: [] });
+
+    await control.resume(paused);
+    expect((await scheduler.releaseDueJobs(later)).released).toEqual([paused]);
+  });
+});
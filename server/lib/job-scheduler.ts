@@ -0,0 +1,157 @@
+/**
+ * Job Scheduler
+ *
+ * Jobs created with runAt or a cron schedule wait in SCHEDULED until they are due:
+ * - One-off: the job moves to NEW at runAt and the orchestrator dispatches it
+ * - Recurring (cron): the job stays SCHEDULED as a template; every time it is
+ *   due it starts a new NEW job from its URL or upload (scheduledFrom) and
+ *   moves runAt to the next cron time
+ *
+ * The orchestrator's run loop releases due jobs before dispatching NEW ones.
+ *
+ * Invariants:
+ * - Only SYSTEM moves a job from SCHEDULED to NEW; a cancel takes effect immediately
+ * - A recurring job starts one run per due time: runAt is advanced with
+ *   compare-and-set before the run is created, so two servers never both start
+ *   it; times missed while the server was down are skipped, not made up
+ * - Paused scheduled jobs are not released until resumed
+ *
+ * Uses dependency injection pattern:
+ * - Tests inject temporary filesystem
+ * - Production injects real filesystem
+ */
+
+import { FilesystemAPI, JobMetadata, JobSchedule, JOB_STATES, StaleMetadataError } from "./filesystem";
+import { createMoveOperations } from "./job-moves";
+import { Actor } from "./job-state";
+import { nextCronRun } from "./cron";
+
+/**
+ * When a new job should run, as requested by the client
+ */
+export interface ScheduleRequest {
+  runAt?: string | Date;
+  // Five-field cron expression (UTC); the first run is runAt if given, else the next cron time
+  cron?: string;
+}
+
+export interface SchedulerResult {
+  // One-off jobs moved to NEW
+  released: string[];
+  // Jobs started by recurring jobs
+  started: string[];
+  errors: string[];
+}
+
+/**
+ * Turn a schedule request into the schedule a job is created with
+ * Returns undefined when the job should run now (no request, or a runAt already past)
+ * @throws Error on an invalid runAt or cron expression
+ */
+export function createSchedule(request: ScheduleRequest, now: Date = new Date()): JobSchedule | undefined {
+  let runAt: Date | undefined;
+  if (request.runAt !== undefined && request.runAt !== "") {
+    runAt = new Date(request.runAt);
+    if (isNaN(runAt.getTime())) {
+      throw new Error(`Invalid runAt "${request.runAt}": expected an ISO 8601 date`);
+    }
+  }
+
+  const cron = request.cron?.trim();
+  if (cron) {
+    // Validates the expression even when runAt sets the first run
+    const next = nextCronRun(cron, now);
+    return { runAt: (runAt && runAt > now ? runAt : next).toISOString(), cron };
+  }
+
+  return runAt && runAt > now ? { runAt: runAt.toISOString() } : undefined;
+}
+
+/**
+ * Factory function to create a job scheduler
+ *
+ * @param filesystem - FilesystemAPI instance
+ * @param moves - Move operations bound to the same filesystem
+ */
+export function createJobScheduler(filesystem: FilesystemAPI, moves: ReturnType<typeof createMoveOperations>) {
+  /**
+   * Start the run a recurring job is due for
+   * Returns null if another server started it first
+   */
+  async function startRun(template: JobMetadata, schedule: JobSchedule, now: Date): Promise<string | null> {
+    const next = nextCronRun(schedule.cron!, now);
+    const runs = (schedule.runs ?? 0) + 1;
+
+    try {
+      await filesystem.updateMetadata(template.id, template.revision, (current) => {
+        current.schedule = { ...schedule, runAt: next.toISOString(), runs, lastRunAt: now.toISOString() };
+      });
+    } catch (err) {
+      if (err instanceof StaleMetadataError) {
+        return null;
+      }
+      throw err;
+    }
+
+    const { jobId } = await filesystem.createJobFolder(template.youtubeUrl, {
+      ...(template.pipeline && { pipeline: { ...structuredClone(template.pipeline), completed: [] } }),
+      file: template.file,
+      ownerId: template.ownerId,
+      priority: template.priority,
+      scheduledFrom: template.id,
+    });
+    await filesystem.appendToJobLog(jobId, `[SYSTEM] Run ${runs} of recurring job ${template.id}`);
+    await filesystem.appendToJobLog(
+      template.id,
+      `[SYSTEM] Started run ${runs} as job ${jobId}; next run at ${next.toISOString()}`
+    );
+
+    return jobId;
+  }
+
+  /**
+   * Release every scheduled job that is due: one-off jobs move to NEW, recurring ones start a run
+   */
+  async function releaseDueJobs(now: Date = new Date()): Promise<SchedulerResult> {
+    const result: SchedulerResult = { released: [], started: [], errors: [] };
+
+    for (const jobId of await filesystem.listJobsByState(JOB_STATES.SCHEDULED)) {
+      // A job moved while being read has left SCHEDULED
+      const metadata = await filesystem.readMetadata(jobId).catch(() => null);
+      const schedule = metadata?.schedule;
+      if (!metadata || !schedule || metadata.pausedAt || new Date(schedule.runAt) > now) {
+        continue;
+      }
+
+      try {
+        if (schedule.cron) {
+          const runId = await startRun(metadata, schedule, now);
+          if (runId) {
+            result.started.push(runId);
+            console.log(`[Scheduler] Recurring job ${jobId} started job ${runId}`);
+          }
+        } else {
+          await moves.moveJob(jobId, JOB_STATES.SCHEDULED, JOB_STATES.NEW, Actor.SYSTEM);
+          await filesystem.appendToJobLog(jobId, `[SYSTEM] Released at its scheduled time (${schedule.runAt})`);
+          result.released.push(jobId);
+          console.log(`[Scheduler] Released job ${jobId} scheduled for ${schedule.runAt}`);
+        }
+      } catch (err) {
+        const current = await filesystem.readMetadata(jobId).catch(() => null);
+        if (!schedule.cron && current && current.state !== JOB_STATES.SCHEDULED) {
+          // Released by another server or cancelled meanwhile
+          continue;
+        }
+        const errorMsg = `Failed to release ${jobId}: ${err instanceof Error ? err.message : String(err)}`;
+        result.errors.push(errorMsg);
+        console.error(`[Scheduler] ${errorMsg}`);
+      }
+    }
+
+    return result;
+  }
+
+  return {
+    releaseDueJobs,
+  };
+}
@@ -1,16 +1,49 @@
 import { describe, it, expect } from "vitest";
-import { JOB_STATES } from "./filesystem";
+import { JOB_STATES, PIPELINE_STAGES } from "./filesystem";
 import {
   Actor,
   validateTransition,
+  validateStageTransition,
+  validateCompletion,
   getValidNextStates,
   getAuthorizedActors,
+  getNextStage,
+  getStageOwner,
   isTerminalState,
   isIntermediateState,
 } from "./job-state";
 
 describe("State Machine", () => {
   describe("validateTransition", () => {
+    it("should allow USER to cancel NEW and DONE jobs", () => {
+      expect(validateTransition(JOB_STATES.NEW, JOB_STATES.CANCELLED, Actor.USER).valid).toBe(true);
+      expect(validateTransition(JOB_STATES.DONE, JOB_STATES.CANCELLED, Actor.USER).valid).toBe(true);
+    });
+
+    it("should only let workers or SYSTEM cancel held jobs", () => {
+      expect(validateTransition(JOB_STATES.RUNNING, JOB_STATES.CANCELLED, Actor.DEMUCS_WORKER).valid).toBe(true);
+      expect(validateTransition(JOB_STATES.CLAIMED, JOB_STATES.CANCELLED, Actor.SYSTEM).valid).toBe(true);
+      expect(validateTransition(JOB_STATES.RUNNING, JOB_STATES.CANCELLED, Actor.USER).valid).toBe(false);
+    });
+
+    it("should reject transitions out of CANCELLED", () => {
+      expect(validateTransition(JOB_STATES.CANCELLED, JOB_STATES.NEW, Actor.USER).valid).toBe(false);
+    });
+
+    it("should only let SYSTEM release scheduled jobs and users or SYSTEM cancel them", () => {
+      expect(validateTransition(JOB_STATES.SCHEDULED, JOB_STATES.NEW, Actor.SYSTEM).valid).toBe(true);
+      expect(validateTransition(JOB_STATES.SCHEDULED, JOB_STATES.NEW, Actor.USER).valid).toBe(false);
+      expect(validateTransition(JOB_STATES.SCHEDULED, JOB_STATES.CANCELLED, Actor.USER).valid).toBe(true);
+      expect(validateTransition(JOB_STATES.SCHEDULED, JOB_STATES.CLAIMED, Actor.SYSTEM).valid).toBe(false);
+    });
+
+    it("should only let SYSTEM archive finished jobs", () => {
+      expect(validateTransition(JOB_STATES.COMPLETE, JOB_STATES.ARCHIVED, Actor.SYSTEM).valid).toBe(true);
+      expect(validateTransition(JOB_STATES.CANCELLED, JOB_STATES.ARCHIVED, Actor.SYSTEM).valid).toBe(true);
+      expect(validateTransition(JOB_STATES.COMPLETE, JOB_STATES.ARCHIVED, Actor.USER).valid).toBe(false);
+      expect(validateTransition(JOB_STATES.DONE, JOB_STATES.ARCHIVED, Actor.SYSTEM).valid).toBe(false);
+    });
+
     it("should allow NEW -> CLAIMED by SYSTEM", () => {
       const result = validateTransition(JOB_STATES.NEW, JOB_STATES.CLAIMED, Actor.SYSTEM);
       expect(result.valid).toBe(true);
@@ -101,7 +134,9 @@ describe("State Machine", () => {
       const states = getValidNextStates(JOB_STATES.CLAIMED);
       expect(states).toContain(JOB_STATES.RUNNING);
       expect(states).toContain(JOB_STATES.NEW); // Reclaim
-      expect(states).not.toContain(JOB_STATES.DONE);
+      expect(states).toContain(JOB_STATES.DONE); // Reclaim past the first stage
+      // Workers go through RUNNING
+      expect(validateTransition(JOB_STATES.CLAIMED, JOB_STATES.DONE, Actor.DEMUCS_WORKER).valid).toBe(false);
     });
 
     it("should return valid next states for RUNNING", () => {
@@ -165,6 +200,18 @@ describe("State Machine", () => {
       expect(isTerminalState(JOB_STATES.FAILED)).toBe(true);
     });
 
+    it("should return true for COMPLETE", () => {
+      expect(isTerminalState(JOB_STATES.COMPLETE)).toBe(true);
+    });
+
+    it("should return true for CANCELLED", () => {
+      expect(isTerminalState(JOB_STATES.CANCELLED)).toBe(true);
+    });
+
+    it("should return true for ARCHIVED", () => {
+      expect(isTerminalState(JOB_STATES.ARCHIVED)).toBe(true);
+    });
+
     it("should return false for NEW", () => {
       expect(isTerminalState(JOB_STATES.NEW)).toBe(false);
     });
@@ -199,4 +246,49 @@ describe("State Machine", () => {
       expect(isIntermediateState(JOB_STATES.FAILED)).toBe(false);
     });
   });
+
+  describe("pipeline stages", () => {
+    it("should allow DOWNLOAD -> SEPARATION by DEMUCS_WORKER", () => {
+      const result = validateStageTransition(PIPELINE_STAGES.DOWNLOAD, PIPELINE_STAGES.SEPARATION, Actor.DEMUCS_WORKER);
+      expect(result.valid).toBe(true);
+    });
+
+    it("should treat a missing stage as DOWNLOAD", () => {
+      const result = validateStageTransition(undefined, PIPELINE_STAGES.SEPARATION, Actor.DEMUCS_WORKER);
+      expect(result.valid).toBe(true);
+    });
+
+    it("should reject skipping a stage", () => {
+      const result = validateStageTransition(PIPELINE_STAGES.DOWNLOAD, PIPELINE_STAGES.LYRICS, Actor.LYRICS_WORKER);
+      expect(result.valid).toBe(false);
+      expect(result.reason).toContain("Invalid stage transition");
+    });
+
+    it("should reject a stage started by another worker", () => {
+      const result = validateStageTransition(PIPELINE_STAGES.WAVEFORM, PIPELINE_STAGES.LYRICS, Actor.AUDACITY_WORKER);
+      expect(result.valid).toBe(false);
+      expect(result.reason).toContain("not authorized");
+    });
+
+    it("should only allow completion from the final stage", () => {
+      expect(validateCompletion(PIPELINE_STAGES.AUDACITY).valid).toBe(false);
+      expect(validateCompletion(PIPELINE_STAGES.PACKAGING).valid).toBe(true);
+    });
+
+    it("should return the next stage in order", () => {
+      expect(getNextStage(PIPELINE_STAGES.DOWNLOAD)).toBe(PIPELINE_STAGES.SEPARATION);
+      expect(getNextStage(PIPELINE_STAGES.AUDACITY)).toBe(PIPELINE_STAGES.PACKAGING);
+      expect(getNextStage(PIPELINE_STAGES.PACKAGING)).toBeNull();
+    });
+
+    it("should map stages to their owning worker", () => {
+      expect(getStageOwner(PIPELINE_STAGES.SEPARATION)).toBe(Actor.DEMUCS_WORKER);
+      expect(getStageOwner(PIPELINE_STAGES.PACKAGING)).toBe(Actor.PACKAGING_WORKER);
+    });
+
+    it("should only allow PACKAGING_WORKER to move RUNNING -> COMPLETE", () => {
+      expect(validateTransition(JOB_STATES.RUNNING, JOB_STATES.COMPLETE, Actor.PACKAGING_WORKER).valid).toBe(true);
+      expect(validateTransition(JOB_STATES.RUNNING, JOB_STATES.COMPLETE, Actor.AUDACITY_WORKER).valid).toBe(false);
+    });
+  });
 });
@@ -9,9 +9,13 @@
  * - Only authorized actors can transition states
  * - Transitions are validated before execution
  * - No auto-correction of invalid states
+ *
+ * Stage order and stage ownership come from the adapter registry
+ * (adapter-registry.ts); this module only applies them.
  */
 
-import { JOB_STATES, JobState } from "./filesystem";
+import { JOB_STATES, JobState, PIPELINE_STAGES, PipelineStage } from "./filesystem";
+import { getAdapter, listAdapters, listStages } from "./adapter-registry";
 
 /**
  * Actors that can transition states
@@ -20,8 +24,10 @@ export enum Actor {
   // Lifecycle adapters (own state transitions)
   DOWNLOAD_WORKER = "DOWNLOAD_WORKER",
   DEMUCS_WORKER = "DEMUCS_WORKER",
+  WAVEFORM_WORKER = "WAVEFORM_WORKER",
   LYRICS_WORKER = "LYRICS_WORKER",
   AUDACITY_WORKER = "AUDACITY_WORKER",
+  PACKAGING_WORKER = "PACKAGING_WORKER",
 
   // System actors
   SYSTEM = "SYSTEM",
@@ -31,31 +37,83 @@ export enum Actor {
   // (Feature adapters update metadata but don't transition states)
 }
 
+/**
+ * A built-in actor or the actor declared by a registered stage adapter
+ */
+export type ActorName = Actor | (string & {});
+
+/**
+ * Actors that own a pipeline stage, in pipeline order
+ */
+function stageActors(): ActorName[] {
+  return listAdapters().map((adapter) => adapter.actor);
+}
+
 /**
  * State transition rules
  * Maps (from, to) -> authorized actors
+ * Worker actors come from the adapter registry, so they are derived on each lookup.
  */
-const TRANSITION_RULES: Record<string, Record<string, Actor[]>> = {
-  [JOB_STATES.NEW]: {
-    [JOB_STATES.CLAIMED]: [Actor.SYSTEM, Actor.DOWNLOAD_WORKER],
-  },
-  [JOB_STATES.CLAIMED]: {
-    [JOB_STATES.RUNNING]: [Actor.DOWNLOAD_WORKER, Actor.DEMUCS_WORKER, Actor.LYRICS_WORKER, Actor.AUDACITY_WORKER],
-    [JOB_STATES.NEW]: [Actor.SYSTEM],
-  },
-  [JOB_STATES.RUNNING]: {
-    [JOB_STATES.DONE]: [Actor.DOWNLOAD_WORKER, Actor.DEMUCS_WORKER, Actor.AUDACITY_WORKER],
-    [JOB_STATES.FAILED]: [Actor.DOWNLOAD_WORKER, Actor.DEMUCS_WORKER, Actor.AUDACITY_WORKER],
-    [JOB_STATES.NEW]: [Actor.SYSTEM], // Reclaim on lease expiry
-  },
-  [JOB_STATES.DONE]: {
-    // Can transition to CLAIMED for next pipeline stage (e.g., Demucs after download)
-    [JOB_STATES.CLAIMED]: [Actor.DEMUCS_WORKER, Actor.LYRICS_WORKER, Actor.AUDACITY_WORKER],
-  },
-  [JOB_STATES.FAILED]: {
-    [JOB_STATES.NEW]: [Actor.SYSTEM, Actor.USER], // Retry
-  },
-};
+function transitionRules(): Record<string, Record<string, ActorName[]>> {
+  const workers = stageActors();
+  const finalOwner = getStageOwner(getFinalStage());
+
+  return {
+    // The scheduler releases due jobs; nobody holds a scheduled job, so a cancel takes effect immediately
+    [JOB_STATES.SCHEDULED]: {
+      [JOB_STATES.NEW]: [Actor.SYSTEM],
+      [JOB_STATES.CANCELLED]: [Actor.USER, Actor.SYSTEM],
+    },
+    [JOB_STATES.NEW]: {
+      [JOB_STATES.CLAIMED]: [Actor.SYSTEM, getStageOwner(listStages()[0])],
+      // Nobody holds the job, so the user's cancel takes effect immediately
+      [JOB_STATES.CANCELLED]: [Actor.USER, Actor.SYSTEM],
+    },
+    [JOB_STATES.CLAIMED]: {
+      [JOB_STATES.RUNNING]: workers,
+      [JOB_STATES.NEW]: [Actor.SYSTEM],
+      // Reclaim or release of a job past its first stage: back between stages (see handBack in job-moves.ts)
+      [JOB_STATES.DONE]: [Actor.SYSTEM],
+      // The holding worker honors a cancel request (SYSTEM if its lease lapsed)
+      [JOB_STATES.CANCELLED]: [...workers, Actor.SYSTEM],
+    },
+    [JOB_STATES.RUNNING]: {
+      // SYSTEM hands a job past its first stage back between stages on lease expiry or release
+      [JOB_STATES.DONE]: [...workers.filter((actor) => actor !== finalOwner), Actor.SYSTEM],
+      [JOB_STATES.FAILED]: workers,
+      // Only the final stage finishes the job (see validateCompletion)
+      [JOB_STATES.COMPLETE]: [finalOwner],
+      [JOB_STATES.NEW]: [Actor.SYSTEM], // Reclaim on lease expiry
+      [JOB_STATES.CANCELLED]: [...workers, Actor.SYSTEM],
+    },
+    [JOB_STATES.DONE]: {
+      // Can transition to CLAIMED for next pipeline stage (e.g., Demucs after download)
+      [JOB_STATES.CLAIMED]: workers.slice(1),
+      // Between stages nobody holds the job
+      [JOB_STATES.CANCELLED]: [Actor.USER, Actor.SYSTEM],
+    },
+    // Retention moves finished jobs out of the way
+    [JOB_STATES.COMPLETE]: {
+      [JOB_STATES.ARCHIVED]: [Actor.SYSTEM],
+    },
+    [JOB_STATES.CANCELLED]: {
+      [JOB_STATES.ARCHIVED]: [Actor.SYSTEM],
+    },
+    [JOB_STATES.FAILED]: {
+      [JOB_STATES.NEW]: [Actor.SYSTEM, Actor.USER], // Retry
+      [JOB_STATES.DONE]: [Actor.SYSTEM, Actor.USER], // Retry from a later stage, reusing earlier output
+      [JOB_STATES.ARCHIVED]: [Actor.SYSTEM],
+    },
+  };
+}
+
+/**
+ * Final stage of the pipeline (the last registered stage)
+ */
+export function getFinalStage(): PipelineStage {
+  const stages = listStages();
+  return stages[stages.length - 1];
+}
 
 /**
  * Validate a state transition
@@ -63,10 +121,10 @@ const TRANSITION_RULES: Record<string, Record<string, Actor[]>> = {
 export function validateTransition(
   fromState: JobState,
   toState: JobState,
-  actor: Actor
+  actor: ActorName
 ): { valid: boolean; reason?: string } {
   // Check if transition is defined
-  const allowedActors = TRANSITION_RULES[fromState]?.[toState];
+  const allowedActors = transitionRules()[fromState]?.[toState];
 
   if (!allowedActors) {
     return {
@@ -90,24 +148,29 @@ export function validateTransition(
  * Get valid next states for a given state
  */
 export function getValidNextStates(state: JobState): JobState[] {
-  const nextStates = TRANSITION_RULES[state];
+  const nextStates = transitionRules()[state];
   return nextStates ? Object.keys(nextStates) as JobState[] : [];
 }
 
 /**
  * Get actors authorized for a transition
  */
-export function getAuthorizedActors(fromState: JobState, toState: JobState): Actor[] {
-  return TRANSITION_RULES[fromState]?.[toState] || [];
+export function getAuthorizedActors(fromState: JobState, toState: JobState): ActorName[] {
+  return transitionRules()[fromState]?.[toState] || [];
 }
 
 /**
  * Check if a state is terminal
- * In multi-stage pipeline, only FAILED is truly terminal.
+ * In multi-stage pipeline, FAILED, COMPLETE, CANCELLED and ARCHIVED are terminal.
  * DONE can transition to CLAIMED for next stage.
  */
 export function isTerminalState(state: JobState): boolean {
-  return state === JOB_STATES.FAILED;
+  return (
+    state === JOB_STATES.FAILED ||
+    state === JOB_STATES.COMPLETE ||
+    state === JOB_STATES.CANCELLED ||
+    state === JOB_STATES.ARCHIVED
+  );
 }
 
 /**
@@ -117,3 +180,74 @@ export function isTerminalState(state: JobState): boolean {
 export function isIntermediateState(state: JobState): boolean {
   return state === JOB_STATES.CLAIMED || state === JOB_STATES.RUNNING || state === JOB_STATES.DONE;
 }
+
+/**
+ * Validate a stage transition
+ * Jobs without a stage (created before stages existed) are treated as DOWNLOAD.
+ */
+export function validateStageTransition(
+  fromStage: PipelineStage | undefined,
+  toStage: PipelineStage,
+  actor: ActorName
+): { valid: boolean; reason?: string } {
+  const currentStage = fromStage ?? PIPELINE_STAGES.DOWNLOAD;
+
+  if (getNextStage(currentStage) !== toStage) {
+    return {
+      valid: false,
+      reason: `Invalid stage transition: ${currentStage} -> ${toStage}`,
+    };
+  }
+
+  const owner = getStageOwner(toStage);
+  if (owner !== actor && actor !== Actor.SYSTEM) {
+    return {
+      valid: false,
+      reason: `Actor ${actor} not authorized to start stage ${toStage}. Owner: ${owner}`,
+    };
+  }
+
+  return { valid: true };
+}
+
+/**
+ * Validate that a job may move into COMPLETE from its current stage
+ */
+export function validateCompletion(stage: PipelineStage | undefined): { valid: boolean; reason?: string } {
+  const finalStage = getFinalStage();
+  if (stage !== finalStage) {
+    return {
+      valid: false,
+      reason: `Job cannot complete in stage ${stage ?? PIPELINE_STAGES.DOWNLOAD}. Only ${finalStage} finishes the pipeline.`,
+    };
+  }
+
+  return { valid: true };
+}
+
+/**
+ * Get the stage that follows a given stage (null for the final stage)
+ */
+export function getNextStage(stage: PipelineStage): PipelineStage | null {
+  const stages = listStages();
+  const index = stages.indexOf(stage);
+  return index === -1 ? null : stages[index + 1] ?? null;
+}
+
+/**
+ * Get the actor that owns a stage
+ */
+export function getStageOwner(stage: PipelineStage): ActorName {
+  const adapter = getAdapter(stage);
+  if (!adapter) {
+    throw new Error(`No adapter registered for stage ${stage}`);
+  }
+  return adapter.actor;
+}
+
+/**
+ * Check if a stage is the final pipeline stage
+ */
+export function isFinalStage(stage: PipelineStage): boolean {
+  return stage === getFinalStage();
+}
@@ -0,0 +1,50 @@
+/**
+ * Control Operations for JobsService
+ *
+ * Extends JobsService with cancel, pause, resume and reprioritize.
+ * Cancel stops a job wherever it is (→ CANCELLED); pause keeps it out of queue pickup.
+ */
+
+import { filesystem, JobPriority } from "./filesystem";
+import { createMoveOperations } from "./job-moves";
+import { createJobControl, JobControlResult } from "./job-control";
+import { requeueWaitingJob } from "./queue";
+
+const STORAGE_ROOT = process.env.STORAGE_ROOT || "/tmp/ego-studio-jobs";
+const moves = createMoveOperations(filesystem, STORAGE_ROOT);
+const control = createJobControl(filesystem, moves);
+
+/**
+ * Cancel a job
+ * Idle jobs move to CANCELLED now; running jobs are stopped by their worker
+ */
+export async function cancelJob(jobId: string, reason: string = "User cancel"): Promise<JobControlResult> {
+  console.log(`[JobsService.cancelJob] Cancelling job ${jobId}: ${reason}`);
+  return control.requestCancel(jobId, reason);
+}
+
+/**
+ * Pause a job so no worker picks it up
+ */
+export async function pauseJob(jobId: string): Promise<JobControlResult> {
+  console.log(`[JobsService.pauseJob] Pausing job ${jobId}`);
+  return control.pause(jobId);
+}
+
+/**
+ * Resume a paused job
+ */
+export async function resumeJob(jobId: string): Promise<JobControlResult> {
+  console.log(`[JobsService.resumeJob] Resuming job ${jobId}`);
+  return control.resume(jobId);
+}
+
+/**
+ * Move a job to another priority lane, and a job already waiting for a fair-queued stage within its line
+ */
+export async function setJobPriority(jobId: string, priority: JobPriority): Promise<JobControlResult> {
+  console.log(`[JobsService.setJobPriority] Setting priority of job ${jobId} to ${priority}`);
+  const result = await control.setPriority(jobId, priority);
+  await requeueWaitingJob(jobId);
+  return result;
+}
@@ -0,0 +1,33 @@
+/**
+ * Dead-Letter Operations for JobsService
+ *
+ * Extends JobsService with the dead-letter view and requeue.
+ * Dead letters are FAILED jobs with no automatic retry left and DONE jobs whose next stage was never enqueued.
+ */
+
+import { filesystem } from "./filesystem";
+import { createDeadLetters, DeadLetter, DeadLetterFilter, RequeueResult } from "./dead-letters";
+
+const deadLetters = createDeadLetters(filesystem);
+
+/**
+ * List dead letters matching filter, longest stopped first
+ */
+export async function listDeadLetters(filter: DeadLetterFilter = {}): Promise<DeadLetter[]> {
+  return deadLetters.list(filter);
+}
+
+/**
+ * Requeue the given dead letters, or every one matching a filter
+ */
+export async function requeueDeadLetters(
+  target: { jobIds: string[] } | { filter: DeadLetterFilter }
+): Promise<RequeueResult> {
+  if ("jobIds" in target) {
+    console.log(`[JobsService.requeueDeadLetters] Requeueing ${target.jobIds.length} job(s)`);
+    return deadLetters.requeue(target.jobIds);
+  }
+
+  console.log(`[JobsService.requeueDeadLetters] Requeueing dead letters matching ${JSON.stringify(target.filter)}`);
+  return deadLetters.requeueMatching(target.filter);
+}
@@ -6,11 +6,11 @@
  */
 
 import path from "path";
-import { v4 as uuidv4 } from "uuid";
-import fs from "fs-extra";
 import { filesystem } from "./filesystem";
-import { FileMetadata, streamUploadToLocal, deleteUploadedFile } from "./file-upload";
-import type { JobResponse } from "./jobs-service";
+import { createPipeline } from "./pipeline";
+import { createSchedule } from "./job-scheduler";
+import { streamUploadToLocal, deleteUploadedFile } from "./file-upload";
+import type { CreateJobRequest, JobResponse } from "./jobs-service";
 
 const STORAGE_ROOT = process.env.STORAGE_ROOT || "/tmp/ego-studio-jobs";
 const UPLOADS_DIR = path.join(STORAGE_ROOT, "uploads");
@@ -21,13 +21,23 @@ const UPLOADS_DIR = path.join(STORAGE_ROOT, "uploads");
  * @param fileBuffer - File buffer from upload
  * @param filename - Original filename
  * @param mimeType - MIME type from upload
+ * @param options.preset - Pipeline preset the job runs (see pipeline.ts)
+ * @param options.ownerId - Uploading user
+ * @param options.priority - Lane in fair-queued stages
+ * @param options.runAt - Wait in SCHEDULED until then
+ * @param options.cron - Start a run of the file on this schedule (see job-scheduler.ts)
  * @returns Job response with file metadata
  */
 export async function createJobFromFile(
   fileBuffer: Buffer,
   filename: string,
-  mimeType: string
+  mimeType: string,
+  options: CreateJobRequest = {}
 ): Promise<JobResponse> {
+  // Resolve the preset and schedule before storing anything, so invalid ones leave no upload behind
+  const pipeline = createPipeline(options.preset);
+  const schedule = createSchedule({ runAt: options.runAt, cron: options.cron });
+
   // Upload file to local storage
   const { metadata: fileMetadata, localPath } = await streamUploadToLocal(
     fileBuffer,
@@ -37,8 +47,14 @@ export async function createJobFromFile(
   );
 
   try {
-    // Create job folder with file metadata
-    const { jobId, metadata } = await createJobFolderFromFile(fileMetadata);
+    // Create job folder with file metadata (DOWNLOAD ingests the file instead of fetching a URL)
+    const { jobId, metadata } = await filesystem.createJobFolder("", {
+      file: fileMetadata,
+      pipeline,
+      ownerId: options.ownerId,
+      priority: options.priority,
+      schedule,
+    });
 
     console.log(
       `[JobsService.createJobFromFile] Created job ${jobId} for file ${filename} (${fileBuffer.length} bytes)`
@@ -54,6 +70,9 @@ export async function createJobFromFile(
         state: metadata.state,
         createdAt: metadata.createdAt,
         updatedAt: metadata.updatedAt,
+        priority: metadata.priority,
+        schedule: metadata.schedule,
+        pipeline: metadata.pipeline,
       },
       createdAt: new Date(metadata.createdAt),
       updatedAt: new Date(metadata.updatedAt),
@@ -65,43 +84,3 @@ export async function createJobFromFile(
     throw err;
   }
 }
-
-/**
- * Extend filesystem.createJobFolder to accept file metadata
- *
- * This is a temporary wrapper until filesystem is fully refactored.
- * For now, we store file metadata in the job metadata structure.
- */
-export async function createJobFolderFromFile(
-  fileMetadata: FileMetadata
-): Promise<{ jobId: string; metadata: any }> {
-  // For now, create job with file metadata instead of URL
-  // This will be integrated into filesystem.createJobFolder in Phase 8.2
-
-  const jobId = uuidv4();
-  const now = new Date().toISOString();
-
-  const jobDir = path.join(STORAGE_ROOT, "jobs", "NEW", jobId);
-  await fs.ensureDir(jobDir);
-
-  // Create logs directory and initial log file
-  const logsDir = path.join(jobDir, "logs");
-  await fs.ensureDir(logsDir);
-  const logFile = path.join(logsDir, "job.log");
-  const timestamp = new Date().toISOString();
-  const logEntry = `[${timestamp}] Job created for file: ${fileMetadata.filename}\n`;
-  await fs.writeFile(logFile, logEntry);
-
-  const metadata = {
-    id: jobId,
-    file: fileMetadata, // Store file metadata instead of youtubeUrl
-    youtubeUrl: "", // Empty for file-based jobs
-    state: "NEW",
-    createdAt: now,
-    updatedAt: now,
-  };
-
-  await fs.writeJSON(path.join(jobDir, "metadata.json"), metadata, { spaces: 2 });
-
-  return { jobId, metadata };
-}
@@ -1,8 +1,10 @@
 import { describe, it, expect, beforeEach, afterEach } from "vitest";
 import fs from "fs-extra";
+import path from "path";
 import { retryJob } from "./jobs-service-retry";
-import { createFilesystem } from "./filesystem";
+import { createFilesystem, filesystem, JOB_STATES, PIPELINE_STAGES, PipelineStage } from "./filesystem";
 import { createMoveOperations } from "./job-moves";
+import { Actor } from "./job-state";
 import * as JobsService from "./jobs-service";
 
 const TEST_STORAGE_ROOT = "/tmp/ego-studio-retry-test";
@@ -111,6 +113,35 @@ describe.sequential("Retry Logic", () => {
       expect(artifacts.download).toBeUndefined();
     });
 
+    it("should retry as SYSTEM and clear a pending automatic retry", async () => {
+      const job = await JobsService.createJob("https://youtube.com/watch?v=test");
+      await JobsService.simulateProgress(job.jobId);
+      await JobsService.simulateProgress(job.jobId);
+      await JobsService.simulateFailure(job.jobId, "RATE_LIMITED");
+
+      const failed = await filesystem.readMetadata(job.jobId);
+      await filesystem.updateMetadata(job.jobId, failed!.revision, (current) => {
+        current.attempts = [
+          {
+            stage: PIPELINE_STAGES.DOWNLOAD,
+            attempt: 1,
+            maxAttempts: 3,
+            reason: "RATE_LIMITED",
+            failedAt: new Date().toISOString(),
+            nextAttemptAt: new Date().toISOString(),
+          },
+        ];
+      });
+
+      await retryJob(job.jobId, "Automatic retry", { actor: Actor.SYSTEM });
+
+      const metadata = await filesystem.readMetadata(job.jobId);
+      expect(metadata?.state).toBe(JOB_STATES.NEW);
+      expect(metadata?.attempts?.[0].nextAttemptAt).toBeUndefined();
+      const logs = await JobsService.getJobLogs(job.jobId);
+      expect(logs.logs.some((log) => log.includes("[SYSTEM] Retrying job from DOWNLOAD: Automatic retry"))).toBe(true);
+    });
+
     it("should support multiple retries", async () => {
       const job = await JobsService.createJob("https://youtube.com/watch?v=test");
 
@@ -141,4 +172,127 @@ describe.sequential("Retry Logic", () => {
       expect(current.state).toBe("NEW");
     });
   });
+
+  describe("retryJob fromStage", () => {
+    /**
+     * Walk a job through download, separation and lyrics, then fail it in Audacity
+     */
+    async function createJobFailedInAudacity(preset?: string): Promise<string> {
+      const job = await JobsService.createJob("https://youtube.com/watch?v=test", { preset });
+      const stateDir = await filesystem.getJobStateDir(job.jobId);
+      const moves = createMoveOperations(filesystem, path.resolve(stateDir!.dir, "../../.."));
+
+      const runStage = async (stage: PipelineStage | null, actor: Actor, artifactType: string, fileName: string) => {
+        const from = stage ? JOB_STATES.DONE : JOB_STATES.NEW;
+        await moves.moveJob(job.jobId, from, JOB_STATES.CLAIMED, actor, stage ? { stage } : {});
+        await moves.moveJob(job.jobId, JOB_STATES.CLAIMED, JOB_STATES.RUNNING, actor);
+        await filesystem.writeArtifact(job.jobId, artifactType, fileName, `${artifactType} output`);
+      };
+
+      await runStage(null, Actor.DOWNLOAD_WORKER, "download", "audio.downloaded");
+      await moves.moveJob(job.jobId, JOB_STATES.RUNNING, JOB_STATES.DONE, Actor.DOWNLOAD_WORKER);
+      await runStage(PIPELINE_STAGES.SEPARATION, Actor.DEMUCS_WORKER, "stems", "vocals.wav");
+      await moves.moveJob(job.jobId, JOB_STATES.RUNNING, JOB_STATES.DONE, Actor.DEMUCS_WORKER);
+      await runStage(PIPELINE_STAGES.WAVEFORM, Actor.WAVEFORM_WORKER, "waveform", "index.json");
+      await moves.moveJob(job.jobId, JOB_STATES.RUNNING, JOB_STATES.DONE, Actor.WAVEFORM_WORKER);
+      await runStage(PIPELINE_STAGES.LYRICS, Actor.LYRICS_WORKER, "lyrics", "lyrics.lrc");
+      await moves.moveJob(job.jobId, JOB_STATES.RUNNING, JOB_STATES.DONE, Actor.LYRICS_WORKER);
+
+      const metadata = await filesystem.readMetadata(job.jobId);
+      await filesystem.updateMetadata(job.jobId, metadata!.revision, (current) => {
+        current.download = { status: "COMPLETE" };
+        current.separation = { status: "COMPLETE" };
+        current.waveform = { status: "COMPLETE" };
+        current.lyrics = { status: "COMPLETE" };
+      });
+
+      await moves.moveJob(job.jobId, JOB_STATES.DONE, JOB_STATES.CLAIMED, Actor.AUDACITY_WORKER, {
+        stage: PIPELINE_STAGES.AUDACITY,
+      });
+      await moves.moveJob(job.jobId, JOB_STATES.CLAIMED, JOB_STATES.RUNNING, Actor.AUDACITY_WORKER);
+      await moves.moveJob(job.jobId, JOB_STATES.RUNNING, JOB_STATES.FAILED, Actor.AUDACITY_WORKER);
+
+      return job.jobId;
+    }
+
+    it("should default to the failed stage and keep earlier results", async () => {
+      const jobId = await createJobFailedInAudacity();
+
+      const result = await retryJob(jobId);
+
+      expect(result.fromStage).toBe(PIPELINE_STAGES.AUDACITY);
+      expect(result.state).toBe(JOB_STATES.DONE);
+
+      const metadata = await filesystem.readMetadata(jobId);
+      expect(metadata?.state).toBe(JOB_STATES.DONE);
+      expect(metadata?.stage).toBe(PIPELINE_STAGES.LYRICS);
+      expect(metadata?.separation?.status).toBe("COMPLETE");
+      expect(metadata?.lyrics?.status).toBe("COMPLETE");
+    });
+
+    it("should clear results and checksums from the requested stage on", async () => {
+      const jobId = await createJobFailedInAudacity();
+
+      const result = await retryJob(jobId, "Redo lyrics", { fromStage: PIPELINE_STAGES.LYRICS });
+
+      expect(result.fromStage).toBe(PIPELINE_STAGES.LYRICS);
+      const metadata = await filesystem.readMetadata(jobId);
+      expect(metadata?.stage).toBe(PIPELINE_STAGES.WAVEFORM);
+      expect(metadata?.waveform?.status).toBe("COMPLETE");
+      expect(metadata?.lyrics).toBeUndefined();
+      expect(metadata?.artifactChecksums?.["lyrics/lyrics.lrc"]).toBeUndefined();
+      expect(metadata?.artifactChecksums?.["stems/vocals.wav"]).toBeDefined();
+    });
+
+    it("should fall back to the earliest stage whose artifacts fail verification", async () => {
+      const jobId = await createJobFailedInAudacity();
+      const stemPath = await filesystem.getArtifactPath(jobId, "stems", "vocals.wav");
+      await fs.writeFile(stemPath!, "corrupted");
+
+      const result = await retryJob(jobId);
+
+      expect(result.fromStage).toBe(PIPELINE_STAGES.SEPARATION);
+      const metadata = await filesystem.readMetadata(jobId);
+      expect(metadata?.stage).toBe(PIPELINE_STAGES.DOWNLOAD);
+      expect(metadata?.separation).toBeUndefined();
+
+      const logs = await filesystem.readJobLogs(jobId);
+      expect(logs.some((line) => line.includes("falls back to SEPARATION"))).toBe(true);
+    });
+
+    it("should keep stages a parallel pipeline runs independently of the fallback", async () => {
+      const jobId = await createJobFailedInAudacity("parallel");
+      const stemPath = await filesystem.getArtifactPath(jobId, "stems", "vocals.wav");
+      await fs.writeFile(stemPath!, "corrupted");
+
+      const result = await retryJob(jobId);
+
+      expect(result.fromStage).toBe(PIPELINE_STAGES.SEPARATION);
+      const metadata = await filesystem.readMetadata(jobId);
+      expect(metadata?.state).toBe(JOB_STATES.DONE);
+      expect(metadata?.separation).toBeUndefined();
+      expect(metadata?.lyrics?.status).toBe("COMPLETE");
+      expect(metadata?.pipeline?.completed).toEqual([PIPELINE_STAGES.DOWNLOAD, PIPELINE_STAGES.LYRICS]);
+    });
+
+    it("should restart from scratch when asked for DOWNLOAD", async () => {
+      const jobId = await createJobFailedInAudacity();
+
+      const result = await retryJob(jobId, "Start over", { fromStage: PIPELINE_STAGES.DOWNLOAD });
+
+      expect(result.state).toBe(JOB_STATES.NEW);
+      const metadata = await filesystem.readMetadata(jobId);
+      expect(metadata?.stage).toBe(PIPELINE_STAGES.DOWNLOAD);
+      expect(metadata?.download).toBeUndefined();
+      expect(metadata?.separation).toBeUndefined();
+    });
+
+    it("should reject a stage after the one that failed", async () => {
+      const jobId = await createJobFailedInAudacity();
+
+      await expect(retryJob(jobId, "Skip ahead", { fromStage: PIPELINE_STAGES.PACKAGING })).rejects.toThrow(
+        "it failed in AUDACITY"
+      );
+    });
+  });
 });
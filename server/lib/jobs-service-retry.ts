@@ -2,26 +2,86 @@
  * Retry Logic for JobsService
  *
  * Extends JobsService with retry functionality.
- * Allows users to retry failed jobs (FAILED → NEW).
+ * Allows users to retry failed jobs, from the start (FAILED → NEW) or from
+ * a later stage (FAILED → DONE) reusing the checksum-verified artifacts of
+ * the completed stages it does not depend on being rerun.
  */
 
-import { filesystem } from "./filesystem";
+import { filesystem, JobMetadata, JobPipeline, PipelineStage, PIPELINE_STAGES } from "./filesystem";
 import { createMoveOperations } from "./job-moves";
-import { Actor } from "./job-state";
-import { JOB_STATES } from "./filesystem";
+import { Actor, ActorName } from "./job-state";
+import { JOB_STATES, JOB_EVENT_TYPES } from "./filesystem";
+import { getAdapter, getStageResult } from "./adapter-registry";
+import { getDescendants, getJobPipeline, topologicalOrder } from "./pipeline";
+import { scheduleReadyStages } from "./queue";
 
 const STORAGE_ROOT = process.env.STORAGE_ROOT || "/tmp/ego-studio-jobs";
 const moves = createMoveOperations(filesystem, STORAGE_ROOT);
 
+/**
+ * Split a job's pipeline into the stages to run again and the completed ones to keep
+ * Rerun: fromStage, the failed stage and everything that depends on either.
+ */
+function planRerun(
+  pipeline: JobPipeline,
+  failedStage: PipelineStage,
+  fromStage: PipelineStage
+): { rerun: PipelineStage[]; kept: PipelineStage[] } {
+  const rerun = new Set<PipelineStage>([
+    fromStage,
+    failedStage,
+    ...Array.from(getDescendants(pipeline.stages, fromStage)),
+    ...Array.from(getDescendants(pipeline.stages, failedStage)),
+  ]);
+  const order = topologicalOrder(pipeline.stages) ?? [];
+
+  return {
+    rerun: order.filter((stage) => rerun.has(stage)),
+    kept: order.filter((stage) => pipeline.completed.includes(stage) && !rerun.has(stage)),
+  };
+}
+
+/**
+ * Find the earliest kept stage whose output cannot be reused
+ * Returns null if every kept stage completed and its artifacts verify
+ */
+async function findUnverifiedStage(
+  jobId: string,
+  metadata: JobMetadata,
+  kept: PipelineStage[]
+): Promise<{ stage: PipelineStage; reason: string } | null> {
+  for (const stage of kept) {
+    if (getStageResult(metadata, stage)?.status !== "COMPLETE") {
+      return { stage, reason: `stage ${stage} did not complete` };
+    }
+
+    const verification = await filesystem.verifyStageArtifacts(jobId, stage);
+    if (!verification.valid) {
+      return { stage, reason: verification.reason ?? `artifacts of ${stage} failed verification` };
+    }
+  }
+
+  return null;
+}
+
 /**
  * Retry a failed job
- * Transitions FAILED → NEW with reason logged
+ * Reruns fromStage (default: the stage that failed) and the stages of the job's
+ * pipeline that depend on it, with reason logged. Falls back to an earlier stage
+ * if the artifacts it would reuse do not verify.
+ * options.actor is SYSTEM for automatic retries of the retry policy (default: USER)
  */
-export async function retryJob(jobId: string, reason: string = "User retry"): Promise<{
+export async function retryJob(
+  jobId: string,
+  reason: string = "User retry",
+  options: { fromStage?: PipelineStage; actor?: ActorName } = {}
+): Promise<{
   jobId: string;
   state: string;
+  fromStage: PipelineStage;
   message: string;
 }> {
+  const actor = options.actor ?? Actor.USER;
   const metadata = await filesystem.readMetadata(jobId);
 
   if (!metadata) {
@@ -32,26 +92,110 @@ export async function retryJob(jobId: string, reason: string = "User retry"): Pr
     throw new Error(`Cannot retry job in state ${metadata.state}. Only FAILED jobs can be retried.`);
   }
 
-  console.log(`[JobsService.retryJob] Retrying job ${jobId} with reason: ${reason}`);
+  const pipeline = getJobPipeline(metadata);
+  const failedStage = metadata.stage ?? PIPELINE_STAGES.DOWNLOAD;
+  let fromStage = options.fromStage ?? failedStage;
+
+  if (!getAdapter(fromStage)) {
+    throw new Error(`Cannot retry job from ${fromStage}: no such stage`);
+  }
+
+  if (!pipeline.stages.some((node) => node.stage === fromStage)) {
+    throw new Error(`Cannot retry job from ${fromStage}: not in the ${pipeline.preset} pipeline`);
+  }
+
+  if (fromStage !== failedStage && !pipeline.completed.includes(fromStage)) {
+    throw new Error(`Cannot retry job from ${fromStage}: it failed in ${failedStage}, which must run again first`);
+  }
+
+  // Reuse completed stages only if their artifacts are intact
+  let plan = planRerun(pipeline, failedStage, fromStage);
+  for (;;) {
+    const unverified = await findUnverifiedStage(jobId, metadata, plan.kept);
+    if (!unverified) {
+      break;
+    }
+
+    console.log(
+      `[JobsService.retryJob] Cannot reuse output of ${unverified.stage} for job ${jobId} (${unverified.reason}), retrying from ${unverified.stage}`
+    );
+    await filesystem.appendToJobLog(
+      jobId,
+      `[${actor}] Retry falls back to ${unverified.stage}: ${unverified.reason}`
+    );
+    fromStage = unverified.stage;
+    plan = planRerun(pipeline, failedStage, fromStage);
+  }
+
+  console.log(`[JobsService.retryJob] Retrying job ${jobId} from ${fromStage} with reason: ${reason}`);
+
+  // Clear results of rerun stages and rewind the stage (rejected if a worker touched the job since we read it)
+  const { rerun, kept } = plan;
+  const previousStage = kept[kept.length - 1];
+  await filesystem.updateMetadata(jobId, metadata.revision, (current) => {
+    for (const stage of rerun) {
+      const resultKey = getAdapter(stage)?.resultKey;
+      if (resultKey) {
+        delete (current as unknown as Record<string, unknown>)[resultKey];
+      }
+    }
+    for (const [key, checksum] of Object.entries(current.artifactChecksums ?? {})) {
+      if (rerun.includes(checksum.stage)) {
+        delete current.artifactChecksums![key];
+      }
+    }
+    if (current.pipeline) {
+      current.pipeline.completed = kept;
+    }
+    current.stage = previousStage ?? PIPELINE_STAGES.DOWNLOAD;
+    // The job is retried now, so no automatic retry is pending
+    for (const attempt of current.attempts ?? []) {
+      delete attempt.nextAttemptAt;
+    }
+  });
 
   // Log the retry
-  await filesystem.appendToJobLog(jobId, `[USER] Retrying job: ${reason}`);
+  await filesystem.appendToJobLog(jobId, `[${actor}] Retrying job from ${fromStage}: ${reason}`);
+  await filesystem.appendJobEvent(jobId, {
+    type: JOB_EVENT_TYPES.RETRY,
+    actor,
+    stage: failedStage,
+    payload: { reason, fromStage },
+  });
+
+  if (!previousStage) {
+    // Transition FAILED → NEW (full restart)
+    await moves.moveJob(jobId, JOB_STATES.FAILED as any, JOB_STATES.NEW as any, actor);
+
+    console.log(`[JobsService.retryJob] Job ${jobId} reset to NEW state`);
+
+    return {
+      jobId,
+      state: JOB_STATES.NEW,
+      fromStage,
+      message: `Job ${jobId} has been reset and will be retried`,
+    };
+  }
 
-  // Transition FAILED → NEW
-  await moves.moveJob(jobId, JOB_STATES.FAILED as any, JOB_STATES.NEW as any, Actor.USER);
+  // Transition FAILED → DONE: the job looks as it did when the kept stages finished
+  await moves.moveJob(jobId, JOB_STATES.FAILED as any, JOB_STATES.DONE as any, actor);
 
-  // Clear previous failure info
-  const updated = await filesystem.readMetadata(jobId);
-  if (updated) {
-    updated.download = undefined;
-    await filesystem.writeMetadata(jobId, updated);
+  try {
+    await scheduleReadyStages(jobId);
+  } catch (enqueueError) {
+    console.error(`[JobsService.retryJob] Failed to enqueue job ${jobId} for ${fromStage}:`, enqueueError);
+    await filesystem.appendToJobLog(
+      jobId,
+      `[${actor}] WARNING: Failed to enqueue for ${fromStage}: ${String(enqueueError)}`
+    );
   }
 
-  console.log(`[JobsService.retryJob] Job ${jobId} reset to NEW state`);
+  console.log(`[JobsService.retryJob] Job ${jobId} resumed after ${kept.join(", ")}`);
 
   return {
     jobId,
-    state: JOB_STATES.NEW,
-    message: `Job ${jobId} has been reset and will be retried`,
+    state: JOB_STATES.DONE,
+    fromStage,
+    message: `Job ${jobId} will be retried from ${fromStage}, reusing output of ${kept.join(", ")}`,
   };
 }
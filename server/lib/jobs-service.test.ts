@@ -255,6 +255,7 @@ describe.sequential("JobsService Integration", () => {
       expect(result.status).toBe("ok");
       expect(result.timestamp).toBeInstanceOf(Date);
       expect(result.jobsCount).toBeGreaterThanOrEqual(0);
+      expect(result.workers).toEqual({ total: expect.any(Number), stale: expect.any(Number) });
     });
 
     it("should count jobs correctly", async () => {
@@ -4,7 +4,7 @@
  * Responsibilities:
  * - Convert filesystem state to tRPC response shapes
  * - Orchestrate state transitions via state machine
- * - Provide high-level operations (create, list, get, logs, artifacts)
+ * - Provide high-level operations (create, list, get, logs, events, artifacts)
  * - Maintain API contract with UI (no shape changes)
  *
  * Architecture:
@@ -17,7 +17,14 @@
 import { filesystem } from "./filesystem";
 import { createMoveOperations } from "./job-moves";
 import { Actor, validateTransition } from "./job-state";
-import { JOB_STATES } from "./filesystem";
+import { createPipeline } from "./pipeline";
+import { createSchedule } from "./job-scheduler";
+import { getQueuePosition, QueuePosition } from "./queue";
+import { getRetryStatus, RetryStatus } from "./retry-policy";
+import { createWorkerRegistry } from "./worker-registry";
+import { WaveformIndex, waveformFileName, WaveformPeaks, WAVEFORM_INDEX_FILE } from "./waveform";
+import { JOB_STATES, JobEvent, JobEventQuery, JobPriority } from "./filesystem";
+import fs from "fs-extra";
 import path from "path";
 
 // Get storage root from environment
@@ -25,30 +32,75 @@ const STORAGE_ROOT = process.env.STORAGE_ROOT || "/tmp/ego-studio-jobs";
 
 // Create move operations with production filesystem
 const moves = createMoveOperations(filesystem, STORAGE_ROOT);
+const workerRegistry = createWorkerRegistry(STORAGE_ROOT);
 
 /**
  * Job response shape (matches tRPC contract)
  */
 export interface JobResponse {
   jobId: string;
-  state: "NEW" | "CLAIMED" | "RUNNING" | "DONE" | "FAILED";
+  state: "SCHEDULED" | "NEW" | "CLAIMED" | "RUNNING" | "DONE" | "FAILED" | "COMPLETE" | "CANCELLED" | "ARCHIVED";
+  stage?: string;
   failureReason?: string;
+  // Place in line for a fair-queued stage (jobs.get only)
+  queue?: QueuePosition;
+  // Attempt of a stage the retry policy is retrying, or the last one it made
+  retry?: RetryStatus;
   metadata: {
     jobId: string;
     youtubeUrl: string;
     state: string;
+    stage?: string;
     createdAt: string;
     updatedAt: string;
     title?: string;
     artist?: string;
+    cancelRequestedAt?: string;
+    pausedAt?: string;
+    priority?: string;
+    schedule?: {
+      runAt: string;
+      cron?: string;
+      runs?: number;
+      lastRunAt?: string;
+    };
+    scheduledFrom?: string;
+    archive?: {
+      url: string;
+      bytes: number;
+      archivedAt: string;
+    };
+    pipeline?: {
+      preset: string;
+      stages: { stage: string; dependsOn: string[] }[];
+      completed: string[];
+    };
     download?: {
       status: string;
       reason?: string;
       message?: string;
       label?: string;
+      filePath?: string;
     };
     separation?: {
       status: string;
+      device?: string;
+      stems?: Record<string, { sampleRate: number; channels: number; numSamples: number; durationSec: number }>;
+    };
+    waveform?: {
+      status: string;
+      sources?: string[];
+      zoomLevels?: number[];
+      durationSec?: number;
+      error?: string;
+    };
+    analysis?: {
+      status: string;
+      bpm?: number;
+      confidence?: number;
+      source?: string;
+      beatsPerBar?: number;
+      error?: string;
     };
     lyrics?: {
       status: string;
@@ -56,6 +108,10 @@ export interface JobResponse {
     audacity?: {
       status: string;
     };
+    packaging?: {
+      status: string;
+      zipUrl?: string;
+    };
     file?: {
       filename: string;
       uploadedFilename: string;
@@ -68,13 +124,36 @@ export interface JobResponse {
   updatedAt: Date;
 }
 
+/**
+ * Options for creating a job
+ */
+export interface CreateJobRequest {
+  // Pipeline the job runs (see pipeline.ts; default: all stages in order)
+  preset?: string;
+  // User the job is shared fairly with in fair-queued stages
+  ownerId?: string;
+  priority?: JobPriority;
+  // Wait in SCHEDULED until runAt, or run on a cron schedule (see job-scheduler.ts)
+  runAt?: string;
+  cron?: string;
+}
+
 /**
  * Create a new job from YouTube URL
  */
-export async function createJob(youtubeUrl: string): Promise<JobResponse> {
-  const { jobId, metadata } = await filesystem.createJobFolder(youtubeUrl);
+export async function createJob(youtubeUrl: string, options: CreateJobRequest = {}): Promise<JobResponse> {
+  const pipeline = createPipeline(options.preset);
+  const schedule = createSchedule({ runAt: options.runAt, cron: options.cron });
+  const { jobId, metadata } = await filesystem.createJobFolder(youtubeUrl, {
+    pipeline,
+    ownerId: options.ownerId,
+    priority: options.priority,
+    schedule,
+  });
 
-  console.log(`[JobsService.createJob] Created job ${jobId} for ${youtubeUrl}`);
+  console.log(
+    `[JobsService.createJob] Created job ${jobId} for ${youtubeUrl} (pipeline: ${pipeline.preset}${schedule ? `, scheduled for ${schedule.runAt}` : ""})`
+  );
 
   return jobToResponse(jobId, metadata);
 }
@@ -86,6 +165,7 @@ export async function listJobs(options: {
   limit?: number;
   offset?: number;
   state?: string;
+  stage?: string;
 }): Promise<JobResponse[]> {
   const limit = options.limit || 50;
   const offset = options.offset || 0;
@@ -99,6 +179,11 @@ export async function listJobs(options: {
     filtered = allJobs.filter((j) => j.metadata.state === options.state);
   }
 
+  // Filter by pipeline stage if provided
+  if (options.stage) {
+    filtered = filtered.filter((j) => j.metadata.stage === options.stage);
+  }
+
   // Sort by createdAt descending
   filtered.sort(
     (a, b) =>
@@ -128,7 +213,8 @@ export async function getJob(jobId: string): Promise<JobResponse> {
 
   console.log(`[JobsService.getJob] Retrieved job ${jobId}`);
 
-  return jobToResponse(jobId, metadata);
+  const queue = await getQueuePosition(jobId);
+  return { ...jobToResponse(jobId, metadata), ...(queue && { queue }) };
 }
 
 /**
@@ -155,6 +241,32 @@ export async function getJobLogs(jobId: string): Promise<{
   };
 }
 
+/**
+ * Get structured events for a job
+ */
+export async function getJobEvents(
+  jobId: string,
+  query: JobEventQuery = {}
+): Promise<{
+  jobId: string;
+  events: JobEvent[];
+}> {
+  // Verify job exists
+  const metadata = await filesystem.readMetadata(jobId);
+  if (!metadata) {
+    throw new Error(`Job ${jobId} not found`);
+  }
+
+  const events = await filesystem.readJobEvents(jobId, query);
+
+  console.log(`[JobsService.getJobEvents] Retrieved ${events.length} events for job ${jobId}`);
+
+  return {
+    jobId,
+    events,
+  };
+}
+
 /**
  * Get artifacts for a job
  */
@@ -162,8 +274,11 @@ export async function getJobArtifacts(jobId: string): Promise<{
   jobId: string;
   download?: any;
   separation?: any;
+  waveform?: any;
+  analysis?: any;
   lyrics?: any;
   audacity?: any;
+  packaging?: any;
 }> {
   // Verify job exists
   const metadata = await filesystem.readMetadata(jobId);
@@ -177,9 +292,54 @@ export async function getJobArtifacts(jobId: string): Promise<{
     jobId,
     download: metadata.download,
     separation: metadata.separation,
+    waveform: metadata.waveform,
+    analysis: metadata.analysis,
     lyrics: metadata.lyrics,
     audacity: metadata.audacity,
+    packaging: metadata.packaging,
+  };
+}
+
+/**
+ * Get the waveform peaks of a job at one zoom level (the coarsest by default)
+ */
+export async function getJobWaveform(
+  jobId: string,
+  samplesPerPixel?: number
+): Promise<{
+  jobId: string;
+  index: WaveformIndex;
+  samplesPerPixel: number;
+  peaks: Record<string, WaveformPeaks>;
+}> {
+  const metadata = await filesystem.readMetadata(jobId);
+  if (!metadata) {
+    throw new Error(`Job ${jobId} not found`);
+  }
+  if (metadata.waveform?.status !== "COMPLETE") {
+    throw new Error(`Job ${jobId} has no waveform (status: ${metadata.waveform?.status ?? "none"})`);
+  }
+
+  const readArtifact = async <T>(fileName: string): Promise<T> => {
+    const artifactPath = await filesystem.getArtifactPath(jobId, "waveform", fileName);
+    if (!artifactPath) {
+      throw new Error(`Waveform artifact ${fileName} of job ${jobId} not found`);
+    }
+    return fs.readJson(artifactPath);
   };
+
+  const index = await readArtifact<WaveformIndex>(WAVEFORM_INDEX_FILE);
+  const zoom = samplesPerPixel ?? index.zoomLevels[index.zoomLevels.length - 1];
+  if (!index.zoomLevels.includes(zoom)) {
+    throw new Error(`No waveform at ${zoom} samples per pixel (available: ${index.zoomLevels.join(", ")})`);
+  }
+
+  const peaks: Record<string, WaveformPeaks> = {};
+  for (const source of index.sources) {
+    peaks[source] = await readArtifact<WaveformPeaks>(waveformFileName(source, zoom));
+  }
+
+  return { jobId, index, samplesPerPixel: zoom, peaks };
 }
 
 /**
@@ -218,9 +378,10 @@ export async function simulateProgress(jobId: string): Promise<JobResponse> {
   if (nextState === JOB_STATES.DONE) {
     const updated = await filesystem.readMetadata(jobId);
     if (updated) {
-      updated.download = { status: "COMPLETE", title: "Example Song", artist: "Example Artist" };
-      updated.separation = { status: "COMPLETE" };
-      await filesystem.writeMetadata(jobId, updated);
+      await filesystem.updateMetadata(jobId, updated.revision, (current) => {
+        current.download = { status: "COMPLETE", title: "Example Song", artist: "Example Artist" };
+        current.separation = { status: "COMPLETE" };
+      });
     }
   }
 
@@ -254,7 +415,14 @@ export async function simulateFailure(
   // Note: State machine allows CLAIMED/RUNNING → FAILED
   const currentState = metadata.state;
 
-  if (currentState === JOB_STATES.NEW || currentState === JOB_STATES.DONE) {
+  if (
+    currentState === JOB_STATES.SCHEDULED ||
+    currentState === JOB_STATES.NEW ||
+    currentState === JOB_STATES.DONE ||
+    currentState === JOB_STATES.COMPLETE ||
+    currentState === JOB_STATES.CANCELLED ||
+    currentState === JOB_STATES.ARCHIVED
+  ) {
     throw new Error(`Cannot fail job in state ${currentState}`);
   }
 
@@ -266,12 +434,13 @@ export async function simulateFailure(
   // Update metadata with failure reason
   const updated = await filesystem.readMetadata(jobId);
   if (updated) {
-    updated.download = {
-      status: "FAILED",
-      reason,
-      message: `Download failed: ${reason}`,
-    };
-    await filesystem.writeMetadata(jobId, updated);
+    await filesystem.updateMetadata(jobId, updated.revision, (current) => {
+      current.download = {
+        status: "FAILED",
+        reason,
+        message: `Download failed: ${reason}`,
+      };
+    });
   }
 
   // Read final metadata
@@ -294,8 +463,11 @@ export async function health(): Promise<{
   status: string;
   timestamp: Date;
   jobsCount: number;
+  // Counts only; per-worker detail is admin-only (workers.list)
+  workers: { total: number; stale: number };
 }> {
   const allJobs = await filesystem.listAllJobs();
+  const workers = await workerRegistry.list();
 
   console.log("[JobsService.health] Health check");
 
@@ -303,6 +475,7 @@ export async function health(): Promise<{
     status: "ok",
     timestamp: new Date(),
     jobsCount: allJobs.length,
+    workers: { total: workers.length, stale: workers.filter((worker) => worker.stale).length },
   };
 }
 
@@ -310,22 +483,36 @@ export async function health(): Promise<{
  * Convert filesystem metadata to tRPC response shape
  */
 function jobToResponse(jobId: string, metadata: any): JobResponse {
+  const retry = getRetryStatus(metadata);
   return {
     jobId,
     state: metadata.state,
+    stage: metadata.stage,
     failureReason: metadata.download?.reason,
+    ...(retry && { retry }),
     metadata: {
       jobId: metadata.id || jobId,
       youtubeUrl: metadata.youtubeUrl,
       state: metadata.state,
+      stage: metadata.stage,
       createdAt: metadata.createdAt,
       updatedAt: metadata.updatedAt,
       title: metadata.title,
       artist: metadata.artist,
+      cancelRequestedAt: metadata.cancelRequestedAt,
+      pausedAt: metadata.pausedAt,
+      priority: metadata.priority,
+      schedule: metadata.schedule,
+      scheduledFrom: metadata.scheduledFrom,
+      archive: metadata.archive,
+      pipeline: metadata.pipeline,
       download: metadata.download,
       separation: metadata.separation,
+      waveform: metadata.waveform,
+      analysis: metadata.analysis,
       lyrics: metadata.lyrics,
       audacity: metadata.audacity,
+      packaging: metadata.packaging,
       file: metadata.file,
     },
     createdAt: new Date(metadata.createdAt),
@@ -0,0 +1,221 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import fs from "fs-extra";
+import path from "path";
+import { createFilesystem, JOB_STATES, PIPELINE_STAGES, PipelineStage } from "./filesystem";
+import { Actor } from "./job-state";
+import { getJobPipeline, getReadyStages } from "./pipeline";
+import { createMoveOperations } from "./job-moves";
+import { createLeaseOperations } from "./job-lease";
+import { createLeaseSweeper } from "./lease-sweeper";
+
+const TEST_STORAGE_ROOT = "/tmp/ego-studio-jobs-test-leases";
+
+describe.sequential("Leases and Sweeper", () => {
+  let filesystem: ReturnType<typeof createFilesystem>;
+  let moves: ReturnType<typeof createMoveOperations>;
+  let leases: ReturnType<typeof createLeaseOperations>;
+  let testDir: string;
+
+  beforeEach(async () => {
+    testDir = `${TEST_STORAGE_ROOT}-${Date.now()}-${Math.random()}`;
+    await fs.ensureDir(testDir);
+    filesystem = createFilesystem(testDir);
+    moves = createMoveOperations(filesystem, testDir);
+    leases = createLeaseOperations(filesystem);
+    await filesystem.initializeStorage();
+  });
+
+  afterEach(async () => {
+    try {
+      if (testDir) {
+        await fs.remove(testDir);
+      }
+    } catch (e) {
+      // Ignore cleanup errors
+    }
+  });
+
+  async function claim(holder: string, durationMs: number): Promise<string> {
+    const { jobId } = await filesystem.createJobFolder("https://youtube.com/watch?v=test");
+    await moves.moveJob(jobId, JOB_STATES.NEW, JOB_STATES.CLAIMED, Actor.DOWNLOAD_WORKER, {
+      lease: { holder, durationMs },
+    });
+    return jobId;
+  }
+
+  async function expireLease(jobId: string): Promise<void> {
+    // Write directly to bypass writeMetadata
+    const stateDir = await filesystem.getJobStateDir(jobId);
+    const metadata = await filesystem.readMetadata(jobId);
+    if (stateDir && metadata) {
+      metadata.leaseExpiresAt = new Date(Date.now() - 1000).toISOString();
+      await fs.writeJSON(path.join(stateDir.dir, "metadata.json"), metadata, { spaces: 2 });
+    }
+  }
+
+  describe("lease acquisition", () => {
+    it("should record holder and expiry when claiming", async () => {
+      const jobId = await claim("worker-a", 60000);
+
+      const metadata = await filesystem.readMetadata(jobId);
+      expect(metadata?.leaseHolder).toBe("worker-a");
+      expect(new Date(metadata!.leaseExpiresAt!).getTime()).toBeGreaterThan(Date.now());
+    });
+
+    it("should keep the lease through CLAIMED -> RUNNING", async () => {
+      const jobId = await claim("worker-a", 60000);
+      await moves.moveJob(jobId, JOB_STATES.CLAIMED, JOB_STATES.RUNNING, Actor.DOWNLOAD_WORKER);
+
+      const metadata = await filesystem.readMetadata(jobId);
+      expect(metadata?.leaseHolder).toBe("worker-a");
+    });
+
+    it("should drop the lease when the job leaves RUNNING", async () => {
+      const jobId = await claim("worker-a", 60000);
+      await moves.moveJob(jobId, JOB_STATES.CLAIMED, JOB_STATES.RUNNING, Actor.DOWNLOAD_WORKER);
+      await moves.moveJob(jobId, JOB_STATES.RUNNING, JOB_STATES.DONE, Actor.DOWNLOAD_WORKER);
+
+      const metadata = await filesystem.readMetadata(jobId);
+      expect(metadata?.leaseHolder).toBeUndefined();
+      expect(metadata?.leaseExpiresAt).toBeUndefined();
+    });
+  });
+
+  describe("renewLease", () => {
+    it("should extend the lease for the holder", async () => {
+      const jobId = await claim("worker-a", 1000);
+      const before = (await filesystem.readMetadata(jobId))!.leaseExpiresAt!;
+
+      const renewed = await leases.renewLease(jobId, "worker-a", 60000);
+
+      expect(renewed).toBe(true);
+      const after = (await filesystem.readMetadata(jobId))!.leaseExpiresAt!;
+      expect(new Date(after).getTime()).toBeGreaterThan(new Date(before).getTime());
+    });
+
+    it("should refuse renewal by another holder", async () => {
+      const jobId = await claim("worker-a", 60000);
+
+      const renewed = await leases.renewLease(jobId, "worker-b", 60000);
+
+      expect(renewed).toBe(false);
+      expect((await filesystem.readMetadata(jobId))?.leaseHolder).toBe("worker-a");
+    });
+
+    it("should refuse renewal after the job was reclaimed", async () => {
+      const jobId = await claim("worker-a", 60000);
+      await expireLease(jobId);
+      await moves.reclaimJob(jobId);
+
+      expect(await leases.renewLease(jobId, "worker-a", 60000)).toBe(false);
+    });
+  });
+
+  describe("startHeartbeat", () => {
+    it("should keep renewing until stopped", async () => {
+      const jobId = await claim("worker-a", 200);
+
+      const heartbeat = leases.startHeartbeat(jobId, "worker-a", { durationMs: 200, intervalMs: 50 });
+      await new Promise((resolve) => setTimeout(resolve, 400));
+      heartbeat.stop();
+
+      const metadata = await filesystem.readMetadata(jobId);
+      expect(new Date(metadata!.leaseExpiresAt!).getTime()).toBeGreaterThan(Date.now());
+      expect(heartbeat.isLost()).toBe(false);
+    });
+
+    it("should stop by itself once the lease is lost", async () => {
+      const jobId = await claim("worker-a", 60000);
+      await expireLease(jobId);
+      await moves.reclaimJob(jobId);
+
+      const heartbeat = leases.startHeartbeat(jobId, "worker-a", { intervalMs: 20 });
+      await new Promise((resolve) => setTimeout(resolve, 100));
+      heartbeat.stop();
+
+      expect(heartbeat.isLost()).toBe(true);
+    });
+  });
+
+  describe("sweep", () => {
+    it("should reclaim jobs whose lease lapsed", async () => {
+      const jobId = await claim("crashed-worker", 60000);
+      await moves.moveJob(jobId, JOB_STATES.CLAIMED, JOB_STATES.RUNNING, Actor.DOWNLOAD_WORKER);
+      await expireLease(jobId);
+
+      const result = await createLeaseSweeper(filesystem, moves).sweep();
+
+      expect(result.reclaimed).toEqual([jobId]);
+      const stateDir = await filesystem.getJobStateDir(jobId);
+      expect(stateDir?.state).toBe(JOB_STATES.NEW);
+
+      const logs = await filesystem.readJobLogs(jobId);
+      expect(logs.some((line) => line.includes("held by crashed-worker"))).toBe(true);
+    });
+
+    it("should hand a job reclaimed mid-pipeline back to the owner of its stage", async () => {
+      const jobId = await claim("worker-a", 60000);
+      await moves.moveJob(jobId, JOB_STATES.CLAIMED, JOB_STATES.RUNNING, Actor.DOWNLOAD_WORKER);
+      await moves.moveJob(jobId, JOB_STATES.RUNNING, JOB_STATES.DONE, Actor.DOWNLOAD_WORKER);
+      await moves.moveJob(jobId, JOB_STATES.DONE, JOB_STATES.CLAIMED, Actor.DEMUCS_WORKER, {
+        stage: PIPELINE_STAGES.SEPARATION,
+        lease: { holder: "crashed-worker", durationMs: 60000 },
+      });
+      await moves.moveJob(jobId, JOB_STATES.CLAIMED, JOB_STATES.RUNNING, Actor.DEMUCS_WORKER);
+      await expireLease(jobId);
+
+      const scheduled: PipelineStage[] = [];
+      const schedule = async (id: string) => {
+        const stages = getReadyStages((await filesystem.readMetadata(id))!);
+        scheduled.push(...stages);
+        return stages;
+      };
+      const result = await createLeaseSweeper(filesystem, moves, { schedule }).sweep();
+
+      expect(result).toMatchObject({ reclaimed: [jobId], errors: [] });
+      const metadata = await filesystem.readMetadata(jobId);
+      expect(metadata?.state).toBe(JOB_STATES.DONE);
+      expect(metadata?.stage).toBe(PIPELINE_STAGES.DOWNLOAD);
+      expect(getJobPipeline(metadata!).completed).toEqual([PIPELINE_STAGES.DOWNLOAD]);
+      expect(scheduled).toEqual([PIPELINE_STAGES.SEPARATION]);
+
+      // Each stage owner claims the job from DONE, starting with the interrupted SEPARATION
+      const owners: [PipelineStage, Actor][] = [
+        [PIPELINE_STAGES.SEPARATION, Actor.DEMUCS_WORKER],
+        [PIPELINE_STAGES.WAVEFORM, Actor.WAVEFORM_WORKER],
+        [PIPELINE_STAGES.LYRICS, Actor.LYRICS_WORKER],
+        [PIPELINE_STAGES.AUDACITY, Actor.AUDACITY_WORKER],
+        [PIPELINE_STAGES.PACKAGING, Actor.PACKAGING_WORKER],
+      ];
+      for (const [stage, actor] of owners) {
+        await moves.moveJob(jobId, JOB_STATES.DONE, JOB_STATES.CLAIMED, actor, { stage });
+        await moves.moveJob(jobId, JOB_STATES.CLAIMED, JOB_STATES.RUNNING, actor);
+        const toState = stage === PIPELINE_STAGES.PACKAGING ? JOB_STATES.COMPLETE : JOB_STATES.DONE;
+        await moves.moveJob(jobId, JOB_STATES.RUNNING, toState, actor);
+      }
+
+      expect((await filesystem.readMetadata(jobId))?.state).toBe(JOB_STATES.COMPLETE);
+    });
+
+    it("should leave jobs with a live lease alone", async () => {
+      const jobId = await claim("worker-a", 60000);
+
+      const result = await createLeaseSweeper(filesystem, moves).sweep();
+
+      expect(result.scanned).toBe(1);
+      expect(result.reclaimed).toHaveLength(0);
+      expect((await filesystem.getJobStateDir(jobId))?.state).toBe(JOB_STATES.CLAIMED);
+    });
+
+    it("should give lease-less jobs a grace period", async () => {
+      const { jobId } = await filesystem.createJobFolder("https://youtube.com/watch?v=test");
+      await moves.moveJob(jobId, JOB_STATES.NEW, JOB_STATES.CLAIMED, Actor.SYSTEM);
+
+      const patient = await createLeaseSweeper(filesystem, moves, { graceMs: 60000 }).sweep();
+      expect(patient.reclaimed).toHaveLength(0);
+
+      const strict = await createLeaseSweeper(filesystem, moves, { graceMs: 0 }).sweep();
+      expect(strict.reclaimed).toEqual([jobId]);
+    });
+  });
+});
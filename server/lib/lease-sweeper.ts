@@ -0,0 +1,106 @@
+/**
+ * Lease Sweeper (utility adapter)
+ *
+ * Scans CLAIMED/ and RUNNING/ for jobs whose lease lapsed and hands them
+ * back via reclaimJob (system-owned transition): to NEW, where the
+ * orchestrator dispatches them, or, past their first stage, to DONE, where
+ * the sweeper enqueues the stage again.
+ * Crashed workers stop heartbeating, so their jobs get reclaimed here.
+ *
+ * Jobs without any lease (claimed before leases existed, or by code that
+ * does not take one) are only reclaimed once they have been idle for the
+ * grace period, measured from metadata.updatedAt.
+ */
+
+import { filesystem as productionFilesystem, JOB_STATES, FilesystemAPI, PipelineStage } from "./filesystem";
+import { createMoveOperations } from "./job-moves";
+import { LEASE_DURATION_MS } from "./job-lease";
+import { scheduleReadyStages } from "./queue";
+
+export interface SweepResult {
+  scanned: number;
+  reclaimed: string[];
+  errors: string[];
+}
+
+/**
+ * Factory function to create a lease sweeper
+ *
+ * @param filesystem - FilesystemAPI instance
+ * @param moves - Move operations bound to the same filesystem
+ * @param options.graceMs - Idle time before a lease-less job is reclaimed
+ * @param options.schedule - Enqueues a job's ready stages (default: scheduleReadyStages)
+ */
+export function createLeaseSweeper(
+  filesystem: FilesystemAPI,
+  moves: ReturnType<typeof createMoveOperations>,
+  options: { graceMs?: number; schedule?: (jobId: string) => Promise<PipelineStage[]> } = {}
+) {
+  const graceMs = options.graceMs ?? LEASE_DURATION_MS;
+  const schedule = options.schedule ?? scheduleReadyStages;
+
+  /**
+   * Reclaim every job whose lease lapsed
+   */
+  async function sweep(): Promise<SweepResult> {
+    const result: SweepResult = { scanned: 0, reclaimed: [], errors: [] };
+
+    for (const state of [JOB_STATES.CLAIMED, JOB_STATES.RUNNING]) {
+      const jobIds = await filesystem.listJobsByState(state);
+
+      for (const jobId of jobIds) {
+        result.scanned++;
+
+        try {
+          const metadata = await filesystem.readMetadata(jobId);
+          if (!metadata) {
+            continue;
+          }
+
+          // Give lease-less jobs the grace period before treating them as abandoned
+          if (!metadata.leaseExpiresAt && Date.now() - new Date(metadata.updatedAt).getTime() < graceMs) {
+            continue;
+          }
+
+          if (await moves.reclaimJob(jobId)) {
+            result.reclaimed.push(jobId);
+            console.log(`[LeaseSweeper] Reclaimed job ${jobId} from ${state}`);
+
+            // Between stages no dispatcher picks the job up; if this fails, the dead-letter reconciler does
+            if ((await filesystem.readMetadata(jobId))?.state === JOB_STATES.DONE) {
+              const stages = await schedule(jobId);
+              console.log(`[LeaseSweeper] Requeued job ${jobId} for ${stages.join(", ")}`);
+            }
+          }
+        } catch (err) {
+          const errorMsg = `Failed to sweep ${jobId}: ${err instanceof Error ? err.message : String(err)}`;
+          result.errors.push(errorMsg);
+          console.error(`[LeaseSweeper] ${errorMsg}`);
+        }
+      }
+    }
+
+    return result;
+  }
+
+  return {
+    sweep,
+  };
+}
+
+/**
+ * Schedule the sweeper to run periodically against the production filesystem
+ * @param intervalMs - Interval in milliseconds (default: 30 seconds)
+ */
+export function scheduleLeaseSweep(intervalMs: number = 30 * 1000): NodeJS.Timeout {
+  const storageRoot = process.env.STORAGE_ROOT || "/tmp/ego-studio-jobs";
+  const sweeper = createLeaseSweeper(productionFilesystem, createMoveOperations(productionFilesystem, storageRoot));
+
+  console.log(`[LeaseSweeper] Scheduling lease sweep every ${Math.floor(intervalMs / 1000)} seconds`);
+
+  return setInterval(() => {
+    sweeper.sweep().catch((err) => {
+      console.error("[LeaseSweeper] Scheduled sweep failed:", err);
+    });
+  }, intervalMs);
+}
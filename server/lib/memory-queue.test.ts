@@ -0,0 +1,271 @@
+import { describe, it, expect, afterEach } from "vitest";
+import fs from "fs-extra";
+import { createMemoryQueue, getBackoffDelay } from "./memory-queue";
+import type { QueueJob, WorkQueue } from "./queue-backend";
+
+const TEST_PERSIST_DIR = "/tmp/ego-studio-jobs-test-memory-queue";
+
+async function waitFor(condition: () => boolean | Promise<boolean>, timeoutMs = 2000): Promise<void> {
+  const deadline = Date.now() + timeoutMs;
+  while (!(await condition())) {
+    if (Date.now() > deadline) {
+      throw new Error("Timed out waiting for condition");
+    }
+    await new Promise((resolve) => setTimeout(resolve, 5));
+  }
+}
+
+describe.sequential("Memory Queue", () => {
+  let queues: WorkQueue<{ n: number }>[] = [];
+  let persistDir: string | undefined;
+
+  function createQueue(options: { persistDir?: string; maxStalledCount?: number } = {}) {
+    const queue = createMemoryQueue<{ n: number }>("test-queue", options);
+    queues.push(queue);
+    return queue;
+  }
+
+  afterEach(async () => {
+    for (const queue of queues) {
+      await queue.close();
+    }
+    queues = [];
+
+    try {
+      if (persistDir) {
+        await fs.remove(persistDir);
+        persistDir = undefined;
+      }
+    } catch (e) {
+      // Ignore cleanup errors
+    }
+  });
+
+  it("should run at most `concurrency` jobs at once", async () => {
+    const queue = createQueue();
+    const done: number[] = [];
+    let running = 0;
+    let maxRunning = 0;
+
+    queue.process(2, async (job) => {
+      running++;
+      maxRunning = Math.max(maxRunning, running);
+      await new Promise((resolve) => setTimeout(resolve, 20));
+      running--;
+    });
+    queue.on("completed", (job) => done.push(job.data.n));
+
+    for (const n of [1, 2, 3, 4]) {
+      await queue.add({ n });
+    }
+    await waitFor(() => done.length === 4);
+
+    expect(maxRunning).toBe(2);
+    expect(done.sort()).toEqual([1, 2, 3, 4]);
+    expect(await queue.getCompletedCount()).toBe(4);
+  });
+
+  it("should let running jobs finish but start no more once paused", async () => {
+    const queue = createQueue();
+    const done: number[] = [];
+    let release: () => void = () => {};
+
+    queue.process(1, async (job) => {
+      if (job.data.n === 1) {
+        await new Promise<void>((resolve) => (release = resolve));
+      }
+    });
+    queue.on("completed", (job) => done.push(job.data.n));
+
+    await queue.add({ n: 1 });
+    await queue.add({ n: 2 });
+    await waitFor(async () => (await queue.getActiveCount()) === 1);
+
+    await queue.pause();
+    await queue.add({ n: 3 });
+    release();
+    await waitFor(() => done.length === 1);
+    await new Promise((resolve) => setTimeout(resolve, 20));
+
+    expect(done).toEqual([1]);
+    expect(await queue.getWaitingCount()).toBe(2);
+  });
+
+  it("should retry failed attempts after their backoff", async () => {
+    const queue = createQueue();
+    const failures: number[] = [];
+    let result: unknown;
+
+    queue.process(1, async (job) => {
+      if (job.attemptsMade < 2) {
+        throw new Error(`attempt ${job.attemptsMade + 1} failed`);
+      }
+      return "ok";
+    });
+    queue.on("failed", (job) => failures.push(job.attemptsMade));
+    queue.on("completed", (_job, value) => {
+      result = value;
+    });
+
+    await queue.add({ n: 1 }, { attempts: 3, backoff: { type: "fixed", delay: 10 } });
+    await waitFor(() => result !== undefined);
+
+    expect(failures).toEqual([1, 2]);
+    expect(result).toBe("ok");
+    expect(await queue.getFailedCount()).toBe(0);
+  });
+
+  it("should fail a job once its attempts are used up", async () => {
+    const queue = createQueue();
+    const errors: string[] = [];
+
+    queue.process(1, async () => {
+      throw new Error("boom");
+    });
+    queue.on("failed", (_job, err) => errors.push(err.message));
+
+    await queue.add({ n: 1 }, { attempts: 2 });
+    await waitFor(async () => (await queue.getFailedCount()) === 1);
+
+    expect(errors).toEqual(["boom", "boom"]);
+    expect(await queue.getWaitingCount()).toBe(0);
+  });
+
+  it("should keep failed jobs unless they were added with removeOnFail", async () => {
+    const queue = createQueue();
+    queue.process(1, async (job) => {
+      throw new Error(`job ${job.data.n} failed`);
+    });
+
+    await queue.add({ n: 1 }, { attempts: 2 });
+    await queue.add({ n: 2 }, { removeOnFail: true });
+    await waitFor(async () => (await queue.getFailedCount()) === 2);
+
+    const failed = await queue.getFailedJobs();
+    expect(failed).toMatchObject([{ id: "1", data: { n: 1 }, attemptsMade: 2, failedReason: "job 1 failed" }]);
+    expect(await queue.getPendingJobs()).toEqual([]);
+  });
+
+  it("should double exponential backoff after each failure", () => {
+    expect(getBackoffDelay({ type: "exponential", delay: 2000 }, 1)).toBe(2000);
+    expect(getBackoffDelay({ type: "exponential", delay: 2000 }, 3)).toBe(8000);
+    expect(getBackoffDelay({ type: "fixed", delay: 2000 }, 3)).toBe(2000);
+    expect(getBackoffDelay(undefined, 3)).toBe(0);
+  });
+
+  it("should hold delayed jobs until they are due", async () => {
+    const queue = createQueue();
+    const done: number[] = [];
+
+    queue.process(1, async (job) => {
+      done.push(job.data.n);
+    });
+    await queue.add({ n: 1 }, { delay: 50 });
+    await queue.add({ n: 2 });
+
+    await waitFor(() => done.length === 1);
+    expect(done).toEqual([2]);
+    expect(await queue.getDelayedCount()).toBe(1);
+
+    await waitFor(() => done.length === 2);
+    expect(done).toEqual([2, 1]);
+  });
+
+  it("should fail attempts that exceed their timeout", async () => {
+    const queue = createQueue();
+    const errors: string[] = [];
+
+    queue.process(1, () => new Promise((resolve) => setTimeout(resolve, 200)));
+    queue.on("failed", (_job, err) => errors.push(err.message));
+
+    await queue.add({ n: 1 }, { timeout: 20 });
+    await waitFor(() => errors.length === 1);
+
+    expect(errors[0]).toBe("Job 1 of queue test-queue timed out after 20ms");
+  });
+
+  it("should let workers requeue a job on the queue it came from", async () => {
+    const queue = createQueue();
+    const seen: number[] = [];
+
+    queue.process(1, async (job: QueueJob<{ n: number }>) => {
+      seen.push(job.data.n);
+      if (seen.length === 1) {
+        await job.queue.add(job.data, { delay: 10 });
+      }
+    });
+    await queue.add({ n: 7 });
+
+    await waitFor(() => seen.length === 2);
+    expect(seen).toEqual([7, 7]);
+  });
+
+  describe("persistence", () => {
+    it("should run jobs queued before a restart", async () => {
+      persistDir = `${TEST_PERSIST_DIR}-${Date.now()}-${Math.random()}`;
+      const before = createQueue({ persistDir });
+      await before.add({ n: 1 });
+      await before.add({ n: 2 }, { delay: 10 });
+      await before.close();
+
+      const after = createQueue({ persistDir });
+      const done: number[] = [];
+      after.process(1, async (job) => {
+        done.push(job.data.n);
+      });
+
+      await waitFor(() => done.length === 2);
+      expect(done).toEqual([1, 2]);
+      expect((await after.add({ n: 3 })).id).toBe("3");
+      expect(await after.getFailedJobs()).toEqual([]);
+    });
+
+    it("should run jobs that were active when the process stopped again as stalled", async () => {
+      persistDir = `${TEST_PERSIST_DIR}-${Date.now()}-${Math.random()}`;
+      let release: () => void = () => undefined;
+      const crashed = createMemoryQueue<{ n: number }>("test-queue", { persistDir });
+      crashed.process(1, () => new Promise<void>((resolve) => (release = resolve)));
+      await crashed.add({ n: 1 });
+      await waitFor(async () => (await fs.readJSON(`${persistDir}/test-queue.json`)).jobs[0]?.active === true);
+
+      const restarted = createQueue({ persistDir, maxStalledCount: 1 });
+      const stalled: number[] = [];
+      const done: number[] = [];
+      restarted.process(1, async (job) => {
+        done.push(job.data.n);
+      });
+      restarted.on("stalled", (job) => stalled.push(job.data.n));
+
+      await waitFor(() => done.length === 1);
+      expect(stalled).toEqual([1]);
+
+      release();
+      await crashed.close();
+    });
+
+    it("should fail jobs that stalled more than maxStalledCount times", async () => {
+      persistDir = `${TEST_PERSIST_DIR}-${Date.now()}-${Math.random()}`;
+      await fs.outputJSON(`${persistDir}/test-queue.json`, {
+        nextId: 2,
+        completed: 0,
+        failed: 0,
+        jobs: [{ id: "1", data: { n: 1 }, options: {}, attemptsMade: 0, stalledCount: 1, runAt: 0, active: true }],
+      });
+
+      const queue = createQueue({ persistDir, maxStalledCount: 1 });
+      const errors: string[] = [];
+      queue.process(1, async () => undefined);
+      queue.on("failed", (_job, err) => errors.push(err.message));
+
+      await waitFor(() => errors.length === 1);
+      expect(errors).toEqual(["job stalled more than allowable limit"]);
+      expect(await queue.getFailedCount()).toBe(1);
+
+      await queue.close();
+      const restarted = createQueue({ persistDir });
+      expect((await restarted.getFailedJobs()).map((job) => job.failedReason)).toEqual([
+        "job stalled more than allowable limit",
+      ]);
+    });
+  });
+});
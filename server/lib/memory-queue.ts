@@ -0,0 +1,363 @@
+/**
+ * In-Memory Queue
+ *
+ * WorkQueue implementation that runs jobs inside this process, so the
+ * pipeline runs without Redis (laptops, tests). It follows Bull's semantics:
+ * - At most `concurrency` jobs run at once, taken in the order they became due
+ * - A failed attempt is retried after its backoff until `attempts` are used up
+ * - `delay` holds a job back; `timeout` fails an attempt that runs too long
+ * - completed, failed (every attempt), stalled and error events
+ *
+ * With persistDir set, the queue's waiting, delayed and active jobs are
+ * written to <persistDir>/<name>.json after every change. A job that was
+ * active when the process stopped is stalled: when processing starts again it
+ * is queued again, or fails once it has stalled more than maxStalledCount times.
+ *
+ * Completed jobs are counted, not kept; failed jobs are kept (and persisted)
+ * unless added with removeOnFail. A paused queue starts no jobs until it is
+ * created again; jobs can still be added.
+ */
+
+import { EventEmitter } from "events";
+import path from "path";
+import fs from "fs-extra";
+import { v4 as uuidv4 } from "uuid";
+import type { FailedQueueJob, QueueJob, QueueJobOptions, QueueProcessor, WorkQueue } from "./queue-backend";
+
+export interface MemoryQueueOptions {
+  // Directory to persist the queue's pending jobs in (memory only if unset)
+  persistDir?: string;
+  // Times a job may stall before it fails (default: 1)
+  maxStalledCount?: number;
+}
+
+interface StoredJob<T> {
+  id: string;
+  data: T;
+  options: QueueJobOptions;
+  attemptsMade: number;
+  stalledCount: number;
+  // Epoch milliseconds from which the job may run
+  runAt: number;
+  active: boolean;
+}
+
+interface PersistedQueue<T> {
+  nextId: number;
+  completed: number;
+  failed: number;
+  jobs: StoredJob<T>[];
+  // Missing in files written before failed jobs were kept
+  failedJobs?: FailedQueueJob<T>[];
+}
+
+/**
+ * Get the wait before the next attempt of a job that failed attemptsMade times
+ */
+export function getBackoffDelay(backoff: QueueJobOptions["backoff"], attemptsMade: number): number {
+  if (!backoff) {
+    return 0;
+  }
+  return backoff.type === "exponential" ? backoff.delay * 2 ** (attemptsMade - 1) : backoff.delay;
+}
+
+/**
+ * Reject if the promise does not settle within timeoutMs (the work itself keeps running, as in Bull)
+ */
+function withTimeout<R>(promise: Promise<R>, timeoutMs: number | undefined, message: string): Promise<R> {
+  if (!timeoutMs) {
+    return promise;
+  }
+
+  let timer: NodeJS.Timeout | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new Error(message)), timeoutMs);
+  });
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
+
+/**
+ * Create an in-memory queue
+ *
+ * @param name - Queue name (also the persisted file name)
+ * @param options.persistDir - Directory to persist pending jobs in
+ * @param options.maxStalledCount - Times a job may stall before it fails
+ */
+export function createMemoryQueue<T>(name: string, options: MemoryQueueOptions = {}): WorkQueue<T> {
+  const maxStalledCount = options.maxStalledCount ?? 1;
+  const persistPath = options.persistDir ? path.join(options.persistDir, `${name}.json`) : null;
+  const events = new EventEmitter();
+  const running = new Set<Promise<void>>();
+
+  let jobs: StoredJob<T>[] = [];
+  let failedJobs: FailedQueueJob<T>[] = [];
+  let nextId = 1;
+  let completedCount = 0;
+  let failedCount = 0;
+  let processor: QueueProcessor<T> | null = null;
+  let concurrency = 1;
+  let closed = false;
+  let paused = false;
+  let wakeTimer: NodeJS.Timeout | null = null;
+  let persisting: Promise<void> = Promise.resolve();
+  // Jobs persisted as active by a process that stopped
+  let stalledJobs: StoredJob<T>[] = [];
+
+  if (persistPath && fs.pathExistsSync(persistPath)) {
+    const saved: PersistedQueue<T> = fs.readJSONSync(persistPath);
+    jobs = saved.jobs;
+    failedJobs = saved.failedJobs ?? [];
+    nextId = saved.nextId;
+    completedCount = saved.completed;
+    failedCount = saved.failed;
+    stalledJobs = jobs.filter((job) => job.active);
+  }
+
+  function emit(event: string, ...args: unknown[]): void {
+    if (event === "error" && events.listenerCount("error") === 0) {
+      console.error(`[memory-queue] ${name} error:`, args[0]);
+      return;
+    }
+    try {
+      events.emit(event, ...args);
+    } catch (err) {
+      console.error(`[memory-queue] ${name} ${event} listener failed:`, err);
+    }
+  }
+
+  /**
+   * Write the pending jobs; writes are chained so the file follows the queue's order of changes
+   */
+  function persist(): Promise<void> {
+    if (!persistPath) {
+      return persisting;
+    }
+
+    const snapshot: PersistedQueue<T> = {
+      nextId,
+      completed: completedCount,
+      failed: failedCount,
+      jobs: jobs.map((job) => ({ ...job })),
+      failedJobs: [...failedJobs],
+    };
+    const tempPath = `${persistPath}.${process.pid}.${uuidv4()}.tmp`;
+    persisting = persisting
+      .then(async () => {
+        await fs.ensureDir(path.dirname(persistPath));
+        await fs.writeJSON(tempPath, snapshot, { spaces: 2 });
+        await fs.rename(tempPath, persistPath);
+      })
+      .catch(async (err) => {
+        await fs.remove(tempPath).catch(() => undefined);
+        emit("error", err);
+      });
+    return persisting;
+  }
+
+  function toQueueJob(stored: StoredJob<T>): QueueJob<T> {
+    return { id: stored.id, data: stored.data, attemptsMade: stored.attemptsMade, queue };
+  }
+
+  function remove(stored: StoredJob<T>): void {
+    jobs = jobs.filter((job) => job !== stored);
+  }
+
+  /**
+   * Count a job that failed for good, keeping it unless it was added with removeOnFail
+   */
+  function fail(stored: StoredJob<T>, err: Error): void {
+    failedCount++;
+    if (!stored.options.removeOnFail) {
+      failedJobs.push({
+        id: stored.id,
+        data: stored.data,
+        attemptsMade: stored.attemptsMade,
+        failedReason: err.message,
+        failedAt: Date.now(),
+      });
+    }
+  }
+
+  /**
+   * Requeue the jobs that were active when the process stopped
+   */
+  function recoverStalled(): void {
+    for (const stored of stalledJobs) {
+      stored.active = false;
+      stored.stalledCount++;
+
+      if (stored.stalledCount > maxStalledCount) {
+        const err = new Error("job stalled more than allowable limit");
+        remove(stored);
+        fail(stored, err);
+        emit("failed", toQueueJob(stored), err);
+      } else {
+        emit("stalled", toQueueJob(stored));
+      }
+    }
+    stalledJobs = [];
+    persist();
+  }
+
+  /**
+   * Run one attempt of a job; failures are retried after their backoff or counted
+   */
+  async function execute(stored: StoredJob<T>): Promise<void> {
+    const job = toQueueJob(stored);
+    try {
+      const result = await withTimeout(
+        Promise.resolve().then(() => processor!(job)),
+        stored.options.timeout,
+        `Job ${stored.id} of queue ${name} timed out after ${stored.options.timeout}ms`
+      );
+      remove(stored);
+      completedCount++;
+      emit("completed", job, result);
+    } catch (error) {
+      const err = error instanceof Error ? error : new Error(String(error));
+      stored.attemptsMade++;
+      job.attemptsMade = stored.attemptsMade;
+      stored.active = false;
+      remove(stored);
+
+      if (stored.attemptsMade < (stored.options.attempts ?? 1)) {
+        stored.runAt = Date.now() + getBackoffDelay(stored.options.backoff, stored.attemptsMade);
+        jobs.push(stored);
+      } else {
+        fail(stored, err);
+      }
+      emit("failed", job, err);
+    }
+  }
+
+  function start(stored: StoredJob<T>): void {
+    stored.active = true;
+    persist();
+
+    const run: Promise<void> = execute(stored).finally(() => {
+      running.delete(run);
+      persist();
+      pump();
+    });
+    running.add(run);
+  }
+
+  /**
+   * Start due jobs up to the concurrency limit, and wake up when the next delayed job is due
+   */
+  function pump(): void {
+    if (wakeTimer) {
+      clearTimeout(wakeTimer);
+      wakeTimer = null;
+    }
+    if (closed || paused || !processor) {
+      return;
+    }
+
+    const now = Date.now();
+    while (running.size < concurrency) {
+      const next = jobs.find((job) => !job.active && job.runAt <= now);
+      if (!next) {
+        break;
+      }
+      start(next);
+    }
+
+    const delayed = jobs.filter((job) => !job.active && job.runAt > now);
+    if (delayed.length > 0) {
+      const wakeAt = Math.min(...delayed.map((job) => job.runAt));
+      wakeTimer = setTimeout(pump, wakeAt - now);
+    }
+  }
+
+  const queue: WorkQueue<T> = {
+    name,
+
+    async add(data, jobOptions = {}) {
+      if (closed) {
+        throw new Error(`Queue ${name} is closed`);
+      }
+
+      const stored: StoredJob<T> = {
+        id: String(nextId++),
+        data,
+        options: jobOptions,
+        attemptsMade: 0,
+        stalledCount: 0,
+        runAt: Date.now() + (jobOptions.delay ?? 0),
+        active: false,
+      };
+      jobs.push(stored);
+      await persist();
+      pump();
+      return toQueueJob(stored);
+    },
+
+    process(jobConcurrency, jobProcessor) {
+      if (processor) {
+        throw new Error(`Queue ${name} already has a processor`);
+      }
+      processor = jobProcessor;
+      concurrency = jobConcurrency;
+
+      // Deferred so listeners registered right after process() see stalled jobs
+      setImmediate(() => {
+        if (!closed) {
+          recoverStalled();
+          pump();
+        }
+      });
+    },
+
+    on(event: string, listener: (...args: any[]) => void) {
+      events.on(event, listener);
+    },
+
+    async getActiveCount() {
+      return jobs.filter((job) => job.active).length;
+    },
+
+    async getWaitingCount() {
+      const now = Date.now();
+      return jobs.filter((job) => !job.active && job.runAt <= now).length;
+    },
+
+    async getDelayedCount() {
+      const now = Date.now();
+      return jobs.filter((job) => !job.active && job.runAt > now).length;
+    },
+
+    async getCompletedCount() {
+      return completedCount;
+    },
+
+    async getFailedCount() {
+      return failedCount;
+    },
+
+    async getPendingJobs() {
+      return jobs.map(toQueueJob);
+    },
+
+    async getFailedJobs() {
+      return failedJobs.map((job) => ({ ...job }));
+    },
+
+    async pause() {
+      paused = true;
+      pump();
+    },
+
+    async close() {
+      closed = true;
+      if (wakeTimer) {
+        clearTimeout(wakeTimer);
+        wakeTimer = null;
+      }
+      await Promise.all(Array.from(running));
+      await persisting;
+    },
+  };
+
+  return queue;
+}
@@ -164,10 +164,10 @@ describe("Multi-Stage Pipeline", { sequential: true }, () => {
       await moves.moveJob(jobId, JOB_STATES.CLAIMED, JOB_STATES.RUNNING, Actor.DEMUCS_WORKER);
       // Write stems with unique names to avoid conflicts
       const stemSuffix = jobId.substring(0, 8);
-      await filesystem.writeArtifact(jobId, "separation", `vocals-${stemSuffix}.wav`, "Mock vocals");
-      await filesystem.writeArtifact(jobId, "separation", `drums-${stemSuffix}.wav`, "Mock drums");
-      await filesystem.writeArtifact(jobId, "separation", `bass-${stemSuffix}.wav`, "Mock bass");
-      await filesystem.writeArtifact(jobId, "separation", `other-${stemSuffix}.wav`, "Mock other");
+      await filesystem.writeArtifact(jobId, "stems", `vocals-${stemSuffix}.wav`, "Mock vocals");
+      await filesystem.writeArtifact(jobId, "stems", `drums-${stemSuffix}.wav`, "Mock drums");
+      await filesystem.writeArtifact(jobId, "stems", `bass-${stemSuffix}.wav`, "Mock bass");
+      await filesystem.writeArtifact(jobId, "stems", `other-${stemSuffix}.wav`, "Mock other");
       await moves.moveJob(jobId, JOB_STATES.RUNNING, JOB_STATES.DONE, Actor.DEMUCS_WORKER);
 
       // Verify all artifacts exist
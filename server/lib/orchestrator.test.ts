@@ -0,0 +1,179 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import fs from "fs-extra";
+import { createFilesystem, JOB_STATES, PIPELINE_STAGES, PipelineStage } from "./filesystem";
+import { Actor } from "./job-state";
+import { createMoveOperations } from "./job-moves";
+import { createOrchestrator } from "./orchestrator";
+
+const TEST_STORAGE_ROOT = "/tmp/ego-studio-jobs-test-orchestrator";
+
+describe.sequential("Orchestrator", () => {
+  let filesystem: ReturnType<typeof createFilesystem>;
+  let moves: ReturnType<typeof createMoveOperations>;
+  let orchestrator: ReturnType<typeof createOrchestrator>;
+  let dispatchedJobs: string[];
+  let testDir: string;
+
+  beforeEach(async () => {
+    testDir = `${TEST_STORAGE_ROOT}-${Date.now()}-${Math.random()}`;
+    await fs.ensureDir(testDir);
+    filesystem = createFilesystem(testDir);
+    moves = createMoveOperations(filesystem, testDir);
+    await filesystem.initializeStorage();
+
+    dispatchedJobs = [];
+    orchestrator = createOrchestrator(filesystem, moves, {
+      dispatch: async (jobId): Promise<PipelineStage[]> => {
+        dispatchedJobs.push(jobId);
+        return [PIPELINE_STAGES.DOWNLOAD];
+      },
+    });
+  });
+
+  afterEach(async () => {
+    try {
+      if (testDir) {
+        await fs.remove(testDir);
+      }
+    } catch (e) {
+      // Ignore cleanup errors
+    }
+  });
+
+  it("should dispatch URL and file jobs once while they wait in NEW", async () => {
+    const { jobId: urlJob } = await filesystem.createJobFolder("https://youtube.com/watch?v=test");
+    const { jobId: fileJob } = await filesystem.createJobFolder("", {
+      file: {
+        filename: "Artist - Song.wav",
+        uploadedFilename: "abc-Artist_-_Song.wav",
+        size: 44,
+        format: "wav",
+        mimeType: "audio/wav",
+        uploadedAt: new Date().toISOString(),
+        s3Key: null,
+      },
+    });
+
+    const first = await orchestrator.dispatchNewJobs();
+    expect(first.dispatched.sort()).toEqual([urlJob, fileJob].sort());
+
+    const second = await orchestrator.dispatchNewJobs();
+    expect(second.dispatched).toEqual([]);
+    expect(dispatchedJobs).toHaveLength(2);
+  });
+
+  it("should dispatch a job again when it comes back to NEW", async () => {
+    const { jobId } = await filesystem.createJobFolder("https://youtube.com/watch?v=test");
+    await orchestrator.dispatchNewJobs();
+
+    await moves.moveJob(jobId, JOB_STATES.NEW, JOB_STATES.CLAIMED, Actor.DOWNLOAD_WORKER);
+    await orchestrator.dispatchNewJobs();
+    await moves.moveJob(jobId, JOB_STATES.CLAIMED, JOB_STATES.NEW, Actor.SYSTEM);
+
+    const result = await orchestrator.dispatchNewJobs();
+    expect(result.dispatched).toEqual([jobId]);
+  });
+
+  it("should hold paused jobs and finish pending cancels", async () => {
+    const { jobId: pausedJob } = await filesystem.createJobFolder("https://youtube.com/watch?v=paused");
+    const { jobId: cancelledJob } = await filesystem.createJobFolder("https://youtube.com/watch?v=cancelled");
+    await filesystem.updateMetadata(pausedJob, 0, (current) => {
+      current.pausedAt = new Date().toISOString();
+    });
+    await filesystem.updateMetadata(cancelledJob, 0, (current) => {
+      current.cancelRequestedAt = new Date().toISOString();
+    });
+
+    const result = await orchestrator.dispatchNewJobs();
+
+    expect(result.dispatched).toEqual([]);
+    expect((await filesystem.readMetadata(cancelledJob))?.state).toBe(JOB_STATES.CANCELLED);
+
+    await filesystem.updateMetadata(pausedJob, 1, (current) => {
+      delete current.pausedAt;
+    });
+    expect((await orchestrator.dispatchNewJobs()).dispatched).toEqual([pausedJob]);
+  });
+
+  it("should report dispatch errors and retry the job next time", async () => {
+    const { jobId } = await filesystem.createJobFolder("https://youtube.com/watch?v=test");
+    let attempts = 0;
+    const flaky = createOrchestrator(filesystem, moves, {
+      dispatch: async () => {
+        if (++attempts === 1) {
+          throw new Error("Queues not initialized");
+        }
+        return [PIPELINE_STAGES.DOWNLOAD];
+      },
+    });
+
+    const failed = await flaky.dispatchNewJobs();
+    expect(failed.errors).toEqual([`Failed to dispatch ${jobId}: Queues not initialized`]);
+
+    const retried = await flaky.dispatchNewJobs();
+    expect(retried.dispatched).toEqual([jobId]);
+  });
+
+  describe("retryDueJobs", () => {
+    async function createFailedJob(nextAttemptAt?: string): Promise<string> {
+      const { jobId } = await filesystem.createJobFolder("https://youtube.com/watch?v=test");
+      await moves.moveJob(jobId, JOB_STATES.NEW, JOB_STATES.CLAIMED, Actor.DOWNLOAD_WORKER);
+      await moves.moveJob(jobId, JOB_STATES.CLAIMED, JOB_STATES.RUNNING, Actor.DOWNLOAD_WORKER);
+      await moves.moveJob(jobId, JOB_STATES.RUNNING, JOB_STATES.FAILED, Actor.DOWNLOAD_WORKER);
+
+      const metadata = await filesystem.readMetadata(jobId);
+      await filesystem.updateMetadata(jobId, metadata!.revision, (current) => {
+        current.attempts = [
+          {
+            stage: PIPELINE_STAGES.DOWNLOAD,
+            attempt: 1,
+            maxAttempts: 3,
+            reason: "RATE_LIMITED",
+            failedAt: new Date().toISOString(),
+            ...(nextAttemptAt && { nextAttemptAt }),
+          },
+        ];
+      });
+      return jobId;
+    }
+
+    it("should retry FAILED jobs as SYSTEM once their retry is due", async () => {
+      const due = await createFailedJob(new Date(Date.now() - 1000).toISOString());
+      const later = await createFailedJob(new Date(Date.now() + 60 * 1000).toISOString());
+      await createFailedJob();
+      const retries: unknown[][] = [];
+      const retrying = createOrchestrator(filesystem, moves, {
+        retry: async (...args) => retries.push(args),
+      });
+
+      const result = await retrying.retryDueJobs();
+
+      expect(result.retried).toEqual([due]);
+      expect(retries).toEqual([
+        [
+          due,
+          "Automatic retry after RATE_LIMITED (attempt 2 of 3)",
+          { fromStage: PIPELINE_STAGES.DOWNLOAD, actor: Actor.SYSTEM },
+        ],
+      ]);
+      expect((await retrying.retryDueJobs(new Date(Date.now() + 2 * 60 * 1000))).retried.sort()).toEqual(
+        [due, later].sort()
+      );
+    });
+
+    it("should give up on an automatic retry that cannot start", async () => {
+      const jobId = await createFailedJob(new Date(Date.now() - 1000).toISOString());
+      const failing = createOrchestrator(filesystem, moves, {
+        retry: async () => {
+          throw new Error("artifacts missing");
+        },
+      });
+
+      const result = await failing.retryDueJobs();
+
+      expect(result.errors).toEqual([`Failed to retry ${jobId}: artifacts missing`]);
+      expect((await filesystem.readMetadata(jobId))?.attempts?.[0].nextAttemptAt).toBeUndefined();
+      expect((await failing.retryDueJobs()).retried).toEqual([]);
+    });
+  });
+});
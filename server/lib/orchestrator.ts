@@ -0,0 +1,189 @@
+/**
+ * Orchestrator
+ *
+ * Single driver of the pipeline. Starts one queue per registered stage and
+ * dispatches NEW jobs (URL or file upload) to the first stage of their
+ * pipeline. From there each stage's queue schedules the stages that become
+ * ready (see queue.ts), so every job runs through the real stage adapters.
+ * It also retries FAILED jobs whose automatic retry is due (see retry-policy.ts),
+ * and its run loop releases SCHEDULED jobs that are due (see job-scheduler.ts) and
+ * requeues DONE jobs whose next stage was never enqueued (see dead-letters.ts).
+ *
+ * Invariants:
+ * - The orchestrator never moves jobs; stage workers claim them as their actor,
+ *   and due retries go through retryJob as SYSTEM
+ * - Paused NEW jobs wait until resumed; pending cancels are finished on pickup
+ * - A NEW job is dispatched once per run; it is dispatched again if it comes
+ *   back to NEW (retry, lease reclaim) or the server restarts, and duplicate
+ *   queue entries are skipped by the readiness check
+ */
+
+import { filesystem as productionFilesystem, FilesystemAPI, JOB_STATES, PipelineStage } from "./filesystem";
+import { createMoveOperations } from "./job-moves";
+import { createJobControl } from "./job-control";
+import { initializeQueues, scheduleReadyStages } from "./queue";
+import { retryJob } from "./jobs-service-retry";
+import { getDueRetry } from "./retry-policy";
+import { createDeadLetters } from "./dead-letters";
+import { createJobScheduler } from "./job-scheduler";
+import { Actor, ActorName } from "./job-state";
+
+export interface DispatchResult {
+  scanned: number;
+  dispatched: string[];
+  errors: string[];
+}
+
+export interface RetryResult {
+  retried: string[];
+  errors: string[];
+}
+
+type RetryFunction = (
+  jobId: string,
+  reason: string,
+  options: { fromStage: PipelineStage; actor: ActorName }
+) => Promise<unknown>;
+
+/**
+ * Factory function to create an orchestrator
+ *
+ * @param filesystem - FilesystemAPI instance
+ * @param moves - Move operations bound to the same filesystem
+ * @param options.dispatch - Enqueues a job's ready stages (default: scheduleReadyStages)
+ * @param options.retry - Retries a failed job from a stage (default: retryJob)
+ */
+export function createOrchestrator(
+  filesystem: FilesystemAPI,
+  moves: ReturnType<typeof createMoveOperations>,
+  options: { dispatch?: (jobId: string) => Promise<PipelineStage[]>; retry?: RetryFunction } = {}
+) {
+  const dispatch = options.dispatch ?? scheduleReadyStages;
+  const retry = options.retry ?? retryJob;
+  const control = createJobControl(filesystem, moves);
+  const dispatched = new Set<string>();
+
+  /**
+   * Dispatch every NEW job that has not been dispatched yet
+   */
+  async function dispatchNewJobs(): Promise<DispatchResult> {
+    const result: DispatchResult = { scanned: 0, dispatched: [], errors: [] };
+    const jobIds = await filesystem.listJobsByState(JOB_STATES.NEW);
+
+    // Forget jobs that left NEW, so they are dispatched again if they come back
+    for (const jobId of Array.from(dispatched)) {
+      if (!jobIds.includes(jobId)) {
+        dispatched.delete(jobId);
+      }
+    }
+
+    for (const jobId of jobIds) {
+      if (dispatched.has(jobId)) {
+        continue;
+      }
+      result.scanned++;
+
+      try {
+        if ((await control.checkPickup(jobId)) !== "proceed") {
+          continue;
+        }
+
+        const stages = await dispatch(jobId);
+        dispatched.add(jobId);
+        result.dispatched.push(jobId);
+        console.log(`[Orchestrator] Dispatched job ${jobId} to ${stages.join(", ") || "no stage"}`);
+      } catch (err) {
+        const errorMsg = `Failed to dispatch ${jobId}: ${err instanceof Error ? err.message : String(err)}`;
+        result.errors.push(errorMsg);
+        console.error(`[Orchestrator] ${errorMsg}`);
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Retry every FAILED job whose automatic retry is due (paused jobs wait until resumed)
+   * A retry that cannot start is logged and not tried again automatically.
+   */
+  async function retryDueJobs(now: Date = new Date()): Promise<RetryResult> {
+    const result: RetryResult = { retried: [], errors: [] };
+
+    for (const jobId of await filesystem.listJobsByState(JOB_STATES.FAILED)) {
+      // A job moved while being read has left FAILED
+      const metadata = await filesystem.readMetadata(jobId).catch(() => null);
+      const due = metadata && getDueRetry(metadata, now);
+      if (!due || metadata.pausedAt) {
+        continue;
+      }
+
+      const reason = `Automatic retry after ${due.reason} (attempt ${due.attempt + 1} of ${due.maxAttempts})`;
+      try {
+        await retry(jobId, reason, { fromStage: due.stage, actor: Actor.SYSTEM });
+        result.retried.push(jobId);
+        console.log(`[Orchestrator] Retrying job ${jobId} from ${due.stage}`);
+      } catch (err) {
+        const errorMsg = `Failed to retry ${jobId}: ${err instanceof Error ? err.message : String(err)}`;
+        result.errors.push(errorMsg);
+        console.error(`[Orchestrator] ${errorMsg}`);
+
+        // Give up on the automatic retry; the user can still retry the job
+        try {
+          const current = await filesystem.readMetadata(jobId);
+          if (current?.state === JOB_STATES.FAILED) {
+            await filesystem.updateMetadata(jobId, current.revision, (updated) => {
+              for (const attempt of updated.attempts ?? []) {
+                delete attempt.nextAttemptAt;
+              }
+            });
+            await filesystem.appendToJobLog(jobId, `[SYSTEM] Automatic retry failed: ${errorMsg}`);
+          }
+        } catch (cancelError) {
+          console.error(`[Orchestrator] Failed to cancel automatic retry of ${jobId}:`, cancelError);
+        }
+      }
+    }
+
+    return result;
+  }
+
+  return {
+    dispatchNewJobs,
+    retryDueJobs,
+  };
+}
+
+/**
+ * Start the stage queues and dispatch NEW jobs periodically against the production filesystem
+ * @param intervalMs - Interval in milliseconds (default: 5 seconds)
+ */
+export async function startOrchestrator(
+  intervalMs: number = 5 * 1000,
+  options: { stages?: PipelineStage[] } = {}
+): Promise<NodeJS.Timeout> {
+  const storageRoot = process.env.STORAGE_ROOT || "/tmp/ego-studio-jobs";
+  const moves = createMoveOperations(productionFilesystem, storageRoot);
+  const orchestrator = createOrchestrator(productionFilesystem, moves);
+  const scheduler = createJobScheduler(productionFilesystem, moves);
+  const deadLetters = createDeadLetters(productionFilesystem);
+
+  await initializeQueues({ stages: options.stages });
+  console.log(
+    `[Orchestrator] Dispatching scheduled and NEW jobs, due retries and orphaned jobs every ${Math.floor(intervalMs / 1000)} seconds`
+  );
+
+  const run = () => {
+    // Released jobs are dispatched in the same run
+    scheduler
+      .releaseDueJobs()
+      .then(() => orchestrator.dispatchNewJobs())
+      .then(() => orchestrator.retryDueJobs())
+      .then(() => deadLetters.reconcile())
+      .catch((err) => {
+        console.error("[Orchestrator] Scheduled dispatch failed:", err);
+      });
+  };
+  run();
+
+  return setInterval(run, intervalMs);
+}
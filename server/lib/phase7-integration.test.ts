@@ -17,12 +17,16 @@ import {
   createAudacityProject,
   validateAudacityProject,
 } from "./audacity-project";
+import { encodeWav } from "./audio-io";
 import {
   signWebhookPayload,
   verifyWebhookSignature,
   sendWebhookNotification,
 } from "./webhooks";
 
+// One second of 44.1 kHz stereo silence
+const STEM_WAV = encodeWav({ sampleRate: 44100, channelData: [new Float32Array(44100), new Float32Array(44100)] });
+
 describe("Phase 7: Production Integrations", { sequential: true }, () => {
   // ============================================================================
   // Lyrics Cache Tests
@@ -160,12 +164,14 @@ describe("Phase 7: Production Integrations", { sequential: true }, () => {
           filePath: "/path/to/vocals.wav",
           channels: 2,
           sampleRate: 44100,
+          numSamples: 44100,
         },
         {
           name: "Drums",
           filePath: "/path/to/drums.wav",
           channels: 2,
           sampleRate: 44100,
+          numSamples: 44100,
         },
       ];
 
@@ -176,6 +182,31 @@ describe("Phase 7: Production Integrations", { sequential: true }, () => {
       expect(xml).toContain("Test Project");
       expect(xml).toContain("Vocals");
       expect(xml).toContain("Drums");
+      expect(xml).toContain('filename="vocals.wav" len="44100"');
+    });
+
+    it("should set the tempo and label bars when the BPM is known", () => {
+      const tracks = [
+        {
+          name: "Drums",
+          filePath: "/path/to/drums.wav",
+          channels: 2,
+          sampleRate: 44100,
+          numSamples: 44100 * 5,
+        },
+      ];
+
+      const xml = generateAudacityProjectXml("Project", tracks, 44100, {
+        bpm: 120,
+        beatsPerBar: 4,
+        firstDownbeatSec: 0.5,
+      });
+
+      expect(xml).toContain('time_signature_tempo="120" time_signature_upper="4" time_signature_lower="4"');
+      expect(xml).toContain('<labeltrack name="Bars" numlabels="3"');
+      expect(xml).toContain('<label t="0.500000" t1="0.500000" title="Bar 1" />');
+      expect(xml).toContain('<label t="4.500000" t1="4.500000" title="Bar 3" />');
+      expect(generateAudacityProjectXml("Project", tracks)).not.toContain("labeltrack");
     });
 
     it("should escape XML special characters", () => {
@@ -185,6 +216,7 @@ describe("Phase 7: Production Integrations", { sequential: true }, () => {
           filePath: "/path/to/file.wav",
           channels: 2,
           sampleRate: 44100,
+          numSamples: 0,
         },
       ];
 
@@ -203,10 +235,10 @@ describe("Phase 7: Production Integrations", { sequential: true }, () => {
       const bassPath = path.join(testDir, "bass.wav");
       const otherPath = path.join(testDir, "other.wav");
 
-      await fs.writeFile(vocalsPath, "mock audio data");
-      await fs.writeFile(drumsPath, "mock audio data");
-      await fs.writeFile(bassPath, "mock audio data");
-      await fs.writeFile(otherPath, "mock audio data");
+      await fs.writeFile(vocalsPath, STEM_WAV);
+      await fs.writeFile(drumsPath, STEM_WAV);
+      await fs.writeFile(bassPath, STEM_WAV);
+      await fs.writeFile(otherPath, STEM_WAV);
 
       const result = await createAudacityProject(testDir, "TestProject", {
         vocals: vocalsPath,
@@ -222,6 +254,29 @@ describe("Phase 7: Production Integrations", { sequential: true }, () => {
       const projectDir = path.join(testDir, "TestProject_data");
       expect(await fs.pathExists(projectDir)).toBe(true);
       expect(await fs.pathExists(path.join(projectDir, "project.xml"))).toBe(true);
+      expect(await validateAudacityProject(result.path!)).toEqual({ valid: true, errors: [] });
+    });
+
+    it("should refuse stems that are not audio or differ in length", async () => {
+      const stems = {
+        vocals: path.join(testDir, "vocals.wav"),
+        drums: path.join(testDir, "drums.wav"),
+        bass: path.join(testDir, "bass.wav"),
+        other: path.join(testDir, "other.wav"),
+      };
+      await fs.writeFile(stems.vocals, STEM_WAV);
+      await fs.writeFile(stems.drums, "mock audio data");
+      await fs.writeFile(stems.bass, STEM_WAV);
+      await fs.writeFile(
+        stems.other,
+        encodeWav({ sampleRate: 44100, channelData: [new Float32Array(100), new Float32Array(100)] })
+      );
+
+      const result = await createAudacityProject(testDir, "TestProject", stems);
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain("Stem drums: Not a WAV or AIFF file");
+      expect(result.error).toContain("Stem other has 100 samples, vocals has 44100");
     });
 
     it("should handle missing stem files", async () => {
@@ -387,10 +442,10 @@ describe("Phase 7: Production Integrations", { sequential: true }, () => {
       const bassPath = path.join(testDir, "bass.wav");
       const otherPath = path.join(testDir, "other.wav");
 
-      await fs.writeFile(vocalsPath, "mock audio");
-      await fs.writeFile(drumsPath, "mock audio");
-      await fs.writeFile(bassPath, "mock audio");
-      await fs.writeFile(otherPath, "mock audio");
+      await fs.writeFile(vocalsPath, STEM_WAV);
+      await fs.writeFile(drumsPath, STEM_WAV);
+      await fs.writeFile(bassPath, STEM_WAV);
+      await fs.writeFile(otherPath, STEM_WAV);
 
       const projectResult = await createAudacityProject(testDir, "TestProject", {
         vocals: vocalsPath,
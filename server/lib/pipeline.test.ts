@@ -0,0 +1,195 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import fs from "fs-extra";
+import { createFilesystem, FilesystemAPI, JOB_STATES, PIPELINE_STAGES, PipelineStage } from "./filesystem";
+import { createMoveOperations } from "./job-moves";
+import { Actor, ActorName, getStageOwner } from "./job-state";
+import { listStages } from "./adapter-registry";
+import {
+  createPipeline,
+  getDescendants,
+  getReadyStages,
+  listPresets,
+  registerPreset,
+  topologicalOrder,
+  validatePipeline,
+} from "./pipeline";
+
+const TEST_STORAGE_ROOT = "/tmp/ego-studio-jobs-test-pipeline";
+
+describe.sequential("Job Pipelines", () => {
+  describe("presets", () => {
+    it("should run every registered stage in order by default", () => {
+      const pipeline = createPipeline();
+
+      expect(pipeline.preset).toBe("full");
+      expect(topologicalOrder(pipeline.stages)).toEqual(listStages());
+      expect(pipeline.completed).toEqual([]);
+    });
+
+    it("should build the parallel preset as a DAG joining at AUDACITY", () => {
+      const pipeline = createPipeline("parallel");
+      const audacity = pipeline.stages.find((node) => node.stage === PIPELINE_STAGES.AUDACITY);
+
+      expect(audacity?.dependsOn).toEqual([PIPELINE_STAGES.SEPARATION, PIPELINE_STAGES.LYRICS]);
+      expect(Array.from(getDescendants(pipeline.stages, PIPELINE_STAGES.LYRICS))).toEqual([
+        PIPELINE_STAGES.AUDACITY,
+        PIPELINE_STAGES.PACKAGING,
+      ]);
+    });
+
+    it("should reject an unknown preset", () => {
+      expect(() => createPipeline("karaoke")).toThrow("Unknown pipeline preset karaoke");
+    });
+
+    it("should list the built-in presets", () => {
+      expect(listPresets().map((preset) => preset.name)).toEqual(
+        expect.arrayContaining(["full", "parallel", "separation-only", "lyrics-only"])
+      );
+    });
+  });
+
+  describe("validatePipeline", () => {
+    it("should reject cycles", () => {
+      expect(
+        validatePipeline([
+          { stage: PIPELINE_STAGES.DOWNLOAD, dependsOn: [] },
+          { stage: PIPELINE_STAGES.SEPARATION, dependsOn: [PIPELINE_STAGES.DOWNLOAD, PIPELINE_STAGES.PACKAGING] },
+          { stage: PIPELINE_STAGES.PACKAGING, dependsOn: [PIPELINE_STAGES.SEPARATION] },
+        ])
+      ).toEqual({ valid: false, reason: "stage dependencies contain a cycle" });
+    });
+
+    it("should reject pipelines that do not end at the final stage", () => {
+      const validation = validatePipeline([
+        { stage: PIPELINE_STAGES.DOWNLOAD, dependsOn: [] },
+        { stage: PIPELINE_STAGES.SEPARATION, dependsOn: [PIPELINE_STAGES.DOWNLOAD] },
+      ]);
+
+      expect(validation.valid).toBe(false);
+      expect(validation.reason).toContain("must end at PACKAGING");
+    });
+
+    it("should reject a stage whose required input does not run before it", () => {
+      expect(() =>
+        registerPreset("no-stems", [
+          { stage: PIPELINE_STAGES.DOWNLOAD, dependsOn: [] },
+          { stage: PIPELINE_STAGES.AUDACITY, dependsOn: [PIPELINE_STAGES.DOWNLOAD] },
+          { stage: PIPELINE_STAGES.PACKAGING, dependsOn: [PIPELINE_STAGES.AUDACITY] },
+        ])
+      ).toThrow("AUDACITY requires SEPARATION, which does not run before it");
+    });
+  });
+
+  describe("scheduling", () => {
+    let testDir: string;
+    let filesystem: FilesystemAPI;
+    let moves: ReturnType<typeof createMoveOperations>;
+
+    beforeEach(async () => {
+      testDir = `${TEST_STORAGE_ROOT}-${Date.now()}-${Math.random()}`;
+      await fs.ensureDir(testDir);
+      filesystem = createFilesystem(testDir);
+      await filesystem.initializeStorage();
+      moves = createMoveOperations(filesystem, testDir);
+    });
+
+    afterEach(async () => {
+      try {
+        if (testDir) {
+          await fs.remove(testDir);
+        }
+      } catch (e) {
+        // Ignore cleanup errors
+      }
+    });
+
+    async function claimStage(jobId: string, stage: PipelineStage): Promise<ActorName> {
+      const actor = getStageOwner(stage);
+      const from = stage === PIPELINE_STAGES.DOWNLOAD ? JOB_STATES.NEW : JOB_STATES.DONE;
+      await moves.moveJob(jobId, from, JOB_STATES.CLAIMED, actor, { stage });
+      await moves.moveJob(jobId, JOB_STATES.CLAIMED, JOB_STATES.RUNNING, actor);
+      return actor;
+    }
+
+    async function runStage(jobId: string, stage: PipelineStage): Promise<void> {
+      const actor = await claimStage(jobId, stage);
+      const toState = stage === PIPELINE_STAGES.PACKAGING ? JOB_STATES.COMPLETE : JOB_STATES.DONE;
+      await moves.moveJob(jobId, JOB_STATES.RUNNING, toState, actor);
+    }
+
+    async function readyStages(jobId: string): Promise<PipelineStage[]> {
+      return getReadyStages((await filesystem.readMetadata(jobId))!);
+    }
+
+    it("should schedule independent stages once their dependencies complete", async () => {
+      const { jobId } = await filesystem.createJobFolder("https://youtube.com/watch?v=test", {
+        pipeline: createPipeline("parallel"),
+      });
+
+      expect(await readyStages(jobId)).toEqual([PIPELINE_STAGES.DOWNLOAD]);
+      await runStage(jobId, PIPELINE_STAGES.DOWNLOAD);
+      expect(await readyStages(jobId)).toEqual([PIPELINE_STAGES.SEPARATION, PIPELINE_STAGES.LYRICS]);
+
+      // LYRICS runs first; SEPARATION waits while the job is held
+      await claimStage(jobId, PIPELINE_STAGES.LYRICS);
+      expect(await readyStages(jobId)).toEqual([]);
+      await moves.moveJob(jobId, JOB_STATES.RUNNING, JOB_STATES.DONE, Actor.LYRICS_WORKER);
+      expect(await readyStages(jobId)).toEqual([PIPELINE_STAGES.SEPARATION]);
+
+      await expect(
+        moves.moveJob(jobId, JOB_STATES.DONE, JOB_STATES.CLAIMED, Actor.AUDACITY_WORKER, {
+          stage: PIPELINE_STAGES.AUDACITY,
+        })
+      ).rejects.toThrow("waiting for SEPARATION");
+
+      await runStage(jobId, PIPELINE_STAGES.SEPARATION);
+      expect(await readyStages(jobId)).toEqual([PIPELINE_STAGES.WAVEFORM, PIPELINE_STAGES.AUDACITY]);
+      await runStage(jobId, PIPELINE_STAGES.AUDACITY);
+      expect(await readyStages(jobId)).toEqual([PIPELINE_STAGES.WAVEFORM]);
+      await runStage(jobId, PIPELINE_STAGES.WAVEFORM);
+      await runStage(jobId, PIPELINE_STAGES.PACKAGING);
+
+      const metadata = await filesystem.readMetadata(jobId);
+      expect(metadata?.state).toBe(JOB_STATES.COMPLETE);
+      expect(metadata?.pipeline?.completed).toEqual([
+        PIPELINE_STAGES.DOWNLOAD,
+        PIPELINE_STAGES.LYRICS,
+        PIPELINE_STAGES.SEPARATION,
+        PIPELINE_STAGES.AUDACITY,
+        PIPELINE_STAGES.WAVEFORM,
+        PIPELINE_STAGES.PACKAGING,
+      ]);
+    });
+
+    it("should only run the stages of a partial preset", async () => {
+      const { jobId } = await filesystem.createJobFolder("https://youtube.com/watch?v=test", {
+        pipeline: createPipeline("separation-only"),
+      });
+
+      await runStage(jobId, PIPELINE_STAGES.DOWNLOAD);
+      await expect(
+        moves.moveJob(jobId, JOB_STATES.DONE, JOB_STATES.CLAIMED, Actor.LYRICS_WORKER, {
+          stage: PIPELINE_STAGES.LYRICS,
+        })
+      ).rejects.toThrow("LYRICS is not in the separation-only pipeline");
+
+      await runStage(jobId, PIPELINE_STAGES.SEPARATION);
+      expect(await readyStages(jobId)).toEqual([PIPELINE_STAGES.WAVEFORM]);
+      await runStage(jobId, PIPELINE_STAGES.WAVEFORM);
+      await runStage(jobId, PIPELINE_STAGES.PACKAGING);
+
+      expect((await filesystem.readMetadata(jobId))?.state).toBe(JOB_STATES.COMPLETE);
+    });
+
+    it("should derive the next stage of jobs created without a pipeline", async () => {
+      const { jobId } = await filesystem.createJobFolder("https://youtube.com/watch?v=test");
+
+      await runStage(jobId, PIPELINE_STAGES.DOWNLOAD);
+      expect(await readyStages(jobId)).toEqual([PIPELINE_STAGES.SEPARATION]);
+
+      await claimStage(jobId, PIPELINE_STAGES.SEPARATION);
+      expect(await readyStages(jobId)).toEqual([]);
+      expect((await filesystem.readMetadata(jobId))?.pipeline).toBeUndefined();
+    });
+  });
+});
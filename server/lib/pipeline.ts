@@ -0,0 +1,307 @@
+/**
+ * Job Pipelines
+ *
+ * A job's pipeline is a DAG of stages (each with the stages it depends on),
+ * stored in its metadata at creation. Presets name the common shapes; the
+ * queue starts every stage whose dependencies have completed.
+ *
+ * Invariants:
+ * - A pipeline starts at the first registered stage and ends at the final one
+ * - Dependencies name stages of the same pipeline and contain no cycle
+ * - A stage's adapter requirements are among its ancestors
+ * - A job is held by one stage at a time (its state directory is the lock), so
+ *   independent stages that become ready together run one after the other
+ *
+ * Jobs created without a pipeline run every registered stage in order.
+ */
+
+import { JobMetadata, JobPipeline, PipelineNode, PipelineStage, JOB_STATES, PIPELINE_STAGES } from "./filesystem";
+import { getAdapter, listStages } from "./adapter-registry";
+import { Actor, ActorName, getFinalStage, getStageOwner } from "./job-state";
+
+/**
+ * Preset used when a job is created without one
+ */
+export const DEFAULT_PRESET = "full";
+
+/**
+ * Chain stages so each depends on the one before it
+ */
+function linear(stages: PipelineStage[]): PipelineNode[] {
+  return stages.map((stage, index) => ({ stage, dependsOn: index === 0 ? [] : [stages[index - 1]] }));
+}
+
+/**
+ * Built-in presets; "full" follows the registry so registered stages run too
+ */
+const presets = new Map<string, () => PipelineNode[]>([
+  [DEFAULT_PRESET, () => linear(listStages())],
+  [
+    "parallel",
+    () => [
+      { stage: PIPELINE_STAGES.DOWNLOAD, dependsOn: [] },
+      { stage: PIPELINE_STAGES.SEPARATION, dependsOn: [PIPELINE_STAGES.DOWNLOAD] },
+      { stage: PIPELINE_STAGES.WAVEFORM, dependsOn: [PIPELINE_STAGES.SEPARATION] },
+      { stage: PIPELINE_STAGES.LYRICS, dependsOn: [PIPELINE_STAGES.DOWNLOAD] },
+      { stage: PIPELINE_STAGES.AUDACITY, dependsOn: [PIPELINE_STAGES.SEPARATION, PIPELINE_STAGES.LYRICS] },
+      { stage: PIPELINE_STAGES.PACKAGING, dependsOn: [PIPELINE_STAGES.WAVEFORM, PIPELINE_STAGES.AUDACITY] },
+    ],
+  ],
+  [
+    "separation-only",
+    () =>
+      linear([
+        PIPELINE_STAGES.DOWNLOAD,
+        PIPELINE_STAGES.SEPARATION,
+        PIPELINE_STAGES.WAVEFORM,
+        PIPELINE_STAGES.PACKAGING,
+      ]),
+  ],
+  ["lyrics-only", () => linear([PIPELINE_STAGES.DOWNLOAD, PIPELINE_STAGES.LYRICS, PIPELINE_STAGES.PACKAGING])],
+]);
+
+/**
+ * Order stages so each comes after its dependencies (ties keep pipeline order)
+ * Returns null if the dependencies contain a cycle
+ */
+export function topologicalOrder(stages: PipelineNode[]): PipelineStage[] | null {
+  const order: PipelineStage[] = [];
+  const remaining = [...stages];
+
+  while (remaining.length > 0) {
+    const index = remaining.findIndex((node) => node.dependsOn.every((dependency) => order.includes(dependency)));
+    if (index === -1) {
+      return null;
+    }
+    order.push(remaining[index].stage);
+    remaining.splice(index, 1);
+  }
+
+  return order;
+}
+
+/**
+ * Get the stages a stage waits for, directly or transitively
+ */
+export function getAncestors(stages: PipelineNode[], stage: PipelineStage): Set<PipelineStage> {
+  const ancestors = new Set<PipelineStage>();
+  const pending = [stage];
+
+  while (pending.length > 0) {
+    const current = pending.pop();
+    const node = stages.find((candidate) => candidate.stage === current);
+    for (const dependency of node?.dependsOn ?? []) {
+      if (!ancestors.has(dependency)) {
+        ancestors.add(dependency);
+        pending.push(dependency);
+      }
+    }
+  }
+
+  return ancestors;
+}
+
+/**
+ * Get the stages that wait for a stage, directly or transitively
+ */
+export function getDescendants(stages: PipelineNode[], stage: PipelineStage): Set<PipelineStage> {
+  return new Set(
+    stages.filter((node) => getAncestors(stages, node.stage).has(stage)).map((node) => node.stage)
+  );
+}
+
+/**
+ * Validate a pipeline definition against the registered stages
+ */
+export function validatePipeline(stages: PipelineNode[]): { valid: boolean; reason?: string } {
+  const names = stages.map((node) => node.stage);
+
+  for (const node of stages) {
+    if (!getAdapter(node.stage)) {
+      return { valid: false, reason: `stage ${node.stage} is not registered` };
+    }
+    if (names.indexOf(node.stage) !== names.lastIndexOf(node.stage)) {
+      return { valid: false, reason: `stage ${node.stage} is listed twice` };
+    }
+    const unknown = node.dependsOn.find((dependency) => !names.includes(dependency));
+    if (unknown) {
+      return { valid: false, reason: `${node.stage} depends on ${unknown}, which is not in the pipeline` };
+    }
+  }
+
+  if (!topologicalOrder(stages)) {
+    return { valid: false, reason: "stage dependencies contain a cycle" };
+  }
+
+  const firstStage = listStages()[0];
+  const roots = stages.filter((node) => node.dependsOn.length === 0).map((node) => node.stage);
+  if (roots.length !== 1 || roots[0] !== firstStage) {
+    return { valid: false, reason: `pipeline must start at ${firstStage} only (starts at ${roots.join(", ") || "none"})` };
+  }
+
+  const finalStage = getFinalStage();
+  const sinks = names.filter((stage) => !stages.some((node) => node.dependsOn.includes(stage)));
+  if (sinks.length !== 1 || sinks[0] !== finalStage) {
+    return { valid: false, reason: `pipeline must end at ${finalStage} only (ends at ${sinks.join(", ") || "none"})` };
+  }
+
+  for (const node of stages) {
+    const ancestors = getAncestors(stages, node.stage);
+    const missing = getAdapter(node.stage)!.requires.find((required) => !ancestors.has(required));
+    if (missing) {
+      return { valid: false, reason: `${node.stage} requires ${missing}, which does not run before it` };
+    }
+  }
+
+  return { valid: true };
+}
+
+/**
+ * Register a named pipeline preset
+ */
+export function registerPreset(name: string, stages: PipelineNode[]): void {
+  const validation = validatePipeline(stages);
+  if (!validation.valid) {
+    throw new Error(`Cannot register preset ${name}: ${validation.reason}`);
+  }
+
+  presets.set(name, () => stages);
+  console.log(`[pipeline] Registered preset ${name} (${stages.map((node) => node.stage).join(", ")})`);
+}
+
+/**
+ * List the available presets with their stages
+ */
+export function listPresets(): { name: string; stages: PipelineNode[] }[] {
+  return Array.from(presets.entries()).map(([name, build]) => ({ name, stages: build() }));
+}
+
+/**
+ * Check whether a preset is registered
+ */
+export function hasPreset(name: string): boolean {
+  return presets.has(name);
+}
+
+/**
+ * Build the pipeline for a new job from a preset
+ */
+export function createPipeline(preset: string = DEFAULT_PRESET): JobPipeline {
+  const build = presets.get(preset);
+  if (!build) {
+    throw new Error(`Unknown pipeline preset ${preset}. Available: ${Array.from(presets.keys()).join(", ")}`);
+  }
+
+  const stages = build().map((node) => ({ stage: node.stage, dependsOn: [...node.dependsOn] }));
+  const validation = validatePipeline(stages);
+  if (!validation.valid) {
+    throw new Error(`Invalid pipeline preset ${preset}: ${validation.reason}`);
+  }
+
+  return { preset, stages, completed: [] };
+}
+
+/**
+ * Get the pipeline a job runs
+ * Jobs without one run the registered stages in order; their completed stages
+ * are the ones before their current stage (and the current one once it is done).
+ */
+export function getJobPipeline(metadata: JobMetadata): JobPipeline {
+  if (metadata.pipeline) {
+    return metadata.pipeline;
+  }
+
+  const stages = listStages();
+  const current = metadata.stage ?? PIPELINE_STAGES.DOWNLOAD;
+  const finished = metadata.state === JOB_STATES.DONE || metadata.state === JOB_STATES.COMPLETE;
+  const completed = stages.slice(0, Math.max(stages.indexOf(current) + (finished ? 1 : 0), 0));
+
+  return { preset: DEFAULT_PRESET, stages: linear(stages), completed };
+}
+
+/**
+ * Check whether a stage of a job can be claimed now
+ */
+export function checkStageReady(metadata: JobMetadata, stage: PipelineStage): { valid: boolean; reason?: string } {
+  const pipeline = getJobPipeline(metadata);
+  const node = pipeline.stages.find((candidate) => candidate.stage === stage);
+
+  if (!node) {
+    return { valid: false, reason: `${stage} is not in the ${pipeline.preset} pipeline` };
+  }
+  if (pipeline.completed.includes(stage)) {
+    return { valid: false, reason: `${stage} already completed` };
+  }
+
+  const waiting = node.dependsOn.filter((dependency) => !pipeline.completed.includes(dependency));
+  if (waiting.length > 0) {
+    return { valid: false, reason: `waiting for ${waiting.join(", ")}` };
+  }
+
+  if (metadata.state !== JOB_STATES.NEW && metadata.state !== JOB_STATES.DONE) {
+    return { valid: false, reason: `job is ${metadata.state}` };
+  }
+
+  return { valid: true };
+}
+
+/**
+ * Get the stages of a job that can be claimed now, in pipeline order
+ */
+export function getReadyStages(metadata: JobMetadata): PipelineStage[] {
+  return getJobPipeline(metadata)
+    .stages.map((node) => node.stage)
+    .filter((stage) => checkStageReady(metadata, stage).valid);
+}
+
+/**
+ * Validate that an actor may move a job with a pipeline into a stage
+ */
+export function validatePipelineStage(
+  metadata: JobMetadata,
+  toStage: PipelineStage,
+  actor: ActorName
+): { valid: boolean; reason?: string } {
+  const readiness = checkStageReady(metadata, toStage);
+  if (!readiness.valid) {
+    return {
+      valid: false,
+      reason: `Invalid stage transition: ${metadata.stage ?? PIPELINE_STAGES.DOWNLOAD} -> ${toStage} (${readiness.reason})`,
+    };
+  }
+
+  const owner = getStageOwner(toStage);
+  if (owner !== actor && actor !== Actor.SYSTEM) {
+    return {
+      valid: false,
+      reason: `Actor ${actor} not authorized to start stage ${toStage}. Owner: ${owner}`,
+    };
+  }
+
+  return { valid: true };
+}
+
+/**
+ * Validate that every other stage of a job's pipeline completed before it completes
+ */
+export function validatePipelineCompletion(metadata: JobMetadata): { valid: boolean; reason?: string } {
+  const pipeline = getJobPipeline(metadata);
+  const pending = pipeline.stages
+    .map((node) => node.stage)
+    .filter((stage) => stage !== metadata.stage && !pipeline.completed.includes(stage));
+
+  if (pending.length > 0) {
+    return { valid: false, reason: `Job cannot complete before ${pending.join(", ")}` };
+  }
+
+  return { valid: true };
+}
+
+/**
+ * Record the job's current stage as completed (called when its worker finishes)
+ */
+export function recordStageCompleted(metadata: JobMetadata): void {
+  if (metadata.pipeline && metadata.stage && !metadata.pipeline.completed.includes(metadata.stage)) {
+    metadata.pipeline.completed.push(metadata.stage);
+  }
+}
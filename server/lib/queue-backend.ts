@@ -0,0 +1,167 @@
+/**
+ * Queue Backends
+ *
+ * The stage queues (queue.ts) and the workers only see the WorkQueue and
+ * QueueJob interfaces below. Two backends implement them with the same
+ * semantics (concurrency, attempts with backoff, delays, timeouts, stalled
+ * jobs and events):
+ * - redis: Bull on Redis, shared by every process connected to it
+ * - memory: in-process queues (memory-queue.ts), optionally persisted to disk
+ *
+ * The backend is selected with QUEUE_BACKEND (redis by default). The memory
+ * backend persists its queues under QUEUE_PERSIST_DIR when it is set, so
+ * queued jobs survive a restart and jobs that were running are reported stalled.
+ */
+
+import Queue from "bull";
+import { createMemoryQueue } from "./memory-queue";
+
+/**
+ * Options for one queued job (the subset of Bull's job options the pipeline uses)
+ */
+export interface QueueJobOptions {
+  // Runs before the job fails for good (default: 1)
+  attempts?: number;
+  // Wait between attempts: fixed, or doubling from delay after each failure
+  backoff?: { type: "fixed" | "exponential"; delay: number };
+  // Wait before the first attempt
+  delay?: number;
+  // Fail an attempt that runs longer than this
+  timeout?: number;
+  removeOnComplete?: boolean;
+  removeOnFail?: boolean;
+}
+
+/**
+ * A job handed to a queue's processor
+ */
+export interface QueueJob<T> {
+  id: string | number;
+  data: T;
+  // Attempts that failed so far
+  attemptsMade: number;
+  // The queue the job came from (workers requeue paused jobs on it)
+  queue: { add(data: T, options?: QueueJobOptions): Promise<unknown> };
+}
+
+/**
+ * A job whose last attempt failed, kept by its queue unless added with removeOnFail
+ */
+export interface FailedQueueJob<T> {
+  id: string | number;
+  data: T;
+  attemptsMade: number;
+  failedReason: string;
+  // Epoch milliseconds of the last failed attempt
+  failedAt: number;
+}
+
+export type QueueProcessor<T> = (job: QueueJob<T>) => Promise<unknown>;
+
+/**
+ * A named queue of jobs processed with bounded concurrency
+ *
+ * Events:
+ * - completed (job, result): the processor resolved
+ * - failed (job, err): an attempt threw or timed out (emitted for every attempt)
+ * - stalled (job): a job was found active with no process running it; it runs again
+ * - error (err): the queue itself failed
+ */
+export interface WorkQueue<T> {
+  readonly name: string;
+  add(data: T, options?: QueueJobOptions): Promise<QueueJob<T>>;
+  process(concurrency: number, processor: QueueProcessor<T>): void;
+  on(event: "completed", listener: (job: QueueJob<T>, result: any) => void): void;
+  on(event: "failed", listener: (job: QueueJob<T>, err: Error) => void): void;
+  on(event: "stalled", listener: (job: QueueJob<T>) => void): void;
+  on(event: "error", listener: (err: Error) => void): void;
+  getActiveCount(): Promise<number>;
+  getWaitingCount(): Promise<number>;
+  getDelayedCount(): Promise<number>;
+  getCompletedCount(): Promise<number>;
+  getFailedCount(): Promise<number>;
+  // Jobs waiting, delayed or running
+  getPendingJobs(): Promise<QueueJob<T>[]>;
+  getFailedJobs(): Promise<FailedQueueJob<T>[]>;
+  // Stop taking jobs in this process; active ones keep running and other processes keep taking jobs
+  pause(): Promise<void>;
+  // Stop taking jobs and wait for the active ones to finish
+  close(): Promise<void>;
+}
+
+export type QueueBackendName = "redis" | "memory";
+
+export interface QueueBackend {
+  name: QueueBackendName;
+  createQueue<T>(name: string): WorkQueue<T>;
+}
+
+/**
+ * Stalled-job settings shared by both backends
+ */
+const MAX_STALLED_COUNT = 2;
+
+/**
+ * Create a Bull queue on Redis
+ */
+function createBullQueue<T>(name: string): WorkQueue<T> {
+  const queue = new Queue<T>(name, {
+    redis: {
+      host: process.env.REDIS_HOST || "127.0.0.1",
+      port: parseInt(process.env.REDIS_PORT || "6379"),
+    },
+    settings: {
+      lockDuration: 30000,
+      lockRenewTime: 15000,
+      maxStalledCount: MAX_STALLED_COUNT,
+      stalledInterval: 5000,
+    },
+  });
+
+  return {
+    name,
+    add: (data, options) => queue.add(data, options),
+    process: (concurrency, processor) => {
+      queue.process(concurrency, (job) => processor(job));
+    },
+    on: (event: string, listener: (...args: any[]) => void) => {
+      queue.on(event, listener);
+    },
+    getActiveCount: () => queue.getActiveCount(),
+    getWaitingCount: () => queue.getWaitingCount(),
+    getDelayedCount: () => queue.getDelayedCount(),
+    getCompletedCount: () => queue.getCompletedCount(),
+    getFailedCount: () => queue.getFailedCount(),
+    getPendingJobs: () => queue.getJobs(["waiting", "delayed", "active"]),
+    getFailedJobs: async () =>
+      (await queue.getFailed()).map((job) => ({
+        id: job.id,
+        data: job.data,
+        attemptsMade: job.attemptsMade,
+        failedReason: job.failedReason ?? "",
+        failedAt: job.finishedOn ?? job.timestamp,
+      })),
+    pause: () => queue.pause(true, true),
+    close: () => queue.close(),
+  };
+}
+
+/**
+ * Create a queue backend
+ * @param name - Backend to use (default: QUEUE_BACKEND, or redis)
+ */
+export function createQueueBackend(name: string = process.env.QUEUE_BACKEND || "redis"): QueueBackend {
+  switch (name) {
+    case "redis":
+      return { name, createQueue: createBullQueue };
+    case "memory": {
+      const persistDir = process.env.QUEUE_PERSIST_DIR || undefined;
+      return {
+        name,
+        createQueue: (queueName) => createMemoryQueue(queueName, { persistDir, maxStalledCount: MAX_STALLED_COUNT }),
+      };
+    }
+    default:
+      throw new Error(`Unknown QUEUE_BACKEND ${name}. Available: redis, memory`);
+  }
+}
@@ -0,0 +1,382 @@
+import { describe, it, expect, vi, beforeAll, afterAll } from "vitest";
+import fs from "fs-extra";
+import path from "path";
+
+// The workers read their storage root when loaded, so the environment is set before any import
+const env = vi.hoisted(() => {
+  const storageRoot = `/tmp/ego-studio-jobs-test-queue-${Date.now()}-${Math.random()}`;
+  process.env.STORAGE_ROOT = storageRoot;
+  process.env.QUEUE_BACKEND = "memory";
+  return { storageRoot, binDir: `${storageRoot}-bin`, path: process.env.PATH };
+});
+
+import { filesystem, JobMetadata, JobPriority, JOB_PRIORITIES, JOB_STATES, PIPELINE_STAGES } from "./filesystem";
+import { createMoveOperations } from "./job-moves";
+import { createOrchestrator } from "./orchestrator";
+import { closeQueues, getQueueStats, getStageActivity, initializeQueues } from "./queue";
+import { createJobFromFile } from "./jobs-service-file";
+import { createJob, getJob } from "./jobs-service";
+import { createDrain } from "./drain";
+import { encodeWav } from "./audio-io";
+import { registerFeature, unregisterFeature } from "./adapter-registry";
+
+// A tenth of a second of 44.1 kHz stereo silence; the fake demucs copies it to every stem
+const UPLOAD_WAV = encodeWav({ sampleRate: 44100, channelData: [new Float32Array(4410), new Float32Array(4410)] });
+
+// Stands in for demucs: writes one stem per source, copied from the input
+// (with DEMUCS_GATE set, it waits for that file to exist first; with
+// DEMUCS_OOM set, it runs out of GPU memory unless run with -d cpu)
+const FAKE_DEMUCS = `#!/bin/sh
+if [ -n "$DEMUCS_GATE" ]; then
+  while [ ! -f "$DEMUCS_GATE" ]; do sleep 0.05; done
+fi
+if [ -n "$DEMUCS_OOM" ] && [ "$3" != "-d" ]; then
+  echo "RuntimeError: CUDA out of memory" >&2
+  exit 1
+fi
+for audio; do :; done
+name=$(basename "$audio")
+dir="$2/htdemucs/\${name%.*}"
+mkdir -p "$dir"
+for stem in vocals drums bass other; do cp "$audio" "$dir/$stem.wav"; done
+`;
+
+// Stand in for ffprobe and ffmpeg: files starting with "RIFF" are 3-minute
+// 44.1 kHz stereo WAVs, anything else is refused; "transcoding" copies the input
+const FAKE_FFPROBE = `#!/bin/sh
+for audio; do :; done
+if [ "$(head -c 4 "$audio")" != "RIFF" ]; then
+  echo "$audio: Invalid data found when processing input" >&2
+  exit 1
+fi
+echo '{"streams":[{"codec_type":"audio","codec_name":"pcm_s16le","sample_rate":"44100","channels":2,"bits_per_sample":16}],"format":{"format_name":"wav","duration":"180.000000"}}'
+`;
+
+const FAKE_FFMPEG = `#!/bin/sh
+while [ "$1" != "-i" ]; do shift; done
+input="$2"
+for output; do :; done
+cp "$input" "$output"
+`;
+
+// Stands in for yt-dlp: prints the video's metadata with -j, else "downloads" a WAV as audio.webm
+const FAKE_YTDLP = `#!/bin/sh
+if [ "$2" = "-j" ]; then
+  echo '{"title":"Video","uploader":"Channel","duration":180}'
+  exit 0
+fi
+cp "$FAKE_YTDLP_AUDIO" "$(dirname "$3")/audio.webm"
+`;
+
+async function waitForJob(
+  jobId: string,
+  condition: (metadata: JobMetadata) => boolean,
+  timeoutMs = 20000
+): Promise<JobMetadata> {
+  const deadline = Date.now() + timeoutMs;
+  for (;;) {
+    // Reads can race a move of the job to another state
+    const metadata = await filesystem.readMetadata(jobId).catch(() => null);
+    if (metadata && condition(metadata)) {
+      return metadata;
+    }
+    if (Date.now() > deadline) {
+      throw new Error(`Job ${jobId} still ${metadata?.state} in ${metadata?.stage}`);
+    }
+    await new Promise((resolve) => setTimeout(resolve, 50));
+  }
+}
+
+async function waitForState(jobId: string, states: string[]): Promise<string> {
+  return (await waitForJob(jobId, (metadata) => states.includes(metadata.state))).state;
+}
+
+function isWaitingForSeparation(metadata: JobMetadata): boolean {
+  return metadata.state === JOB_STATES.DONE && metadata.stage === PIPELINE_STAGES.DOWNLOAD;
+}
+
+describe.sequential("Stage Queues (memory backend)", () => {
+  const moves = createMoveOperations(filesystem, env.storageRoot);
+  const orchestrator = createOrchestrator(filesystem, moves);
+
+  beforeAll(async () => {
+    await fs.outputFile(path.join(env.binDir, "demucs"), FAKE_DEMUCS, { mode: 0o755 });
+    await fs.outputFile(path.join(env.binDir, "ffprobe"), FAKE_FFPROBE, { mode: 0o755 });
+    await fs.outputFile(path.join(env.binDir, "ffmpeg"), FAKE_FFMPEG, { mode: 0o755 });
+    await fs.outputFile(path.join(env.binDir, "yt-dlp"), FAKE_YTDLP, { mode: 0o755 });
+    await fs.outputFile(path.join(env.binDir, "audio.wav"), UPLOAD_WAV);
+    process.env.FAKE_YTDLP_AUDIO = path.join(env.binDir, "audio.wav");
+    process.env.PATH = `${env.binDir}:${env.path}`;
+
+    await filesystem.initializeStorage();
+    await initializeQueues();
+  });
+
+  afterAll(async () => {
+    await closeQueues();
+    process.env.PATH = env.path;
+    delete process.env.FAKE_YTDLP_AUDIO;
+
+    try {
+      await fs.remove(env.storageRoot);
+      await fs.remove(env.binDir);
+    } catch (e) {
+      // Ignore cleanup errors
+    }
+  });
+
+  it("should run an uploaded file through every stage to COMPLETE", { timeout: 30000 }, async () => {
+    const { jobId } = await createJobFromFile(UPLOAD_WAV, "Artist - Song.wav", "audio/wav");
+
+    await orchestrator.dispatchNewJobs();
+    expect(await waitForState(jobId, [JOB_STATES.COMPLETE, JOB_STATES.FAILED])).toBe(JOB_STATES.COMPLETE);
+
+    const metadata = await filesystem.readMetadata(jobId);
+    expect(metadata?.pipeline?.completed).toEqual(Object.values(PIPELINE_STAGES));
+    expect(metadata?.download).toMatchObject({
+      title: "Song",
+      artist: "Artist",
+      duration: 180,
+      filePath: "download/audio.wav",
+      probe: { formatName: "wav", codec: "pcm_s16le", sampleRate: 44100, channels: 2, bitDepth: 16 },
+    });
+    expect(metadata?.lyrics?.status).toBe("COMPLETE");
+    expect(metadata?.separation?.stems?.vocals).toMatchObject({ sampleRate: 44100, channels: 2, numSamples: 4410 });
+    expect(metadata?.audacity).toMatchObject({ status: "COMPLETE", sampleRate: 44100, numSamples: 4410 });
+    expect(metadata?.waveform).toMatchObject({
+      status: "COMPLETE",
+      sources: ["mix", "bass", "drums", "other", "vocals"],
+      zoomLevels: [256, 1024, 4096],
+      mixSource: "download",
+    });
+    // A tenth of a second is too short for a tempo; the job completes without one
+    expect(metadata?.analysis).toMatchObject({ status: "FAILED" });
+    expect(metadata?.analysis?.error).toContain("too short");
+
+    const artifacts = await filesystem.listArtifacts(jobId);
+    expect(artifacts.stems?.sort()).toEqual(["bass.wav", "drums.wav", "other.wav", "vocals.wav"]);
+    expect(artifacts.waveform).toContain("index.json");
+    expect(artifacts.waveform).toContain("vocals-4096.json");
+    expect(await fs.pathExists(path.join(env.storageRoot, "artifacts", `${jobId}-artifacts.zip`))).toBe(true);
+
+    // The queue counts the run once the processor returns, just after the job moved to COMPLETE
+    let stats = await getQueueStats();
+    for (let tries = 0; stats[PIPELINE_STAGES.PACKAGING].active > 0 && tries < 100; tries++) {
+      await new Promise((resolve) => setTimeout(resolve, 20));
+      stats = await getQueueStats();
+    }
+    expect(stats[PIPELINE_STAGES.PACKAGING]).toMatchObject({ active: 0, waiting: 0, completed: 1, failed: 0 });
+  });
+
+  it("should ingest a URL download to the canonical WAV", { timeout: 30000 }, async () => {
+    const { jobId } = await createJob("https://youtube.com/watch?v=test", { preset: "lyrics-only" });
+
+    await orchestrator.dispatchNewJobs();
+    expect(await waitForState(jobId, [JOB_STATES.COMPLETE, JOB_STATES.FAILED])).toBe(JOB_STATES.COMPLETE);
+
+    const metadata = await filesystem.readMetadata(jobId);
+    expect(metadata?.download).toMatchObject({
+      title: "Video",
+      artist: "Channel",
+      filePath: "download/audio.wav",
+      probe: { formatName: "wav", codec: "pcm_s16le" },
+    });
+    // The raw download stays out of the job folder
+    expect((await filesystem.listArtifacts(jobId)).download).toEqual(["audio.wav"]);
+  });
+
+  it("should run the stages of a parallel pipeline as they become ready", { timeout: 30000 }, async () => {
+    const { jobId } = await createJobFromFile(UPLOAD_WAV, "Artist - Other.wav", "audio/wav", {
+      preset: "parallel",
+    });
+
+    await orchestrator.dispatchNewJobs();
+    expect(await waitForState(jobId, [JOB_STATES.COMPLETE, JOB_STATES.FAILED])).toBe(JOB_STATES.COMPLETE);
+
+    const completed = (await filesystem.readMetadata(jobId))?.pipeline?.completed ?? [];
+    const position = (stage: string) => completed.indexOf(stage);
+    expect(completed).toHaveLength(6);
+    expect(completed[0]).toBe(PIPELINE_STAGES.DOWNLOAD);
+    expect(completed[5]).toBe(PIPELINE_STAGES.PACKAGING);
+    // WAVEFORM and AUDACITY each wait only for their own dependencies
+    expect(position(PIPELINE_STAGES.WAVEFORM)).toBeGreaterThan(position(PIPELINE_STAGES.SEPARATION));
+    expect(position(PIPELINE_STAGES.AUDACITY)).toBeGreaterThan(
+      Math.max(position(PIPELINE_STAGES.SEPARATION), position(PIPELINE_STAGES.LYRICS))
+    );
+  });
+
+  it("should run the beats feature after DOWNLOAD in a pipeline without separation", { timeout: 30000 }, async () => {
+    // A feature that throws is logged and the job goes on
+    registerFeature({
+      name: "broken",
+      after: [PIPELINE_STAGES.DOWNLOAD],
+      artifactDir: null,
+      run: async () => {
+        throw new Error("boom");
+      },
+    });
+    try {
+      const { jobId } = await createJobFromFile(UPLOAD_WAV, "Artist - Lyrics.wav", "audio/wav", {
+        preset: "lyrics-only",
+      });
+
+      await orchestrator.dispatchNewJobs();
+      expect(await waitForState(jobId, [JOB_STATES.COMPLETE, JOB_STATES.FAILED])).toBe(JOB_STATES.COMPLETE);
+
+      // Analysed from the mix (a tenth of a second is too short for a tempo)
+      const metadata = await filesystem.readMetadata(jobId);
+      expect(metadata?.analysis).toMatchObject({ status: "FAILED" });
+      expect(metadata?.analysis?.error).toContain("too short");
+    } finally {
+      unregisterFeature("broken");
+    }
+  });
+
+  it("should admit SEPARATION jobs by priority lane and fair share across owners", { timeout: 30000 }, async () => {
+    const gate = path.join(env.binDir, "gate");
+    process.env.DEMUCS_GATE = gate;
+    const upload = (name: string, options: { ownerId: string; priority?: JobPriority }) =>
+      createJobFromFile(UPLOAD_WAV, `Artist - ${name}.wav`, "audio/wav", options);
+
+    try {
+      const { jobId: alice1 } = await upload("One", { ownerId: "alice" });
+      await orchestrator.dispatchNewJobs();
+      await waitForJob(alice1, (metadata) => metadata.stage === PIPELINE_STAGES.SEPARATION);
+
+      // One at a time, so alice's jobs are queued in upload order
+      const { jobId: alice2 } = await upload("Two", { ownerId: "alice" });
+      await orchestrator.dispatchNewJobs();
+      await waitForJob(alice2, isWaitingForSeparation);
+      const { jobId: alice3 } = await upload("Three", { ownerId: "alice" });
+      await orchestrator.dispatchNewJobs();
+      await waitForJob(alice3, isWaitingForSeparation);
+
+      const { jobId: bob } = await upload("Bob", { ownerId: "bob" });
+      const { jobId: carol } = await upload("Carol", { ownerId: "carol", priority: JOB_PRIORITIES.HIGH });
+      await orchestrator.dispatchNewJobs();
+      await waitForJob(bob, isWaitingForSeparation);
+      await waitForJob(carol, isWaitingForSeparation);
+
+      const positions = await Promise.all(
+        [alice1, carol, bob, alice2, alice3].map(async (jobId) => (await getJob(jobId)).queue)
+      );
+      expect(positions.map((queue) => queue?.position)).toEqual([0, 1, 2, 3, 4]);
+      expect(positions[1]).toMatchObject({ stage: PIPELINE_STAGES.SEPARATION, priority: JOB_PRIORITIES.HIGH });
+      expect(positions[2]!.estimatedWaitMs).toBeGreaterThan(positions[1]!.estimatedWaitMs);
+
+      await fs.writeFile(gate, "");
+      for (const jobId of [alice1, carol, bob, alice2, alice3]) {
+        expect(await waitForState(jobId, [JOB_STATES.COMPLETE, JOB_STATES.FAILED])).toBe(JOB_STATES.COMPLETE);
+      }
+      expect((await getJob(bob)).queue).toBeUndefined();
+    } finally {
+      // Release demucs runs still waiting if the test failed
+      await fs.outputFile(gate, "");
+      delete process.env.DEMUCS_GATE;
+    }
+  });
+
+  it("should retry a SEPARATION that ran out of GPU memory on the CPU", { timeout: 30000 }, async () => {
+    process.env.DEMUCS_OOM = "1";
+    process.env.WORKER_DEVICE = "cuda";
+
+    try {
+      const { jobId } = await createJobFromFile(UPLOAD_WAV, "Artist - Big.wav", "audio/wav");
+      await orchestrator.dispatchNewJobs();
+
+      const failed = await waitForJob(
+        jobId,
+        (metadata) => metadata.state === JOB_STATES.FAILED && !!metadata.attempts?.length
+      );
+      expect(failed.attempts).toMatchObject([
+        { stage: PIPELINE_STAGES.SEPARATION, attempt: 1, maxAttempts: 2, reason: "GPU_MEMORY", fallback: "cpu" },
+      ]);
+      expect((await getJob(jobId)).retry).toMatchObject({ stage: PIPELINE_STAGES.SEPARATION, attempt: 2 });
+
+      expect((await orchestrator.retryDueJobs()).retried).toEqual([jobId]);
+      expect(await waitForState(jobId, [JOB_STATES.COMPLETE, JOB_STATES.FAILED])).toBe(JOB_STATES.COMPLETE);
+      const metadata = await filesystem.readMetadata(jobId);
+      expect(metadata?.attempts?.[0].nextAttemptAt).toBeUndefined();
+      // The retry ran on the fallback device, not the worker's GPU
+      expect(metadata?.separation?.device).toBe("cpu");
+    } finally {
+      delete process.env.DEMUCS_OOM;
+      delete process.env.WORKER_DEVICE;
+    }
+  });
+
+  it("should fail an upload that is not audio without retrying it", { timeout: 30000 }, async () => {
+    const { jobId } = await createJobFromFile(Buffer.from("ID3 truncated"), "Artist - Broken.mp3", "audio/mpeg");
+    await orchestrator.dispatchNewJobs();
+
+    expect(await waitForState(jobId, [JOB_STATES.COMPLETE, JOB_STATES.FAILED])).toBe(JOB_STATES.FAILED);
+    const metadata = await filesystem.readMetadata(jobId);
+    expect(metadata?.stage).toBe(PIPELINE_STAGES.DOWNLOAD);
+    expect(metadata?.download).toMatchObject({ status: "FAILED", reason: "INVALID_AUDIO_FORMAT" });
+    expect((await getJob(jobId)).retry).toBeUndefined();
+    expect(await filesystem.listArtifacts(jobId)).not.toHaveProperty("download");
+  });
+
+  it("should report the stages it is running and the stage runs of the last hour", { timeout: 30000 }, async () => {
+    const gate = path.join(env.binDir, "activity-gate");
+    process.env.DEMUCS_GATE = gate;
+
+    try {
+      const before = getStageActivity();
+      const { jobId } = await createJobFromFile(UPLOAD_WAV, "Artist - Busy.wav", "audio/wav");
+      await orchestrator.dispatchNewJobs();
+      await waitForJob(
+        jobId,
+        (metadata) => metadata.stage === PIPELINE_STAGES.SEPARATION && metadata.state === JOB_STATES.RUNNING
+      );
+
+      expect(getStageActivity().running).toEqual([
+        { jobId, stage: PIPELINE_STAGES.SEPARATION, startedAt: expect.any(String) },
+      ]);
+
+      await fs.writeFile(gate, "");
+      expect(await waitForState(jobId, [JOB_STATES.COMPLETE, JOB_STATES.FAILED])).toBe(JOB_STATES.COMPLETE);
+      const after = getStageActivity();
+      expect(after.completed).toBeGreaterThan(before.completed);
+      // The GPU_MEMORY failure of the previous test
+      expect(after.failed).toBeGreaterThanOrEqual(1);
+    } finally {
+      await fs.outputFile(gate, "");
+      delete process.env.DEMUCS_GATE;
+    }
+  });
+
+  // Closes and restarts the queues, so it runs last
+  it("should hand back a stage still running when draining past the deadline", { timeout: 30000 }, async () => {
+    const gate = path.join(env.binDir, "drain-gate");
+    process.env.DEMUCS_GATE = gate;
+
+    try {
+      const { jobId } = await createJobFromFile(UPLOAD_WAV, "Artist - Long.wav", "audio/wav");
+      await orchestrator.dispatchNewJobs();
+      await waitForJob(
+        jobId,
+        (metadata) => metadata.state === JOB_STATES.RUNNING && metadata.stage === PIPELINE_STAGES.SEPARATION
+      );
+
+      const result = await createDrain(filesystem, moves).drain(200);
+
+      expect(result).toEqual({ finished: false, released: [jobId], errors: [] });
+      const metadata = await filesystem.readMetadata(jobId);
+      expect(isWaitingForSeparation(metadata!)).toBe(true);
+      expect(metadata?.pipeline?.completed).toEqual([PIPELINE_STAGES.DOWNLOAD]);
+      expect(metadata?.separation).toBeUndefined();
+      expect((await filesystem.readJobLogs(jobId)).some((line) => line.includes("Released from RUNNING"))).toBe(true);
+
+      // The next process puts the job back in line for SEPARATION when its queues start
+      await fs.outputFile(gate, "");
+      await initializeQueues();
+
+      expect(await waitForState(jobId, [JOB_STATES.COMPLETE, JOB_STATES.FAILED])).toBe(JOB_STATES.COMPLETE);
+      expect((await filesystem.readMetadata(jobId))?.separation?.status).toBe("COMPLETE");
+    } finally {
+      await fs.outputFile(gate, "");
+      delete process.env.DEMUCS_GATE;
+    }
+  });
+});
@@ -1,163 +1,415 @@
 /**
- * Bull Queue Management
+ * Stage Queue Management
  *
- * Initializes and manages job queues.
- * Connects to Redis (or in-memory for testing).
+ * Initializes and manages job queues on the backend selected by
+ * QUEUE_BACKEND: Bull on Redis, or in-process queues (see queue-backend.ts).
+ *
+ * One queue per registered stage adapter (see adapter-registry.ts): its name,
+ * concurrency, timeout and processor come from the adapter. When a stage
+ * completes, every stage of the job's pipeline that became ready is enqueued
+ * (see pipeline.ts); a stage enqueued while another holds the job is skipped
+ * and enqueued again when that stage completes. The feature adapters due after
+ * the stage (beats) run first, in the process that ran it.
+ *
+ * Stages declared with fairQueue (SEPARATION) do not take jobs first come,
+ * first served: jobs wait in a fair queue (see fair-queue.ts) ordered by
+ * priority lane and fair share across owners, and are admitted to the stage
+ * queue while it has fewer jobs than its concurrency. The fair queue is
+ * rebuilt from the DONE jobs waiting for the stage when queues start.
+ *
+ * Queue jobs get one attempt: a stage that fails moves the job to FAILED,
+ * and the retry policy (see retry-policy.ts) records the attempt and decides
+ * whether the job is retried. Failed queue jobs are kept, and stages that
+ * could not be scheduled after a completed one are remembered, for the
+ * dead-letter view (see dead-letters.ts).
+ *
+ * Stage runs in this process are tracked so a draining server can pause the
+ * queues and wait for them (see drain.ts).
+ *
+ * A process creates every stage queue, so it can enqueue any stage, but only
+ * processes the stages it was started with (all by default; a standalone
+ * worker runs a few, see cli/worker.ts). With processes sharing Redis, each
+ * keeps the fair queue of the jobs it enqueued, and frees the slots of jobs
+ * another process ran when it refreshes its fair queues.
  */
 
-import Queue from "bull";
-import { processYtDlpJob, YT_DLP_QUEUE_NAME, JOB_OPTIONS } from "../workers/yt-dlp-worker";
-import { processDemucsJob, DEMUCS_QUEUE_NAME } from "../workers/demucs-worker";
-import { processLyricsJob, LYRICS_QUEUE_NAME } from "../workers/lyrics-worker";
-import { processAudacityJob, AUDACITY_QUEUE_NAME } from "../workers/audacity-worker";
+import { filesystem, JobPriority, JOB_STATES, PipelineStage } from "./filesystem";
+import { listAdapters, getAdapter, getFeaturesAfter, checkRequirements, StageAdapter } from "./adapter-registry";
+import { checkStageReady, getJobPipeline, getReadyStages } from "./pipeline";
+import { createQueueBackend, QueueBackend, QueueJob, QueueJobOptions, WorkQueue } from "./queue-backend";
+import { createFairQueue, FairQueue, FairQueueEntry } from "./fair-queue";
+import { createRetryPolicy } from "./retry-policy";
 
-let ytDlpQueue: Queue.Queue<{ jobId: string }> | null = null;
-let demucsQueue: Queue.Queue<{ jobId: string }> | null = null;
-let lyricsQueue: Queue.Queue<{ jobId: string }> | null = null;
-let audacityQueue: Queue.Queue<{ jobId: string }> | null = null;
+type StageQueue = WorkQueue<{ jobId: string }>;
 
 /**
- * Initialize queues
+ * Queue counts for one stage
  */
-export async function initializeQueues(): Promise<void> {
-  try {
-    // Initialize yt-dlp queue
-    ytDlpQueue = new Queue(YT_DLP_QUEUE_NAME, {
-      redis: {
-        host: process.env.REDIS_HOST || "127.0.0.1",
-        port: parseInt(process.env.REDIS_PORT || "6379"),
-      },
-      settings: {
-        lockDuration: 30000,
-        lockRenewTime: 15000,
-        maxStalledCount: 2,
-        stalledInterval: 5000,
-      },
-    });
+export interface StageQueueStats {
+  active: number;
+  waiting: number;
+  delayed: number;
+  completed: number;
+  failed: number;
+}
 
-    // Register job processor
-    ytDlpQueue.process(1, processYtDlpJob);
-
-    // Event handlers
-    ytDlpQueue.on("completed", async (job) => {
-      console.log(`[queue] yt-dlp job ${job.data.jobId} completed, enqueueing for Demucs`);
-      // Automatically enqueue for Demucs after yt-dlp completes
-      try {
-        await enqueueDemucsJob(job.data.jobId);
-      } catch (err) {
-        console.error(`[queue] Failed to enqueue Demucs job:`, err);
-      }
-    });
+/**
+ * A queue job that failed, or a stage that could not be enqueued after the previous one completed
+ */
+export interface QueueFailure {
+  jobId: string;
+  stage: PipelineStage;
+  error: string;
+  failedAt: string;
+}
 
-    ytDlpQueue.on("failed", (job, err) => {
-      console.error(`[queue] yt-dlp job ${job.data.jobId} failed:`, err.message);
-    });
+/**
+ * Where a job waits for a fair-queued stage
+ */
+export interface QueuePosition {
+  stage: PipelineStage;
+  priority: JobPriority;
+  // Place in line (1 = admitted next); 0 once admitted to the stage queue
+  position: number;
+  estimatedWaitMs: number;
+}
 
-    ytDlpQueue.on("error", (err) => {
-      console.error(`[queue] yt-dlp queue error:`, err);
-    });
+/**
+ * A stage this process is running for a job
+ */
+export interface RunningStage {
+  jobId: string;
+  stage: PipelineStage;
+  startedAt: string;
+}
 
-    // Initialize Demucs queue
-    demucsQueue = new Queue(DEMUCS_QUEUE_NAME, {
-      redis: {
-        host: process.env.REDIS_HOST || "127.0.0.1",
-        port: parseInt(process.env.REDIS_PORT || "6379"),
-      },
-      settings: {
-        lockDuration: 30000,
-        lockRenewTime: 15000,
-        maxStalledCount: 2,
-        stalledInterval: 5000,
-      },
-    });
+/**
+ * What this process's stage queues are doing: the stages running now and
+ * how many stage runs completed or failed within the activity window
+ */
+export interface StageActivity {
+  running: RunningStage[];
+  completed: number;
+  failed: number;
+}
 
-    // Register Demucs processor
-    demucsQueue.process(1, processDemucsJob);
+/**
+ * Jobs in front of a fair-queued stage and the ones it admitted to its queue
+ */
+interface FairStage {
+  waiting: FairQueue;
+  admitted: Map<string, FairQueueEntry>;
+  // Moving average of the stage's run time
+  averageDurationMs: number;
+  // Admissions run one at a time so concurrent enqueues do not overfill the queue
+  admitting: Promise<void>;
+}
 
-    // Event handlers
-    demucsQueue.on("completed", async (job) => {
-      console.log(`[queue] Demucs job ${job.data.jobId} completed, enqueueing for Lyrics`);
-      try {
-        await enqueueLyricsJob(job.data.jobId);
-      } catch (err) {
-        console.error(`[queue] Failed to enqueue Lyrics job:`, err);
-      }
-    });
+const JOB_OPTIONS: QueueJobOptions = {
+  attempts: 1,
+  removeOnComplete: false,
+  removeOnFail: false,
+};
+
+const retryPolicy = createRetryPolicy(filesystem);
+const queues = new Map<PipelineStage, StageQueue>();
+const fairStages = new Map<PipelineStage, FairStage>();
+// Jobs whose next stages could not be enqueued, keyed by job ID (until they are enqueued)
+const unscheduled = new Map<string, QueueFailure>();
+// Stage and feature runs in this process
+const running = new Set<Promise<unknown>>();
+// Stages whose processor is running in this process, and when recent stage runs ended
+const runningStages = new Set<RunningStage>();
+const finishedRuns: { finishedAt: number; failed: boolean }[] = [];
+let backend: QueueBackend | null = null;
+let fairRefreshTimer: NodeJS.Timeout | null = null;
 
-    demucsQueue.on("failed", (job, err) => {
-      console.error(`[queue] Demucs job ${job.data.jobId} failed:`, err.message);
-    });
+/**
+ * How often fair queues free the slots of jobs run by other processes
+ */
+const FAIR_REFRESH_MS = 5 * 1000;
 
-    demucsQueue.on("error", (err) => {
-      console.error(`[queue] Demucs queue error:`, err);
-    });
+/**
+ * How far back getStageActivity counts completed and failed stage runs
+ */
+export const ACTIVITY_WINDOW_MS = 60 * 60 * 1000;
 
-    // Initialize Lyrics queue
-    lyricsQueue = new Queue(LYRICS_QUEUE_NAME, {
-      redis: {
-        host: process.env.REDIS_HOST || "127.0.0.1",
-        port: parseInt(process.env.REDIS_PORT || "6379"),
-      },
-      settings: {
-        lockDuration: 30000,
-        lockRenewTime: 15000,
-        maxStalledCount: 2,
-        stalledInterval: 5000,
-      },
-    });
+/**
+ * Forget stage runs that ended before the activity window
+ */
+function pruneFinishedRuns(now: number): void {
+  while (finishedRuns.length > 0 && finishedRuns[0].finishedAt < now - ACTIVITY_WINDOW_MS) {
+    finishedRuns.shift();
+  }
+}
 
-    // Register Lyrics processor
-    lyricsQueue.process(1, processLyricsJob);
+/**
+ * Run an adapter's processor once the job's pipeline has the stage ready
+ * and the stages it requires have completed
+ * Returns true if the stage completed in this run (skips, pauses and failures return false)
+ */
+async function processStage(adapter: StageAdapter, job: QueueJob<{ jobId: string }>): Promise<boolean> {
+  const metadata = await filesystem.readMetadata(job.data.jobId);
+  if (metadata) {
+    const readiness = checkStageReady(metadata, adapter.stage);
+    if (!readiness.valid) {
+      console.log(`[queue] Skipping ${adapter.stage} for job ${job.data.jobId}: ${readiness.reason}`);
+      return false;
+    }
+
+    const requirements = checkRequirements(adapter, metadata);
+    if (!requirements.valid) {
+      console.log(`[queue] Skipping ${adapter.stage} for job ${job.data.jobId}: ${requirements.reason}`);
+      return false;
+    }
+  }
 
-    // Event handlers
-    lyricsQueue.on("completed", async (job) => {
-      console.log(`[queue] Lyrics job ${job.data.jobId} completed, enqueueing for Audacity`);
-      try {
-        await enqueueAudacityJob(job.data.jobId);
-      } catch (err) {
-        console.error(`[queue] Failed to enqueue Audacity job:`, err);
-      }
-    });
+  const startedAt = Date.now();
+  const current: RunningStage = {
+    jobId: job.data.jobId,
+    stage: adapter.stage,
+    startedAt: new Date(startedAt).toISOString(),
+  };
+  runningStages.add(current);
+  let processorError: unknown = null;
+  try {
+    await adapter.processor(job);
+  } catch (err) {
+    processorError = err;
+  } finally {
+    runningStages.delete(current);
+  }
 
-    lyricsQueue.on("failed", (job, err) => {
-      console.error(`[queue] Lyrics job ${job.data.jobId} failed:`, err.message);
-    });
+  const updated = await filesystem.readMetadata(job.data.jobId);
+  const failed = updated?.state === JOB_STATES.FAILED && updated.stage === adapter.stage;
+  if (failed) {
+    try {
+      await retryPolicy.recordFailure(job.data.jobId, adapter.stage);
+    } catch (err) {
+      console.error(`[queue] Failed to record failed ${adapter.stage} attempt of job ${job.data.jobId}:`, err);
+    }
+  }
+  const completed = updated ? getJobPipeline(updated).completed.includes(adapter.stage) : false;
+  // Skipped, paused, cancelled and released runs count as neither
+  if (processorError || failed || completed) {
+    finishedRuns.push({ finishedAt: Date.now(), failed: Boolean(processorError) || failed });
+    pruneFinishedRuns(Date.now());
+  }
+  if (processorError) {
+    throw processorError;
+  }
 
-    lyricsQueue.on("error", (err) => {
-      console.error(`[queue] Lyrics queue error:`, err);
-    });
+  const fair = fairStages.get(adapter.stage);
+  if (fair && completed) {
+    fair.averageDurationMs = Math.round(fair.averageDurationMs * 0.8 + (Date.now() - startedAt) * 0.2);
+  }
+  return completed;
+}
 
-    // Initialize Audacity queue
-    audacityQueue = new Queue(AUDACITY_QUEUE_NAME, {
-      redis: {
-        host: process.env.REDIS_HOST || "127.0.0.1",
-        port: parseInt(process.env.REDIS_PORT || "6379"),
-      },
-      settings: {
-        lockDuration: 30000,
-        lockRenewTime: 15000,
-        maxStalledCount: 2,
-        stalledInterval: 5000,
-      },
-    });
+/**
+ * Run the feature adapters due after a stage of a job (see adapter-registry.ts)
+ * A feature that throws is logged and skipped: it never fails the stage or holds back the next ones
+ */
+async function runFeatures(stage: PipelineStage, jobId: string): Promise<void> {
+  const metadata = await filesystem.readMetadata(jobId).catch(() => null);
+  if (!metadata) {
+    return;
+  }
 
-    // Register Audacity processor
-    audacityQueue.process(1, processAudacityJob);
+  const pipelineStages = getJobPipeline(metadata).stages.map((node) => node.stage);
+  for (const feature of getFeaturesAfter(pipelineStages, stage)) {
+    try {
+      await feature.run(jobId);
+    } catch (err) {
+      console.error(`[queue] Feature ${feature.name} failed after ${stage} for job ${jobId}:`, err);
+    }
+  }
+}
 
-    // Event handlers
-    audacityQueue.on("completed", (job) => {
-      console.log(`[queue] Audacity job ${job.data.jobId} completed (final stage)`);
-    });
+/**
+ * Add a job to a stage's queue with the adapter's timeout
+ */
+async function addJob(adapter: StageAdapter, jobId: string): Promise<void> {
+  const job = await getStageQueue(adapter.stage).add({ jobId }, { ...JOB_OPTIONS, timeout: adapter.timeoutMs });
+  console.log(`[queue] Enqueued ${adapter.stage} job ${jobId} (queue job ID: ${job.id})`);
+}
 
-    audacityQueue.on("failed", (job, err) => {
-      console.error(`[queue] Audacity job ${job.data.jobId} failed:`, err.message);
+/**
+ * Admit jobs from a fair queue while the stage queue has fewer than `concurrency` jobs waiting or running
+ */
+function admitJobs(adapter: StageAdapter, fair: FairStage): Promise<void> {
+  fair.admitting = fair.admitting
+    .then(async () => {
+      const queue = getStageQueue(adapter.stage);
+      while (
+        fair.waiting.size > 0 &&
+        (await queue.getActiveCount()) + (await queue.getWaitingCount()) < adapter.concurrency
+      ) {
+        const entry = fair.waiting.shift()!;
+        fair.admitted.set(entry.jobId, entry);
+        await addJob(adapter, entry.jobId);
+      }
+    })
+    .catch((err) => {
+      console.error(`[queue] Failed to admit ${adapter.stage} jobs:`, err);
     });
+  return fair.admitting;
+}
 
-    audacityQueue.on("error", (err) => {
-      console.error(`[queue] Audacity queue error:`, err);
+/**
+ * Put the DONE jobs that wait for a fair-queued stage back in line (the fair queue lives in memory)
+ */
+async function restoreFairQueue(adapter: StageAdapter, fair: FairStage): Promise<void> {
+  const waiting = [];
+  for (const jobId of await filesystem.listJobsByState(JOB_STATES.DONE)) {
+    const metadata = await filesystem.readMetadata(jobId);
+    if (metadata && checkStageReady(metadata, adapter.stage).valid) {
+      waiting.push(metadata);
+    }
+  }
+
+  waiting.sort((a, b) => a.updatedAt.localeCompare(b.updatedAt));
+  for (const metadata of waiting) {
+    fair.waiting.push(metadata.id, { ownerId: metadata.ownerId, priority: metadata.priority });
+  }
+  if (waiting.length > 0) {
+    console.log(`[queue] Restored ${waiting.length} job(s) waiting for ${adapter.stage}`);
+  }
+  await admitJobs(adapter, fair);
+}
+
+/**
+ * Free the slots of admitted jobs that left the stage queue (run by another process) and admit the next jobs
+ */
+function refreshFairQueue(adapter: StageAdapter, fair: FairStage): Promise<void> {
+  fair.admitting = fair.admitting
+    .then(async () => {
+      const pending = await getStageQueue(adapter.stage).getPendingJobs();
+      const pendingJobIds = new Set(pending.map((job) => job.data.jobId));
+      for (const jobId of Array.from(fair.admitted.keys())) {
+        if (!pendingJobIds.has(jobId)) {
+          fair.admitted.delete(jobId);
+        }
+      }
+    })
+    .catch((err) => {
+      console.error(`[queue] Failed to refresh ${adapter.stage} fair queue:`, err);
     });
+  return admitJobs(adapter, fair);
+}
+
+/**
+ * Free a fair-queued stage's slot after a run and admit the next jobs
+ */
+function releaseJob(adapter: StageAdapter, jobId: string): void {
+  const fair = fairStages.get(adapter.stage);
+  if (fair) {
+    fair.admitted.delete(jobId);
+    admitJobs(adapter, fair);
+  }
+}
+
+/**
+ * Create the queue for one adapter and, if this process runs the stage, process it and
+ * schedule the job's next stages on completion
+ */
+function createStageQueue(queueBackend: QueueBackend, adapter: StageAdapter, processJobs: boolean): StageQueue {
+  const queue = queueBackend.createQueue<{ jobId: string }>(adapter.queueName);
+  if (!processJobs) {
+    return queue;
+  }
+
+  // Register job processor
+  queue.process(adapter.concurrency, (job) => {
+    const run = processStage(adapter, job);
+    running.add(run);
+    run.then(
+      () => running.delete(run),
+      () => running.delete(run)
+    );
+    return run;
+  });
+
+  // Event handlers
+  queue.on("completed", async (job, stageCompleted: boolean) => {
+    releaseJob(adapter, job.data.jobId);
+    if (!stageCompleted) {
+      return;
+    }
+
+    console.log(`[queue] ${adapter.stage} job ${job.data.jobId} completed`);
+    const features = runFeatures(adapter.stage, job.data.jobId);
+    running.add(features);
+    await features;
+    running.delete(features);
+    try {
+      await scheduleReadyStages(job.data.jobId);
+    } catch (err) {
+      console.error(`[queue] Failed to schedule stages after ${adapter.stage} for job ${job.data.jobId}:`, err);
+      unscheduled.set(job.data.jobId, {
+        jobId: job.data.jobId,
+        stage: adapter.stage,
+        error: `Failed to schedule stages after ${adapter.stage}: ${err instanceof Error ? err.message : String(err)}`,
+        failedAt: new Date().toISOString(),
+      });
+    }
+  });
+
+  queue.on("failed", (job, err) => {
+    console.error(`[queue] ${adapter.stage} job ${job.data.jobId} failed:`, err.message);
+    releaseJob(adapter, job.data.jobId);
+  });
+
+  queue.on("stalled", (job) => {
+    console.warn(`[queue] ${adapter.stage} job ${job.data.jobId} stalled, running it again`);
+  });
+
+  queue.on("error", (err) => {
+    console.error(`[queue] ${adapter.stage} queue error:`, err);
+  });
+
+  return queue;
+}
 
-    console.log(`[queue] All queues initialized successfully`);
+/**
+ * Initialize queues
+ *
+ * @param options.stages - Stages this process runs (default: all registered stages)
+ */
+export async function initializeQueues(options: { stages?: PipelineStage[] } = {}): Promise<void> {
+  const stages = options.stages ?? listAdapters().map((adapter) => adapter.stage);
+  try {
+    backend ??= createQueueBackend();
+    for (const adapter of listAdapters()) {
+      if (!queues.has(adapter.stage)) {
+        queues.set(adapter.stage, createStageQueue(backend, adapter, stages.includes(adapter.stage)));
+      }
+      if (adapter.fairQueue && !fairStages.has(adapter.stage)) {
+        const fair: FairStage = {
+          waiting: createFairQueue(),
+          admitted: new Map(),
+          averageDurationMs: adapter.estimatedDurationMs ?? adapter.timeoutMs,
+          admitting: Promise.resolve(),
+        };
+        fairStages.set(adapter.stage, fair);
+        await restoreFairQueue(adapter, fair);
+      }
+    }
+
+    if (fairStages.size > 0 && !fairRefreshTimer) {
+      fairRefreshTimer = setInterval(() => {
+        for (const [stage, fair] of Array.from(fairStages.entries())) {
+          refreshFairQueue(getAdapter(stage)!, fair);
+        }
+      }, FAIR_REFRESH_MS);
+      // Never keep the process alive just for a refresh
+      fairRefreshTimer.unref();
+    }
+
+    console.log(
+      `[queue] All queues initialized successfully on ${backend.name} (${Array.from(queues.keys()).join(" → ")}), ` +
+        `processing ${stages.length > 0 ? stages.join(", ") : "none"}`
+    );
   } catch (error) {
     console.error(`[queue] Failed to initialize queues:`, error);
     throw error;
@@ -165,141 +417,215 @@ export async function initializeQueues(): Promise<void> {
 }
 
 /**
- * Get yt-dlp queue
+ * Get the queue of a stage
  */
-export function getYtDlpQueue(): Queue.Queue<{ jobId: string }> {
-  if (!ytDlpQueue) {
+export function getStageQueue(stage: PipelineStage): StageQueue {
+  const queue = queues.get(stage);
+  if (!queue) {
     throw new Error("Queues not initialized. Call initializeQueues() first.");
   }
-  return ytDlpQueue;
+  return queue;
 }
 
 /**
- * Get Demucs queue
+ * Add a job to a stage's queue, or to the line in front of it for fair-queued stages
  */
-export function getDemucsQueue(): Queue.Queue<{ jobId: string }> {
-  if (!demucsQueue) {
-    throw new Error("Queues not initialized. Call initializeQueues() first.");
+export async function enqueueStage(stage: PipelineStage, jobId: string): Promise<void> {
+  const adapter = getAdapter(stage);
+  if (!adapter) {
+    throw new Error(`No adapter registered for stage ${stage}`);
   }
-  return demucsQueue;
+
+  const fair = fairStages.get(stage);
+  if (!fair) {
+    await addJob(adapter, jobId);
+    return;
+  }
+
+  const metadata = await filesystem.readMetadata(jobId);
+  if (fair.waiting.push(jobId, { ownerId: metadata?.ownerId, priority: metadata?.priority })) {
+    console.log(`[queue] Queued ${stage} job ${jobId} at position ${fair.waiting.position(jobId)}`);
+  }
+  await admitJobs(adapter, fair);
 }
 
 /**
- * Get Lyrics queue
+ * Put a job waiting for a fair-queued stage back in line with its current metadata
+ * (after its priority changed); jobs already admitted keep their slot
  */
-export function getLyricsQueue(): Queue.Queue<{ jobId: string }> {
-  if (!lyricsQueue) {
-    throw new Error("Queues not initialized. Call initializeQueues() first.");
+export async function requeueWaitingJob(jobId: string): Promise<void> {
+  const metadata = await filesystem.readMetadata(jobId);
+  for (const [stage, fair] of Array.from(fairStages.entries())) {
+    if (fair.waiting.remove(jobId)) {
+      fair.waiting.push(jobId, { ownerId: metadata?.ownerId, priority: metadata?.priority });
+      console.log(`[queue] Requeued ${stage} job ${jobId} at position ${fair.waiting.position(jobId)}`);
+    }
   }
-  return lyricsQueue;
 }
 
 /**
- * Get Audacity queue
+ * Get where a job waits for a fair-queued stage, or null if it is not waiting for one
  */
-export function getAudacityQueue(): Queue.Queue<{ jobId: string }> {
-  if (!audacityQueue) {
-    throw new Error("Queues not initialized. Call initializeQueues() first.");
+export async function getQueuePosition(jobId: string): Promise<QueuePosition | null> {
+  for (const [stage, fair] of Array.from(fairStages.entries())) {
+    const admitted = fair.admitted.get(jobId);
+    if (admitted) {
+      return { stage, priority: admitted.priority, position: 0, estimatedWaitMs: 0 };
+    }
+
+    const position = fair.waiting.position(jobId);
+    if (position !== null) {
+      const adapter = getAdapter(stage)!;
+      const queue = getStageQueue(stage);
+      // Every job in the stage queue or ahead in line runs first, concurrency at a time
+      const ahead = (await queue.getActiveCount()) + (await queue.getWaitingCount()) + position - 1;
+      return {
+        stage,
+        priority: fair.waiting.list()[position - 1].priority,
+        position,
+        estimatedWaitMs: Math.round((ahead / adapter.concurrency) * fair.averageDurationMs),
+      };
+    }
   }
-  return audacityQueue;
+
+  return null;
 }
 
 /**
- * Add a job to the yt-dlp queue
+ * Enqueue every stage of a job's pipeline that can run now
+ * Returns the enqueued stages (none while the job is held, failed or finished)
  */
-export async function enqueueYtDlpJob(jobId: string): Promise<Queue.Job<{ jobId: string }>> {
-  const queue = getYtDlpQueue();
-  const job = await queue.add({ jobId }, JOB_OPTIONS);
-  console.log(`[queue] Enqueued yt-dlp job ${jobId} (Bull job ID: ${job.id})`);
-  return job;
+export async function scheduleReadyStages(jobId: string): Promise<PipelineStage[]> {
+  const metadata = await filesystem.readMetadata(jobId);
+  if (!metadata) {
+    throw new Error(`Job ${jobId} not found`);
+  }
+
+  const ready = getReadyStages(metadata);
+  for (const stage of ready) {
+    await enqueueStage(stage, jobId);
+  }
+  if (ready.length > 0) {
+    unscheduled.delete(jobId);
+  }
+
+  return ready;
 }
 
 /**
- * Add a job to the Demucs queue
+ * List the IDs of jobs waiting, delayed or running in a stage queue, or in line for one
  */
-export async function enqueueDemucsJob(jobId: string): Promise<Queue.Job<{ jobId: string }>> {
-  const queue = getDemucsQueue();
-  const job = await queue.add({ jobId }, JOB_OPTIONS);
-  console.log(`[queue] Enqueued Demucs job ${jobId} (Bull job ID: ${job.id})`);
-  return job;
+export async function listQueuedJobIds(): Promise<Set<string>> {
+  const jobIds = new Set<string>();
+  for (const fair of Array.from(fairStages.values())) {
+    fair.waiting.list().forEach((entry) => jobIds.add(entry.jobId));
+    Array.from(fair.admitted.keys()).forEach((jobId) => jobIds.add(jobId));
+  }
+  for (const queue of Array.from(queues.values())) {
+    (await queue.getPendingJobs()).forEach((job) => jobIds.add(job.data.jobId));
+  }
+  return jobIds;
 }
 
 /**
- * Add a job to the Lyrics queue
+ * List failed queue jobs and stages that could not be enqueued, newest first
  */
-export async function enqueueLyricsJob(jobId: string): Promise<Queue.Job<{ jobId: string }>> {
-  const queue = getLyricsQueue();
-  const job = await queue.add({ jobId }, JOB_OPTIONS);
-  console.log(`[queue] Enqueued Lyrics job ${jobId} (Bull job ID: ${job.id})`);
-  return job;
+export async function listQueueFailures(): Promise<QueueFailure[]> {
+  const failures = Array.from(unscheduled.values());
+  for (const [stage, queue] of Array.from(queues.entries())) {
+    for (const job of await queue.getFailedJobs()) {
+      failures.push({
+        jobId: job.data.jobId,
+        stage,
+        error: job.failedReason,
+        failedAt: new Date(job.failedAt).toISOString(),
+      });
+    }
+  }
+  return failures.sort((a, b) => b.failedAt.localeCompare(a.failedAt));
 }
 
 /**
- * Add a job to the Audacity queue
+ * Stop taking jobs in this process; running stages keep going
  */
-export async function enqueueAudacityJob(jobId: string): Promise<Queue.Job<{ jobId: string }>> {
-  const queue = getAudacityQueue();
-  const job = await queue.add({ jobId }, JOB_OPTIONS);
-  console.log(`[queue] Enqueued Audacity job ${jobId} (Bull job ID: ${job.id})`);
-  return job;
+export async function pauseQueues(): Promise<void> {
+  for (const queue of Array.from(queues.values())) {
+    await queue.pause();
+  }
+  console.log(`[queue] All queues paused (${running.size} stage run(s) in progress)`);
+}
+
+/**
+ * Wait for the stage runs in this process to finish
+ * Returns false if some were still running after timeoutMs
+ */
+export async function waitForRunningStages(timeoutMs: number): Promise<boolean> {
+  const deadline = Date.now() + timeoutMs;
+  while (running.size > 0) {
+    const remainingMs = deadline - Date.now();
+    if (remainingMs <= 0) {
+      return false;
+    }
+
+    let timer: NodeJS.Timeout | undefined;
+    await Promise.race([
+      Promise.allSettled(Array.from(running)),
+      new Promise((resolve) => (timer = setTimeout(resolve, remainingMs))),
+    ]);
+    clearTimeout(timer);
+  }
+  return true;
+}
+
+/**
+ * Get what the stage queues of this process are running and how many stage runs
+ * completed or failed within the last ACTIVITY_WINDOW_MS
+ */
+export function getStageActivity(now: Date = new Date()): StageActivity {
+  pruneFinishedRuns(now.getTime());
+  const failed = finishedRuns.filter((run) => run.failed).length;
+  return {
+    running: Array.from(runningStages, (stage) => ({ ...stage })),
+    completed: finishedRuns.length - failed,
+    failed,
+  };
 }
 
 /**
  * Close all queues
  */
 export async function closeQueues(): Promise<void> {
-  if (ytDlpQueue) {
-    await ytDlpQueue.close();
-    ytDlpQueue = null;
-  }
-  if (demucsQueue) {
-    await demucsQueue.close();
-    demucsQueue = null;
-  }
-  if (lyricsQueue) {
-    await lyricsQueue.close();
-    lyricsQueue = null;
+  if (fairRefreshTimer) {
+    clearInterval(fairRefreshTimer);
+    fairRefreshTimer = null;
   }
-  if (audacityQueue) {
-    await audacityQueue.close();
-    audacityQueue = null;
+  for (const queue of Array.from(queues.values())) {
+    await queue.close();
   }
+  queues.clear();
+  fairStages.clear();
+  unscheduled.clear();
+  finishedRuns.length = 0;
+  backend = null;
   console.log(`[queue] All queues closed`);
 }
 
 /**
- * Get queue stats
+ * Get queue stats, keyed by stage
  */
-export async function getQueueStats(): Promise<{
-  ytDlp: { active: number; waiting: number; completed: number; failed: number };
-  demucs: { active: number; waiting: number; completed: number; failed: number };
-  lyrics: { active: number; waiting: number; completed: number; failed: number };
-  audacity: { active: number; waiting: number; completed: number; failed: number };
-}> {
-  return {
-    ytDlp: {
-      active: await getYtDlpQueue().getActiveCount(),
-      waiting: await getYtDlpQueue().getWaitingCount(),
-      completed: await getYtDlpQueue().getCompletedCount(),
-      failed: await getYtDlpQueue().getFailedCount(),
-    },
-    demucs: {
-      active: await getDemucsQueue().getActiveCount(),
-      waiting: await getDemucsQueue().getWaitingCount(),
-      completed: await getDemucsQueue().getCompletedCount(),
-      failed: await getDemucsQueue().getFailedCount(),
-    },
-    lyrics: {
-      active: await getLyricsQueue().getActiveCount(),
-      waiting: await getLyricsQueue().getWaitingCount(),
-      completed: await getLyricsQueue().getCompletedCount(),
-      failed: await getLyricsQueue().getFailedCount(),
-    },
-    audacity: {
-      active: await getAudacityQueue().getActiveCount(),
-      waiting: await getAudacityQueue().getWaitingCount(),
-      completed: await getAudacityQueue().getCompletedCount(),
-      failed: await getAudacityQueue().getFailedCount(),
-    },
-  };
+export async function getQueueStats(): Promise<Record<string, StageQueueStats>> {
+  const stats: Record<string, StageQueueStats> = {};
+
+  for (const adapter of listAdapters()) {
+    const queue = getStageQueue(adapter.stage);
+    stats[adapter.stage] = {
+      active: await queue.getActiveCount(),
+      waiting: await queue.getWaitingCount(),
+      delayed: await queue.getDelayedCount(),
+      completed: await queue.getCompletedCount(),
+      failed: await queue.getFailedCount(),
+    };
+  }
+
+  return stats;
 }
@@ -0,0 +1,217 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import fs from "fs-extra";
+import os from "os";
+import path from "path";
+import { createFilesystem, JOB_STATES, PIPELINE_STAGES } from "./filesystem";
+import { Actor, getStageOwner } from "./job-state";
+import { createMoveOperations } from "./job-moves";
+import { LocalStorageBackend } from "./storage";
+import { createRetention, validateRetentionPolicy, RETENTION_ACTIONS, RetentionRule } from "./retention";
+
+const TEST_STORAGE_ROOT = "/tmp/ego-studio-jobs-test-retention";
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+describe.sequential("Retention", () => {
+  let filesystem: ReturnType<typeof createFilesystem>;
+  let moves: ReturnType<typeof createMoveOperations>;
+  let storage: LocalStorageBackend;
+  let testDir: string;
+
+  beforeEach(async () => {
+    testDir = `${TEST_STORAGE_ROOT}-${Date.now()}-${Math.random()}`;
+    await fs.ensureDir(testDir);
+    filesystem = createFilesystem(testDir);
+    moves = createMoveOperations(filesystem, testDir);
+    storage = new LocalStorageBackend(path.join(testDir, "storage"));
+    await filesystem.initializeStorage();
+  });
+
+  afterEach(async () => {
+    try {
+      if (testDir) {
+        await fs.remove(testDir);
+      }
+    } catch (e) {
+      // Ignore cleanup errors
+    }
+  });
+
+  function retention(policy: RetentionRule[]) {
+    return createRetention(filesystem, moves, { policy, storage });
+  }
+
+  async function createFailedJob(): Promise<string> {
+    const { jobId } = await filesystem.createJobFolder("https://youtube.com/watch?v=test");
+    await moves.moveJob(jobId, JOB_STATES.NEW, JOB_STATES.CLAIMED, Actor.DOWNLOAD_WORKER);
+    await moves.moveJob(jobId, JOB_STATES.CLAIMED, JOB_STATES.RUNNING, Actor.DOWNLOAD_WORKER);
+    await filesystem.writeArtifact(jobId, "download", "audio.downloaded", "x".repeat(1000));
+    await moves.moveJob(jobId, JOB_STATES.RUNNING, JOB_STATES.FAILED, Actor.DOWNLOAD_WORKER);
+    return jobId;
+  }
+
+  async function createCompleteJob(): Promise<string> {
+    const { jobId } = await filesystem.createJobFolder("https://youtube.com/watch?v=test");
+    await moves.moveJob(jobId, JOB_STATES.NEW, JOB_STATES.CLAIMED, Actor.DOWNLOAD_WORKER);
+    await moves.moveJob(jobId, JOB_STATES.CLAIMED, JOB_STATES.RUNNING, Actor.DOWNLOAD_WORKER);
+    await moves.moveJob(jobId, JOB_STATES.RUNNING, JOB_STATES.DONE, Actor.DOWNLOAD_WORKER);
+
+    for (const stage of [
+      PIPELINE_STAGES.SEPARATION,
+      PIPELINE_STAGES.WAVEFORM,
+      PIPELINE_STAGES.LYRICS,
+      PIPELINE_STAGES.AUDACITY,
+    ]) {
+      const actor = getStageOwner(stage);
+      await moves.moveJob(jobId, JOB_STATES.DONE, JOB_STATES.CLAIMED, actor, { stage });
+      await moves.moveJob(jobId, JOB_STATES.CLAIMED, JOB_STATES.RUNNING, actor);
+      if (stage === PIPELINE_STAGES.SEPARATION) {
+        await filesystem.writeArtifact(jobId, "stems", "vocals.wav", Buffer.alloc(2000));
+      }
+      await moves.moveJob(jobId, JOB_STATES.RUNNING, JOB_STATES.DONE, actor);
+    }
+
+    const actor = Actor.PACKAGING_WORKER;
+    await moves.moveJob(jobId, JOB_STATES.DONE, JOB_STATES.CLAIMED, actor, { stage: PIPELINE_STAGES.PACKAGING });
+    await moves.moveJob(jobId, JOB_STATES.CLAIMED, JOB_STATES.RUNNING, actor);
+    await moves.moveJob(jobId, JOB_STATES.RUNNING, JOB_STATES.COMPLETE, actor);
+    return jobId;
+  }
+
+  describe("plan", () => {
+    it("should report what a rule would remove without changing anything", async () => {
+      const jobId = await createFailedJob();
+      const runner = retention([{ state: JOB_STATES.FAILED, olderThanDays: 3, action: RETENTION_ACTIONS.PURGE }]);
+
+      const report = await runner.plan(Date.now() + 4 * DAY_MS);
+
+      expect(report.actions).toHaveLength(1);
+      expect(report.actions[0]).toMatchObject({ jobId, action: "purge", ageDays: 4, bytes: 1000 });
+      expect(report.bytesFreed).toBe(1000);
+      expect(await filesystem.getArtifactPath(jobId, "download", "audio.downloaded")).not.toBeNull();
+    });
+
+    it("should skip jobs younger than the rule", async () => {
+      await createFailedJob();
+      const runner = retention([{ state: JOB_STATES.FAILED, olderThanDays: 3, action: RETENTION_ACTIONS.PURGE }]);
+
+      const report = await runner.plan(Date.now() + 2 * DAY_MS);
+
+      expect(report.jobsChecked).toBe(1);
+      expect(report.actions).toHaveLength(0);
+    });
+
+    it("should pick the due rule with the longest threshold", async () => {
+      await createFailedJob();
+      const runner = retention([
+        { state: JOB_STATES.FAILED, olderThanDays: 3, action: RETENTION_ACTIONS.PURGE },
+        { state: JOB_STATES.FAILED, olderThanDays: 30, action: RETENTION_ACTIONS.DELETE },
+      ]);
+
+      expect((await runner.plan(Date.now() + 4 * DAY_MS)).actions[0].action).toBe("purge");
+      expect((await runner.plan(Date.now() + 31 * DAY_MS)).actions[0].action).toBe("delete");
+    });
+  });
+
+  describe("apply", () => {
+    it("should purge artifacts but keep metadata and logs", async () => {
+      const jobId = await createFailedJob();
+      const runner = retention([{ state: JOB_STATES.FAILED, olderThanDays: 3, action: RETENTION_ACTIONS.PURGE }]);
+
+      const result = await runner.apply(await runner.plan(Date.now() + 4 * DAY_MS));
+
+      expect(result.bytesFreed).toBe(1000);
+      expect(await filesystem.getArtifactPath(jobId, "download", "audio.downloaded")).toBeNull();
+
+      const metadata = await filesystem.readMetadata(jobId);
+      expect(metadata?.state).toBe(JOB_STATES.FAILED);
+      expect(metadata?.purged).toMatchObject({ artifactTypes: ["*"], bytes: 1000 });
+      expect(metadata?.artifactChecksums?.["download/audio.downloaded"]).toBeUndefined();
+
+      const logs = await filesystem.readJobLogs(jobId);
+      expect(logs.some((line) => line.includes("Retention: purged download"))).toBe(true);
+
+      // Nothing left to purge on the next run
+      expect((await runner.plan(Date.now() + 5 * DAY_MS)).actions).toHaveLength(0);
+    });
+
+    it("should only purge the listed artifact types", async () => {
+      const { jobId } = await filesystem.createJobFolder("https://youtube.com/watch?v=test");
+      await filesystem.writeArtifact(jobId, "stems", "vocals.wav", Buffer.alloc(500));
+      await filesystem.writeArtifact(jobId, "lyrics", "lyrics.lrc", "la la");
+      await moves.moveJob(jobId, JOB_STATES.NEW, JOB_STATES.CLAIMED, Actor.DOWNLOAD_WORKER);
+      await moves.moveJob(jobId, JOB_STATES.CLAIMED, JOB_STATES.RUNNING, Actor.DOWNLOAD_WORKER);
+      await moves.moveJob(jobId, JOB_STATES.RUNNING, JOB_STATES.FAILED, Actor.DOWNLOAD_WORKER);
+      const runner = retention([
+        { state: JOB_STATES.FAILED, olderThanDays: 30, action: RETENTION_ACTIONS.PURGE, artifactTypes: ["stems"] },
+      ]);
+
+      await runner.apply(await runner.plan(Date.now() + 31 * DAY_MS));
+
+      expect(await filesystem.getArtifactPath(jobId, "stems", "vocals.wav")).toBeNull();
+      expect(await filesystem.getArtifactPath(jobId, "lyrics", "lyrics.lrc")).not.toBeNull();
+    });
+
+    it("should archive a job to the storage backend and move it to ARCHIVED", async () => {
+      const jobId = await createCompleteJob();
+      const runner = retention([{ state: JOB_STATES.COMPLETE, olderThanDays: 30, action: RETENTION_ACTIONS.ARCHIVE }]);
+
+      const result = await runner.apply(await runner.plan(Date.now() + 31 * DAY_MS));
+
+      expect(result.errors).toEqual([]);
+      const metadata = await filesystem.readMetadata(jobId);
+      expect(metadata?.state).toBe(JOB_STATES.ARCHIVED);
+      expect(metadata?.archive?.key).toBe(`archives/${jobId}.zip`);
+      expect(metadata?.archive?.bytes).toBe((await storage.stat(`archives/${jobId}.zip`))?.size);
+      // The archive is built in a temp file, removed once uploaded
+      expect(await fs.pathExists(path.join(os.tmpdir(), `ego-studio-archive-${jobId}-${process.pid}.zip`))).toBe(false);
+      expect(await filesystem.getArtifactPath(jobId, "stems", "vocals.wav")).toBeNull();
+      expect((await filesystem.readJobLogs(jobId)).length).toBeGreaterThan(0);
+    });
+
+    it("should hard-delete an archived job and its archive", async () => {
+      const jobId = await createCompleteJob();
+      const archiver = retention([{ state: JOB_STATES.COMPLETE, olderThanDays: 0, action: RETENTION_ACTIONS.ARCHIVE }]);
+      await archiver.apply(await archiver.plan());
+      const runner = retention([{ state: JOB_STATES.ARCHIVED, olderThanDays: 365, action: RETENTION_ACTIONS.DELETE }]);
+
+      await runner.apply(await runner.plan(Date.now() + 366 * DAY_MS));
+
+      expect(await filesystem.getJobStateDir(jobId)).toBeNull();
+      expect(await storage.stat(`archives/${jobId}.zip`)).toBeNull();
+    });
+
+    it("should skip jobs that moved since the report was made", async () => {
+      const jobId = await createFailedJob();
+      const runner = retention([{ state: JOB_STATES.FAILED, olderThanDays: 3, action: RETENTION_ACTIONS.PURGE }]);
+      const report = await runner.plan(Date.now() + 4 * DAY_MS);
+
+      await moves.moveJob(jobId, JOB_STATES.FAILED, JOB_STATES.NEW, Actor.USER);
+      const result = await runner.apply(report);
+
+      expect(result.applied).toHaveLength(0);
+      expect(await filesystem.getArtifactPath(jobId, "download", "audio.downloaded")).not.toBeNull();
+    });
+  });
+
+  describe("validateRetentionPolicy", () => {
+    it("should reject rules for states a worker may hold", () => {
+      expect(() =>
+        validateRetentionPolicy([{ state: JOB_STATES.RUNNING, olderThanDays: 1, action: RETENTION_ACTIONS.DELETE }])
+      ).toThrow("state must be one of");
+    });
+
+    it("should reject rules for jobs between stages", () => {
+      expect(() =>
+        validateRetentionPolicy([
+          { state: JOB_STATES.DONE, olderThanDays: 30, action: RETENTION_ACTIONS.PURGE, artifactTypes: ["stems"] },
+        ])
+      ).toThrow("state must be one of");
+    });
+
+    it("should reject archiving from a state that cannot be archived", () => {
+      expect(() =>
+        validateRetentionPolicy([{ state: JOB_STATES.ARCHIVED, olderThanDays: 1, action: RETENTION_ACTIONS.ARCHIVE }])
+      ).toThrow("cannot be archived");
+    });
+  });
+});
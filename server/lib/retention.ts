@@ -0,0 +1,445 @@
+/**
+ * Retention (utility adapter)
+ *
+ * Applies per-state retention rules to finished jobs so stems and packages
+ * do not live forever. Planning never changes anything: plan() returns a
+ * dry-run report of what each rule would remove and how many bytes it would
+ * free; apply() carries out a report, as Actor.SYSTEM.
+ *
+ * Actions:
+ * - purge: delete artifact directories (all, or the listed types); metadata and logs stay
+ * - archive: zip the artifacts to the storage backend, delete them locally, move the job to ARCHIVED
+ * - delete: hard-delete the job folder (deleteJobFolder) and its archive
+ *
+ * Age is time spent in the current state, measured from the last transition event
+ * (or createdAt for jobs that never moved). When several rules for a state are
+ * due, the one with the longest age threshold wins.
+ */
+
+import fs from "fs-extra";
+import os from "os";
+import path from "path";
+import archiver from "archiver";
+import {
+  filesystem as productionFilesystem,
+  JOB_STATES,
+  JOB_EVENT_TYPES,
+  JobState,
+  JobMetadata,
+  FilesystemAPI,
+} from "./filesystem";
+import { createMoveOperations } from "./job-moves";
+import { Actor, validateTransition } from "./job-state";
+import { getStorage, StorageBackend } from "./storage";
+
+export const RETENTION_ACTIONS = {
+  PURGE: "purge",
+  ARCHIVE: "archive",
+  DELETE: "delete",
+} as const;
+
+export type RetentionActionType = (typeof RETENTION_ACTIONS)[keyof typeof RETENTION_ACTIONS];
+
+/**
+ * A retention rule: what happens to jobs that stayed in a state too long
+ */
+export interface RetentionRule {
+  state: JobState;
+  olderThanDays: number;
+  action: RetentionActionType;
+  // Purge only these artifact directories (e.g., ["stems"]); default: all artifacts
+  artifactTypes?: string[];
+}
+
+/**
+ * Default policy: drop bulky artifacts early, keep metadata and logs
+ */
+export const DEFAULT_RETENTION_POLICY: RetentionRule[] = [
+  { state: JOB_STATES.FAILED, olderThanDays: 3, action: RETENTION_ACTIONS.PURGE },
+  { state: JOB_STATES.CANCELLED, olderThanDays: 3, action: RETENTION_ACTIONS.PURGE },
+  { state: JOB_STATES.COMPLETE, olderThanDays: 30, action: RETENTION_ACTIONS.ARCHIVE },
+  { state: JOB_STATES.ARCHIVED, olderThanDays: 365, action: RETENTION_ACTIONS.DELETE },
+];
+
+/**
+ * States retention may touch (never jobs a worker may hold or is about to claim:
+ * a DONE job is between stages, and its artifacts are the next stage's input)
+ */
+const RETAINABLE_STATES: JobState[] = [
+  JOB_STATES.FAILED,
+  JOB_STATES.COMPLETE,
+  JOB_STATES.CANCELLED,
+  JOB_STATES.ARCHIVED,
+];
+
+/**
+ * Entries of a job folder that retention always keeps (except on delete)
+ */
+const KEPT_ENTRIES = ["metadata.json", "logs"];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * A single planned retention action
+ */
+export interface RetentionAction {
+  jobId: string;
+  state: JobState;
+  action: RetentionActionType;
+  rule: RetentionRule;
+  // Days the job has spent in its state
+  ageDays: number;
+  // Files and directories that would be removed locally
+  paths: string[];
+  bytes: number;
+}
+
+/**
+ * Dry-run report of a policy
+ */
+export interface RetentionReport {
+  generatedAt: string;
+  jobsChecked: number;
+  actions: RetentionAction[];
+  bytesFreed: number;
+}
+
+/**
+ * Outcome of applying a report
+ */
+export interface RetentionResult {
+  applied: RetentionAction[];
+  bytesFreed: number;
+  errors: string[];
+}
+
+/**
+ * Validate a policy, throwing on the first bad rule
+ */
+export function validateRetentionPolicy(policy: RetentionRule[]): RetentionRule[] {
+  const actions = Object.values(RETENTION_ACTIONS) as string[];
+
+  for (const rule of policy) {
+    const label = `Retention rule ${JSON.stringify(rule)}`;
+    if (!RETAINABLE_STATES.includes(rule.state)) {
+      throw new Error(`${label}: state must be one of ${RETAINABLE_STATES.join(", ")}`);
+    }
+    if (!actions.includes(rule.action)) {
+      throw new Error(`${label}: action must be one of ${actions.join(", ")}`);
+    }
+    if (typeof rule.olderThanDays !== "number" || rule.olderThanDays < 0) {
+      throw new Error(`${label}: olderThanDays must be a non-negative number`);
+    }
+    if (rule.action === RETENTION_ACTIONS.ARCHIVE && !validateTransition(rule.state, JOB_STATES.ARCHIVED, Actor.SYSTEM).valid) {
+      throw new Error(`${label}: jobs in ${rule.state} cannot be archived`);
+    }
+    if (rule.artifactTypes && rule.action !== RETENTION_ACTIONS.PURGE) {
+      throw new Error(`${label}: artifactTypes only applies to purge`);
+    }
+  }
+
+  return policy;
+}
+
+/**
+ * Load the policy from RETENTION_POLICY (a JSON array of rules), or the default
+ */
+export function loadRetentionPolicy(raw: string | undefined = process.env.RETENTION_POLICY): RetentionRule[] {
+  if (!raw) {
+    return DEFAULT_RETENTION_POLICY;
+  }
+
+  const parsed = JSON.parse(raw);
+  if (!Array.isArray(parsed)) {
+    throw new Error("RETENTION_POLICY must be a JSON array of rules");
+  }
+  return validateRetentionPolicy(parsed);
+}
+
+/**
+ * Total size of a file or directory tree
+ */
+async function sizeOf(target: string): Promise<number> {
+  const stat = await fs.stat(target);
+  if (!stat.isDirectory()) {
+    return stat.size;
+  }
+
+  let total = 0;
+  for (const entry of await fs.readdir(target)) {
+    total += await sizeOf(path.join(target, entry));
+  }
+  return total;
+}
+
+/**
+ * Zip files and directories into zipPath, named relative to baseDir
+ * Streamed to disk, and barely compressed: the artifacts are mostly audio, which deflate hardly shrinks
+ */
+async function zipPaths(baseDir: string, paths: string[], zipPath: string): Promise<void> {
+  const archive = archiver("zip", { zlib: { level: 1 } });
+  const output = fs.createWriteStream(zipPath);
+
+  const finished = new Promise<void>((resolve, reject) => {
+    output.on("close", () => resolve());
+    output.on("error", reject);
+    archive.on("error", reject);
+  });
+  archive.pipe(output);
+
+  for (const target of paths) {
+    const name = path.relative(baseDir, target);
+    if ((await fs.stat(target)).isDirectory()) {
+      archive.directory(target, name);
+    } else {
+      archive.file(target, { name });
+    }
+  }
+
+  await archive.finalize();
+  await finished;
+}
+
+/**
+ * Factory function to create a retention runner
+ *
+ * @param filesystem - FilesystemAPI instance
+ * @param moves - Move operations bound to the same filesystem
+ * @param options.policy - Retention rules (default: loadRetentionPolicy())
+ * @param options.storage - Backend archives are written to (default: getStorage())
+ */
+export function createRetention(
+  filesystem: FilesystemAPI,
+  moves: ReturnType<typeof createMoveOperations>,
+  options: { policy?: RetentionRule[]; storage?: StorageBackend } = {}
+) {
+  const policy = validateRetentionPolicy(options.policy ?? loadRetentionPolicy());
+
+  /**
+   * When the job entered its current state
+   */
+  async function enteredStateAt(jobId: string, metadata: JobMetadata): Promise<number> {
+    const transitions = await filesystem.readJobEvents(jobId, { types: [JOB_EVENT_TYPES.TRANSITION] });
+    const last = transitions[transitions.length - 1];
+    return new Date(last?.timestamp ?? metadata.createdAt).getTime();
+  }
+
+  /**
+   * Local paths a rule would remove from a job folder
+   */
+  async function targetsFor(jobDir: string, rule: RetentionRule): Promise<string[]> {
+    if (rule.action === RETENTION_ACTIONS.DELETE) {
+      return [jobDir];
+    }
+
+    const entries = await fs.readdir(jobDir);
+    return entries
+      .filter((entry) => !KEPT_ENTRIES.includes(entry))
+      .filter((entry) => !rule.artifactTypes || rule.artifactTypes.includes(entry))
+      .map((entry) => path.join(jobDir, entry));
+  }
+
+  /**
+   * Build the dry-run report: what the policy would do right now
+   */
+  async function plan(now: number = Date.now()): Promise<RetentionReport> {
+    const actions: RetentionAction[] = [];
+    let jobsChecked = 0;
+
+    const states = Array.from(new Set(policy.map((rule) => rule.state)));
+    for (const state of states) {
+      const rules = policy
+        .filter((rule) => rule.state === state)
+        .sort((a, b) => b.olderThanDays - a.olderThanDays);
+
+      for (const jobId of await filesystem.listJobsByState(state)) {
+        jobsChecked++;
+
+        const stateDir = await filesystem.getJobStateDir(jobId);
+        const metadata = await filesystem.readMetadata(jobId);
+        if (!stateDir || !metadata || stateDir.state !== state) {
+          continue;
+        }
+
+        const ageDays = (now - (await enteredStateAt(jobId, metadata))) / DAY_MS;
+        const rule = rules.find((candidate) => ageDays >= candidate.olderThanDays);
+        if (!rule) {
+          continue;
+        }
+
+        const paths = await targetsFor(stateDir.dir, rule);
+        // Nothing left to purge (already purged); archive and delete still change state
+        if (paths.length === 0 && rule.action === RETENTION_ACTIONS.PURGE) {
+          continue;
+        }
+
+        let bytes = 0;
+        for (const target of paths) {
+          bytes += await sizeOf(target);
+        }
+
+        actions.push({ jobId, state, action: rule.action, rule, ageDays: Math.floor(ageDays), paths, bytes });
+      }
+    }
+
+    const report: RetentionReport = {
+      generatedAt: new Date(now).toISOString(),
+      jobsChecked,
+      actions,
+      bytesFreed: actions.reduce((total, action) => total + action.bytes, 0),
+    };
+
+    console.log(
+      `[Retention] Planned ${actions.length} actions over ${jobsChecked} jobs (${(report.bytesFreed / 1024 / 1024).toFixed(2)}MB)`
+    );
+
+    return report;
+  }
+
+  /**
+   * Delete artifacts, keeping metadata and logs
+   */
+  async function purge(action: RetentionAction): Promise<void> {
+    for (const target of action.paths) {
+      await fs.remove(target);
+    }
+
+    const removed = action.paths.map((target) => path.basename(target));
+    await moves.updateLatestMetadata(action.jobId, (current) => {
+      current.purged = {
+        artifactTypes: action.rule.artifactTypes ?? ["*"],
+        bytes: (current.purged?.bytes ?? 0) + action.bytes,
+        purgedAt: new Date().toISOString(),
+      };
+      // Purged artifacts can no longer be reused by a retry
+      for (const key of Object.keys(current.artifactChecksums ?? {})) {
+        if (removed.includes(key.split("/")[0])) {
+          delete current.artifactChecksums![key];
+        }
+      }
+    });
+
+    await filesystem.appendToJobLog(
+      action.jobId,
+      `[SYSTEM] Retention: purged ${removed.join(", ")} after ${action.ageDays} days in ${action.state} (${action.bytes} bytes)`
+    );
+  }
+
+  /**
+   * Offload artifacts to the storage backend and move the job to ARCHIVED
+   */
+  async function archive(action: RetentionAction): Promise<void> {
+    const stateDir = await filesystem.getJobStateDir(action.jobId);
+    if (!stateDir) {
+      throw new Error(`Job ${action.jobId} not found`);
+    }
+
+    const key = `archives/${action.jobId}.zip`;
+    const zipPath = path.join(os.tmpdir(), `ego-studio-archive-${action.jobId}-${process.pid}.zip`);
+    let url: string;
+    let bytes: number;
+    try {
+      await zipPaths(stateDir.dir, action.paths, zipPath);
+      bytes = (await fs.stat(zipPath)).size;
+      url = await (options.storage ?? getStorage()).putFile(key, zipPath, "application/zip");
+    } finally {
+      await fs.remove(zipPath);
+    }
+
+    for (const target of action.paths) {
+      await fs.remove(target);
+    }
+
+    await moves.updateLatestMetadata(action.jobId, (current) => {
+      current.archive = { key, url, bytes, archivedAt: new Date().toISOString() };
+      delete current.artifactChecksums;
+    });
+    await moves.moveJob(action.jobId, action.state, JOB_STATES.ARCHIVED, Actor.SYSTEM);
+
+    await filesystem.appendToJobLog(
+      action.jobId,
+      `[SYSTEM] Retention: archived to ${key} after ${action.ageDays} days in ${action.state} (${action.bytes} bytes freed)`
+    );
+  }
+
+  /**
+   * Remove the job folder and its archive, if any
+   */
+  async function hardDelete(action: RetentionAction): Promise<void> {
+    const metadata = await filesystem.readMetadata(action.jobId);
+    if (metadata?.archive) {
+      await (options.storage ?? getStorage()).delete(metadata.archive.key);
+    }
+
+    await filesystem.deleteJobFolder(action.jobId);
+  }
+
+  /**
+   * Carry out a report
+   * Actions whose job moved since the report was made are skipped
+   */
+  async function apply(report: RetentionReport): Promise<RetentionResult> {
+    const result: RetentionResult = { applied: [], bytesFreed: 0, errors: [] };
+
+    for (const action of report.actions) {
+      try {
+        const stateDir = await filesystem.getJobStateDir(action.jobId);
+        if (stateDir?.state !== action.state) {
+          continue;
+        }
+
+        switch (action.action) {
+          case RETENTION_ACTIONS.PURGE:
+            await purge(action);
+            break;
+          case RETENTION_ACTIONS.ARCHIVE:
+            await archive(action);
+            break;
+          case RETENTION_ACTIONS.DELETE:
+            await hardDelete(action);
+            break;
+        }
+
+        console.log(`[Retention] ${action.action} ${action.jobId} (${action.state}, ${action.ageDays} days, ${action.bytes} bytes)`);
+        result.applied.push(action);
+        result.bytesFreed += action.bytes;
+      } catch (err) {
+        const error = `Failed to ${action.action} job ${action.jobId}: ${err instanceof Error ? err.message : String(err)}`;
+        result.errors.push(error);
+        console.error(`[Retention] ${error}`);
+      }
+    }
+
+    console.log(
+      `[Retention] Applied ${result.applied.length} actions, ${(result.bytesFreed / 1024 / 1024).toFixed(2)}MB freed`
+    );
+
+    return result;
+  }
+
+  return {
+    policy,
+    plan,
+    apply,
+  };
+}
+
+/**
+ * Schedule retention to run periodically with the configured policy
+ * @param intervalMs - Interval in milliseconds (default: 24 hours)
+ */
+export function scheduleRetention(intervalMs: number = 24 * 60 * 60 * 1000): NodeJS.Timeout {
+  const storageRoot = process.env.STORAGE_ROOT || "/tmp/ego-studio-jobs";
+  const retention = createRetention(productionFilesystem, createMoveOperations(productionFilesystem, storageRoot));
+
+  console.log(`[Retention] Scheduling retention every ${Math.floor(intervalMs / (60 * 60 * 1000))} hours`);
+
+  return setInterval(() => {
+    retention
+      .plan()
+      .then((report) => retention.apply(report))
+      .catch((err) => {
+        console.error("[Retention] Scheduled run failed:", err);
+      });
+  }, intervalMs);
+}
@@ -0,0 +1,159 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import fs from "fs-extra";
+import { createFilesystem, JOB_EVENT_TYPES, JOB_STATES, PIPELINE_STAGES } from "./filesystem";
+import { createMoveOperations } from "./job-moves";
+import { Actor } from "./job-state";
+import { createRetryPolicy, getDueRetry, getRetryDelay, getRetryRule, getRetryStatus } from "./retry-policy";
+
+const TEST_STORAGE_ROOT = "/tmp/ego-studio-jobs-test-retry-policy";
+
+describe("Retry Policy", () => {
+  describe("getRetryRule", () => {
+    it("should retry rate limits and timeouts with backoff", () => {
+      expect(getRetryRule(PIPELINE_STAGES.DOWNLOAD, "RATE_LIMITED")).toMatchObject({
+        maxAttempts: 3,
+        backoff: { type: "exponential" },
+      });
+      expect(getRetryRule(PIPELINE_STAGES.SEPARATION, "TIMEOUT").maxAttempts).toBe(3);
+    });
+
+    it("should never retry copyright restrictions or invalid audio", () => {
+      expect(getRetryRule(PIPELINE_STAGES.DOWNLOAD, "COPYRIGHT_RESTRICTED").maxAttempts).toBe(1);
+      expect(getRetryRule(PIPELINE_STAGES.SEPARATION, "INVALID_AUDIO_FORMAT").maxAttempts).toBe(1);
+    });
+
+    it("should retry GPU_MEMORY of SEPARATION once, on the CPU", () => {
+      expect(getRetryRule(PIPELINE_STAGES.SEPARATION, "GPU_MEMORY")).toEqual({ maxAttempts: 2, fallback: "cpu" });
+    });
+
+    it("should fall back to isRetryable for other reasons", () => {
+      expect(getRetryRule(PIPELINE_STAGES.PACKAGING, "PACKAGING_FAILED").maxAttempts).toBe(2);
+      expect(getRetryRule(PIPELINE_STAGES.SEPARATION, "DEMUCS_ERROR").maxAttempts).toBe(2);
+      expect(getRetryRule(PIPELINE_STAGES.LYRICS, "LYRICS_EXTRACTION_FAILED").maxAttempts).toBe(1);
+    });
+  });
+
+  describe("getRetryDelay", () => {
+    const rule = getRetryRule(PIPELINE_STAGES.DOWNLOAD, "RATE_LIMITED");
+
+    it("should double the wait after each failed attempt", () => {
+      expect(getRetryDelay(rule, 1, () => 0.5)).toBe(20000);
+      expect(getRetryDelay(rule, 2, () => 0.5)).toBe(40000);
+    });
+
+    it("should spread waits by the jitter fraction and cap them", () => {
+      expect(getRetryDelay(rule, 1, () => 0)).toBe(16000);
+      expect(getRetryDelay(rule, 1, () => 1)).toBe(24000);
+      expect(getRetryDelay(rule, 10, () => 0.5)).toBe(5 * 60 * 1000);
+    });
+  });
+
+  describe.sequential("recordFailure", () => {
+    let testDir: string;
+    let filesystem: ReturnType<typeof createFilesystem>;
+    let moves: ReturnType<typeof createMoveOperations>;
+    let policy: ReturnType<typeof createRetryPolicy>;
+
+    beforeEach(async () => {
+      testDir = `${TEST_STORAGE_ROOT}-${Date.now()}-${Math.random()}`;
+      filesystem = createFilesystem(testDir);
+      moves = createMoveOperations(filesystem, testDir);
+      policy = createRetryPolicy(filesystem, { random: () => 0.5 });
+      await filesystem.initializeStorage();
+    });
+
+    afterEach(async () => {
+      try {
+        await fs.remove(testDir);
+      } catch (e) {
+        // Ignore cleanup errors
+      }
+    });
+
+    async function createFailedJob(reason?: string): Promise<string> {
+      const { jobId } = await filesystem.createJobFolder("https://youtube.com/watch?v=test");
+      await moves.moveJob(jobId, JOB_STATES.NEW as any, JOB_STATES.CLAIMED as any, Actor.DOWNLOAD_WORKER);
+      await moves.moveJob(jobId, JOB_STATES.CLAIMED as any, JOB_STATES.RUNNING as any, Actor.DOWNLOAD_WORKER);
+      await fail(jobId, reason);
+      return jobId;
+    }
+
+    async function fail(jobId: string, reason?: string): Promise<void> {
+      // Keep the event after the previous attempt's failedAt
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      await filesystem.appendJobEvent(jobId, {
+        type: JOB_EVENT_TYPES.ERROR,
+        actor: Actor.DOWNLOAD_WORKER,
+        stage: PIPELINE_STAGES.DOWNLOAD,
+        payload: { ...(reason && { reason }), message: `failed: ${reason}` },
+      });
+      const metadata = await filesystem.readMetadata(jobId);
+      if (metadata?.state === JOB_STATES.RUNNING) {
+        await moves.moveJob(jobId, JOB_STATES.RUNNING as any, JOB_STATES.FAILED as any, Actor.DOWNLOAD_WORKER);
+      }
+    }
+
+    it("should schedule a retry and report it as the next attempt", async () => {
+      const jobId = await createFailedJob("RATE_LIMITED");
+      const before = Date.now();
+
+      const record = await policy.recordFailure(jobId, PIPELINE_STAGES.DOWNLOAD);
+      expect(record).toMatchObject({ stage: "DOWNLOAD", attempt: 1, maxAttempts: 3, reason: "RATE_LIMITED" });
+      expect(record?.error).toBe("failed: RATE_LIMITED");
+      expect(new Date(record!.nextAttemptAt!).getTime() - before).toBeGreaterThanOrEqual(20000);
+
+      const metadata = (await filesystem.readMetadata(jobId))!;
+      expect(metadata.attempts).toEqual([record]);
+      expect(getRetryStatus(metadata)).toEqual({
+        stage: "DOWNLOAD",
+        attempt: 2,
+        maxAttempts: 3,
+        reason: "RATE_LIMITED",
+        nextAttemptAt: record!.nextAttemptAt,
+      });
+      expect(getDueRetry(metadata)).toBeNull();
+      expect(getDueRetry(metadata, new Date(before + 30000))).toEqual(record);
+
+      const summary = "Attempt 1 of 3 of DOWNLOAD failed (RATE_LIMITED), retrying in 20s";
+      expect((await filesystem.readJobLogs(jobId)).some((line) => line.includes(summary))).toBe(true);
+    });
+
+    it("should stop retrying once the stage used up its attempts", async () => {
+      const jobId = await createFailedJob("RATE_LIMITED");
+      await policy.recordFailure(jobId, PIPELINE_STAGES.DOWNLOAD);
+      await fail(jobId, "RATE_LIMITED");
+      expect((await policy.recordFailure(jobId, PIPELINE_STAGES.DOWNLOAD))?.attempt).toBe(2);
+      await fail(jobId, "RATE_LIMITED");
+
+      const last = await policy.recordFailure(jobId, PIPELINE_STAGES.DOWNLOAD);
+      expect(last).toMatchObject({ attempt: 3, maxAttempts: 3 });
+      expect(last?.nextAttemptAt).toBeUndefined();
+
+      const metadata = (await filesystem.readMetadata(jobId))!;
+      expect(metadata.attempts?.map((attempt) => !!attempt.nextAttemptAt)).toEqual([true, true, false]);
+      expect(getRetryStatus(metadata)).toMatchObject({ attempt: 3, maxAttempts: 3 });
+      expect(getDueRetry(metadata, new Date(Date.now() + 60 * 60 * 1000))).toBeNull();
+    });
+
+    it("should not retry a reason that is never retried", async () => {
+      const jobId = await createFailedJob("COPYRIGHT_RESTRICTED");
+
+      const record = await policy.recordFailure(jobId, PIPELINE_STAGES.DOWNLOAD);
+      expect(record).toMatchObject({ attempt: 1, maxAttempts: 1 });
+      expect(getRetryStatus((await filesystem.readMetadata(jobId))!)).toBeNull();
+    });
+
+    it("should treat a failure without a reason as UNKNOWN_ERROR", async () => {
+      const jobId = await createFailedJob();
+
+      const record = await policy.recordFailure(jobId, PIPELINE_STAGES.DOWNLOAD);
+      expect(record).toMatchObject({ reason: "UNKNOWN_ERROR", maxAttempts: 2 });
+      expect(record?.nextAttemptAt).toBeDefined();
+    });
+
+    it("should ignore jobs that are not FAILED", async () => {
+      const { jobId } = await filesystem.createJobFolder("https://youtube.com/watch?v=test");
+      expect(await policy.recordFailure(jobId, PIPELINE_STAGES.DOWNLOAD)).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,233 @@
+/**
+ * Retry Policy
+ *
+ * Decides whether a failed stage is retried automatically, keyed on the
+ * failure reason its worker recorded in the stage's ERROR event (see
+ * error-messages.ts):
+ * - RATE_LIMITED and TIMEOUT are retried with exponential backoff and jitter
+ * - COPYRIGHT_RESTRICTED and INVALID_AUDIO_FORMAT are never retried
+ * - Other reasons get one more attempt if isRetryable() says so
+ * Adapters override the rule of a reason for their stage (StageAdapter.retryPolicy),
+ * e.g. SEPARATION retries GPU_MEMORY once, on the CPU.
+ *
+ * Invariants:
+ * - Every failed attempt of a stage is recorded in metadata.attempts, oldest first
+ * - A scheduled retry leaves the job FAILED with nextAttemptAt set; the
+ *   orchestrator retries it from the failed stage once due, so scheduled
+ *   retries survive a restart
+ * - Attempts are counted per stage over the job's life; a user retry after
+ *   the last attempt is not retried automatically
+ */
+
+import { FilesystemAPI, JobMetadata, JOB_EVENT_TYPES, JOB_STATES, PipelineStage, StageAttempt } from "./filesystem";
+import { getAdapter } from "./adapter-registry";
+import { isTerminalState } from "./job-state";
+import { FailureReason, isRetryable } from "./error-messages";
+import { getBackoffDelay } from "./memory-queue";
+import type { QueueJobOptions } from "./queue-backend";
+
+/**
+ * How a stage that failed for one reason is retried
+ */
+export interface RetryRule {
+  // Attempts of the stage in total, the first one included (1 = never retried)
+  maxAttempts: number;
+  backoff?: QueueJobOptions["backoff"];
+  // Longest wait before an attempt
+  maxDelayMs?: number;
+  // Spread waits by up to this fraction either way, so jobs that failed together do not retry together
+  jitter?: number;
+  // Run the retries on the CPU
+  fallback?: "cpu";
+}
+
+export type RetryPolicy = Partial<Record<FailureReason, RetryRule>>;
+
+/**
+ * Retry state of a job, for display ("attempt 2 of 3, next try in 40s")
+ */
+export interface RetryStatus {
+  stage: PipelineStage;
+  // Attempt running or scheduled next; the last one made if no retry is left
+  attempt: number;
+  maxAttempts: number;
+  // Reason the previous attempt failed
+  reason: string;
+  // Set while the job waits for an automatic retry
+  nextAttemptAt?: string;
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  RATE_LIMITED: {
+    maxAttempts: 3,
+    backoff: { type: "exponential", delay: 20 * 1000 },
+    maxDelayMs: 5 * 60 * 1000,
+    jitter: 0.2,
+  },
+  TIMEOUT: {
+    maxAttempts: 3,
+    backoff: { type: "exponential", delay: 30 * 1000 },
+    maxDelayMs: 5 * 60 * 1000,
+    jitter: 0.2,
+  },
+  COPYRIGHT_RESTRICTED: { maxAttempts: 1 },
+  INVALID_AUDIO_FORMAT: { maxAttempts: 1 },
+};
+
+const RETRYABLE_RULE: RetryRule = { maxAttempts: 2, backoff: { type: "fixed", delay: 30 * 1000 }, jitter: 0.2 };
+const NO_RETRY_RULE: RetryRule = { maxAttempts: 1 };
+
+/**
+ * Get the rule for a stage that failed with reason: the stage adapter's, the default, or one
+ * more attempt for reasons isRetryable() accepts
+ */
+export function getRetryRule(stage: PipelineStage, reason: string): RetryRule {
+  const key = reason as FailureReason;
+  return (
+    getAdapter(stage)?.retryPolicy?.[key] ??
+    DEFAULT_RETRY_POLICY[key] ??
+    (isRetryable(reason) ? RETRYABLE_RULE : NO_RETRY_RULE)
+  );
+}
+
+/**
+ * Get the wait before the attempt after failed attempt `attempt` (1-based)
+ *
+ * @param random - Source of jitter in [0, 1) (default: Math.random)
+ */
+export function getRetryDelay(rule: RetryRule, attempt: number, random: () => number = Math.random): number {
+  const delay = Math.min(getBackoffDelay(rule.backoff, attempt), rule.maxDelayMs ?? Infinity);
+  const jitter = rule.jitter ?? 0;
+  return Math.max(0, Math.round(delay * (1 + jitter * (2 * random() - 1))));
+}
+
+/**
+ * Get the latest failed attempt of a job, of one stage if given
+ */
+function getLastAttempt(metadata: JobMetadata, stage?: PipelineStage): StageAttempt | undefined {
+  const attempts = (metadata.attempts ?? []).filter((attempt) => !stage || attempt.stage === stage);
+  return attempts[attempts.length - 1];
+}
+
+/**
+ * Get the fallback the retry policy chose for the next run of a stage, if any
+ */
+export function getRetryFallback(metadata: JobMetadata, stage: PipelineStage): "cpu" | undefined {
+  return getLastAttempt(metadata, stage)?.fallback;
+}
+
+/**
+ * Get the failed attempt whose automatic retry is due, or null
+ */
+export function getDueRetry(metadata: JobMetadata, now: Date = new Date()): StageAttempt | null {
+  const last = getLastAttempt(metadata);
+  if (metadata.state !== JOB_STATES.FAILED || !last?.nextAttemptAt) {
+    return null;
+  }
+  return new Date(last.nextAttemptAt) <= now ? last : null;
+}
+
+/**
+ * Get a job's retry state: the retry scheduled or running, or the last attempt of a stage
+ * that ran out of retries; null otherwise
+ */
+export function getRetryStatus(metadata: JobMetadata): RetryStatus | null {
+  const last = getLastAttempt(metadata);
+  if (!last) {
+    return null;
+  }
+
+  const status = { stage: last.stage, maxAttempts: last.maxAttempts, reason: last.reason };
+  if (metadata.state === JOB_STATES.FAILED) {
+    if (last.nextAttemptAt) {
+      return { ...status, attempt: last.attempt + 1, nextAttemptAt: last.nextAttemptAt };
+    }
+    // Out of attempts (reasons that are never retried have nothing to show)
+    return last.maxAttempts > 1 ? { ...status, attempt: last.attempt } : null;
+  }
+
+  // Running the retry of the last failed attempt
+  const rerun = !(metadata.pipeline?.completed ?? []).includes(last.stage);
+  return !isTerminalState(metadata.state) && rerun && last.attempt < last.maxAttempts
+    ? { ...status, attempt: last.attempt + 1 }
+    : null;
+}
+
+/**
+ * Factory function to create the retry policy's failure recording
+ *
+ * @param filesystem - FilesystemAPI instance
+ * @param options.random - Source of jitter in [0, 1) (default: Math.random)
+ */
+export function createRetryPolicy(filesystem: FilesystemAPI, options: { random?: () => number } = {}) {
+  const random = options.random ?? Math.random;
+
+  /**
+   * Get the reason a stage failed from its latest ERROR event since its previous failed attempt
+   * (UNKNOWN_ERROR if it gave none)
+   */
+  async function getFailureReason(
+    jobId: string,
+    metadata: JobMetadata,
+    stage: PipelineStage
+  ): Promise<{ reason: string; error?: string }> {
+    const events = await filesystem.readJobEvents(jobId, {
+      types: [JOB_EVENT_TYPES.ERROR],
+      since: getLastAttempt(metadata, stage)?.failedAt,
+    });
+    const event = events.reverse().find((candidate) => candidate.stage === stage);
+    const reason = event?.payload?.reason;
+    const message = event?.payload?.message;
+    return {
+      reason: typeof reason === "string" ? reason : "UNKNOWN_ERROR",
+      ...(typeof message === "string" && { error: message }),
+    };
+  }
+
+  /**
+   * Record the failed attempt of a FAILED job's stage and schedule its retry if the policy allows one
+   * Returns the recorded attempt (null if the job is not FAILED)
+   */
+  async function recordFailure(jobId: string, stage: PipelineStage): Promise<StageAttempt | null> {
+    const metadata = await filesystem.readMetadata(jobId);
+    if (!metadata || metadata.state !== JOB_STATES.FAILED) {
+      return null;
+    }
+
+    const { reason, error } = await getFailureReason(jobId, metadata, stage);
+    const rule = getRetryRule(stage, reason);
+    const attempt = (metadata.attempts ?? []).filter((previous) => previous.stage === stage).length + 1;
+    const record: StageAttempt = {
+      stage,
+      attempt,
+      maxAttempts: rule.maxAttempts,
+      reason,
+      ...(error && { error }),
+      failedAt: new Date().toISOString(),
+    };
+
+    let decision = "not retrying";
+    if (attempt < rule.maxAttempts) {
+      const delayMs = getRetryDelay(rule, attempt, random);
+      record.nextAttemptAt = new Date(Date.now() + delayMs).toISOString();
+      decision = `retrying in ${Math.round(delayMs / 1000)}s`;
+      if (rule.fallback) {
+        record.fallback = rule.fallback;
+        decision += ` on the ${rule.fallback.toUpperCase()}`;
+      }
+    }
+
+    await filesystem.updateMetadata(jobId, metadata.revision, (current) => {
+      current.attempts = [...(current.attempts ?? []), record];
+    });
+
+    const summary = `Attempt ${attempt} of ${rule.maxAttempts} of ${stage} failed (${reason}), ${decision}`;
+    console.log(`[retry-policy] Job ${jobId}: ${summary}`);
+    await filesystem.appendToJobLog(jobId, `[SYSTEM] ${summary}`);
+    return record;
+  }
+
+  return {
+    recordFailure,
+  };
+}
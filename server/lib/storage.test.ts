@@ -46,6 +46,16 @@ describe("LocalStorageBackend", () => {
     expect(content).toBe(data);
   });
 
+  it("should upload a local file", async () => {
+    const source = path.join(TEST_STORAGE_ROOT, "scratch", "archive.zip");
+    await fs.outputFile(source, "zip bytes");
+
+    const url = await backend.putFile("archives/job-123.zip", source, "application/zip");
+
+    expect(url).toBe("/storage/archives/job-123.zip");
+    expect(await fs.readFile(path.join(TEST_STORAGE_ROOT, "archives/job-123.zip"), "utf-8")).toBe("zip bytes");
+  });
+
   it("should create nested directories", async () => {
     const key = "jobs/job-123/stems/vocals.wav";
     const data = Buffer.from("vocal stems");
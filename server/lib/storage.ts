@@ -42,6 +42,15 @@ export interface StorageBackend {
    */
   put(key: string, data: Buffer | string, contentType: string): Promise<string>;
 
+  /**
+   * Upload a local file to storage, streamed rather than read into memory
+   * @param key Unique file key (e.g., 'archives/job-123.zip')
+   * @param filePath Local file to upload
+   * @param contentType MIME type (e.g., 'application/zip')
+   * @returns URL to access the file
+   */
+  putFile(key: string, filePath: string, contentType: string): Promise<string>;
+
   /**
    * Get file from storage
    * @param key File key
@@ -88,6 +97,11 @@ export class LocalStorageBackend implements StorageBackend {
     return `/storage/${key}`; // Local URL
   }
 
+  async putFile(key: string, filePath: string, _contentType: string): Promise<string> {
+    await fs.copy(filePath, path.join(this.root, key));
+    return `/storage/${key}`; // Local URL
+  }
+
   async get(key: string, _expiresIn?: number): Promise<string> {
     const filePath = path.join(this.root, key);
     if (!(await fs.pathExists(filePath))) {
@@ -165,6 +179,27 @@ export class S3StorageBackend implements StorageBackend {
       })
     );
 
+    return this.urlFor(key);
+  }
+
+  async putFile(key: string, filePath: string, contentType: string): Promise<string> {
+    // A stream body needs its length up front
+    const { size } = await fs.stat(filePath);
+
+    await this.client.send(
+      new PutObjectCommand({
+        Bucket: this.bucket,
+        Key: key,
+        Body: fs.createReadStream(filePath),
+        ContentLength: size,
+        ContentType: contentType,
+      })
+    );
+
+    return this.urlFor(key);
+  }
+
+  private urlFor(key: string): string {
     // Return public URL (adjust based on your S3 setup)
     if (process.env.S3_ENDPOINT) {
       // S3-compatible endpoint
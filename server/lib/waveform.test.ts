@@ -0,0 +1,46 @@
+import { describe, it, expect } from "vitest";
+import { addToMix, computePeaks, computeZoomLevels, downsamplePeaks, waveformFileName } from "./waveform";
+
+// 2000 frames: a ramp from -1 to just under 1 on the left, silence on the right
+const ramp = Float32Array.from({ length: 2000 }, (_, i) => i / 1000 - 1);
+const audio = { sampleRate: 44100, channelData: [ramp, new Float32Array(2000)] };
+
+describe("Waveform Peaks", () => {
+  it("should compute audiowaveform peaks of the mono mix", () => {
+    const peaks = computePeaks(audio, 500);
+
+    expect(peaks).toMatchObject({ version: 2, channels: 1, sample_rate: 44100, samples_per_pixel: 500, bits: 8 });
+    expect(peaks.length).toBe(4);
+    // Mono mix halves the ramp: -0.5..0.5 in quarters, floored to 8 bits
+    expect(peaks.data).toEqual([-64, -33, -32, -1, 0, 31, 32, 63]);
+  });
+
+  it("should clamp full-scale samples and give the last pixel the remaining frames", () => {
+    const loud = { sampleRate: 44100, channelData: [Float32Array.from([1, -1, 1, 0.5, 0.25])] };
+    const peaks = computePeaks(loud, 2);
+
+    expect(peaks.length).toBe(3);
+    expect(peaks.data).toEqual([-128, 127, 64, 127, 32, 32]);
+  });
+
+  it("should derive coarser zoom levels that agree with computing them directly", () => {
+    const levels = computeZoomLevels(audio, [100, 400, 1000]);
+
+    expect(Array.from(levels.keys())).toEqual([100, 400, 1000]);
+    for (const samplesPerPixel of [400, 1000]) {
+      expect(levels.get(samplesPerPixel)).toEqual(computePeaks(audio, samplesPerPixel));
+    }
+    expect(downsamplePeaks(levels.get(100)!, 3).length).toBe(7);
+    expect(() => downsamplePeaks(levels.get(100)!, 1.5)).toThrow("positive integer");
+    expect(() => computeZoomLevels(audio, [100, 250])).toThrow("not a multiple of 100");
+  });
+
+  it("should sum stems into a mix without changing them", () => {
+    const stem = { sampleRate: 44100, channelData: [Float32Array.from([0.25, -0.5])] };
+    const mix = addToMix(addToMix(null, stem), stem);
+
+    expect(Array.from(mix.channelData[0])).toEqual([0.5, -1]);
+    expect(Array.from(stem.channelData[0])).toEqual([0.25, -0.5]);
+    expect(waveformFileName("vocals", 1024)).toBe("vocals-1024.json");
+  });
+});
@@ -0,0 +1,164 @@
+/**
+ * Waveform Peaks
+ *
+ * Min/max peak data for drawing waveforms, in the JSON format of BBC
+ * audiowaveform (version 2, one channel, 8-bit), so the files also work with
+ * peaks.js and other audiowaveform readers. The WAVEFORM stage writes one
+ * file per source (the mix and each stem) and zoom level to the job's
+ * waveform/ artifact directory, plus an index (see waveform-worker.ts).
+ *
+ * Invariants:
+ * - Channels are mixed to mono before taking peaks, as audiowaveform does
+ * - Every zoom level is a multiple of the finest, and coarser levels are
+ *   derived from it, so all levels agree
+ * - Peak values are 8-bit: -128..127 for samples in [-1, 1]
+ */
+
+import type { AudioData } from "./audio-io";
+
+/**
+ * Samples per pixel of each zoom level written, finest first
+ */
+export const WAVEFORM_ZOOM_LEVELS = [256, 1024, 4096];
+
+/**
+ * Name of the index file in waveform/
+ */
+export const WAVEFORM_INDEX_FILE = "index.json";
+
+/**
+ * audiowaveform JSON peak data
+ */
+export interface WaveformPeaks {
+  version: 2;
+  channels: 1;
+  sample_rate: number;
+  samples_per_pixel: number;
+  bits: 8;
+  // Pixels
+  length: number;
+  // min, max of each pixel
+  data: number[];
+}
+
+/**
+ * What the WAVEFORM stage wrote
+ */
+export interface WaveformIndex {
+  sampleRate: number;
+  durationSec: number;
+  zoomLevels: number[];
+  // "mix" first, then the stems
+  sources: string[];
+}
+
+/**
+ * File name of the peaks of a source at a zoom level
+ */
+export function waveformFileName(source: string, samplesPerPixel: number): string {
+  return `${source}-${samplesPerPixel}.json`;
+}
+
+function toPeak(sample: number): number {
+  return Math.max(-128, Math.min(127, Math.floor(sample * 128)));
+}
+
+/**
+ * Compute the peaks of audio at one zoom level
+ */
+export function computePeaks(audio: AudioData, samplesPerPixel: number): WaveformPeaks {
+  const { channelData } = audio;
+  const numSamples = channelData[0]?.length ?? 0;
+  const length = Math.ceil(numSamples / samplesPerPixel);
+  const data = new Array<number>(length * 2);
+
+  for (let pixel = 0; pixel < length; pixel++) {
+    let min = Infinity;
+    let max = -Infinity;
+    const end = Math.min(numSamples, (pixel + 1) * samplesPerPixel);
+    for (let frame = pixel * samplesPerPixel; frame < end; frame++) {
+      let sum = 0;
+      for (const samples of channelData) {
+        sum += samples[frame];
+      }
+      const sample = sum / channelData.length;
+      min = Math.min(min, sample);
+      max = Math.max(max, sample);
+    }
+    data[pixel * 2] = toPeak(min);
+    data[pixel * 2 + 1] = toPeak(max);
+  }
+
+  return {
+    version: 2,
+    channels: 1,
+    sample_rate: audio.sampleRate,
+    samples_per_pixel: samplesPerPixel,
+    bits: 8,
+    length,
+    data,
+  };
+}
+
+/**
+ * Derive a coarser zoom level: every `factor` pixels become one
+ */
+export function downsamplePeaks(peaks: WaveformPeaks, factor: number): WaveformPeaks {
+  if (!Number.isInteger(factor) || factor < 1) {
+    throw new Error(`Zoom factor must be a positive integer, got ${factor}`);
+  }
+
+  const length = Math.ceil(peaks.length / factor);
+  const data = new Array<number>(length * 2);
+  for (let pixel = 0; pixel < length; pixel++) {
+    let min = 127;
+    let max = -128;
+    for (let source = pixel * factor; source < Math.min(peaks.length, (pixel + 1) * factor); source++) {
+      min = Math.min(min, peaks.data[source * 2]);
+      max = Math.max(max, peaks.data[source * 2 + 1]);
+    }
+    data[pixel * 2] = min;
+    data[pixel * 2 + 1] = max;
+  }
+
+  return { ...peaks, samples_per_pixel: peaks.samples_per_pixel * factor, length, data };
+}
+
+/**
+ * Compute the peaks of audio at every zoom level, keyed by samples per pixel
+ */
+export function computeZoomLevels(
+  audio: AudioData,
+  zoomLevels: number[] = WAVEFORM_ZOOM_LEVELS
+): Map<number, WaveformPeaks> {
+  const [finest, ...coarser] = zoomLevels;
+  const finestPeaks = computePeaks(audio, finest);
+  const levels = new Map([[finest, finestPeaks]]);
+
+  for (const samplesPerPixel of coarser) {
+    if (samplesPerPixel % finest !== 0) {
+      throw new Error(`Zoom level ${samplesPerPixel} is not a multiple of ${finest}`);
+    }
+    levels.set(samplesPerPixel, downsamplePeaks(finestPeaks, samplesPerPixel / finest));
+  }
+
+  return levels;
+}
+
+/**
+ * Add a stem into a mix (a new one if mix is null), so stems can be summed one at a time
+ * Stems are validated to share rate, channels and length before they get here
+ */
+export function addToMix(mix: AudioData | null, stem: AudioData): AudioData {
+  if (!mix) {
+    return { sampleRate: stem.sampleRate, channelData: stem.channelData.map((samples) => Float32Array.from(samples)) };
+  }
+
+  mix.channelData.forEach((mixed, channel) => {
+    const source = stem.channelData[channel];
+    for (let i = 0; i < mixed.length; i++) {
+      mixed[i] += source[i];
+    }
+  });
+  return mix;
+}
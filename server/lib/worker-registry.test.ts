@@ -0,0 +1,107 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import fs from "fs-extra";
+import path from "path";
+import { PIPELINE_STAGES } from "./filesystem";
+import type { StageActivity } from "./queue";
+import { createWorkerRegistry, detectWorkerDevice, STALE_AFTER_MISSED_HEARTBEATS } from "./worker-registry";
+
+const TEST_STORAGE_ROOT = "/tmp/ego-studio-jobs-test-worker-registry";
+
+describe.sequential("Worker Registry", () => {
+  let testDir: string;
+  let registry: ReturnType<typeof createWorkerRegistry>;
+
+  beforeEach(() => {
+    testDir = `${TEST_STORAGE_ROOT}-${Date.now()}-${Math.random()}`;
+    registry = createWorkerRegistry(testDir, { heartbeatMs: 20 });
+  });
+
+  afterEach(async () => {
+    try {
+      await fs.remove(testDir);
+    } catch (e) {
+      // Ignore cleanup errors
+    }
+  });
+
+  it("should list no workers before any registered", async () => {
+    expect(await registry.list()).toEqual([]);
+  });
+
+  it("should register a worker with its stages and keep it fresh while it heartbeats", async () => {
+    const registration = await registry.register("gpu-box:42", [PIPELINE_STAGES.SEPARATION]);
+    const [registered] = await registry.list();
+    expect(registered).toMatchObject({
+      id: "gpu-box:42",
+      pid: process.pid,
+      stages: [PIPELINE_STAGES.SEPARATION],
+      heartbeatMs: 20,
+      running: [],
+      stale: false,
+    });
+    expect(await fs.pathExists(path.join(testDir, "workers", "gpu-box_42.json"))).toBe(true);
+
+    await new Promise((resolve) => setTimeout(resolve, 100));
+    const [later] = await registry.list();
+    expect(later.stale).toBe(false);
+    expect(later.lastHeartbeatAt > registered.lastHeartbeatAt).toBe(true);
+
+    await registration.stop();
+    expect(await registry.list()).toEqual([]);
+  });
+
+  it("should list a worker that stopped heartbeating as stale, after the fresh ones", async () => {
+    const crashed = await registry.register("crashed", [PIPELINE_STAGES.DOWNLOAD]);
+    const alive = await registry.register("alive", [PIPELINE_STAGES.LYRICS]);
+
+    try {
+      const inAMinute = new Date(Date.now() + 60 * 1000);
+      const later = await registry.list(inAMinute);
+      expect(later.map((worker) => worker.stale)).toEqual([true, true]);
+      expect(later[0].missedHeartbeats).toBeGreaterThanOrEqual(STALE_AFTER_MISSED_HEARTBEATS);
+
+      // Stop the heartbeat without removing the record, as a crash would
+      const record = await fs.readJSON(path.join(testDir, "workers", "crashed.json"));
+      await crashed.stop();
+      await fs.outputJSON(path.join(testDir, "workers", "crashed.json"), {
+        ...record,
+        lastHeartbeatAt: new Date(Date.now() - 60 * 1000).toISOString(),
+      });
+
+      expect((await registry.list()).map(({ id, stale }) => ({ id, stale }))).toEqual([
+        { id: "alive", stale: false },
+        { id: "crashed", stale: true },
+      ]);
+    } finally {
+      await alive.stop();
+    }
+  });
+
+  it("should publish the stages a worker runs and its stage runs over the last hour every heartbeat", async () => {
+    let activity: StageActivity = { running: [], completed: 0, failed: 0 };
+    const registration = await registry.register("gpu-box", [PIPELINE_STAGES.SEPARATION], { activity: () => activity });
+
+    try {
+      const [registered] = await registry.list();
+      expect(registered).toMatchObject({ running: [], completedLastHour: 0, failedLastHour: 0 });
+      expect(registered.version).toEqual(expect.any(String));
+      expect(["cpu", "cuda"]).toContain(registered.device);
+
+      const running = { jobId: "job-1", stage: PIPELINE_STAGES.SEPARATION, startedAt: new Date().toISOString() };
+      activity = { running: [running], completed: 4, failed: 1 };
+      await new Promise((resolve) => setTimeout(resolve, 100));
+      const [later] = await registry.list();
+      expect(later).toMatchObject({ running: [running], completedLastHour: 4, failedLastHour: 1 });
+    } finally {
+      await registration.stop();
+    }
+  });
+
+  it("should detect the device from WORKER_DEVICE or CUDA_VISIBLE_DEVICES", () => {
+    expect(detectWorkerDevice({})).toBe("cpu");
+    expect(detectWorkerDevice({ CUDA_VISIBLE_DEVICES: "0" })).toBe("cuda");
+    expect(detectWorkerDevice({ CUDA_VISIBLE_DEVICES: "-1" })).toBe("cpu");
+    expect(detectWorkerDevice({ CUDA_VISIBLE_DEVICES: "" })).toBe("cpu");
+    expect(detectWorkerDevice({ WORKER_DEVICE: "cpu", CUDA_VISIBLE_DEVICES: "0" })).toBe("cpu");
+  });
+});
@@ -0,0 +1,233 @@
+/**
+ * Worker Registry
+ *
+ * Every process that runs stage queues (the server, standalone workers)
+ * registers in STORAGE_ROOT/workers/<workerId>.json with the stages it runs,
+ * its version and device, and refreshes the record every heartbeat with the
+ * jobs it is running and the stage runs it completed and failed over the last
+ * hour. Processes on other boxes share STORAGE_ROOT, so the API sees every worker.
+ *
+ * Invariants:
+ * - The worker ID is the lease holder of the worker's jobs (WORKER_ID)
+ * - A worker is stale once it missed STALE_AFTER_MISSED_HEARTBEATS heartbeats;
+ *   a worker that stops cleanly removes its record, one that crashed stays listed stale
+ * - Records are written atomically (temp file + rename)
+ *
+ * Uses dependency injection pattern:
+ * - Tests inject a temporary storage root
+ * - Production uses STORAGE_ROOT
+ */
+
+import os from "os";
+import path from "path";
+import fs from "fs-extra";
+import { PipelineStage } from "./filesystem";
+import { WORKER_ID } from "./job-lease";
+import { getStageActivity, RunningStage, StageActivity } from "./queue";
+
+/**
+ * How often a worker refreshes its record
+ */
+export const WORKER_HEARTBEAT_MS = parseInt(process.env.WORKER_HEARTBEAT_MS || "10000");
+
+/**
+ * Heartbeats a worker may miss before it is listed as stale
+ */
+export const STALE_AFTER_MISSED_HEARTBEATS = 3;
+
+export type WorkerDevice = "cpu" | "cuda";
+
+/**
+ * A registered worker process
+ */
+export interface WorkerRecord {
+  id: string;
+  host: string;
+  pid: number;
+  // Stages the worker processes
+  stages: PipelineStage[];
+  // APP_VERSION, or the package version
+  version: string;
+  device: WorkerDevice;
+  heartbeatMs: number;
+  // Stages running at the last heartbeat
+  running: RunningStage[];
+  // Stage runs that completed or failed within the hour before the last heartbeat
+  completedLastHour: number;
+  failedLastHour: number;
+  startedAt: string;
+  lastHeartbeatAt: string;
+}
+
+export interface WorkerStatus extends WorkerRecord {
+  // Whole heartbeat intervals since the last heartbeat
+  missedHeartbeats: number;
+  stale: boolean;
+}
+
+/**
+ * Device stages run on: WORKER_DEVICE if set, else CUDA when CUDA_VISIBLE_DEVICES names a GPU
+ */
+export function detectWorkerDevice(env: NodeJS.ProcessEnv = process.env): WorkerDevice {
+  if (env.WORKER_DEVICE === "cpu" || env.WORKER_DEVICE === "cuda") {
+    return env.WORKER_DEVICE;
+  }
+  const visible = env.CUDA_VISIBLE_DEVICES?.trim();
+  return visible && visible !== "-1" ? "cuda" : "cpu";
+}
+
+/**
+ * Version this process runs: APP_VERSION (e.g. the deployed commit), else the package version
+ */
+function readVersion(): string {
+  if (process.env.APP_VERSION) {
+    return process.env.APP_VERSION;
+  }
+  try {
+    return fs.readJSONSync(path.join(process.cwd(), "package.json")).version ?? "unknown";
+  } catch (e) {
+    return "unknown";
+  }
+}
+
+/**
+ * Running registration handle
+ */
+export interface WorkerRegistration {
+  // Stop heartbeating and remove the record
+  stop(): Promise<void>;
+}
+
+/**
+ * Factory function to create a worker registry
+ *
+ * @param storageRoot - Root directory for job storage (shared by every worker)
+ * @param options.heartbeatMs - Interval between heartbeats (default: WORKER_HEARTBEAT_MS)
+ */
+export function createWorkerRegistry(storageRoot: string, options: { heartbeatMs?: number } = {}) {
+  const heartbeatMs = options.heartbeatMs ?? WORKER_HEARTBEAT_MS;
+  const workersDir = path.join(storageRoot, "workers");
+
+  function recordPath(workerId: string): string {
+    // Worker IDs default to host:pid; keep them valid file names
+    return path.join(workersDir, `${workerId.replace(/[^A-Za-z0-9._-]/g, "_")}.json`);
+  }
+
+  async function write(record: WorkerRecord): Promise<void> {
+    const target = recordPath(record.id);
+    const temp = `${target}.${process.pid}.tmp`;
+    await fs.outputJSON(temp, record, { spaces: 2 });
+    await fs.rename(temp, target);
+  }
+
+  /**
+   * Register a worker and keep its record fresh until stopped
+   *
+   * @param options.activity - Reports what the worker is running, read every heartbeat
+   */
+  async function register(
+    workerId: string,
+    stages: PipelineStage[],
+    options: { activity?: () => StageActivity } = {}
+  ): Promise<WorkerRegistration> {
+    const activity = options.activity ?? (() => ({ running: [], completed: 0, failed: 0 }));
+    const now = new Date().toISOString();
+    const record: WorkerRecord = {
+      id: workerId,
+      host: os.hostname(),
+      pid: process.pid,
+      stages,
+      version: readVersion(),
+      device: detectWorkerDevice(),
+      heartbeatMs,
+      running: [],
+      completedLastHour: 0,
+      failedLastHour: 0,
+      startedAt: now,
+      lastHeartbeatAt: now,
+    };
+
+    function refresh(): void {
+      const { running, completed, failed } = activity();
+      record.running = running;
+      record.completedLastHour = completed;
+      record.failedLastHour = failed;
+      record.lastHeartbeatAt = new Date().toISOString();
+    }
+
+    refresh();
+    await write(record);
+    console.log(
+      `[WorkerRegistry] Registered worker ${workerId} (${stages.join(", ") || "no stages"}, ${record.device}, ${record.version})`
+    );
+
+    let writing: Promise<void> = Promise.resolve();
+    const timer = setInterval(() => {
+      refresh();
+      writing = write(record).catch((err) => {
+        console.error(`[WorkerRegistry] Heartbeat failed for worker ${workerId}:`, err);
+      });
+    }, heartbeatMs);
+    // Never keep the process alive just for a heartbeat
+    timer.unref();
+
+    return {
+      stop: async () => {
+        clearInterval(timer);
+        // A heartbeat still writing would bring the record back
+        await writing;
+        await fs.remove(recordPath(workerId));
+        console.log(`[WorkerRegistry] Unregistered worker ${workerId}`);
+      },
+    };
+  }
+
+  /**
+   * List registered workers, stale ones last
+   */
+  async function list(now: Date = new Date()): Promise<WorkerStatus[]> {
+    if (!(await fs.pathExists(workersDir))) {
+      return [];
+    }
+
+    const workers: WorkerStatus[] = [];
+    for (const file of await fs.readdir(workersDir)) {
+      if (!file.endsWith(".json")) {
+        continue;
+      }
+      try {
+        const record: WorkerRecord = await fs.readJSON(path.join(workersDir, file));
+        // Judge each worker by its own interval
+        const age = now.getTime() - new Date(record.lastHeartbeatAt).getTime();
+        const missedHeartbeats = Math.max(0, Math.floor(age / (record.heartbeatMs || heartbeatMs)));
+        workers.push({ ...record, missedHeartbeats, stale: missedHeartbeats >= STALE_AFTER_MISSED_HEARTBEATS });
+      } catch (e) {
+        // Removed while listing
+      }
+    }
+
+    return workers.sort((a, b) => Number(a.stale) - Number(b.stale) || a.id.localeCompare(b.id));
+  }
+
+  return {
+    register,
+    list,
+  };
+}
+
+/**
+ * Register this process as a worker in the production storage root
+ * @param stages - Stages this process runs
+ */
+export function registerWorker(stages: PipelineStage[]): Promise<WorkerRegistration> {
+  const storageRoot = process.env.STORAGE_ROOT || "/tmp/ego-studio-jobs";
+  return createWorkerRegistry(storageRoot).register(WORKER_ID, stages, { activity: getStageActivity });
+}
+
+/**
+ * List the workers registered in the production storage root
+ */
+export function listWorkers(): Promise<WorkerStatus[]> {
+  const storageRoot = process.env.STORAGE_ROOT || "/tmp/ego-studio-jobs";
+  return createWorkerRegistry(storageRoot).list();
+}
@@ -3,6 +3,7 @@ import { getSessionCookieOptions } from "./_core/cookies";
 import { systemRouter } from "./_core/systemRouter";
 import { publicProcedure, router } from "./_core/trpc";
 import { jobsRouter } from "./routers/jobs";
+import { workersRouter } from "./routers/workers";
 
 export const appRouter = router({
     // if you need to use socket.io, read and register route in server/_core/index.ts, all api should start with '/api/' so that the gateway can route correctly
@@ -18,6 +19,7 @@ export const appRouter = router({
     }),
   }),
   jobs: jobsRouter,
+  workers: workersRouter,
 
   // TODO: add feature routers here, e.g.
   // todo: router({
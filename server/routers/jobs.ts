@@ -1,7 +1,41 @@
 import { z } from "zod";
-import { publicProcedure, router } from "../_core/trpc";
+import { TRPCError } from "@trpc/server";
+import { adminProcedure, publicProcedure, router } from "../_core/trpc";
+import { canReadJob } from "../_core/job-artifacts";
+import { priorityForUser } from "../_core/job-priority";
+import type { User } from "../../drizzle/schema";
 import * as JobsService from "../lib/jobs-service";
+import { filesystem, JOB_EVENT_TYPES, JOB_PRIORITIES } from "../lib/filesystem";
 import { retryJob } from "../lib/jobs-service-retry";
+import { cancelJob, pauseJob, resumeJob, setJobPriority } from "../lib/jobs-service-control";
+import { listPresets } from "../lib/pipeline";
+import { listDeadLetters, requeueDeadLetters } from "../lib/jobs-service-dead-letters";
+import { DEAD_LETTER_KINDS } from "../lib/dead-letters";
+import { listStages } from "../lib/adapter-registry";
+
+// Dead letters to list or requeue (every field narrows the match)
+const deadLetterFilter = z.object({
+  kind: z.enum(Object.values(DEAD_LETTER_KINDS)).optional(),
+  // Checked against the registry on each request, so stages added with registerAdapter are accepted
+  stage: z
+    .string()
+    .refine((stage) => listStages().includes(stage), { message: "Unknown pipeline stage" })
+    .optional(),
+  reason: z.string().optional(),
+  ownerId: z.string().optional(),
+  jobIds: z.array(z.string()).optional(),
+});
+
+/**
+ * Refuse to read a private job's files for anyone but its owner and admins
+ * (the same check as the artifact streaming routes)
+ */
+async function assertCanReadJob(user: User | null, jobId: string): Promise<void> {
+  const metadata = await filesystem.readMetadata(jobId);
+  if (metadata && !canReadJob(user, metadata)) {
+    throw new TRPCError({ code: "FORBIDDEN", message: `Not allowed to read job ${jobId}` });
+  }
+}
 
 /**
  * Jobs Router
@@ -25,12 +59,35 @@ export const jobsRouter = router({
    * Create a new job from a YouTube URL
    */
   create: publicProcedure
-    .input(z.object({ url: z.string().url() }))
-    .mutation(async ({ input }) => {
-      const result = await JobsService.createJob(input.url);
+    .input(
+      z.object({
+        url: z.string().url(),
+        // Pipeline preset (see presets); createJob rejects unknown ones
+        preset: z.string().optional(),
+        // Wait in SCHEDULED until then (a time already past runs now)
+        runAt: z.string().datetime({ offset: true }).optional(),
+        // Run the URL again on this schedule (five fields, UTC); createJob rejects invalid ones
+        cron: z.string().optional(),
+      })
+    )
+    .mutation(async ({ input, ctx }) => {
+      const result = await JobsService.createJob(input.url, {
+        preset: input.preset,
+        ownerId: ctx.user?.openId,
+        priority: priorityForUser(ctx.user),
+        runAt: input.runAt,
+        cron: input.cron,
+      });
       return result;
     }),
 
+  /**
+   * List the pipeline presets jobs can be created with
+   */
+  presets: publicProcedure.query(() => {
+    return listPresets();
+  }),
+
   /**
    * List all jobs with optional filtering
    */
@@ -40,6 +97,7 @@ export const jobsRouter = router({
         limit: z.number().default(50),
         offset: z.number().default(0),
         state: z.string().optional(),
+        stage: z.string().optional(),
       })
     )
     .query(async ({ input }) => {
@@ -47,12 +105,13 @@ export const jobsRouter = router({
         limit: input.limit,
         offset: input.offset,
         state: input.state,
+        stage: input.stage,
       });
       return results;
     }),
 
   /**
-   * Get a single job by ID
+   * Get a single job by ID (with its place in line while it waits for a fair-queued stage)
    */
   get: publicProcedure
     .input(z.object({ jobId: z.string() }))
@@ -71,16 +130,47 @@ export const jobsRouter = router({
       return result;
     }),
 
+  /**
+   * Get structured events for a job (optionally only newer ones, or only some types)
+   */
+  events: publicProcedure
+    .input(
+      z.object({
+        jobId: z.string(),
+        since: z.string().optional(),
+        types: z.array(z.enum(Object.values(JOB_EVENT_TYPES))).optional(),
+      })
+    )
+    .query(async ({ input }) => {
+      const result = await JobsService.getJobEvents(input.jobId, {
+        since: input.since,
+        types: input.types,
+      });
+      return result;
+    }),
+
   /**
    * Get artifacts for a job
    */
   artifacts: publicProcedure
     .input(z.object({ jobId: z.string() }))
-    .query(async ({ input }) => {
+    .query(async ({ ctx, input }) => {
+      await assertCanReadJob(ctx.user, input.jobId);
       const result = await JobsService.getJobArtifacts(input.jobId);
       return result;
     }),
 
+  /**
+   * Get the waveform peaks of a job's mix and stems at one zoom level (samples per pixel)
+   */
+  waveform: publicProcedure
+    .input(z.object({ jobId: z.string(), samplesPerPixel: z.number().int().positive().optional() }))
+    .query(async ({ ctx, input }) => {
+      await assertCanReadJob(ctx.user, input.jobId);
+      const result = await JobsService.getJobWaveform(input.jobId, input.samplesPerPixel);
+      return result;
+    }),
+
   /**
    * Health check
    */
@@ -121,9 +211,26 @@ export const jobsRouter = router({
     }),
 
   /**
-   * Retry a failed job
+   * Retry a failed job (from the failed stage by default, reusing earlier artifacts)
    */
   retry: publicProcedure
+    .input(
+      z.object({
+        jobId: z.string(),
+        reason: z.string().optional(),
+        // Any registered stage; retryJob rejects unknown ones
+        fromStage: z.string().optional(),
+      })
+    )
+    .mutation(async ({ input }) => {
+      const result = await retryJob(input.jobId, input.reason, { fromStage: input.fromStage });
+      return result;
+    }),
+
+  /**
+   * Cancel a job (stops the running worker's process if any)
+   */
+  cancel: publicProcedure
     .input(
       z.object({
         jobId: z.string(),
@@ -131,7 +238,57 @@ export const jobsRouter = router({
       })
     )
     .mutation(async ({ input }) => {
-      const result = await retryJob(input.jobId, input.reason);
+      const result = await cancelJob(input.jobId, input.reason);
+      return result;
+    }),
+
+  /**
+   * Pause a job (keeps it out of queue pickup)
+   */
+  pause: publicProcedure
+    .input(z.object({ jobId: z.string() }))
+    .mutation(async ({ input }) => {
+      const result = await pauseJob(input.jobId);
+      return result;
+    }),
+
+  /**
+   * Resume a paused job
+   */
+  resume: publicProcedure
+    .input(z.object({ jobId: z.string() }))
+    .mutation(async ({ input }) => {
+      const result = await resumeJob(input.jobId);
+      return result;
+    }),
+
+  /**
+   * Move a job to another priority lane (admin only; new jobs get the creator's lane)
+   */
+  setPriority: adminProcedure
+    .input(z.object({ jobId: z.string(), priority: z.enum(Object.values(JOB_PRIORITIES)) }))
+    .mutation(async ({ input }) => {
+      const result = await setJobPriority(input.jobId, input.priority);
+      return result;
+    }),
+
+  /**
+   * List jobs that failed for good or were dropped between stages (admin only)
+   */
+  deadLetters: adminProcedure
+    .input(deadLetterFilter.default({}))
+    .query(async ({ input }) => {
+      const result = await listDeadLetters(input);
+      return result;
+    }),
+
+  /**
+   * Requeue dead letters: the given jobs, or every one matching a filter (admin only)
+   */
+  requeue: adminProcedure
+    .input(z.union([z.object({ jobIds: z.array(z.string()).min(1) }), z.object({ filter: deadLetterFilter })]))
+    .mutation(async ({ input }) => {
+      const result = await requeueDeadLetters(input);
       return result;
     }),
 
@@ -140,7 +297,8 @@ export const jobsRouter = router({
    */
   downloadArtifacts: publicProcedure
     .input(z.object({ jobId: z.string() }))
-    .query(async ({ input }) => {
+    .query(async ({ ctx, input }) => {
+      await assertCanReadJob(ctx.user, input.jobId);
       const result = await JobsService.getJobArtifacts(input.jobId);
       return result;
     }),
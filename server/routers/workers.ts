@@ -0,0 +1,19 @@
+import { adminProcedure, router } from "../_core/trpc";
+import { listWorkers } from "../lib/worker-registry";
+
+/**
+ * Workers Router
+ *
+ * Admin view of the processes running stage queues (see worker-registry.ts).
+ * Each worker reports its own status every heartbeat; a worker that missed
+ * heartbeats is listed as stale until its record is removed.
+ */
+
+export const workersRouter = router({
+  /**
+   * List registered workers with their current jobs and stage runs over the last hour, stale ones last
+   */
+  list: adminProcedure.query(async () => {
+    return listWorkers();
+  }),
+});
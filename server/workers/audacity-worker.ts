@@ -2,79 +2,74 @@
  * Audacity Worker
  *
  * Generates Audacity projects from separated stems.
- * Consumes jobs that have completed Lyrics extraction.
- * Transitions: DONE (lyrics) → CLAIMED (audacity) → RUNNING → DONE or FAILED
+ * Consumes jobs whose pipeline has AUDACITY ready (separation done, and lyrics
+ * if the pipeline runs them).
+ * Transitions: DONE (previous stage) → CLAIMED (audacity) → RUNNING → DONE or FAILED
+ * Stage: → AUDACITY (advanced on claim)
  *
  * Pattern:
- * 1. Find jobs with lyrics DONE
+ * 1. Find jobs with audacity ready
  * 2. Claim for Audacity project generation
- * 3. Generate .aup3 project file from stems
+ * 3. Generate .aup3 project file from stems (real sample counts, see audio-io.ts)
  * 4. Write project as artifact
  * 5. Transition to DONE or FAILED
  *
- * Final stage of multi-stage pipeline.
+ * Followed by the packaging stage, which completes the job.
  */
 
-import { Job } from "bull";
+import type { QueueJob } from "../lib/queue-backend";
 import { createFilesystem } from "../lib/filesystem";
 import { createMoveOperations } from "../lib/job-moves";
+import { createLeaseOperations, LeaseHeartbeat, LEASE_DURATION_MS, WORKER_ID } from "../lib/job-lease";
+import { createJobControl, PAUSE_RECHECK_MS } from "../lib/job-control";
 import { Actor } from "../lib/job-state";
-import { JOB_STATES } from "../lib/filesystem";
+import { JOB_EVENT_TYPES, JOB_STATES, PIPELINE_STAGES } from "../lib/filesystem";
+import { generateAudacityProjectXml, ProjectTempo, toTrackInfo, TrackInfo } from "../lib/audacity-project";
+import { validateStems } from "../lib/audio-io";
 import * as fs from "fs-extra";
 import * as path from "path";
 
-export const AUDACITY_QUEUE_NAME = "audacity-project-generation";
-
-export const JOB_OPTIONS = {
-  attempts: 1,
-  backoff: {
-    type: "exponential",
-    delay: 2000,
-  },
-  removeOnComplete: false,
-  removeOnFail: false,
-};
-
 const STORAGE_ROOT = process.env.STORAGE_ROOT || "/tmp/ego-studio-jobs";
 const filesystem = createFilesystem(STORAGE_ROOT);
 const moves = createMoveOperations(filesystem, STORAGE_ROOT);
+const leases = createLeaseOperations(filesystem);
+const control = createJobControl(filesystem, moves);
 
 /**
  * Generate Audacity project XML
- * Creates a basic .aup3 project structure
+ * One track per stem in the job's stems/ directory, with the stem's real
+ * sample rate, channels and length; bar labels when the tempo is known
  */
-async function generateAudacityProject(jobId: string, stemsDir: string): Promise<{
+async function generateAudacityProject(jobId: string, stemsDir: string, tempo?: ProjectTempo): Promise<{
   success: boolean;
-  projectPath?: string;
+  projectXml?: string;
+  tracks?: TrackInfo[];
   error?: string;
 }> {
   try {
-    const jobDir = path.join(STORAGE_ROOT, jobId);
-    const projectDir = path.join(jobDir, "audacity-project");
-    const projectPath = path.join(projectDir, `${jobId}.aup3`);
-
-    // Ensure project directory exists
-    await fs.ensureDir(projectDir);
-
-    // Create a basic Audacity project structure
-    // In production, this would use a proper Audacity library
-    const projectXml = `<?xml version="1.0" encoding="UTF-8"?>
-<!DOCTYPE project PUBLIC "-//Audacity//DTD Audacity 3.4.0 Project//EN" "http://audacity.sourceforge.net/xml/audacityproject-3.4.0.dtd">
-<project xmlns="http://audacity.sourceforge.net/xml/" projname="${jobId}_data" version="3.4.0" audacityversion="3.4.0" sel0="0.0" sel1="0.0" vpos="0" h="0.0" zoom="100.0" rate="44100.0" snapto="off" selectionformat="hh:mm:ss + milliseconds" frequencyformat="Hz" bandlimiters="off">
-  <tags/>
-  <wavetrack name="Project" isSelected="1" height="150" minimized="0" rate="44100" gain="1.0" pan="0.0" colorindex="0">
-    <waveclip offset="0.0">
-      <sequence maxSamples="262144" sampleFormat="262159" numSamples="0"/>
-    </waveclip>
-  </wavetrack>
-</project>`;
-
-    // Write project file
-    await fs.writeFile(projectPath, projectXml, "utf-8");
+    const stemFiles = (await fs.pathExists(stemsDir))
+      ? (await fs.readdir(stemsDir)).filter((file) => path.extname(file) === ".wav").sort()
+      : [];
+    if (stemFiles.length === 0) {
+      return { success: false, error: "No stems to build the project from" };
+    }
+
+    const stems = Object.fromEntries(
+      stemFiles.map((file) => [path.basename(file, ".wav"), path.join(stemsDir, file)])
+    );
+    const validation = await validateStems(stems);
+    if (!validation.valid) {
+      return { success: false, error: `Invalid stems: ${validation.errors.join("; ")}` };
+    }
+
+    const tracks = Object.entries(stems).map(([name, filePath]) =>
+      toTrackInfo(name, filePath, validation.stems[name])
+    );
 
     return {
       success: true,
-      projectPath,
+      projectXml: generateAudacityProjectXml(jobId, tracks, tracks[0].sampleRate, tempo),
+      tracks,
     };
   } catch (error: any) {
     return {
@@ -87,8 +82,9 @@ async function generateAudacityProject(jobId: string, stemsDir: string): Promise
 /**
  * Process a single Audacity job
  */
-export async function processAudacityJob(job: Job<{ jobId: string }>): Promise<void> {
+export async function processAudacityJob(job: QueueJob<{ jobId: string }>): Promise<void> {
   const { jobId } = job.data as { jobId: string };
+  let heartbeat: LeaseHeartbeat | null = null;
 
   try {
     console.log(`[audacity-worker] Processing job ${jobId}`);
@@ -105,19 +101,37 @@ export async function processAudacityJob(job: Job<{ jobId: string }>): Promise<v
       return;
     }
 
+    // Honor pause and cancel requests before claiming
+    const pickup = await control.checkPickup(jobId);
+    if (pickup === "paused") {
+      console.log(`[audacity-worker] Job ${jobId} is paused, requeueing`);
+      await job.queue.add(job.data, { delay: PAUSE_RECHECK_MS });
+      return;
+    }
+    if (pickup === "skip") {
+      console.log(`[audacity-worker] Skipping job ${jobId} (${metadata.state}, cancel requested or finished)`);
+      return;
+    }
+
     // Step 2: Claim job for Audacity processing (DONE → CLAIMED)
     if (metadata.state === JOB_STATES.DONE) {
       console.log(`[audacity-worker] Claiming job ${jobId} for Audacity project generation`);
       await filesystem.appendToJobLog(jobId, `[AUDACITY-WORKER] Claiming job for project generation`);
-      await moves.moveJob(jobId, JOB_STATES.DONE as any, JOB_STATES.CLAIMED as any, Actor.SYSTEM);
+      await moves.moveJob(jobId, JOB_STATES.DONE as any, JOB_STATES.CLAIMED as any, Actor.AUDACITY_WORKER, {
+        stage: PIPELINE_STAGES.AUDACITY,
+        lease: { holder: WORKER_ID, durationMs: LEASE_DURATION_MS },
+      });
     }
 
+    // Keep the lease alive while this worker holds the job
+    heartbeat = leases.startHeartbeat(jobId, WORKER_ID);
+
     // Step 3: Start processing (CLAIMED → RUNNING)
     metadata = await filesystem.readMetadata(jobId);
     if (metadata?.state === JOB_STATES.CLAIMED) {
       console.log(`[audacity-worker] Starting Audacity for job ${jobId}`);
       await filesystem.appendToJobLog(jobId, `[AUDACITY-WORKER] Starting project generation`);
-      await moves.moveJob(jobId, JOB_STATES.CLAIMED as any, JOB_STATES.RUNNING as any, Actor.SYSTEM);
+      await moves.moveJob(jobId, JOB_STATES.CLAIMED as any, JOB_STATES.RUNNING as any, Actor.AUDACITY_WORKER);
     }
 
     // Step 4: Generate Audacity project
@@ -129,27 +143,52 @@ export async function processAudacityJob(job: Job<{ jobId: string }>): Promise<v
 
     await filesystem.appendToJobLog(jobId, `[AUDACITY-WORKER] Generating Audacity project`);
 
-    const jobDir = path.join(STORAGE_ROOT, jobId);
-    const stemsDir = path.join(jobDir, "demucs-output");
+    const stateDir = await filesystem.getJobStateDir(jobId);
+    if (!stateDir) {
+      throw new Error(`Job directory lost for ${jobId}`);
+    }
+
+    // The beats analysis run after separation sets the project tempo and bar labels
+    const { analysis } = metadata;
+    const tempo =
+      analysis?.status === "COMPLETE" && analysis.bpm
+        ? { bpm: analysis.bpm, beatsPerBar: analysis.beatsPerBar ?? 4, firstDownbeatSec: analysis.firstDownbeatSec ?? 0 }
+        : undefined;
 
-    const result = await generateAudacityProject(jobId, stemsDir);
+    const result = await generateAudacityProject(jobId, path.join(stateDir.dir, "stems"), tempo);
+
+    if (heartbeat.isReleased()) {
+      // Handed back while draining; the job is in NEW or DONE for another worker
+      return;
+    }
+    if (heartbeat.isCancelled()) {
+      await control.finishCancelled(jobId, Actor.AUDACITY_WORKER);
+      return;
+    }
 
     if (!result.success) {
       // Step 5a: Fail the job (RUNNING → FAILED)
       console.log(`[audacity-worker] Job ${jobId} failed: ${result.error}`);
       await filesystem.appendToJobLog(jobId, `[AUDACITY-WORKER] Project generation failed: ${result.error}`);
+      await filesystem.appendJobEvent(jobId, {
+        type: JOB_EVENT_TYPES.ERROR,
+        actor: Actor.AUDACITY_WORKER,
+        stage: PIPELINE_STAGES.AUDACITY,
+        payload: { reason: "AUDACITY_GENERATION_FAILED", message: result.error },
+      });
 
       // Update metadata with failure info
       const updated = await filesystem.readMetadata(jobId);
       if (updated) {
-        updated.audacity = {
-          status: "FAILED",
-          error: result.error,
-        };
-        await filesystem.writeMetadata(jobId, updated);
+        await filesystem.updateMetadata(jobId, updated.revision, (current) => {
+          current.audacity = {
+            status: "FAILED",
+            error: result.error,
+          };
+        });
       }
 
-      await moves.moveJob(jobId, JOB_STATES.RUNNING as any, JOB_STATES.FAILED as any, Actor.SYSTEM);
+      await moves.moveJob(jobId, JOB_STATES.RUNNING as any, JOB_STATES.FAILED as any, Actor.AUDACITY_WORKER);
       return;
     }
 
@@ -158,36 +197,52 @@ export async function processAudacityJob(job: Job<{ jobId: string }>): Promise<v
     await filesystem.appendToJobLog(jobId, `[AUDACITY-WORKER] Audacity project generation complete`);
 
     // Write project artifact
-    if (result.projectPath) {
-      try {
-        const content = await fs.readFile(result.projectPath);
-        await filesystem.writeArtifact(jobId, "audacity", `${jobId}.aup3`, content);
-        await filesystem.appendToJobLog(jobId, `[AUDACITY-WORKER] Wrote artifact: ${jobId}.aup3`);
-      } catch (artifactError) {
-        console.error(`[audacity-worker] Failed to write artifact:`, artifactError);
-        await filesystem.appendToJobLog(jobId, `[AUDACITY-WORKER] Warning: Failed to write artifact`);
-      }
-    }
+    const projectPath = `audacity/${jobId}.aup3`;
+    await filesystem.writeArtifact(jobId, "audacity", `${jobId}.aup3`, result.projectXml!);
+    await filesystem.appendToJobLog(
+      jobId,
+      `[AUDACITY-WORKER] Wrote artifact: ${jobId}.aup3 (${result.tracks!.length} tracks, ` +
+        `${result.tracks![0].numSamples} samples at ${result.tracks![0].sampleRate} Hz` +
+        `${tempo ? `, ${tempo.bpm} BPM` : ""})`
+    );
 
     // Update metadata with success info
     const updated = await filesystem.readMetadata(jobId);
     if (updated) {
-      updated.audacity = {
-        status: "COMPLETE",
-        projectPath: result.projectPath,
-      };
-      await filesystem.writeMetadata(jobId, updated);
+      await filesystem.updateMetadata(jobId, updated.revision, (current) => {
+        current.audacity = {
+          status: "COMPLETE",
+          projectPath,
+          sampleRate: result.tracks![0].sampleRate,
+          numSamples: result.tracks![0].numSamples,
+        };
+      });
     }
 
-    await moves.moveJob(jobId, JOB_STATES.RUNNING as any, JOB_STATES.DONE as any, Actor.SYSTEM);
+    await moves.moveJob(jobId, JOB_STATES.RUNNING as any, JOB_STATES.DONE as any, Actor.AUDACITY_WORKER);
 
     console.log(`[audacity-worker] Job ${jobId} finished successfully`);
   } catch (error) {
+    if (heartbeat?.isReleased()) {
+      // The abort surfaced as an error; the job was handed back, not failed
+      return;
+    }
+    if (heartbeat?.isCancelled()) {
+      await control.finishCancelled(jobId, Actor.AUDACITY_WORKER);
+      return;
+    }
+
     console.error(`[audacity-worker] Error processing job ${jobId}:`, error);
 
     // Log error
     try {
       await filesystem.appendToJobLog(jobId, `[AUDACITY-WORKER] ERROR: ${String(error)}`);
+      await filesystem.appendJobEvent(jobId, {
+        type: JOB_EVENT_TYPES.ERROR,
+        actor: Actor.AUDACITY_WORKER,
+        stage: PIPELINE_STAGES.AUDACITY,
+        payload: { message: String(error) },
+      });
     } catch (logError) {
       console.error(`[audacity-worker] Failed to log error for job ${jobId}:`, logError);
     }
@@ -196,12 +251,14 @@ export async function processAudacityJob(job: Job<{ jobId: string }>): Promise<v
     try {
       const metadata = await filesystem.readMetadata(jobId);
       if (metadata && metadata.state === JOB_STATES.RUNNING) {
-        await moves.moveJob(jobId, JOB_STATES.RUNNING as any, JOB_STATES.FAILED as any, Actor.SYSTEM);
+        await moves.moveJob(jobId, JOB_STATES.RUNNING as any, JOB_STATES.FAILED as any, Actor.AUDACITY_WORKER);
       }
     } catch (failError) {
       console.error(`[audacity-worker] Failed to mark job as failed:`, failError);
     }
 
     throw error;
+  } finally {
+    heartbeat?.stop();
   }
 }
@@ -0,0 +1,113 @@
+/**
+ * Beats Worker
+ *
+ * Feature adapter: estimates the tempo, beat grid and downbeats of a job
+ * (see beat-analysis.ts) for producers importing the stems into a DAW.
+ * Runs once SEPARATION completed, or DOWNLOAD in pipelines without
+ * separation (see adapter-registry.ts), before the next stages are
+ * scheduled, so the Audacity project and the UI can use the BPM.
+ * Transitions: none (feature adapters own no states)
+ *
+ * Pattern:
+ * 1. Pick the audio: the drums stem, else the downloaded mix (WAV or AIFF)
+ * 2. Analyse it
+ * 3. Write analysis/beats.json
+ * 4. Record the BPM in metadata.analysis (COMPLETE or FAILED)
+ *
+ * A failed analysis never fails the job: the stage goes on without a BPM.
+ */
+
+import { createFilesystem, JobMetadata } from "../lib/filesystem";
+import { createMoveOperations } from "../lib/job-moves";
+import { AudioData, AudioFormatError, decodeAudio } from "../lib/audio-io";
+import { analyzeBeats, BEATS_FILE } from "../lib/beat-analysis";
+import * as fs from "fs-extra";
+import * as path from "path";
+
+const STORAGE_ROOT = process.env.STORAGE_ROOT || "/tmp/ego-studio-jobs";
+const filesystem = createFilesystem(STORAGE_ROOT);
+const moves = createMoveOperations(filesystem, STORAGE_ROOT);
+
+/**
+ * Decode the audio to analyse, drums first
+ */
+async function readBeatSource(
+  jobDir: string,
+  metadata: JobMetadata
+): Promise<{ source: "drums" | "mix"; audio: AudioData } | null> {
+  const candidates: ["drums" | "mix", string | undefined][] = [
+    ["drums", "stems/drums.wav"],
+    ["mix", metadata.download?.filePath],
+  ];
+
+  for (const [source, filePath] of candidates) {
+    if (!filePath || !(await fs.pathExists(path.join(jobDir, filePath)))) {
+      continue;
+    }
+    try {
+      return { source, audio: decodeAudio(await fs.readFile(path.join(jobDir, filePath))) };
+    } catch (error) {
+      if (!(error instanceof AudioFormatError)) {
+        throw error;
+      }
+    }
+  }
+  return null;
+}
+
+/**
+ * Analyse the beats of a job and record them
+ * Never throws; failures are recorded in metadata.analysis
+ */
+export async function analyzeJobBeats(jobId: string): Promise<void> {
+  try {
+    const metadata = await filesystem.readMetadata(jobId);
+    const stateDir = await filesystem.getJobStateDir(jobId);
+    if (!metadata || !stateDir) {
+      throw new Error(`Job ${jobId} not found`);
+    }
+
+    const input = await readBeatSource(stateDir.dir, metadata);
+    if (!input) {
+      throw new Error("No drums stem or WAV/AIFF mix to analyse");
+    }
+
+    const analysis = analyzeBeats(input.audio);
+    await filesystem.writeArtifact(
+      jobId,
+      "analysis",
+      BEATS_FILE,
+      JSON.stringify({ version: 1, source: input.source, ...analysis }, null, 2)
+    );
+    await filesystem.appendToJobLog(
+      jobId,
+      `[BEATS-WORKER] ${analysis.bpm} BPM from ${input.source} (confidence ${analysis.confidence}, ` +
+        `${analysis.beats.length} beats)`
+    );
+
+    await moves.updateLatestMetadata(jobId, (current) => {
+      current.analysis = {
+        status: "COMPLETE",
+        bpm: analysis.bpm,
+        confidence: analysis.confidence,
+        source: input.source,
+        beatsPerBar: analysis.beatsPerBar,
+        firstDownbeatSec: analysis.downbeats[0] ?? 0,
+        beatsPath: `analysis/${BEATS_FILE}`,
+        finishedAt: new Date().toISOString(),
+      };
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.log(`[beats-worker] Beat analysis of job ${jobId} failed: ${message}`);
+
+    try {
+      await filesystem.appendToJobLog(jobId, `[BEATS-WORKER] Beat analysis failed: ${message}`);
+      await moves.updateLatestMetadata(jobId, (current) => {
+        current.analysis = { status: "FAILED", error: message, finishedAt: new Date().toISOString() };
+      });
+    } catch (logError) {
+      console.error(`[beats-worker] Failed to record analysis failure for job ${jobId}:`, logError);
+    }
+  }
+}
@@ -4,50 +4,57 @@
  * Processes audio separation using Demucs.
  * Consumes jobs that have completed yt-dlp download.
  * Transitions: DONE (download) → CLAIMED (demucs) → RUNNING → DONE or FAILED
+ * Stage: DOWNLOAD → SEPARATION (advanced on claim)
  *
  * Pattern:
  * 1. Find jobs with download DONE
  * 2. Claim for Demucs processing
  * 3. Execute Demucs (real execFile)
- * 4. Write stems as artifacts
+ * 4. Check the stems (see audio-io.ts) and write them as artifacts
  * 5. Transition to DONE or FAILED
+ *
+ * The beats feature adapter analyses the stems once the stage completed (see beats-worker.ts).
+ *
+ * A retry after running out of GPU memory runs on the CPU (see retry-policy.ts).
  */
 
-import { Job } from "bull";
+import type { QueueJob } from "../lib/queue-backend";
 import { execFile } from "child_process";
 import { promisify } from "util";
 import { createFilesystem } from "../lib/filesystem";
 import { createMoveOperations } from "../lib/job-moves";
+import { createLeaseOperations, LeaseHeartbeat, LEASE_DURATION_MS, WORKER_ID } from "../lib/job-lease";
+import { createJobControl, PAUSE_RECHECK_MS } from "../lib/job-control";
 import { Actor } from "../lib/job-state";
-import { JOB_STATES } from "../lib/filesystem";
+import { JOB_EVENT_TYPES, JOB_STATES, PIPELINE_STAGES } from "../lib/filesystem";
+import { getRetryFallback } from "../lib/retry-policy";
+import { detectWorkerDevice } from "../lib/worker-registry";
+import { AudioInfo, validateStems } from "../lib/audio-io";
 import * as fs from "fs-extra";
 import * as path from "path";
 
 const execFileAsync = promisify(execFile);
 
-export const DEMUCS_QUEUE_NAME = "demucs-processing";
-
-export const JOB_OPTIONS = {
-  attempts: 1,
-  backoff: {
-    type: "exponential",
-    delay: 2000,
-  },
-  removeOnComplete: false,
-  removeOnFail: false,
-};
-
 const STORAGE_ROOT = process.env.STORAGE_ROOT || "/tmp/ego-studio-jobs";
 const filesystem = createFilesystem(STORAGE_ROOT);
 const moves = createMoveOperations(filesystem, STORAGE_ROOT);
+const leases = createLeaseOperations(filesystem);
+const control = createJobControl(filesystem, moves);
 
 /**
  * Real Demucs execution
  * Returns stems or failure with error mapping
+ * Aborting the signal kills the demucs process; device forces the device demucs runs on
  */
-async function executeDemucs(audioPath: string, outputDir: string): Promise<{
+async function executeDemucs(
+  audioPath: string,
+  outputDir: string,
+  signal?: AbortSignal,
+  device?: "cpu"
+): Promise<{
   success: boolean;
   stems?: Record<string, string>;
+  stemInfo?: Record<string, AudioInfo>;
   error?: string;
   reason?: string;
 }> {
@@ -56,10 +63,12 @@ async function executeDemucs(audioPath: string, outputDir: string): Promise<{
     await fs.ensureDir(outputDir);
 
     // Execute demucs command
-    // demucs -o <output_dir> <audio_file>
-    const { stdout, stderr } = await execFileAsync("demucs", ["-o", outputDir, audioPath], {
+    // demucs -o <output_dir> [-d <device>] <audio_file>
+    const args = ["-o", outputDir, ...(device ? ["-d", device] : []), audioPath];
+    const { stdout, stderr } = await execFileAsync("demucs", args, {
       timeout: 600000, // 10 minutes
       maxBuffer: 10 * 1024 * 1024, // 10MB buffer
+      signal,
     });
 
     // Log output
@@ -87,9 +96,20 @@ async function executeDemucs(audioPath: string, outputDir: string): Promise<{
       };
     }
 
+    // Demucs killed mid-write leaves truncated stems; never pass those on
+    const validation = await validateStems(stems);
+    if (!validation.valid) {
+      return {
+        success: false,
+        error: `Demucs wrote invalid stems: ${validation.errors.join("; ")}`,
+        reason: "SEPARATION_FAILED",
+      };
+    }
+
     return {
       success: true,
       stems,
+      stemInfo: validation.stems,
     };
   } catch (error: any) {
     const errorMsg = error.message || String(error);
@@ -116,8 +136,9 @@ async function executeDemucs(audioPath: string, outputDir: string): Promise<{
 /**
  * Process a single Demucs job
  */
-export async function processDemucsJob(job: Job<{ jobId: string }>): Promise<void> {
+export async function processDemucsJob(job: QueueJob<{ jobId: string }>): Promise<void> {
   const { jobId } = job.data as { jobId: string };
+  let heartbeat: LeaseHeartbeat | null = null;
 
   try {
     console.log(`[demucs-worker] Processing job ${jobId}`);
@@ -136,19 +157,37 @@ export async function processDemucsJob(job: Job<{ jobId: string }>): Promise<voi
       return;
     }
 
+    // Honor pause and cancel requests before claiming
+    const pickup = await control.checkPickup(jobId);
+    if (pickup === "paused") {
+      console.log(`[demucs-worker] Job ${jobId} is paused, requeueing`);
+      await job.queue.add(job.data, { delay: PAUSE_RECHECK_MS });
+      return;
+    }
+    if (pickup === "skip") {
+      console.log(`[demucs-worker] Skipping job ${jobId} (${metadata.state}, cancel requested or finished)`);
+      return;
+    }
+
     // Step 2: Claim job for Demucs processing (DONE → CLAIMED)
     if (metadata.state === JOB_STATES.DONE) {
       console.log(`[demucs-worker] Claiming job ${jobId} for Demucs processing`);
       await filesystem.appendToJobLog(jobId, `[DEMUCS-WORKER] Claiming job for audio separation`);
-      await moves.moveJob(jobId, JOB_STATES.DONE as any, JOB_STATES.CLAIMED as any, Actor.SYSTEM);
+      await moves.moveJob(jobId, JOB_STATES.DONE as any, JOB_STATES.CLAIMED as any, Actor.DEMUCS_WORKER, {
+        stage: PIPELINE_STAGES.SEPARATION,
+        lease: { holder: WORKER_ID, durationMs: LEASE_DURATION_MS },
+      });
     }
 
+    // Keep the lease alive while this worker holds the job
+    heartbeat = leases.startHeartbeat(jobId, WORKER_ID);
+
     // Step 3: Start processing (CLAIMED → RUNNING)
     metadata = await filesystem.readMetadata(jobId);
     if (metadata?.state === JOB_STATES.CLAIMED) {
       console.log(`[demucs-worker] Starting Demucs for job ${jobId}`);
       await filesystem.appendToJobLog(jobId, `[DEMUCS-WORKER] Starting audio separation`);
-      await moves.moveJob(jobId, JOB_STATES.CLAIMED as any, JOB_STATES.RUNNING as any, Actor.SYSTEM);
+      await moves.moveJob(jobId, JOB_STATES.CLAIMED as any, JOB_STATES.RUNNING as any, Actor.DEMUCS_WORKER);
     }
 
     // Step 4: Execute Demucs
@@ -160,43 +199,79 @@ export async function processDemucsJob(job: Job<{ jobId: string }>): Promise<voi
 
     await filesystem.appendToJobLog(jobId, `[DEMUCS-WORKER] Executing Demucs`);
 
-    // Get audio file path from download metadata
-    const audioPath = metadata.download?.filePath || `${jobId}.audio.wav`;
+    // Get audio file path from download metadata (relative to the job folder, which moves between states)
+    const stateDir = await filesystem.getJobStateDir(jobId);
+    if (!metadata.download?.filePath || !stateDir) {
+      throw new Error(`No downloaded audio recorded for job ${jobId}`);
+    }
+    const audioPath = path.join(stateDir.dir, metadata.download.filePath);
     const jobDir = path.join(STORAGE_ROOT, jobId);
     const outputDir = path.join(jobDir, "demucs-output");
 
-    const result = await executeDemucs(audioPath, outputDir);
+    const device = getRetryFallback(metadata, PIPELINE_STAGES.SEPARATION);
+    if (device) {
+      await filesystem.appendToJobLog(
+        jobId,
+        `[DEMUCS-WORKER] Running on the ${device.toUpperCase()} after running out of GPU memory`
+      );
+    }
+
+    const result = await executeDemucs(audioPath, outputDir, heartbeat.signal, device);
+
+    if (heartbeat.isReleased()) {
+      // Handed back while draining; the job is in NEW or DONE for another worker
+      return;
+    }
+    if (heartbeat.isCancelled()) {
+      await control.finishCancelled(jobId, Actor.DEMUCS_WORKER);
+      return;
+    }
 
     if (!result.success) {
-      // Step 5a: Fail the job (RUNNING → FAILED)
+      // Step 6a: Fail the job (RUNNING → FAILED)
       console.log(`[demucs-worker] Job ${jobId} failed: ${result.reason}`);
       await filesystem.appendToJobLog(jobId, `[DEMUCS-WORKER] Separation failed: ${result.reason}`);
+      await filesystem.appendJobEvent(jobId, {
+        type: JOB_EVENT_TYPES.ERROR,
+        actor: Actor.DEMUCS_WORKER,
+        stage: PIPELINE_STAGES.SEPARATION,
+        payload: { reason: result.reason, message: result.error },
+      });
 
       // Update metadata with failure info
       const updated = await filesystem.readMetadata(jobId);
       if (updated) {
-        updated.separation = {
-          status: "FAILED",
-          error: result.error,
-        };
-        await filesystem.writeMetadata(jobId, updated);
+        await filesystem.updateMetadata(jobId, updated.revision, (current) => {
+          current.separation = {
+            status: "FAILED",
+            error: result.error,
+          };
+        });
       }
 
-      await moves.moveJob(jobId, JOB_STATES.RUNNING as any, JOB_STATES.FAILED as any, Actor.SYSTEM);
+      await moves.moveJob(jobId, JOB_STATES.RUNNING as any, JOB_STATES.FAILED as any, Actor.DEMUCS_WORKER);
       return;
     }
 
-    // Step 5b: Complete the job (RUNNING → DONE)
+    // Step 6b: Complete the job (RUNNING → DONE)
     console.log(`[demucs-worker] Job ${jobId} completed successfully`);
     await filesystem.appendToJobLog(jobId, `[DEMUCS-WORKER] Audio separation complete`);
 
     // Write stem artifacts
     if (result.stems) {
-      for (const [stemName, stemPath] of Object.entries(result.stems)) {
+      const stemEntries = Object.entries(result.stems);
+      let written = 0;
+      for (const [stemName, stemPath] of stemEntries) {
         try {
           const content = await fs.readFile(stemPath);
           await filesystem.writeArtifact(jobId, "stems", `${stemName}.wav`, content);
           await filesystem.appendToJobLog(jobId, `[DEMUCS-WORKER] Wrote artifact: ${stemName}.wav`);
+          await filesystem.appendJobEvent(jobId, {
+            type: JOB_EVENT_TYPES.STAGE_PROGRESS,
+            actor: Actor.DEMUCS_WORKER,
+            stage: PIPELINE_STAGES.SEPARATION,
+            payload: { completed: ++written, total: stemEntries.length },
+          });
         } catch (artifactError) {
           console.error(`[demucs-worker] Failed to write artifact ${stemName}:`, artifactError);
           await filesystem.appendToJobLog(jobId, `[DEMUCS-WORKER] Warning: Failed to write artifact ${stemName}`);
@@ -207,23 +282,42 @@ export async function processDemucsJob(job: Job<{ jobId: string }>): Promise<voi
     // Update metadata with success info
     const updated = await filesystem.readMetadata(jobId);
     if (updated) {
-      updated.separation = {
-        status: "COMPLETE",
-        model: "htdemucs",
-        device: "cpu", // or detect from environment
-      };
-      await filesystem.writeMetadata(jobId, updated);
+      await filesystem.updateMetadata(jobId, updated.revision, (current) => {
+        current.separation = {
+          status: "COMPLETE",
+          model: "htdemucs",
+          // The CPU after a GPU_MEMORY failure, else this worker's device
+          device: device ?? detectWorkerDevice(),
+          stems: result.stemInfo,
+        };
+      });
     }
 
-    await moves.moveJob(jobId, JOB_STATES.RUNNING as any, JOB_STATES.DONE as any, Actor.SYSTEM);
+    await moves.moveJob(jobId, JOB_STATES.RUNNING as any, JOB_STATES.DONE as any, Actor.DEMUCS_WORKER);
 
     console.log(`[demucs-worker] Job ${jobId} finished successfully`);
   } catch (error) {
+    if (heartbeat?.isReleased()) {
+      // The abort surfaced as an error; the job was handed back, not failed
+      return;
+    }
+    if (heartbeat?.isCancelled()) {
+      // The abort surfaced as an error; the job was cancelled, not failed
+      await control.finishCancelled(jobId, Actor.DEMUCS_WORKER);
+      return;
+    }
+
     console.error(`[demucs-worker] Error processing job ${jobId}:`, error);
 
     // Log error
     try {
       await filesystem.appendToJobLog(jobId, `[DEMUCS-WORKER] ERROR: ${String(error)}`);
+      await filesystem.appendJobEvent(jobId, {
+        type: JOB_EVENT_TYPES.ERROR,
+        actor: Actor.DEMUCS_WORKER,
+        stage: PIPELINE_STAGES.SEPARATION,
+        payload: { message: String(error) },
+      });
     } catch (logError) {
       console.error(`[demucs-worker] Failed to log error for job ${jobId}:`, logError);
     }
@@ -232,12 +326,14 @@ export async function processDemucsJob(job: Job<{ jobId: string }>): Promise<voi
     try {
       const metadata = await filesystem.readMetadata(jobId);
       if (metadata && metadata.state === JOB_STATES.RUNNING) {
-        await moves.moveJob(jobId, JOB_STATES.RUNNING as any, JOB_STATES.FAILED as any, Actor.SYSTEM);
+        await moves.moveJob(jobId, JOB_STATES.RUNNING as any, JOB_STATES.FAILED as any, Actor.DEMUCS_WORKER);
       }
     } catch (failError) {
       console.error(`[demucs-worker] Failed to mark job as failed:`, failError);
     }
 
     throw error;
+  } finally {
+    heartbeat?.stop();
   }
 }
@@ -2,60 +2,58 @@
  * Lyrics Worker
  *
  * Extracts lyrics from audio or metadata using Genius API.
- * Consumes jobs that have completed Demucs separation.
- * Transitions: DONE (demucs) → CLAIMED (lyrics) → RUNNING → DONE or FAILED
+ * Consumes jobs whose pipeline has LYRICS ready (the queue checks readiness).
+ * Transitions: DONE (previous stage) → CLAIMED (lyrics) → RUNNING → DONE or FAILED
+ * Stage: → LYRICS (advanced on claim)
  *
  * Pattern:
- * 1. Find jobs with demucs DONE
+ * 1. Find jobs with lyrics ready
  * 2. Claim for Lyrics extraction
  * 3. Execute lyrics extraction (Genius API with fallback to mock)
  * 4. Write lyrics as artifacts
  * 5. Transition to DONE or FAILED
  */
 
-import { Job } from "bull";
+import type { QueueJob } from "../lib/queue-backend";
 import { createFilesystem } from "../lib/filesystem";
 import { createMoveOperations } from "../lib/job-moves";
+import { createLeaseOperations, LeaseHeartbeat, LEASE_DURATION_MS, WORKER_ID } from "../lib/job-lease";
+import { createJobControl, PAUSE_RECHECK_MS } from "../lib/job-control";
 import { Actor } from "../lib/job-state";
-import { JOB_STATES } from "../lib/filesystem";
+import { JOB_EVENT_TYPES, JOB_STATES, PIPELINE_STAGES } from "../lib/filesystem";
 import { getLyricsWithFallback } from "../lib/lyrics-api";
 
-export const LYRICS_QUEUE_NAME = "lyrics-extraction";
-
-export const JOB_OPTIONS = {
-  attempts: 1,
-  backoff: {
-    type: "exponential",
-    delay: 2000,
-  },
-  removeOnComplete: false,
-  removeOnFail: false,
-};
-
 const STORAGE_ROOT = process.env.STORAGE_ROOT || "/tmp/ego-studio-jobs";
 const filesystem = createFilesystem(STORAGE_ROOT);
 const moves = createMoveOperations(filesystem, STORAGE_ROOT);
+const leases = createLeaseOperations(filesystem);
+const control = createJobControl(filesystem, moves);
 
 /**
  * Process a single Lyrics job
  */
-export async function processLyricsJob(job: Job<{ jobId: string }>): Promise<void> {
+export async function processLyricsJob(job: QueueJob<{ jobId: string }>): Promise<void> {
   const { jobId } = job.data as { jobId: string };
+  let heartbeat: LeaseHeartbeat | null = null;
 
   try {
     console.log(`[lyrics-worker] Processing job ${jobId}`);
 
-    // Step 1: Check if job is ready for Lyrics (demucs completed)
+    // Step 1: Load the job (the queue only runs it once its pipeline dependencies completed)
     let metadata = await filesystem.readMetadata(jobId);
     if (!metadata) {
       throw new Error(`Job ${jobId} not found`);
     }
 
-    // Only process jobs with successful demucs
-    if (metadata.separation?.status !== "COMPLETE") {
-      console.log(
-        `[lyrics-worker] Skipping job ${jobId}: demucs not complete (status: ${metadata.separation?.status})`
-      );
+    // Honor pause and cancel requests before claiming
+    const pickup = await control.checkPickup(jobId);
+    if (pickup === "paused") {
+      console.log(`[lyrics-worker] Job ${jobId} is paused, requeueing`);
+      await job.queue.add(job.data, { delay: PAUSE_RECHECK_MS });
+      return;
+    }
+    if (pickup === "skip") {
+      console.log(`[lyrics-worker] Skipping job ${jobId} (${metadata.state}, cancel requested or finished)`);
       return;
     }
 
@@ -63,15 +61,21 @@ export async function processLyricsJob(job: Job<{ jobId: string }>): Promise<voi
     if (metadata.state === JOB_STATES.DONE) {
       console.log(`[lyrics-worker] Claiming job ${jobId} for Lyrics extraction`);
       await filesystem.appendToJobLog(jobId, `[LYRICS-WORKER] Claiming job for lyrics extraction`);
-      await moves.moveJob(jobId, JOB_STATES.DONE as any, JOB_STATES.CLAIMED as any, Actor.SYSTEM);
+      await moves.moveJob(jobId, JOB_STATES.DONE as any, JOB_STATES.CLAIMED as any, Actor.LYRICS_WORKER, {
+        stage: PIPELINE_STAGES.LYRICS,
+        lease: { holder: WORKER_ID, durationMs: LEASE_DURATION_MS },
+      });
     }
 
+    // Keep the lease alive while this worker holds the job
+    heartbeat = leases.startHeartbeat(jobId, WORKER_ID);
+
     // Step 3: Start processing (CLAIMED → RUNNING)
     metadata = await filesystem.readMetadata(jobId);
     if (metadata?.state === JOB_STATES.CLAIMED) {
       console.log(`[lyrics-worker] Starting Lyrics for job ${jobId}`);
       await filesystem.appendToJobLog(jobId, `[LYRICS-WORKER] Starting lyrics extraction`);
-      await moves.moveJob(jobId, JOB_STATES.CLAIMED as any, JOB_STATES.RUNNING as any, Actor.SYSTEM);
+      await moves.moveJob(jobId, JOB_STATES.CLAIMED as any, JOB_STATES.RUNNING as any, Actor.LYRICS_WORKER);
     }
 
     // Step 4: Execute Lyrics extraction
@@ -89,6 +93,15 @@ export async function processLyricsJob(job: Job<{ jobId: string }>): Promise<voi
     console.log(`[lyrics-worker] Fetching lyrics for "${title}" by "${artist}"`);
     const result = await getLyricsWithFallback(title, artist);
 
+    if (heartbeat.isReleased()) {
+      // Handed back while draining; the job is in NEW or DONE for another worker
+      return;
+    }
+    if (heartbeat.isCancelled()) {
+      await control.finishCancelled(jobId, Actor.LYRICS_WORKER);
+      return;
+    }
+
     if (!result.success) {
       // Step 5a: Fail the job (RUNNING → FAILED)
       console.log(`[lyrics-worker] Job ${jobId} failed: ${result.reason}`);
@@ -100,15 +113,16 @@ export async function processLyricsJob(job: Job<{ jobId: string }>): Promise<voi
       // Update metadata with failure info
       const updated = await filesystem.readMetadata(jobId);
       if (updated) {
-        updated.lyrics = {
-          status: "FAILED",
-          error: result.error,
-          provider: result.source,
-        };
-        await filesystem.writeMetadata(jobId, updated);
+        await filesystem.updateMetadata(jobId, updated.revision, (current) => {
+          current.lyrics = {
+            status: "FAILED",
+            error: result.error,
+            provider: result.source,
+          };
+        });
       }
 
-      await moves.moveJob(jobId, JOB_STATES.RUNNING as any, JOB_STATES.FAILED as any, Actor.SYSTEM);
+      await moves.moveJob(jobId, JOB_STATES.RUNNING as any, JOB_STATES.FAILED as any, Actor.LYRICS_WORKER);
       return;
     }
 
@@ -128,32 +142,51 @@ export async function processLyricsJob(job: Job<{ jobId: string }>): Promise<voi
     // Update metadata with success info
     const updated = await filesystem.readMetadata(jobId);
     if (updated) {
-      updated.lyrics = {
-        status: "COMPLETE",
-        confidence: result.confidence,
-        provider: result.source,
-      };
-      await filesystem.writeMetadata(jobId, updated);
+      await filesystem.updateMetadata(jobId, updated.revision, (current) => {
+        current.lyrics = {
+          status: "COMPLETE",
+          confidence: result.confidence,
+          provider: result.source,
+        };
+      });
     }
 
-    await moves.moveJob(jobId, JOB_STATES.RUNNING as any, JOB_STATES.DONE as any, Actor.SYSTEM);
+    await moves.moveJob(jobId, JOB_STATES.RUNNING as any, JOB_STATES.DONE as any, Actor.LYRICS_WORKER);
     console.log(`[lyrics-worker] Job ${jobId} transitioned to DONE`);
   } catch (error) {
+    if (heartbeat?.isReleased()) {
+      // The abort surfaced as an error; the job was handed back, not failed
+      return;
+    }
+    if (heartbeat?.isCancelled()) {
+      await control.finishCancelled(jobId, Actor.LYRICS_WORKER);
+      return;
+    }
+
     const message = error instanceof Error ? error.message : String(error);
     console.error(`[lyrics-worker] Job ${jobId} error:`, message);
 
     try {
       await filesystem.appendToJobLog(jobId, `[LYRICS-WORKER] Error: ${message}`);
+      await filesystem.appendJobEvent(jobId, {
+        type: JOB_EVENT_TYPES.ERROR,
+        actor: Actor.LYRICS_WORKER,
+        stage: PIPELINE_STAGES.LYRICS,
+        payload: { message },
+      });
       const metadata = await filesystem.readMetadata(jobId);
       if (metadata) {
-        metadata.lyrics = {
-          status: "FAILED",
-          error: message,
-        };
-        await filesystem.writeMetadata(jobId, metadata);
+        await filesystem.updateMetadata(jobId, metadata.revision, (current) => {
+          current.lyrics = {
+            status: "FAILED",
+            error: message,
+          };
+        });
       }
     } catch (logError) {
       console.error(`[lyrics-worker] Failed to log error for job ${jobId}:`, logError);
     }
+  } finally {
+    heartbeat?.stop();
   }
 }
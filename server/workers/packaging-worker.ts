@@ -0,0 +1,272 @@
+/**
+ * Packaging Worker
+ *
+ * Bundles stems, the beat grid, lyrics and the Audacity project (whichever the
+ * job's pipeline produced) into a downloadable ZIP.
+ * Consumes jobs whose other pipeline stages have all completed.
+ * Transitions: DONE (previous stage) → CLAIMED (packaging) → RUNNING → COMPLETE or FAILED
+ * Stage: → PACKAGING (advanced on claim)
+ *
+ * Pattern:
+ * 1. Find jobs with packaging ready
+ * 2. Claim for packaging
+ * 3. Check the stems, copy available artifacts into "Artist - Track/" and ZIP it
+ * 4. Write ZIP to the shared artifacts directory
+ * 5. Transition to COMPLETE or FAILED
+ *
+ * Final stage of multi-stage pipeline.
+ */
+
+import type { QueueJob } from "../lib/queue-backend";
+import archiver from "archiver";
+import { createFilesystem } from "../lib/filesystem";
+import { createMoveOperations } from "../lib/job-moves";
+import { createLeaseOperations, LeaseHeartbeat, LEASE_DURATION_MS, WORKER_ID } from "../lib/job-lease";
+import { createJobControl, PAUSE_RECHECK_MS } from "../lib/job-control";
+import { Actor, isFinalStage } from "../lib/job-state";
+import { JOB_EVENT_TYPES, JOB_STATES, PIPELINE_STAGES } from "../lib/filesystem";
+import { validateStems } from "../lib/audio-io";
+import * as fs from "fs-extra";
+import * as path from "path";
+
+const STORAGE_ROOT = process.env.STORAGE_ROOT || "/tmp/ego-studio-jobs";
+const ARTIFACTS_DIR = path.join(STORAGE_ROOT, "artifacts");
+const filesystem = createFilesystem(STORAGE_ROOT);
+const moves = createMoveOperations(filesystem, STORAGE_ROOT);
+const leases = createLeaseOperations(filesystem);
+const control = createJobControl(filesystem, moves);
+
+// Job artifact directories copied into the package (source dir -> package dir)
+const PACKAGE_CONTENTS: Record<string, string> = {
+  stems: "stems",
+  analysis: "analysis",
+  lyrics: "lyrics",
+  audacity: "audacity",
+};
+
+/**
+ * Create the ZIP package for a job
+ */
+async function createPackage(
+  jobId: string,
+  jobDir: string,
+  packageName: string
+): Promise<{
+  success: boolean;
+  zipPath?: string;
+  zipUrl?: string;
+  error?: string;
+}> {
+  try {
+    // Never ship stems that are not audio or do not line up
+    const stemsDir = path.join(jobDir, "stems");
+    if (await fs.pathExists(stemsDir)) {
+      const stemFiles = (await fs.readdir(stemsDir)).filter((file) => path.extname(file) === ".wav");
+      const validation = await validateStems(
+        Object.fromEntries(stemFiles.map((file) => [path.basename(file, ".wav"), path.join(stemsDir, file)]))
+      );
+      if (!validation.valid) {
+        return { success: false, error: `Invalid stems: ${validation.errors.join("; ")}` };
+      }
+    }
+
+    const packageDir = path.join(jobDir, "package", packageName);
+    await fs.ensureDir(packageDir);
+
+    // Copy whatever earlier stages produced
+    for (const [sourceDir, targetDir] of Object.entries(PACKAGE_CONTENTS)) {
+      const sourcePath = path.join(jobDir, sourceDir);
+      if (await fs.pathExists(sourcePath)) {
+        await fs.copy(sourcePath, path.join(packageDir, targetDir));
+      }
+    }
+
+    await fs.ensureDir(ARTIFACTS_DIR);
+    const zipFilename = `${jobId}-artifacts.zip`;
+    const zipPath = path.join(ARTIFACTS_DIR, zipFilename);
+    const output = fs.createWriteStream(zipPath);
+    const archive = archiver("zip", { zlib: { level: 9 } });
+
+    await new Promise<void>((resolve, reject) => {
+      archive.on("error", reject);
+      output.on("close", () => resolve());
+      archive.pipe(output);
+      archive.directory(packageDir, packageName);
+      archive.finalize();
+    });
+
+    return {
+      success: true,
+      zipPath,
+      zipUrl: `/api/artifacts/${zipFilename}`,
+    };
+  } catch (error: any) {
+    return {
+      success: false,
+      error: `Failed to package artifacts: ${error.message}`,
+    };
+  }
+}
+
+/**
+ * Process a single packaging job
+ */
+export async function processPackagingJob(job: QueueJob<{ jobId: string }>): Promise<void> {
+  const { jobId } = job.data as { jobId: string };
+  let heartbeat: LeaseHeartbeat | null = null;
+
+  try {
+    console.log(`[packaging-worker] Processing job ${jobId}`);
+
+    // Step 1: Load the job (the queue only runs it once its pipeline dependencies completed)
+    let metadata = await filesystem.readMetadata(jobId);
+    if (!metadata) {
+      throw new Error(`Job ${jobId} not found`);
+    }
+
+    // Honor pause and cancel requests before claiming
+    const pickup = await control.checkPickup(jobId);
+    if (pickup === "paused") {
+      console.log(`[packaging-worker] Job ${jobId} is paused, requeueing`);
+      await job.queue.add(job.data, { delay: PAUSE_RECHECK_MS });
+      return;
+    }
+    if (pickup === "skip") {
+      console.log(`[packaging-worker] Skipping job ${jobId} (${metadata.state}, cancel requested or finished)`);
+      return;
+    }
+
+    // Step 2: Claim job for packaging (DONE → CLAIMED)
+    if (metadata.state === JOB_STATES.DONE) {
+      console.log(`[packaging-worker] Claiming job ${jobId} for packaging`);
+      await filesystem.appendToJobLog(jobId, `[PACKAGING-WORKER] Claiming job for packaging`);
+      await moves.moveJob(jobId, JOB_STATES.DONE, JOB_STATES.CLAIMED, Actor.PACKAGING_WORKER, {
+        stage: PIPELINE_STAGES.PACKAGING,
+        lease: { holder: WORKER_ID, durationMs: LEASE_DURATION_MS },
+      });
+    }
+
+    // Keep the lease alive while this worker holds the job
+    heartbeat = leases.startHeartbeat(jobId, WORKER_ID);
+
+    // Step 3: Start processing (CLAIMED → RUNNING)
+    metadata = await filesystem.readMetadata(jobId);
+    if (metadata?.state === JOB_STATES.CLAIMED) {
+      console.log(`[packaging-worker] Starting packaging for job ${jobId}`);
+      await filesystem.appendToJobLog(jobId, `[PACKAGING-WORKER] Starting packaging`);
+      await moves.moveJob(jobId, JOB_STATES.CLAIMED, JOB_STATES.RUNNING, Actor.PACKAGING_WORKER);
+    }
+
+    // Step 4: Build the package
+    metadata = await filesystem.readMetadata(jobId);
+    if (!metadata) {
+      throw new Error(`Job metadata lost for ${jobId}`);
+    }
+
+    const stateDir = await filesystem.getJobStateDir(jobId);
+    if (!stateDir) {
+      throw new Error(`Job directory lost for ${jobId}`);
+    }
+
+    const artist = metadata.download?.artist || "Unknown Artist";
+    const title = metadata.download?.title || "Untitled";
+    const packageName = `${artist} - ${title}`;
+
+    await filesystem.appendToJobLog(jobId, `[PACKAGING-WORKER] Packaging "${packageName}"`);
+
+    const result = await createPackage(jobId, stateDir.dir, packageName);
+
+    if (heartbeat.isReleased()) {
+      // Handed back while draining; the job is in NEW or DONE for another worker
+      return;
+    }
+    if (heartbeat.isCancelled()) {
+      await control.finishCancelled(jobId, Actor.PACKAGING_WORKER);
+      return;
+    }
+
+    if (!result.success) {
+      // Step 5a: Fail the job (RUNNING → FAILED)
+      console.log(`[packaging-worker] Job ${jobId} failed: ${result.error}`);
+      await filesystem.appendToJobLog(jobId, `[PACKAGING-WORKER] Packaging failed: ${result.error}`);
+      await filesystem.appendJobEvent(jobId, {
+        type: JOB_EVENT_TYPES.ERROR,
+        actor: Actor.PACKAGING_WORKER,
+        stage: PIPELINE_STAGES.PACKAGING,
+        payload: { reason: "PACKAGING_FAILED", message: result.error },
+      });
+
+      const updated = await filesystem.readMetadata(jobId);
+      if (updated) {
+        await filesystem.updateMetadata(jobId, updated.revision, (current) => {
+          current.packaging = {
+            status: "FAILED",
+            error: result.error,
+          };
+        });
+      }
+
+      await moves.moveJob(jobId, JOB_STATES.RUNNING, JOB_STATES.FAILED, Actor.PACKAGING_WORKER);
+      return;
+    }
+
+    // Step 5b: Complete the job (RUNNING → COMPLETE, or DONE if a registered stage runs after packaging)
+    console.log(`[packaging-worker] Job ${jobId} completed successfully`);
+    await filesystem.appendToJobLog(jobId, `[PACKAGING-WORKER] Wrote package: ${path.basename(result.zipPath!)}`);
+
+    const updated = await filesystem.readMetadata(jobId);
+    if (updated) {
+      await filesystem.updateMetadata(jobId, updated.revision, (current) => {
+        current.packaging = {
+          status: "COMPLETE",
+          zipPath: result.zipPath,
+          zipUrl: result.zipUrl,
+          finishedAt: new Date().toISOString(),
+        };
+      });
+    }
+
+    const finished = isFinalStage(PIPELINE_STAGES.PACKAGING) ? JOB_STATES.COMPLETE : JOB_STATES.DONE;
+    await moves.moveJob(jobId, JOB_STATES.RUNNING, finished, Actor.PACKAGING_WORKER);
+
+    console.log(`[packaging-worker] Job ${jobId} finished successfully`);
+  } catch (error) {
+    if (heartbeat?.isReleased()) {
+      // The abort surfaced as an error; the job was handed back, not failed
+      return;
+    }
+    if (heartbeat?.isCancelled()) {
+      await control.finishCancelled(jobId, Actor.PACKAGING_WORKER);
+      return;
+    }
+
+    console.error(`[packaging-worker] Error processing job ${jobId}:`, error);
+
+    // Log error
+    try {
+      await filesystem.appendToJobLog(jobId, `[PACKAGING-WORKER] ERROR: ${String(error)}`);
+      await filesystem.appendJobEvent(jobId, {
+        type: JOB_EVENT_TYPES.ERROR,
+        actor: Actor.PACKAGING_WORKER,
+        stage: PIPELINE_STAGES.PACKAGING,
+        payload: { message: String(error) },
+      });
+    } catch (logError) {
+      console.error(`[packaging-worker] Failed to log error for job ${jobId}:`, logError);
+    }
+
+    // Try to mark as failed if not already
+    try {
+      const metadata = await filesystem.readMetadata(jobId);
+      if (metadata && metadata.state === JOB_STATES.RUNNING) {
+        await moves.moveJob(jobId, JOB_STATES.RUNNING, JOB_STATES.FAILED, Actor.PACKAGING_WORKER);
+      }
+    } catch (failError) {
+      console.error(`[packaging-worker] Failed to mark job as failed:`, failError);
+    }
+
+    throw error;
+  } finally {
+    heartbeat?.stop();
+  }
+}
@@ -0,0 +1,279 @@
+/**
+ * Waveform Worker
+ *
+ * Computes waveform peaks of the mix and each stem for the waveform viewer.
+ * Consumes jobs whose pipeline has WAVEFORM ready (separation done).
+ * Transitions: DONE (previous stage) → CLAIMED (waveform) → RUNNING → DONE or FAILED
+ * Stage: → WAVEFORM (advanced on claim)
+ *
+ * Pattern:
+ * 1. Find jobs with waveform ready
+ * 2. Claim for peak generation
+ * 3. Decode the stems (and the downloaded mix) and compute peaks per zoom level (see waveform.ts)
+ * 4. Write peaks and their index as artifacts
+ * 5. Transition to DONE or FAILED
+ *
+ * The mix is the downloaded audio when it is WAV or AIFF (uploads are
+ * transcoded to WAV); otherwise, e.g. for an m4a download, the stems summed.
+ */
+
+import type { QueueJob } from "../lib/queue-backend";
+import { createFilesystem, JobMetadata } from "../lib/filesystem";
+import { createMoveOperations } from "../lib/job-moves";
+import { createLeaseOperations, LeaseHeartbeat, LEASE_DURATION_MS, WORKER_ID } from "../lib/job-lease";
+import { createJobControl, PAUSE_RECHECK_MS } from "../lib/job-control";
+import { Actor } from "../lib/job-state";
+import { JOB_EVENT_TYPES, JOB_STATES, PIPELINE_STAGES } from "../lib/filesystem";
+import { AudioData, AudioFormatError, decodeAudio, validateStems } from "../lib/audio-io";
+import {
+  addToMix,
+  computeZoomLevels,
+  WaveformIndex,
+  waveformFileName,
+  WAVEFORM_INDEX_FILE,
+  WAVEFORM_ZOOM_LEVELS,
+} from "../lib/waveform";
+import * as fs from "fs-extra";
+import * as path from "path";
+
+const STORAGE_ROOT = process.env.STORAGE_ROOT || "/tmp/ego-studio-jobs";
+const filesystem = createFilesystem(STORAGE_ROOT);
+const moves = createMoveOperations(filesystem, STORAGE_ROOT);
+const leases = createLeaseOperations(filesystem);
+const control = createJobControl(filesystem, moves);
+
+/**
+ * Compute and write the peaks of one source at every zoom level
+ */
+async function writePeaks(jobId: string, source: string, audio: AudioData): Promise<void> {
+  for (const [samplesPerPixel, peaks] of Array.from(computeZoomLevels(audio))) {
+    await filesystem.writeArtifact(jobId, "waveform", waveformFileName(source, samplesPerPixel), JSON.stringify(peaks));
+  }
+}
+
+/**
+ * Decode the downloaded audio, or null if it is not WAV or AIFF
+ */
+async function readDownloadedMix(jobDir: string, metadata: JobMetadata): Promise<AudioData | null> {
+  const filePath = metadata.download?.filePath;
+  if (!filePath || !(await fs.pathExists(path.join(jobDir, filePath)))) {
+    return null;
+  }
+  try {
+    return decodeAudio(await fs.readFile(path.join(jobDir, filePath)));
+  } catch (error) {
+    if (error instanceof AudioFormatError) {
+      return null;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Generate the peaks of the mix and every stem
+ * Stems are decoded one at a time to bound memory
+ */
+async function generateWaveforms(
+  jobId: string,
+  jobDir: string,
+  metadata: JobMetadata,
+  signal: AbortSignal
+): Promise<{
+  success: boolean;
+  index?: WaveformIndex;
+  mixSource?: "download" | "stems";
+  error?: string;
+}> {
+  const stemsDir = path.join(jobDir, "stems");
+  const stemFiles = (await fs.pathExists(stemsDir))
+    ? (await fs.readdir(stemsDir)).filter((file) => path.extname(file) === ".wav").sort()
+    : [];
+  if (stemFiles.length === 0) {
+    return { success: false, error: "No stems to draw" };
+  }
+
+  const stems = Object.fromEntries(stemFiles.map((file) => [path.basename(file, ".wav"), path.join(stemsDir, file)]));
+  const validation = await validateStems(stems);
+  if (!validation.valid) {
+    return { success: false, error: `Invalid stems: ${validation.errors.join("; ")}` };
+  }
+
+  const downloaded = await readDownloadedMix(jobDir, metadata);
+  let mix: AudioData | null = downloaded;
+  if (downloaded) {
+    await writePeaks(jobId, "mix", downloaded);
+  }
+
+  for (const [name, filePath] of Object.entries(stems)) {
+    if (signal.aborted) {
+      return { success: false, error: "Aborted" };
+    }
+    const stem = decodeAudio(await fs.readFile(filePath));
+    await writePeaks(jobId, name, stem);
+    if (!downloaded) {
+      mix = addToMix(mix, stem);
+    }
+  }
+  if (!downloaded) {
+    await writePeaks(jobId, "mix", mix!);
+  }
+
+  const { sampleRate, durationSec } = Object.values(validation.stems)[0];
+  const index: WaveformIndex = {
+    sampleRate,
+    durationSec,
+    zoomLevels: WAVEFORM_ZOOM_LEVELS,
+    sources: ["mix", ...Object.keys(stems)],
+  };
+  await filesystem.writeArtifact(jobId, "waveform", WAVEFORM_INDEX_FILE, JSON.stringify(index, null, 2));
+
+  return { success: true, index, mixSource: downloaded ? "download" : "stems" };
+}
+
+/**
+ * Process a single waveform job
+ */
+export async function processWaveformJob(job: QueueJob<{ jobId: string }>): Promise<void> {
+  const { jobId } = job.data as { jobId: string };
+  let heartbeat: LeaseHeartbeat | null = null;
+
+  try {
+    console.log(`[waveform-worker] Processing job ${jobId}`);
+
+    // Step 1: Load the job (the queue only runs it once separation completed)
+    let metadata = await filesystem.readMetadata(jobId);
+    if (!metadata) {
+      throw new Error(`Job ${jobId} not found`);
+    }
+
+    // Honor pause and cancel requests before claiming
+    const pickup = await control.checkPickup(jobId);
+    if (pickup === "paused") {
+      console.log(`[waveform-worker] Job ${jobId} is paused, requeueing`);
+      await job.queue.add(job.data, { delay: PAUSE_RECHECK_MS });
+      return;
+    }
+    if (pickup === "skip") {
+      console.log(`[waveform-worker] Skipping job ${jobId} (${metadata.state}, cancel requested or finished)`);
+      return;
+    }
+
+    // Step 2: Claim job for peak generation (DONE → CLAIMED)
+    if (metadata.state === JOB_STATES.DONE) {
+      console.log(`[waveform-worker] Claiming job ${jobId} for waveform peaks`);
+      await filesystem.appendToJobLog(jobId, `[WAVEFORM-WORKER] Claiming job for waveform peaks`);
+      await moves.moveJob(jobId, JOB_STATES.DONE, JOB_STATES.CLAIMED, Actor.WAVEFORM_WORKER, {
+        stage: PIPELINE_STAGES.WAVEFORM,
+        lease: { holder: WORKER_ID, durationMs: LEASE_DURATION_MS },
+      });
+    }
+
+    // Keep the lease alive while this worker holds the job
+    heartbeat = leases.startHeartbeat(jobId, WORKER_ID);
+
+    // Step 3: Start processing (CLAIMED → RUNNING)
+    metadata = await filesystem.readMetadata(jobId);
+    if (metadata?.state === JOB_STATES.CLAIMED) {
+      await filesystem.appendToJobLog(jobId, `[WAVEFORM-WORKER] Starting peak generation`);
+      await moves.moveJob(jobId, JOB_STATES.CLAIMED, JOB_STATES.RUNNING, Actor.WAVEFORM_WORKER);
+    }
+
+    // Step 4: Generate peaks
+    metadata = await filesystem.readMetadata(jobId);
+    const stateDir = await filesystem.getJobStateDir(jobId);
+    if (!metadata || !stateDir) {
+      throw new Error(`Job metadata lost for ${jobId}`);
+    }
+
+    const result = await generateWaveforms(jobId, stateDir.dir, metadata, heartbeat.signal);
+
+    if (heartbeat.isReleased()) {
+      // Handed back while draining; the job is in NEW or DONE for another worker
+      return;
+    }
+    if (heartbeat.isCancelled()) {
+      await control.finishCancelled(jobId, Actor.WAVEFORM_WORKER);
+      return;
+    }
+
+    if (!result.success) {
+      // Step 5a: Fail the job (RUNNING → FAILED)
+      console.log(`[waveform-worker] Job ${jobId} failed: ${result.error}`);
+      await filesystem.appendToJobLog(jobId, `[WAVEFORM-WORKER] Peak generation failed: ${result.error}`);
+      await filesystem.appendJobEvent(jobId, {
+        type: JOB_EVENT_TYPES.ERROR,
+        actor: Actor.WAVEFORM_WORKER,
+        stage: PIPELINE_STAGES.WAVEFORM,
+        payload: { message: result.error },
+      });
+
+      await moves.updateLatestMetadata(jobId, (current) => {
+        current.waveform = { status: "FAILED", error: result.error };
+      });
+
+      await moves.moveJob(jobId, JOB_STATES.RUNNING, JOB_STATES.FAILED, Actor.WAVEFORM_WORKER);
+      return;
+    }
+
+    // Step 5b: Complete the stage (RUNNING → DONE)
+    const { index } = result;
+    await filesystem.appendToJobLog(
+      jobId,
+      `[WAVEFORM-WORKER] Wrote peaks of ${index!.sources.join(", ")} at ${index!.zoomLevels.join("/")} samples per pixel`
+    );
+
+    await moves.updateLatestMetadata(jobId, (current) => {
+      current.waveform = {
+        status: "COMPLETE",
+        sources: index!.sources,
+        zoomLevels: index!.zoomLevels,
+        mixSource: result.mixSource,
+        sampleRate: index!.sampleRate,
+        durationSec: index!.durationSec,
+        finishedAt: new Date().toISOString(),
+      };
+    });
+
+    await moves.moveJob(jobId, JOB_STATES.RUNNING, JOB_STATES.DONE, Actor.WAVEFORM_WORKER);
+
+    console.log(`[waveform-worker] Job ${jobId} finished successfully`);
+  } catch (error) {
+    if (heartbeat?.isReleased()) {
+      // The abort surfaced as an error; the job was handed back, not failed
+      return;
+    }
+    if (heartbeat?.isCancelled()) {
+      await control.finishCancelled(jobId, Actor.WAVEFORM_WORKER);
+      return;
+    }
+
+    console.error(`[waveform-worker] Error processing job ${jobId}:`, error);
+
+    // Log error
+    try {
+      await filesystem.appendToJobLog(jobId, `[WAVEFORM-WORKER] ERROR: ${String(error)}`);
+      await filesystem.appendJobEvent(jobId, {
+        type: JOB_EVENT_TYPES.ERROR,
+        actor: Actor.WAVEFORM_WORKER,
+        stage: PIPELINE_STAGES.WAVEFORM,
+        payload: { message: String(error) },
+      });
+    } catch (logError) {
+      console.error(`[waveform-worker] Failed to log error for job ${jobId}:`, logError);
+    }
+
+    // Try to mark as failed if not already
+    try {
+      const metadata = await filesystem.readMetadata(jobId);
+      if (metadata && metadata.state === JOB_STATES.RUNNING) {
+        await moves.moveJob(jobId, JOB_STATES.RUNNING, JOB_STATES.FAILED, Actor.WAVEFORM_WORKER);
+      }
+    } catch (failError) {
+      console.error(`[waveform-worker] Failed to mark job as failed:`, failError);
+    }
+
+    throw error;
+  } finally {
+    heartbeat?.stop();
+  }
+}
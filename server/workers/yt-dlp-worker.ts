@@ -1,56 +1,78 @@
 /**
  * yt-dlp Worker
  *
- * Downloads audio from YouTube using yt-dlp.
+ * Owns the DOWNLOAD stage: downloads audio from YouTube using yt-dlp, or
+ * takes the uploaded file for jobs created through /api/upload. Either way the
+ * audio is probed with ffprobe and transcoded to the canonical WAV (see
+ * audio-ingest.ts), written to the job's download/ directory and recorded in
+ * metadata.download.filePath (relative to the job folder) for the next stages.
  * Transitions: NEW → CLAIMED → RUNNING → DONE or FAILED
  *
  * Pattern:
  * 1. Claim the job (NEW → CLAIMED)
  * 2. Start processing (CLAIMED → RUNNING)
- * 3. Execute yt-dlp (real binary)
- * 4. On success: transition to DONE and auto-enqueue Demucs
- * 5. On failure: transition to FAILED with reason
+ * 3. Execute yt-dlp (real binary) into a temp directory, or take the uploaded file
+ * 4. Ingest the audio: probe it, transcode it to download/audio.wav
+ * 5. On success: transition to DONE (the queue enqueues the next stage)
+ * 6. On failure: transition to FAILED with reason
  *
  * All state transitions go through JobsService to maintain filesystem authority.
  * Logs are appended at every step.
  */
 
-import { Job } from "bull";
+import type { QueueJob } from "../lib/queue-backend";
 import * as JobsService from "../lib/jobs-service";
-import { filesystem } from "../lib/filesystem";
+import { filesystem, JOB_EVENT_TYPES, PIPELINE_STAGES } from "../lib/filesystem";
+import type { FileMetadata } from "../lib/file-upload";
+import {
+  AudioProbe,
+  CANONICAL_WAV,
+  InvalidAudioError,
+  probeAudio,
+  readTrackInfo,
+  transcodeToCanonicalWav,
+} from "../lib/audio-ingest";
 import { Actor } from "../lib/job-state";
 import { createMoveOperations } from "../lib/job-moves";
-import { enqueueDemucsJob } from "../lib/queue";
+import { createLeaseOperations, LeaseHeartbeat, LEASE_DURATION_MS, WORKER_ID } from "../lib/job-lease";
+import { createJobControl, PAUSE_RECHECK_MS } from "../lib/job-control";
 import { execFile } from "child_process";
 import { promisify } from "util";
+import os from "os";
 import path from "path";
 import fs from "fs-extra";
 
 const STORAGE_ROOT = process.env.STORAGE_ROOT || "/tmp/ego-studio-jobs";
 const moves = createMoveOperations(filesystem, STORAGE_ROOT);
+const leases = createLeaseOperations(filesystem);
+const control = createJobControl(filesystem, moves);
 const execFileAsync = promisify(execFile);
 
 /**
  * Real yt-dlp execution
- * Streams output to job logs and returns title, artist, duration or failure reason
+ * Streams output to job logs and returns title, artist, duration and the
+ * downloaded file (in outputDir), or failure reason
+ * Aborting the signal kills the yt-dlp process
  */
 async function executeYtDlp(
   youtubeUrl: string,
   jobId: string,
-  jobDir: string
+  outputDir: string,
+  signal?: AbortSignal
 ): Promise<{
   success: boolean;
   title?: string;
   artist?: string;
   duration?: number;
+  filePath?: string;
   error?: string;
   reason?: "CAPTCHA_REQUIRED" | "RATE_LIMITED" | "COPYRIGHT_RESTRICTED" | "DOWNLOAD_ERROR";
 }> {
   try {
     // Create output directory if it doesn't exist
-    await fs.ensureDir(jobDir);
+    await fs.ensureDir(outputDir);
 
-    const outputTemplate = path.join(jobDir, "audio.%(ext)s");
+    const outputTemplate = path.join(outputDir, "audio.%(ext)s");
 
     // Log yt-dlp command
     await filesystem.appendToJobLog(
@@ -68,7 +90,7 @@ async function executeYtDlp(
         "bestaudio",
         "--no-warnings",
         "--quiet",
-      ]);
+      ], { signal });
 
       // Log stdout/stderr
       if (stdout) {
@@ -84,7 +106,7 @@ async function executeYtDlp(
         "-j",
         "--no-warnings",
         "--quiet",
-      ]);
+      ], { signal });
 
       const metadata = JSON.parse(metadataJson);
       const title = metadata.title || "Unknown Title";
@@ -96,11 +118,17 @@ async function executeYtDlp(
         `[YT-DLP] Downloaded: ${title} by ${artist} (${duration}s)`
       );
 
+      const fileName = (await fs.readdir(outputDir)).find((file) => file.startsWith("audio."));
+      if (!fileName) {
+        return { success: false, error: "yt-dlp wrote no audio file", reason: "DOWNLOAD_ERROR" };
+      }
+
       return {
         success: true,
         title,
         artist,
         duration,
+        filePath: path.join(outputDir, fileName),
       };
     } catch (execError: any) {
       const errorMsg = execError.stderr || execError.message || String(execError);
@@ -135,11 +163,116 @@ async function executeYtDlp(
   }
 }
 
+/**
+ * Result of the DOWNLOAD stage's work on a job
+ */
+interface DownloadResult {
+  success: boolean;
+  title?: string;
+  artist?: string;
+  duration?: number;
+  fileName?: string;
+  probe?: AudioProbe;
+  error?: string;
+  reason?: "CAPTCHA_REQUIRED" | "RATE_LIMITED" | "COPYRIGHT_RESTRICTED" | "DOWNLOAD_ERROR" | "INVALID_AUDIO_FORMAT";
+}
+
+/**
+ * Ingest an audio file as the job's download
+ * Probes it with ffprobe, refuses it if it is not usable audio, and transcodes it
+ * to the canonical WAV, written as download/audio.wav. Aborting the signal kills ffprobe/ffmpeg.
+ * Returns the reason for audio ffprobe refuses (INVALID_AUDIO_FORMAT)
+ */
+async function ingestAudio(
+  jobId: string,
+  sourcePath: string,
+  label: string,
+  signal?: AbortSignal
+): Promise<{ fileName: string; probe: AudioProbe } | { error: string }> {
+  const wavPath = path.join(os.tmpdir(), `ego-studio-ingest-${jobId}.wav`);
+  try {
+    const probe = await probeAudio(sourcePath, signal);
+    await filesystem.appendToJobLog(
+      jobId,
+      `[WORKER] Probed ${label}: ${probe.formatName}/${probe.codec}, ${probe.sampleRate} Hz, ${probe.channels} ch` +
+        `${probe.bitDepth ? `, ${probe.bitDepth}-bit` : ""}, ${probe.durationSec}s`
+    );
+
+    await transcodeToCanonicalWav(sourcePath, wavPath, signal);
+
+    // Written through writeArtifact so the audio is checksummed like any stage output
+    const fileName = "audio.wav";
+    await filesystem.writeArtifact(jobId, "download", fileName, await fs.readFile(wavPath));
+    await filesystem.appendToJobLog(
+      jobId,
+      `[WORKER] Ingested ${label} as ${CANONICAL_WAV.sampleRate} Hz ${CANONICAL_WAV.bitDepth}-bit WAV`
+    );
+
+    return { fileName, probe };
+  } catch (error) {
+    if (error instanceof InvalidAudioError) {
+      return { error: error.message };
+    }
+    throw error;
+  } finally {
+    await fs.remove(wavPath).catch(() => undefined);
+  }
+}
+
+/**
+ * Ingest an uploaded file as the job's download
+ * Title and artist come from embedded tags, else the file name ("Artist - Title.ext")
+ */
+async function ingestUploadedFile(jobId: string, file: FileMetadata, signal?: AbortSignal): Promise<DownloadResult> {
+  const uploadPath = path.join(STORAGE_ROOT, "uploads", file.uploadedFilename);
+  if (!(await fs.pathExists(uploadPath))) {
+    return { success: false, error: `Uploaded file ${file.uploadedFilename} is missing`, reason: "DOWNLOAD_ERROR" };
+  }
+
+  const ingested = await ingestAudio(jobId, uploadPath, `upload ${file.filename} (${file.size} bytes)`, signal);
+  if ("error" in ingested) {
+    return { success: false, error: ingested.error, reason: "INVALID_AUDIO_FORMAT" };
+  }
+
+  const { title, artist } = readTrackInfo(ingested.probe.tags, file.filename);
+  return { success: true, title, artist, duration: ingested.probe.durationSec, ...ingested };
+}
+
+/**
+ * Download a URL with yt-dlp into a temp directory and ingest the result as the job's download
+ * Title and artist come from yt-dlp
+ */
+async function downloadFromUrl(jobId: string, youtubeUrl: string, signal?: AbortSignal): Promise<DownloadResult> {
+  const downloadDir = path.join(os.tmpdir(), `ego-studio-download-${jobId}`);
+  try {
+    const downloaded = await executeYtDlp(youtubeUrl, jobId, downloadDir, signal);
+    if (!downloaded.success || !downloaded.filePath) {
+      return downloaded;
+    }
+
+    const ingested = await ingestAudio(jobId, downloaded.filePath, `download ${path.basename(downloaded.filePath)}`, signal);
+    if ("error" in ingested) {
+      return { success: false, error: ingested.error, reason: "INVALID_AUDIO_FORMAT" };
+    }
+
+    return {
+      success: true,
+      title: downloaded.title,
+      artist: downloaded.artist,
+      duration: downloaded.duration || ingested.probe.durationSec,
+      ...ingested,
+    };
+  } finally {
+    await fs.remove(downloadDir).catch(() => undefined);
+  }
+}
+
 /**
  * Process a single job
  */
-export async function processYtDlpJob(job: Job<{ jobId: string }>): Promise<void> {
+export async function processYtDlpJob(job: QueueJob<{ jobId: string }>): Promise<void> {
   const { jobId } = job.data as { jobId: string };
+  let heartbeat: LeaseHeartbeat | null = null;
 
   try {
     console.log(`[yt-dlp-worker] Processing job ${jobId}`);
@@ -150,12 +283,29 @@ export async function processYtDlpJob(job: Job<{ jobId: string }>): Promise<void
       throw new Error(`Job ${jobId} not found`);
     }
 
+    // Honor pause and cancel requests before claiming
+    const pickup = await control.checkPickup(jobId);
+    if (pickup === "paused") {
+      console.log(`[yt-dlp-worker] Job ${jobId} is paused, requeueing`);
+      await job.queue.add(job.data, { delay: PAUSE_RECHECK_MS });
+      return;
+    }
+    if (pickup === "skip") {
+      console.log(`[yt-dlp-worker] Skipping job ${jobId} (${metadata.state}, cancel requested or finished)`);
+      return;
+    }
+
     if (metadata.state === "NEW") {
       console.log(`[yt-dlp-worker] Claiming job ${jobId}`);
       await filesystem.appendToJobLog(jobId, `[WORKER] Claiming job for download`);
-      await moves.moveJob(jobId, "NEW" as any, "CLAIMED" as any, Actor.DOWNLOAD_WORKER);
+      await moves.moveJob(jobId, "NEW" as any, "CLAIMED" as any, Actor.DOWNLOAD_WORKER, {
+        lease: { holder: WORKER_ID, durationMs: LEASE_DURATION_MS },
+      });
     }
 
+    // Keep the lease alive while this worker holds the job
+    heartbeat = leases.startHeartbeat(jobId, WORKER_ID);
+
     // Step 2: Start processing (CLAIMED → RUNNING)
     metadata = await filesystem.readMetadata(jobId);
     if (metadata?.state === "CLAIMED") {
@@ -171,10 +321,23 @@ export async function processYtDlpJob(job: Job<{ jobId: string }>): Promise<void
       throw new Error(`Job metadata lost for ${jobId}`);
     }
 
-    await filesystem.appendToJobLog(jobId, `[WORKER] Downloading from: ${metadata.youtubeUrl}`);
+    let result: DownloadResult;
+    if (metadata.file) {
+      await filesystem.appendToJobLog(jobId, `[WORKER] Ingesting uploaded file: ${metadata.file.filename}`);
+      result = await ingestUploadedFile(jobId, metadata.file, heartbeat.signal);
+    } else {
+      await filesystem.appendToJobLog(jobId, `[WORKER] Downloading from: ${metadata.youtubeUrl}`);
+      result = await downloadFromUrl(jobId, metadata.youtubeUrl, heartbeat.signal);
+    }
 
-    const jobDir = path.join(STORAGE_ROOT, "jobs", "RUNNING", jobId, "artifacts", "download");
-    const result = await executeYtDlp(metadata.youtubeUrl, jobId, jobDir);
+    if (heartbeat.isReleased()) {
+      // Handed back while draining; the job is in NEW for another worker
+      return;
+    }
+    if (heartbeat.isCancelled()) {
+      await control.finishCancelled(jobId, Actor.DOWNLOAD_WORKER);
+      return;
+    }
 
     if (!result.success) {
       // Step 4a: Fail the job (RUNNING → FAILED)
@@ -183,16 +346,23 @@ export async function processYtDlpJob(job: Job<{ jobId: string }>): Promise<void
         jobId,
         `[WORKER] Download failed: ${result.reason} - ${result.error}`
       );
+      await filesystem.appendJobEvent(jobId, {
+        type: JOB_EVENT_TYPES.ERROR,
+        actor: Actor.DOWNLOAD_WORKER,
+        stage: PIPELINE_STAGES.DOWNLOAD,
+        payload: { reason: result.reason, message: result.error },
+      });
 
       // Update metadata with failure info
       const updated = await filesystem.readMetadata(jobId);
       if (updated) {
-        updated.download = {
-          status: "FAILED",
-          reason: result.reason,
-          message: result.error,
-        };
-        await filesystem.writeMetadata(jobId, updated);
+        await filesystem.updateMetadata(jobId, updated.revision, (current) => {
+          current.download = {
+            status: "FAILED",
+            reason: result.reason,
+            message: result.error,
+          };
+        });
       }
 
       // Move to FAILED
@@ -210,57 +380,49 @@ export async function processYtDlpJob(job: Job<{ jobId: string }>): Promise<void
     // Update metadata with success info
     const updated = await filesystem.readMetadata(jobId);
     if (updated) {
-      updated.download = {
-        status: "COMPLETE",
-        title: result.title,
-        artist: result.artist,
-        duration: result.duration,
-      };
-      await filesystem.writeMetadata(jobId, updated);
-    }
-
-    // Write audio artifact marker
-    try {
-      await filesystem.writeArtifact(
-        jobId,
-        "download",
-        "audio.downloaded",
-        `Downloaded: ${result.title} by ${result.artist}`
-      );
-    } catch (artifactError) {
-      console.error(`[yt-dlp-worker] Failed to write artifact for ${jobId}:`, artifactError);
+      await filesystem.updateMetadata(jobId, updated.revision, (current) => {
+        current.download = {
+          status: "COMPLETE",
+          title: result.title,
+          artist: result.artist,
+          duration: result.duration,
+          ...(result.fileName && {
+            fileFormat: path.extname(result.fileName).slice(1),
+            filePath: path.join("download", result.fileName),
+          }),
+          ...(metadata?.file && { fileSize: metadata.file.size }),
+          ...(result.probe && { probe: result.probe }),
+          downloadedAt: new Date().toISOString(),
+        };
+      });
     }
 
     // Move to DONE
     await moves.moveJob(jobId, "RUNNING" as any, "DONE" as any, Actor.DOWNLOAD_WORKER);
 
-    // Auto-enqueue for Demucs processing
-    try {
-      console.log(`[yt-dlp-worker] Auto-enqueueing job ${jobId} for Demucs processing`);
-      await filesystem.appendToJobLog(
-        jobId,
-        `[WORKER] Download complete, enqueueing for audio separation`
-      );
-      await enqueueDemucsJob(jobId);
-      console.log(`[yt-dlp-worker] Job ${jobId} enqueued for Demucs`);
-    } catch (enqueueError) {
-      console.error(
-        `[yt-dlp-worker] Failed to enqueue Demucs job for ${jobId}:`,
-        enqueueError
-      );
-      await filesystem.appendToJobLog(
-        jobId,
-        `[WORKER] WARNING: Failed to enqueue for Demucs: ${String(enqueueError)}`
-      );
-    }
-
     console.log(`[yt-dlp-worker] Job ${jobId} finished successfully`);
   } catch (error) {
+    if (heartbeat?.isReleased()) {
+      // The abort surfaced as an error; the job was handed back, not failed
+      return;
+    }
+    if (heartbeat?.isCancelled()) {
+      // The abort surfaced as an error; the job was cancelled, not failed
+      await control.finishCancelled(jobId, Actor.DOWNLOAD_WORKER);
+      return;
+    }
+
     console.error(`[yt-dlp-worker] Error processing job ${jobId}:`, error);
 
     // Log error
     try {
       await filesystem.appendToJobLog(jobId, `[WORKER] ERROR: ${String(error)}`);
+      await filesystem.appendJobEvent(jobId, {
+        type: JOB_EVENT_TYPES.ERROR,
+        actor: Actor.DOWNLOAD_WORKER,
+        stage: PIPELINE_STAGES.DOWNLOAD,
+        payload: { message: String(error) },
+      });
     } catch (logError) {
       console.error(`[yt-dlp-worker] Failed to log error for job ${jobId}:`, logError);
     }
@@ -276,21 +438,7 @@ export async function processYtDlpJob(job: Job<{ jobId: string }>): Promise<void
     }
 
     throw error;
+  } finally {
+    heartbeat?.stop();
   }
 }
-
-/**
- * Configure Bull job options
- */
-export const YT_DLP_QUEUE_NAME = "yt-dlp-downloads";
-export const DEMUCS_QUEUE_NAME = "demucs-separation";
-
-export const JOB_OPTIONS = {
-  attempts: 3,
-  backoff: {
-    type: "exponential",
-    delay: 2000,
-  },
-  removeOnComplete: false,
-  removeOnFail: false,
-};